@@ -0,0 +1,136 @@
+import { readFile, writeFile } from 'node:fs/promises';
+
+// Builds src/lib/currencies/currency-data.ts: one entry per currency either
+// store bills in. Names, symbols and display locales come from the Unicode
+// CLDR data bundled with Node's ICU; minor units from ISO 4217; the decimal
+// flags from the Google Play whole-unit list below and the Apple tier ladder;
+// Google's per-currency price limits from scripts/data/google-play-price-ranges.csv.
+// A store that does not bill a currency is assumed to accept decimals in it.
+const GOOGLE_REGIONS_FILE = new URL('../src/lib/google-play/types.ts', import.meta.url);
+const APPLE_TIERS_FILE = new URL('../src/lib/apple-connect/price-tier-data.json', import.meta.url);
+const GOOGLE_RANGES_FILE = new URL('./data/google-play-price-ranges.csv', import.meta.url);
+const OUTPUT_FILE = new URL('../src/lib/currencies/currency-data.ts', import.meta.url);
+
+// ISO 4217 exponents other than 2 (the default)
+const ISO_MINOR_UNITS = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+};
+
+// Currencies Google Play prices in whole units
+const GOOGLE_WHOLE_UNITS = new Set([
+  'CLP', 'COP', 'HUF', 'IDR', 'IQD', 'JPY', 'KRW', 'KZT', 'MNT', 'PYG',
+  'TZS', 'UGX', 'VND', 'XAF', 'XOF',
+]);
+
+// Country whose locale represents a currency used in several places, or
+// whose code does not start with the country code
+const CURRENCY_COUNTRY = {
+  EUR: 'DE', USD: 'US', XAF: 'CM', XOF: 'SN', XCD: 'AG', ANG: 'CW',
+};
+
+// CLDR's most likely language is not the usual language of commerce here
+const LOCALE_OVERRIDES = {
+  CM: 'fr-CM', SN: 'fr-SN', IN: 'en-IN', PK: 'en-PK', NG: 'en-NG',
+  KE: 'en-KE', TZ: 'en-TZ', UG: 'en-UG', PH: 'en-PH', LK: 'en-LK',
+};
+
+function displayLocale(currency) {
+  const country = CURRENCY_COUNTRY[currency] ?? currency.slice(0, 2);
+  if (LOCALE_OVERRIDES[country]) return LOCALE_OVERRIDES[country];
+  const likely = new Intl.Locale(`und-${country}`).maximize();
+  return `${likely.language}-${country}`;
+}
+
+function currencySymbol(locale, currency, display) {
+  return (
+    new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: display })
+      .formatToParts(0)
+      .find((part) => part.type === 'currency')?.value ?? currency
+  );
+}
+
+function quote(value) {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function renderEntry(code, entry) {
+  const range = entry.googleRange
+    ? [
+        `    googleMinPrice: ${entry.googleRange.min},`,
+        `    googleMaxPrice: ${entry.googleRange.max},`,
+        ...(entry.googleRange.step ? [`    googlePriceStep: ${entry.googleRange.step},`] : []),
+      ]
+    : [];
+  return [
+    `  ${code}: {`,
+    `    code: '${code}',`,
+    `    name: ${quote(entry.name)},`,
+    `    minorUnits: ${entry.minorUnits},`,
+    `    symbol: ${quote(entry.symbol)},`,
+    `    nativeSymbol: ${quote(entry.nativeSymbol)},`,
+    `    locale: '${entry.locale}',`,
+    `    googleDecimals: ${entry.googleDecimals},`,
+    `    appleDecimals: ${entry.appleDecimals},`,
+    ...range,
+    '  },',
+  ].join('\n');
+}
+
+const regionsSource = await readFile(GOOGLE_REGIONS_FILE, 'utf8');
+const googleCurrencies = new Set(
+  [...regionsSource.matchAll(/currency: '([A-Z]{3})'/g)].map((match) => match[1])
+);
+const rangesCsv = await readFile(GOOGLE_RANGES_FILE, 'utf8');
+const rangesSnapshot = rangesCsv.match(/^# snapshot: (.+)$/m)?.[1]?.trim() ?? 'unknown';
+const googleRanges = {};
+for (const line of rangesCsv.split('\n').map((l) => l.trim())) {
+  if (!line || line.startsWith('#') || line.startsWith('currency,')) continue;
+  const [currency, min, max, step] = line.split(',');
+  const range = { min: Number(min), max: Number(max), step: step ? Number(step) : undefined };
+  if (!/^[A-Z]{3}$/.test(currency) || !(range.min > 0) || !(range.max > range.min)) {
+    throw new Error(`Invalid price range row: ${line}`);
+  }
+  googleRanges[currency] = range;
+}
+
+const appleTiers = JSON.parse(await readFile(APPLE_TIERS_FILE, 'utf8'));
+
+const names = new Intl.DisplayNames('en', { type: 'currency' });
+const codes = [...new Set([...googleCurrencies, ...Object.keys(appleTiers)])].sort();
+const entries = codes.map((code) => {
+  const locale = displayLocale(code);
+  const tiers = appleTiers[code];
+  return [
+    code,
+    {
+      name: names.of(code) ?? code,
+      minorUnits: ISO_MINOR_UNITS[code] ?? 2,
+      symbol: currencySymbol('en-US', code, 'symbol'),
+      nativeSymbol: currencySymbol(locale, code, 'narrowSymbol'),
+      locale,
+      googleDecimals: !GOOGLE_WHOLE_UNITS.has(code),
+      // Apple price points carry decimals when any tier is fractional
+      appleDecimals: tiers ? tiers.some(([price]) => !Number.isInteger(price)) : true,
+      googleRange: googleRanges[code],
+    },
+  ];
+});
+
+const output = [
+  '// Auto-generated by scripts/generate-currency-metadata.mjs — do not edit by hand.',
+  `// Source: ISO 4217 (minor units), Unicode CLDR via Node ICU ${process.versions.icu}`,
+  '// (names, symbols, locales), Google Play whole-unit currencies, Apple tier ladder,',
+  `// Google Play price ranges (scripts/data/google-play-price-ranges.csv, snapshot ${rangesSnapshot}).`,
+  '',
+  "import type { CurrencyInfo } from './registry';",
+  '',
+  'export const CURRENCY_DATA: Record<string, CurrencyInfo> = {',
+  ...entries.map(([code, entry]) => renderEntry(code, entry)),
+  '};',
+  '',
+].join('\n');
+
+await writeFile(OUTPUT_FILE, output);
+console.log(`Wrote ${entries.length} currencies to ${OUTPUT_FILE.pathname}`);
@@ -0,0 +1,114 @@
+import { writeFile } from 'node:fs/promises';
+
+// World Bank GNI per capita, Atlas method (current US$)
+const INDICATOR = 'NY.GNP.PCAP.CD';
+const API_BASE = process.env.WORLD_BANK_API || 'https://api.worldbank.org/v2';
+const SOURCE_URL = `https://data.worldbank.org/indicator/${INDICATOR}`;
+const SOURCE_LICENSE = 'CC-BY-4.0';
+const OUTPUT_FILE = new URL('../src/lib/conversion-indexes/gni.ts', import.meta.url);
+
+// Prices don't scale one-to-one with income: a country with a quarter of US
+// income doesn't pay a quarter of the US price for software. The multiplier
+// is (GNI / US GNI) ^ GNI_ELASTICITY, so 1/4 of US income → 0.5.
+const GNI_ELASTICITY = 0.5;
+
+function clamp(value) {
+  return Math.max(0.1, Math.min(2.0, value));
+}
+
+function round(value) {
+  return Math.round(value * 10000) / 10000;
+}
+
+async function fetchJson(path) {
+  const url = `${API_BASE}${path}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+function renderEntry(code, entry) {
+  const multiplier = Number.isInteger(entry.multiplier)
+    ? entry.multiplier.toFixed(1)
+    : String(entry.multiplier);
+  return [
+    `  ${code}: {`,
+    `    multiplier: ${multiplier},`,
+    `    gniPerCapitaUsd: ${entry.gniPerCapitaUsd},`,
+    `    year: ${entry.year},`,
+    '  },',
+  ].join('\n');
+}
+
+// Countries only: the indicator endpoint also returns regional aggregates
+const [, countries] = await fetchJson('/country?format=json&per_page=400');
+const countryCodes = new Set(
+  countries
+    .filter((country) => country.region?.value !== 'Aggregates' && /^[A-Z]{2}$/.test(country.iso2Code))
+    .map((country) => country.iso2Code)
+);
+
+// mrnev=1: most recent non-empty value per country
+const [meta, rows] = await fetchJson(`/country/all/indicator/${INDICATOR}?format=json&per_page=20000&mrnev=1`);
+const fetchedAt = new Date().toISOString().slice(0, 10);
+const values = {};
+for (const row of rows ?? []) {
+  const code = row.country?.id;
+  if (countryCodes.has(code) && Number.isFinite(row.value) && row.value > 0) {
+    values[code] = { gniPerCapitaUsd: row.value, year: Number(row.date) };
+  }
+}
+
+const us = values.US;
+if (!us) {
+  throw new Error('Missing US GNI per capita');
+}
+
+const index = {};
+for (const [code, value] of Object.entries(values)) {
+  index[code] = {
+    multiplier: round(clamp((value.gniPerCapitaUsd / us.gniPerCapitaUsd) ** GNI_ELASTICITY)),
+    ...value,
+  };
+}
+
+const sortedEntries = Object.entries(index).sort(([a], [b]) => a.localeCompare(b));
+const contents = `// GNI per capita affordability index for regional pricing
+// Source: World Bank, GNI per capita, Atlas method (current US$), ${INDICATOR}, ${SOURCE_LICENSE}, ${SOURCE_URL}
+// Source snapshot: World Bank API, fetched ${fetchedAt}${meta?.lastupdated ? ` (data last updated ${meta.lastupdated})` : ''}
+// Generated by: scripts/generate-gni-index.mjs
+
+export interface GniIndexEntry {
+  multiplier: number;
+  gniPerCapitaUsd: number;
+  /** Year of the most recent reported value */
+  year: number;
+}
+
+// Income-based multipliers relative to US (US = 1.0).
+// Multiplier = (country GNI per capita / US GNI per capita) ^ ${GNI_ELASTICITY}, clamped to [0.1, 2.0].
+export const GNI_INDEX: Record<string, GniIndexEntry> = {
+${sortedEntries.map(([code, entry]) => renderEntry(code, entry)).join('\n')}
+};
+
+export const DEFAULT_GNI_MULTIPLIER = 0.70;
+
+export function getGniMultiplier(regionCode: string): number {
+  return GNI_INDEX[regionCode]?.multiplier ?? DEFAULT_GNI_MULTIPLIER;
+}
+
+export function getAllGniData(): Record<string, { multiplier: number; source: 'world-bank-gni' | 'default' }> {
+  const result: Record<string, { multiplier: number; source: 'world-bank-gni' | 'default' }> = {};
+
+  for (const [regionCode, entry] of Object.entries(GNI_INDEX)) {
+    result[regionCode] = { multiplier: entry.multiplier, source: 'world-bank-gni' };
+  }
+
+  return result;
+}
+`;
+
+await writeFile(OUTPUT_FILE, contents);
+console.log(`Generated ${OUTPUT_FILE.pathname} with ${sortedEntries.length} entries`);
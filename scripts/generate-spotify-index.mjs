@@ -0,0 +1,119 @@
+import { readFile, writeFile } from 'node:fs/promises';
+
+// Spotify publishes prices per country but no dataset or API, so the local
+// prices are kept in a CSV and converted with the bundled fallback FX table.
+const PRICES_FILE = new URL('./data/spotify-premium-prices.csv', import.meta.url);
+const RATES_FILE = new URL('../src/lib/conversion-indexes/exchange-rates.ts', import.meta.url);
+const OUTPUT_FILE = new URL('../src/lib/conversion-indexes/spotify.ts', import.meta.url);
+const SOURCE_URL = 'https://www.spotify.com/<country>/premium/';
+const SOURCE_LICENSE = 'none (factual list prices)';
+
+function clamp(value) {
+  return Math.max(0.1, Math.min(2.0, value));
+}
+
+function round(value, places) {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function renderEntry(code, entry) {
+  const multiplier = Number.isInteger(entry.multiplier)
+    ? entry.multiplier.toFixed(1)
+    : String(entry.multiplier);
+  return [
+    `  ${code}: {`,
+    `    multiplier: ${multiplier},`,
+    `    premiumPriceUsd: ${entry.premiumPriceUsd},`,
+    `    localPrice: ${entry.localPrice},`,
+    `    currency: '${entry.currency}',`,
+    '  },',
+  ].join('\n');
+}
+
+const ratesSource = await readFile(RATES_FILE, 'utf8');
+const ratesUpdated = ratesSource.match(/Last updated: (\d{4}-\d{2}-\d{2})/)?.[1] ?? 'unknown';
+const rates = Object.fromEntries(
+  [...ratesSource.matchAll(/^\s+([A-Z]{3}): ([\d.]+),/gm)].map(([, code, rate]) => [code, Number(rate)])
+);
+rates.USD = 1;
+
+const csv = await readFile(PRICES_FILE, 'utf8');
+const snapshot = csv.match(/^# snapshot: (.+)$/m)?.[1]?.trim() ?? 'unknown';
+const rows = csv
+  .split('\n')
+  .map((line) => line.trim())
+  .filter((line) => line && !line.startsWith('#') && !line.startsWith('country,'))
+  .map((line) => {
+    const [code, currency, price] = line.split(',');
+    return { code, currency, localPrice: Number(price) };
+  });
+
+const usdPrice = (row) => {
+  const rate = rates[row.currency];
+  if (!rate) {
+    throw new Error(`No fallback exchange rate for ${row.currency} (${row.code})`);
+  }
+  return row.localPrice / rate;
+};
+
+const us = rows.find((row) => row.code === 'US');
+if (!us) {
+  throw new Error('Missing US row');
+}
+const usPriceUsd = usdPrice(us);
+
+const index = {};
+for (const row of rows) {
+  if (!/^[A-Z]{2}$/.test(row.code) || !Number.isFinite(row.localPrice)) {
+    throw new Error(`Invalid row for ${row.code}`);
+  }
+  const premiumPriceUsd = usdPrice(row);
+  index[row.code] = {
+    multiplier: round(clamp(premiumPriceUsd / usPriceUsd), 4),
+    premiumPriceUsd: round(premiumPriceUsd, 2),
+    localPrice: row.localPrice,
+    currency: row.currency,
+  };
+}
+
+const sortedEntries = Object.entries(index).sort(([a], [b]) => a.localeCompare(b));
+const contents = `// Spotify Premium price index data for regional pricing
+// Source: Spotify Premium Individual list prices, ${SOURCE_URL}
+// Licence: ${SOURCE_LICENSE}
+// Price snapshot: ${snapshot} (scripts/data/spotify-premium-prices.csv)
+// FX: fallback exchange rates, last updated ${ratesUpdated}
+// Generated by: scripts/generate-spotify-index.mjs
+
+export interface SpotifyPriceIndexEntry {
+  multiplier: number;
+  premiumPriceUsd: number;
+  localPrice: number;
+  currency: string;
+}
+
+// Spotify Premium Individual multipliers relative to US (US = 1.0).
+// Multiplier = country Premium price in USD / US Premium price in USD.
+export const SPOTIFY_PRICE_INDEX: Record<string, SpotifyPriceIndexEntry> = {
+${sortedEntries.map(([code, entry]) => renderEntry(code, entry)).join('\n')}
+};
+
+export const DEFAULT_SPOTIFY_MULTIPLIER = 0.70;
+
+export function getSpotifyMultiplier(regionCode: string): number {
+  return SPOTIFY_PRICE_INDEX[regionCode]?.multiplier ?? DEFAULT_SPOTIFY_MULTIPLIER;
+}
+
+export function getAllSpotifyData(): Record<string, { multiplier: number; source: 'spotify-premium' | 'default' }> {
+  const result: Record<string, { multiplier: number; source: 'spotify-premium' | 'default' }> = {};
+
+  for (const [regionCode, entry] of Object.entries(SPOTIFY_PRICE_INDEX)) {
+    result[regionCode] = { multiplier: entry.multiplier, source: 'spotify-premium' };
+  }
+
+  return result;
+}
+`;
+
+await writeFile(OUTPUT_FILE, contents);
+console.log(`Generated ${OUTPUT_FILE.pathname} with ${sortedEntries.length} entries`);
@@ -11,9 +11,12 @@ import {
   AppleApiError,
   type PPPResolutionResult,
 } from '@/lib/apple-connect';
+import { hasChangeThreshold, splitByChangeThreshold } from '@/lib/google-play/change-threshold';
+import { parseMoney, type Money } from '@/lib/google-play/types';
 import {
   validateAndDecodeAppleProductId,
   ValidationError,
+  changeThresholdSchema,
   regionCodeSchema,
   currencyCodeSchema,
 } from '@/lib/validation';
@@ -82,6 +85,12 @@ export async function GET(
   }
 }
 
+const moneyPriceSchema = z.object({
+  currencyCode: currencyCodeSchema,
+  units: z.string().regex(/^-?\d+$/, 'Units must be a numeric string'),
+  nanos: z.number().int().min(-999999999).max(999999999).optional(),
+});
+
 // Schema for price update - supports both pricePointId and Money format
 const updatePriceSchema = z.object({
   prices: z.record(
@@ -93,11 +102,7 @@ const updatePriceSchema = z.object({
         startDate: z.string().optional(),
       }),
       // Format 2: Money format (from bulk pricing modal)
-      z.object({
-        currencyCode: currencyCodeSchema,
-        units: z.string().regex(/^-?\d+$/, 'Units must be a numeric string'),
-        nanos: z.number().int().min(-999999999).max(999999999).optional(),
-      }),
+      moneyPriceSchema,
     ])
   ),
   defaultPrice: z.object({
@@ -105,6 +110,16 @@ const updatePriceSchema = z.object({
     units: z.string().regex(/^-?\d+$/, 'Units must be a numeric string'),
     nanos: z.number().int().min(-999999999).max(999999999).optional(),
   }).optional(),
+  // Money format only: territories whose new price is this close to the live one are left alone
+  changeThreshold: changeThresholdSchema.optional(),
+  // Money format only: later steps of a stepped rollout, added to the price
+  // schedule with their start dates
+  scheduledSteps: z.array(
+    z.object({
+      startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be YYYY-MM-DD'),
+      prices: z.record(regionCodeSchema, moneyPriceSchema),
+    })
+  ).max(12).optional(),
 });
 
 // PATCH /api/apple/products/[id] - Update product prices
@@ -168,13 +183,14 @@ export async function PATCH(
     product.baseTerritory = await getBaseTerritoryForProduct(auth.credentials, product.id);
 
     // Update prices
-    const { prices } = result.data;
+    const { prices, changeThreshold, scheduledSteps = [] } = result.data;
 
     // Check if any price uses Money format (vs pricePointId format)
     const usesMoneyFormat = Object.values(prices).some(p => 'currencyCode' in p);
 
     // Track skipped territories for response
     let skippedTerritories: string[] = [];
+    let unchangedTerritories: string[] = [];
     let updatedCount = 0;
 
     if (usesMoneyFormat) {
@@ -203,16 +219,49 @@ export async function PATCH(
         );
       }
 
+      // Territories below the change threshold keep their current price point.
+      // The schedule replaces every manual price, so they are sent back as-is.
+      let keptPrices: Array<{ territoryId: string; pricePointId: string }> = [];
+      let pricesToResolve = moneyPrices;
+      if (hasChangeThreshold(changeThreshold)) {
+        const currentPrices = await getInAppPurchasePrices(auth.credentials, product.id);
+        const currentMoney: Record<string, Money> = {};
+        for (const [territoryCode, price] of Object.entries(currentPrices)) {
+          currentMoney[territoryCode] = parseMoney(parseFloat(price.customerPrice || '0'), price.currency);
+        }
+        const split = splitByChangeThreshold(
+          moneyPrices,
+          currentMoney,
+          changeThreshold,
+          (price) => price
+        );
+        pricesToResolve = split.changed;
+        unchangedTerritories = split.unchanged;
+        keptPrices = split.unchanged.map((territoryId) => ({
+          territoryId,
+          pricePointId: currentPrices[territoryId].pricePointId,
+        }));
+
+        if (Object.keys(pricesToResolve).length === 0 && scheduledSteps.length === 0) {
+          return NextResponse.json({
+            success: true,
+            product: { ...product, prices: currentPrices },
+            updated: 0,
+            skipped: [],
+            unchanged: unchangedTerritories,
+          });
+        }
+      }
+
       // Resolve all PPP prices to price points (batched parallel requests)
-      const result: PPPResolutionResult = await resolvePPPPricesToPricePoints(
-        auth.credentials,
-        product.id,
-        moneyPrices
-      );
+      const hasPricesToResolve = Object.keys(pricesToResolve).length > 0;
+      const result: PPPResolutionResult = hasPricesToResolve
+        ? await resolvePPPPricesToPricePoints(auth.credentials, product.id, pricesToResolve)
+        : { resolved: [], skipped: [] };
 
       skippedTerritories = result.skipped;
 
-      if (result.resolved.length === 0) {
+      if (hasPricesToResolve && result.resolved.length === 0) {
         return NextResponse.json(
           {
             error: 'Could not resolve any price points',
@@ -222,12 +271,19 @@ export async function PATCH(
         );
       }
 
+      // Later rollout steps join the same schedule with their start dates
+      const scheduledPrices: Array<{ territoryId: string; pricePointId: string; startDate: string }> = [];
+      for (const step of scheduledSteps) {
+        const stepResult = await resolvePPPPricesToPricePoints(auth.credentials, product.id, step.prices);
+        scheduledPrices.push(...stepResult.resolved.map((price) => ({ ...price, startDate: step.startDate })));
+        skippedTerritories = [...new Set([...skippedTerritories, ...stepResult.skipped])];
+      }
 
       // Update all prices at once
       await updateInAppPurchasePrices(
         auth.credentials,
         product.id,
-        result.resolved,
+        [...result.resolved, ...keptPrices, ...scheduledPrices],
         baseTerritory
       );
 
@@ -270,6 +326,7 @@ export async function PATCH(
       product: updatedProduct,
       updated: updatedCount,
       skipped: skippedTerritories,
+      unchanged: unchangedTerritories,
     });
   } catch (error) {
     console.error('Error updating Apple product:', error);
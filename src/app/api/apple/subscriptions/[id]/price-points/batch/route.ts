@@ -3,9 +3,13 @@ import { z } from 'zod';
 import { getAppleAuthFromCookies } from '../../../../auth/route';
 import {
   getSubscriptionPricePoints,
+  getSubscriptionPrices,
   AppleApiError,
 } from '@/lib/apple-connect';
 import { alpha2ToAlpha3 } from '@/lib/apple-connect/territories';
+import { hasChangeThreshold, isBelowChangeThreshold } from '@/lib/google-play/change-threshold';
+import { parseMoney } from '@/lib/google-play/types';
+import { changeThresholdSchema } from '@/lib/validation';
 import { executeWithRateLimit, RateLimitError } from '@/lib/utils/rate-limit';
 import { createNdjsonStream, NDJSON_HEADERS } from '@/lib/utils/ndjson-stream';
 
@@ -17,6 +21,8 @@ const batchSchema = z.object({
       currency: z.string().min(1),
     })
   ),
+  // Territories whose closest price point is this close to the live price are left alone
+  changeThreshold: changeThresholdSchema.optional(),
 });
 
 // POST /api/apple/subscriptions/[id]/price-points/batch
@@ -54,7 +60,7 @@ export async function POST(
       );
     }
 
-    const { territories } = result.data;
+    const { territories, changeThreshold } = result.data;
     const entries = Object.entries(territories);
 
     if (entries.length === 0) {
@@ -73,6 +79,12 @@ export async function POST(
       try {
         const resolved: Record<string, { pricePointId: string; tierPrice: number }> = {};
         const skipped: string[] = [];
+        const unchanged: string[] = [];
+
+        // Live prices keyed by alpha-2, only needed to apply the change threshold
+        const currentPrices = hasChangeThreshold(changeThreshold)
+          ? (await getSubscriptionPrices(credentials, subscriptionId)).current
+          : {};
 
         // Build tasks — one per territory
         const tasks = entries.map(
@@ -100,7 +112,7 @@ export async function POST(
         });
 
         // Find the closest price point for each territory
-        for (const { territoryCode, targetPrice, pricePoints } of results) {
+        for (const { territoryCode, targetPrice, currency, pricePoints } of results) {
           if (!pricePoints || pricePoints.length === 0) {
             skipped.push(territoryCode);
             continue;
@@ -114,13 +126,27 @@ export async function POST(
               : best;
           });
 
+          const tierPrice = parseFloat(closest.customerPrice);
+          const current = currentPrices[territoryCode];
+          if (
+            current &&
+            isBelowChangeThreshold(
+              parseMoney(parseFloat(current.customerPrice || '0'), current.currency),
+              parseMoney(tierPrice, currency),
+              changeThreshold
+            )
+          ) {
+            unchanged.push(territoryCode);
+            continue;
+          }
+
           resolved[territoryCode] = {
             pricePointId: closest.id,
-            tierPrice: parseFloat(closest.customerPrice),
+            tierPrice,
           };
         }
 
-        writer.done({ resolved, skipped });
+        writer.done({ resolved, skipped, unchanged });
       } catch (error) {
         console.error('Error resolving subscription price points:', error);
 
@@ -12,6 +12,9 @@ import {
   calculateNewBasePlanPrice,
 } from '@/lib/google-play/subscriptions';
 import type { Money, RegionalBasePlanConfig } from '@/lib/google-play/types';
+import { formatMoneyAmount } from '@/lib/google-play/money';
+import { isBelowChangeThreshold } from '@/lib/google-play/change-threshold';
+import { changeThresholdSchema } from '@/lib/validation';
 
 const bulkOperationSchema = z.object({
   type: z.enum(['fixed', 'percentage', 'round']),
@@ -30,6 +33,8 @@ const bulkUpdateSchema = z.object({
   operation: bulkOperationSchema,
   targetRegions: z.array(z.string()).min(1, 'At least one target region is required').max(200, 'Maximum 200 target regions per bulk update'),
   stopOnFailure: z.boolean().optional().default(false),
+  // Regions whose new price is this close to the live one are left alone
+  changeThreshold: changeThresholdSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -61,7 +66,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { items, operation, targetRegions, stopOnFailure } = result.data;
+    const { items, operation, targetRegions, stopOnFailure, changeThreshold } = result.data;
 
     const results: Array<{
       id: string;
@@ -74,6 +79,8 @@ export async function POST(request: NextRequest) {
         oldPrice: string;
         newPrice: string;
       }>;
+      /** Regions left at their live price (below the change threshold) */
+      unchanged?: string[];
     }> = [];
 
     let stopped = false;
@@ -115,25 +122,23 @@ export async function POST(request: NextRequest) {
             newPrice: string;
           }> = [];
           const newPrices: Record<string, Money> = {};
+          const unchanged: string[] = [];
 
           for (const regionCode of targetRegions) {
             const currentPrice = product.prices?.[regionCode];
             if (!currentPrice) continue;
 
             const newPrice = calculateNewPrice(currentPrice, operation);
+            if (isBelowChangeThreshold(currentPrice, newPrice, changeThreshold)) {
+              unchanged.push(regionCode);
+              continue;
+            }
             newPrices[regionCode] = newPrice;
 
-            const oldAmount =
-              parseFloat(currentPrice.units) +
-              (currentPrice.nanos ? currentPrice.nanos / 1_000_000_000 : 0);
-            const newAmount =
-              parseFloat(newPrice.units) +
-              (newPrice.nanos ? newPrice.nanos / 1_000_000_000 : 0);
-
             changes.push({
               regionCode,
-              oldPrice: `${currentPrice.currencyCode} ${oldAmount.toFixed(2)}`,
-              newPrice: `${newPrice.currencyCode} ${newAmount.toFixed(2)}`,
+              oldPrice: `${currentPrice.currencyCode} ${formatMoneyAmount(currentPrice)}`,
+              newPrice: `${newPrice.currencyCode} ${formatMoneyAmount(newPrice)}`,
             });
           }
 
@@ -151,6 +156,7 @@ export async function POST(request: NextRequest) {
             success: true,
             committed: true,
             changes,
+            ...(unchanged.length > 0 ? { unchanged } : {}),
           });
         } else if (item.type === 'subscription' && item.basePlanId) {
           const subscription = await getSubscription(
@@ -193,6 +199,7 @@ export async function POST(request: NextRequest) {
             newPrice: string;
           }> = [];
           const newConfigs: RegionalBasePlanConfig[] = [];
+          const unchanged: string[] = [];
 
           for (const regionCode of targetRegions) {
             const currentConfig = basePlan.regionalConfigs?.find(
@@ -201,23 +208,16 @@ export async function POST(request: NextRequest) {
             if (!currentConfig) continue;
 
             const newConfig = calculateNewBasePlanPrice(currentConfig, operation);
+            if (isBelowChangeThreshold(currentConfig.price, newConfig.price, changeThreshold)) {
+              unchanged.push(regionCode);
+              continue;
+            }
             newConfigs.push(newConfig);
 
-            const oldAmount =
-              parseFloat(currentConfig.price.units) +
-              (currentConfig.price.nanos
-                ? currentConfig.price.nanos / 1_000_000_000
-                : 0);
-            const newAmount =
-              parseFloat(newConfig.price.units) +
-              (newConfig.price.nanos
-                ? newConfig.price.nanos / 1_000_000_000
-                : 0);
-
             changes.push({
               regionCode,
-              oldPrice: `${currentConfig.price.currencyCode} ${oldAmount.toFixed(2)}`,
-              newPrice: `${newConfig.price.currencyCode} ${newAmount.toFixed(2)}`,
+              oldPrice: `${currentConfig.price.currencyCode} ${formatMoneyAmount(currentConfig.price)}`,
+              newPrice: `${newConfig.price.currencyCode} ${formatMoneyAmount(newConfig.price)}`,
             });
           }
 
@@ -237,6 +237,7 @@ export async function POST(request: NextRequest) {
             success: true,
             committed: true,
             changes,
+            ...(unchanged.length > 0 ? { unchanged } : {}),
           });
         }
       } catch (error) {
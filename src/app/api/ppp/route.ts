@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getPPPMultipliers } from '@/lib/world-bank/ppp';
+import { parsePPPYearSelection, type PPPYearRange } from '@/lib/world-bank/ppp-years';
 import { PRICING_INDEX, DEFAULT_PRICING_INDEX_ENTRY, LOCAL_CURRENCIES } from '@/lib/conversion-indexes/ppp';
 import { BIG_MAC_INDEX, DEFAULT_BIG_MAC_MULTIPLIER } from '@/lib/conversion-indexes/big-mac';
 import { NETFLIX_PRICE_INDEX, DEFAULT_NETFLIX_MULTIPLIER } from '@/lib/conversion-indexes/netflix';
@@ -13,6 +14,7 @@ const FALLBACK_RATES_SNAPSHOT_DATE = '2026-02-01';
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const forceRefresh = searchParams.get('refresh') === 'true';
+  const yearSelection = parsePPPYearSelection(searchParams);
 
   // Pull user-supplied key from cookie (Settings page) so prod works without a
   // Cloudflare secret. Falls back to env var inside getExchangeRates().
@@ -22,7 +24,7 @@ export async function GET(request: Request) {
   // Run both fetches independently so a missing/failed exchange-rates key does
   // not nuke the entire response with static fallback.
   const [pppResult, ratesResult] = await Promise.allSettled([
-    getPPPMultipliers(forceRefresh),
+    getPPPMultipliers(forceRefresh, yearSelection),
     getExchangeRates(forceRefresh, userApiKey),
   ]);
 
@@ -94,6 +96,10 @@ export async function GET(request: Request) {
     const mergedData: Record<string, {
       pppMultiplier: number;
       pppConversionFactor?: number;
+      pppYears?: PPPYearRange;
+      consumptionPppMultiplier?: number;
+      consumptionPppConversionFactor?: number;
+      consumptionPppYears?: PPPYearRange;
       marketExchangeRate?: number;
       bigMacMultiplier?: number;
       netflixMultiplier?: number;
@@ -132,6 +138,7 @@ export async function GET(request: Request) {
       if (mergedData[regionCode]) {
         mergedData[regionCode].pppMultiplier = realPPPMultiplier;
         mergedData[regionCode].pppConversionFactor = conversionFactor;
+        mergedData[regionCode].pppYears = pppData.pppYears[regionCode];
         if (marketRate) mergedData[regionCode].marketExchangeRate = marketRate;
         mergedData[regionCode].source = 'world-bank';
       } else {
@@ -139,6 +146,7 @@ export async function GET(request: Request) {
         mergedData[regionCode] = {
           pppMultiplier: realPPPMultiplier,
           pppConversionFactor: conversionFactor,
+          pppYears: pppData.pppYears[regionCode],
           ...(marketRate ? { marketExchangeRate: marketRate } : {}),
           bigMacMultiplier: BIG_MAC_INDEX[regionCode] ?? DEFAULT_BIG_MAC_MULTIPLIER,
           netflixMultiplier: NETFLIX_PRICE_INDEX[regionCode]?.multiplier ?? DEFAULT_NETFLIX_MULTIPLIER,
@@ -149,6 +157,18 @@ export async function GET(request: Request) {
       }
     }
 
+    // Private-consumption PPP, computed the same way against the same market rates
+    for (const [regionCode, conversionFactor] of Object.entries(pppData.consumptionPppConversionFactors)) {
+      const entry = mergedData[regionCode];
+      if (!entry) continue;
+      const marketRate = exchangeRates.rates[LOCAL_CURRENCIES[regionCode]];
+      entry.consumptionPppConversionFactor = conversionFactor;
+      entry.consumptionPppYears = pppData.consumptionPppYears[regionCode];
+      if (marketRate) {
+        entry.consumptionPppMultiplier = Math.max(0.1, Math.min(2.0, conversionFactor / marketRate));
+      }
+    }
+
     const warning =
       exchangeRatesSource === 'fallback'
         ? `Using static exchange rates from ${FALLBACK_RATES_SNAPSHOT_DATE} (live source unavailable).`
@@ -159,8 +179,10 @@ export async function GET(request: Request) {
       data: mergedData,
       metadata: {
         baseYear: pppData.baseYear,
+        yearSelection: pppData.yearSelection,
         fetchedAt: pppData.fetchedAt.toISOString(),
         worldBankRegions: Object.keys(pppData.multipliers).length,
+        consumptionPppRegions: Object.keys(pppData.consumptionPppConversionFactors).length,
         totalRegions: Object.keys(mergedData).length,
         exchangeRatesSource,
         exchangeRatesSnapshotDate:
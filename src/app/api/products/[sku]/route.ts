@@ -3,9 +3,11 @@ import { z } from 'zod';
 import { getAuthFromCookies } from '../../auth/route';
 import { getInAppProduct, updateInAppProductPrices, deleteRegionPrice } from '@/lib/google-play/products';
 import { GOOGLE_PRICING_WRITE_DENIED_ERROR } from '@/lib/google-play/errors';
+import { hasChangeThreshold, splitByChangeThreshold } from '@/lib/google-play/change-threshold';
 import {
   validateAndDecodeSku,
   ValidationError,
+  changeThresholdSchema,
   moneySchema,
   regionCodeSchema,
 } from '@/lib/validation';
@@ -13,6 +15,8 @@ import {
 const updatePricesSchema = z.object({
   prices: z.record(regionCodeSchema, moneySchema),
   defaultPrice: moneySchema.optional(),
+  // Regions whose new price is this close to the live one are left alone
+  changeThreshold: changeThresholdSchema.optional(),
 });
 
 const deleteRegionSchema = z.object({
@@ -127,15 +131,36 @@ export async function PATCH(
       );
     }
 
+    let prices = result.data.prices;
+    let unchanged: string[] = [];
+    if (hasChangeThreshold(result.data.changeThreshold)) {
+      const current = await getInAppProduct(auth.credentials, auth.packageName, sku);
+      if (!current) {
+        return NextResponse.json(
+          { error: 'Product not found' },
+          { status: 404 }
+        );
+      }
+      ({ changed: prices, unchanged } = splitByChangeThreshold(
+        prices,
+        current.prices ?? {},
+        result.data.changeThreshold,
+        (money) => money
+      ));
+      if (Object.keys(prices).length === 0) {
+        return NextResponse.json({ product: current, unchanged });
+      }
+    }
+
     const updatedProduct = await updateInAppProductPrices(
       auth.credentials,
       auth.packageName,
       sku,
-      result.data.prices,
+      prices,
       result.data.defaultPrice
     );
 
-    return NextResponse.json({ product: updatedProduct });
+    return NextResponse.json({ product: updatedProduct, unchanged });
   } catch (error: unknown) {
     console.error('Product update error:', error);
     const err = error as { code?: number; message?: string };
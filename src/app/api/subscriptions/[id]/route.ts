@@ -7,9 +7,11 @@ import {
   deleteBasePlanRegionPrice,
 } from '@/lib/google-play/subscriptions';
 import { GOOGLE_PRICING_WRITE_DENIED_ERROR } from '@/lib/google-play/errors';
+import { hasChangeThreshold, isBelowChangeThreshold } from '@/lib/google-play/change-threshold';
 import {
   validateAndDecodeSku,
   ValidationError,
+  changeThresholdSchema,
   moneySchema,
   regionCodeSchema,
   googlePlayBasePlanIdSchema,
@@ -24,6 +26,8 @@ const regionalConfigSchema = z.object({
 const updateBasePlanSchema = z.object({
   basePlanId: googlePlayBasePlanIdSchema,
   regionalConfigs: z.array(regionalConfigSchema),
+  // Regions whose new price is this close to the live one are left alone
+  changeThreshold: changeThresholdSchema.optional(),
 });
 
 const deleteRegionSchema = z.object({
@@ -139,15 +143,39 @@ export async function PATCH(
       );
     }
 
+    let regionalConfigs = result.data.regionalConfigs;
+    const unchanged: string[] = [];
+    if (hasChangeThreshold(result.data.changeThreshold)) {
+      const subscription = await getSubscription(auth.credentials, auth.packageName, productId);
+      const basePlan = subscription?.basePlans?.find((bp) => bp.basePlanId === result.data.basePlanId);
+      if (!basePlan) {
+        return NextResponse.json(
+          { error: 'Subscription or base plan not found' },
+          { status: 404 }
+        );
+      }
+      regionalConfigs = regionalConfigs.filter((config) => {
+        const current = basePlan.regionalConfigs?.find((rc) => rc.regionCode === config.regionCode);
+        if (isBelowChangeThreshold(current?.price, config.price, result.data.changeThreshold)) {
+          unchanged.push(config.regionCode);
+          return false;
+        }
+        return true;
+      });
+      if (regionalConfigs.length === 0) {
+        return NextResponse.json({ basePlan, unchanged });
+      }
+    }
+
     const updatedBasePlan = await updateBasePlanPrices(
       auth.credentials,
       auth.packageName,
       productId,
       result.data.basePlanId,
-      result.data.regionalConfigs
+      regionalConfigs
     );
 
-    return NextResponse.json({ basePlan: updatedBasePlan });
+    return NextResponse.json({ basePlan: updatedBasePlan, unchanged });
   } catch (error: unknown) {
     console.error('Subscription update error:', error);
     const err = error as { code?: number; message?: string };
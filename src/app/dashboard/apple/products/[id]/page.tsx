@@ -1,6 +1,6 @@
 'use client';
 
-import { use } from 'react';
+import { use, useMemo } from 'react';
 import Link from 'next/link';
 import { ArrowLeft, Loader2, Package } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
@@ -11,7 +11,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Header } from '@/components/layout';
 import { PricingEditor } from '@/components/products/pricing-editor';
-import { formatMoney, parseMoney, type InAppProduct } from '@/lib/google-play/types';
+import { LivePriceAnalysisCard } from '@/components/pricing/live-price-analysis';
+import { formatMoney, parseMoney, type InAppProduct, type Money } from '@/lib/google-play/types';
 import type { RawAppleProduct } from '@/types/api';
 
 function formatAppleProductType(type?: string): string {
@@ -96,6 +97,17 @@ export default function AppleProductDetailPage({
   const product = data?.product;
   const appleProduct = product?._appleProduct as RawAppleProduct | undefined;
 
+  const livePrices = useMemo<Record<string, Money>>(
+    () =>
+      Object.fromEntries(
+        Object.entries(appleProduct?.prices || {}).map(([territory, price]) => [
+          territory,
+          parseMoney(parseFloat(price.customerPrice || '0'), price.currency),
+        ])
+      ),
+    [appleProduct?.prices]
+  );
+
   const getProductTitle = () => {
     if (!product) return decodedId;
     const listing = product.listings?.['en-US'];
@@ -192,6 +204,8 @@ export default function AppleProductDetailPage({
             </Card>
 
             <PricingEditor product={product} />
+
+            <LivePriceAnalysisCard prices={livePrices} baseRegion={appleProduct?.baseTerritory || 'USA'} />
           </>
         ) : (
           <Card>
@@ -6,6 +6,7 @@ import { toast } from 'sonner';
 import { Header } from '@/components/layout';
 import { ProductsTable } from '@/components/products/products-table';
 import { BulkUpdateModal } from '@/components/pricing/bulk-update-modal';
+import { PackLadderButton } from '@/components/products/pack-ladder-button';
 import { Button } from '@/components/ui/button';
 import { useSelectionStore } from '@/store/selection-store';
 import { parseMoney } from '@/lib/google-play/types';
@@ -80,22 +81,29 @@ export default function AppleProductsPage() {
             </p>
           </div>
 
-          {selectedProductSkus.length > 0 && (
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-muted-foreground">
-                {selectedProductSkus.length} selected
-              </span>
-              <Button onClick={() => setBulkModalOpen(true)}>
-                Bulk Update Prices
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => setSelectedProducts([])}
-              >
-                Clear Selection
-              </Button>
-            </div>
-          )}
+          <div className="flex items-center gap-2">
+            <PackLadderButton
+              platform="apple"
+              products={products}
+              selectedSkus={selectedProductSkus}
+            />
+            {selectedProductSkus.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {selectedProductSkus.length} selected
+                </span>
+                <Button onClick={() => setBulkModalOpen(true)}>
+                  Bulk Update Prices
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setSelectedProducts([])}
+                >
+                  Clear Selection
+                </Button>
+              </div>
+            )}
+          </div>
         </div>
 
         <ProductsTable
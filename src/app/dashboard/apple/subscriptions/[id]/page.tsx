@@ -1,6 +1,6 @@
 'use client';
 
-import { use, useEffect, useRef } from 'react';
+import { use, useEffect, useMemo, useRef } from 'react';
 import Link from 'next/link';
 import { ArrowLeft, CreditCard, Loader2 } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
@@ -11,7 +11,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Header } from '@/components/layout';
 import { AppleSubscriptionPricingEditor } from '@/components/subscriptions/apple-subscription-pricing-editor';
-import { formatMoney, parseMoney } from '@/lib/google-play/types';
+import { AppleGroupLadderButton } from '@/components/subscriptions/apple-group-ladder-button';
+import { LivePriceAnalysisCard } from '@/components/pricing/live-price-analysis';
+import { formatMoney, parseMoney, type Money } from '@/lib/google-play/types';
 import type { AppleProductPrice } from '@/lib/apple-connect/types';
 
 interface AppleSubscriptionResponse {
@@ -88,6 +90,16 @@ export default function AppleSubscriptionDetailPage({
 
   const subscription = data?.subscription;
 
+  // Prices in effect today; scheduled ones haven't reached customers yet
+  const livePrices = useMemo<Record<string, Money>>(() => {
+    const today = new Date().toISOString().slice(0, 10);
+    return Object.fromEntries(
+      Object.entries(subscription?.prices || {})
+        .filter(([, price]) => !price.startDate || price.startDate <= today)
+        .map(([territory, price]) => [territory, parseMoney(parseFloat(price.customerPrice), price.currency || 'USD')])
+    );
+  }, [subscription?.prices]);
+
   const getSubscriptionTitle = () => {
     if (!subscription) return decodedId;
     // Try to get localized name, fallback to name
@@ -204,9 +216,14 @@ export default function AppleSubscriptionDetailPage({
             </Card>
 
             <div>
-              <h2 className="text-lg font-semibold mb-4">Subscription Plan</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold">Subscription Plan</h2>
+                <AppleGroupLadderButton groupId={subscription.groupId} groupName={subscription.groupName} />
+              </div>
               <AppleSubscriptionPricingEditor subscription={subscription} />
             </div>
+
+            <LivePriceAnalysisCard prices={livePrices} baseRegion="US" />
           </>
         ) : (
           <Card>
@@ -0,0 +1,302 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Activity, Loader2, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TooltipProvider } from '@/components/ui/tooltip';
+import { GuardrailIndicator, GUARDRAIL_RULE_LABELS } from '@/components/pricing/guardrails-config';
+import { usePricingData } from '@/hooks/use-pricing-data';
+import { formatCurrency } from '@/lib/currencies/registry';
+import { getTerritoryByAlpha2, getTerritoryByAlpha3 } from '@/lib/apple-connect/territories';
+import {
+  FX_SHOCK_GROUPS,
+  parseFxShock,
+  simulateFxScenario,
+  type FxShock,
+} from '@/lib/google-play/fx-scenario';
+import { pricingPlanRequest } from '@/lib/google-play/pricing-plan';
+import { GOOGLE_PLAY_REGIONS, formatMoney } from '@/lib/google-play/types';
+import { usePricingStore } from '@/store/pricing-store';
+
+const DEFAULT_SHOCKS = 'TRY -30%, EUR +10%, EM -15%';
+
+function regionName(code: string): string {
+  const territory = code.length === 3 ? getTerritoryByAlpha3(code) : getTerritoryByAlpha2(code);
+  return GOOGLE_PLAY_REGIONS.find((r) => r.code === code)?.name ?? territory?.name ?? code;
+}
+
+function formatPercent(change: number): string {
+  const percent = change * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+function changeClass(change: number): string {
+  if (Math.abs(change) < 0.0005) return 'text-muted-foreground';
+  return change < 0 ? 'text-red-600 dark:text-red-500' : 'text-green-600 dark:text-green-500';
+}
+
+// Split "TRY -30%, EUR +10%" into shocks and the entries that didn't parse
+function parseShockList(text: string): { shocks: FxShock[]; invalid: string[] } {
+  const shocks: FxShock[] = [];
+  const invalid: string[] = [];
+  for (const entry of text.split(/[,;\n]/).map((e) => e.trim()).filter(Boolean)) {
+    const shock = parseFxShock(entry);
+    if (shock) shocks.push(shock);
+    else invalid.push(entry);
+  }
+  return { shocks, invalid };
+}
+
+export default function FxSimulatorPage() {
+  const plans = usePricingStore((state) => state.pricingPlans);
+  const removePricingPlan = usePricingStore((state) => state.removePricingPlan);
+  const { pppData, exchangeRates, loading } = usePricingData();
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
+  const [shockText, setShockText] = useState(DEFAULT_SHOCKS);
+  const [onlyShocked, setOnlyShocked] = useState(true);
+
+  const plan = plans.find((p) => p.id === selectedPlanId) ?? plans[plans.length - 1];
+  const { shocks, invalid } = useMemo(() => parseShockList(shockText), [shockText]);
+
+  const rows = useMemo(() => {
+    if (!plan || loading) return [];
+    const request = pricingPlanRequest(plan, {
+      pppData: pppData ?? undefined,
+      exchangeRates: exchangeRates ?? undefined,
+    });
+    return simulateFxScenario(plan.regions, request, shocks).sort(
+      (a, b) => a.usdAfter / a.usdBefore - b.usdAfter / b.usdBefore
+    );
+  }, [plan, loading, pppData, exchangeRates, shocks]);
+
+  const visibleRows = onlyShocked ? rows.filter((row) => row.fxChange !== 0) : rows;
+  const shockedCount = rows.filter((row) => row.fxChange !== 0).length;
+  const trippedRows = rows.filter((row) => row.guardrail && !row.guardrailAtBaseline);
+  const proceedsBefore = rows.reduce((sum, row) => sum + row.proceedsUsdBefore, 0);
+  const proceedsAfter = rows.reduce((sum, row) => sum + row.proceedsUsdAfter, 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Activity className="h-6 w-6" />
+          FX Simulator
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Apply hypothetical currency moves to a saved pricing plan before a pricing review
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Plan</CardTitle>
+            <CardDescription>
+              Plans are saved from a bulk pricing dialog with &quot;Save plan&quot;.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {plans.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No saved plans yet. Open bulk pricing for a product or subscription, set it up and save it as a plan.
+              </p>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Select value={plan?.id} onValueChange={setSelectedPlanId}>
+                  <SelectTrigger className="flex-1" aria-label="Pricing plan">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {plans.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name} · {p.platform === 'apple' ? 'App Store' : 'Google Play'} · {p.regions.length} regions
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {plan && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      removePricingPlan(plan.id);
+                      setSelectedPlanId(null);
+                    }}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={`Delete ${plan.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+            {plan && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {plan.settings.basePrice} {plan.settings.baseCurrency ?? 'USD'} · {plan.settings.strategy} strategy · saved{' '}
+                {new Date(plan.savedAt).toLocaleDateString()}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Shocks</CardTitle>
+            <CardDescription>
+              Change in each currency&apos;s value against USD, comma-separated. Later entries win, so
+              &quot;EM -15%, TRY -30%&quot; moves TRY by -30%.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="fx-shocks" className="sr-only">Shocks</Label>
+            <Input
+              id="fx-shocks"
+              value={shockText}
+              onChange={(e) => setShockText(e.target.value)}
+              placeholder={DEFAULT_SHOCKS}
+            />
+            <div className="flex flex-wrap gap-1">
+              {shocks.map((shock, i) => (
+                <Badge key={i} variant="secondary" title={FX_SHOCK_GROUPS[shock.target]?.label}>
+                  {shock.target} {formatPercent(shock.change)}
+                </Badge>
+              ))}
+              {invalid.map((entry) => (
+                <Badge key={entry} variant="destructive">Not understood: {entry}</Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Groups: {Object.entries(FX_SHOCK_GROUPS).map(([key, group]) => `${key} (${group.label.toLowerCase()})`).join(', ')}.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {plan && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Impact</CardTitle>
+            <CardDescription>
+              USD value and proceeds if local prices are left as they are, and the local price the plan
+              would set at the shocked rates. Guardrails compare the new price with the plan&apos;s price today.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading exchange rates and PPP data...
+              </div>
+            ) : (
+              <>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  <div className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">Regions shocked</p>
+                    <p className="text-lg font-semibold">{shockedCount} of {rows.length}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">Proceeds per sale, all regions (USD)</p>
+                    <p className={`text-lg font-semibold ${changeClass(proceedsAfter / proceedsBefore - 1)}`}>
+                      {proceedsBefore > 0 ? formatPercent(proceedsAfter / proceedsBefore - 1) : '—'}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">Guardrails tripped by the shock</p>
+                    <p className="text-lg font-semibold">{trippedRows.length}</p>
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 cursor-pointer w-fit">
+                  <Checkbox checked={onlyShocked} onCheckedChange={(checked) => setOnlyShocked(checked === true)} />
+                  <span className="text-sm">Only regions whose currency moves</span>
+                </label>
+
+                <TooltipProvider>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Region</TableHead>
+                        <TableHead className="text-right">FX</TableHead>
+                        <TableHead className="text-right">USD value</TableHead>
+                        <TableHead className="text-right">Proceeds (USD)</TableHead>
+                        <TableHead className="text-right">Repriced</TableHead>
+                        <TableHead>Guardrail</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleRows.map((row) => {
+                        const usdChange = row.usdAfter / row.usdBefore - 1;
+                        return (
+                          <TableRow key={row.regionCode}>
+                            <TableCell className="text-sm">
+                              {regionName(row.regionCode)}
+                              <span className="ml-1 text-xs text-muted-foreground">{row.currencyCode}</span>
+                            </TableCell>
+                            <TableCell className={`text-right text-sm tabular-nums ${changeClass(row.fxChange)}`}>
+                              {formatPercent(row.fxChange)}
+                            </TableCell>
+                            <TableCell className="text-right text-sm tabular-nums">
+                              {formatCurrency(row.usdBefore, 'USD')} → {formatCurrency(row.usdAfter, 'USD')}
+                              <span className={`ml-1 text-xs ${changeClass(usdChange)}`}>{formatPercent(usdChange)}</span>
+                            </TableCell>
+                            <TableCell className="text-right text-sm tabular-nums">
+                              {formatCurrency(row.proceedsUsdBefore, 'USD')} → {formatCurrency(row.proceedsUsdAfter, 'USD')}
+                            </TableCell>
+                            <TableCell className="text-right text-sm tabular-nums">
+                              {formatMoney(row.baseline.price)} → {formatMoney(row.repriced.price)}
+                              <span className={`ml-1 text-xs ${changeClass(row.repriceChange)}`}>
+                                {formatPercent(row.repriceChange)}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {row.guardrail && (
+                                <span className={row.guardrailAtBaseline ? 'text-muted-foreground' : undefined}>
+                                  <GuardrailIndicator hit={row.guardrail} currencyCode={row.currencyCode} />
+                                  {GUARDRAIL_RULE_LABELS[row.guardrail.rule]}
+                                  {row.guardrailAtBaseline && ' (already today)'}
+                                </span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TooltipProvider>
+                {visibleRows.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No region in this plan bills in a shocked currency.</p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Header } from '@/components/layout';
 import { PricingEditor } from '@/components/products/pricing-editor';
+import { LivePriceAnalysisCard } from '@/components/pricing/live-price-analysis';
 import { formatMoney } from '@/lib/google-play/types';
 import type { ProductResponse } from '@/types/api';
 
@@ -138,6 +139,8 @@ export default function GoogleProductDetailPage({
             </Card>
 
             <PricingEditor product={product} />
+
+            <LivePriceAnalysisCard prices={product.prices || {}} baseRegion="US" />
           </>
         ) : (
           <Card>
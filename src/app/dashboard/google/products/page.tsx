@@ -6,6 +6,8 @@ import { toast } from 'sonner';
 import { Header } from '@/components/layout';
 import { ProductsTable } from '@/components/products/products-table';
 import { BulkUpdateModal } from '@/components/pricing/bulk-update-modal';
+import { PriceRolloutsPanel } from '@/components/pricing/price-rollouts-panel';
+import { PackLadderButton } from '@/components/products/pack-ladder-button';
 import { Button } from '@/components/ui/button';
 import { useSelectionStore } from '@/store/selection-store';
 import type { ProductsListResponse } from '@/types/api';
@@ -55,24 +57,33 @@ export default function GoogleProductsPage() {
             </p>
           </div>
 
-          {selectedProductSkus.length > 0 && (
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-muted-foreground">
-                {selectedProductSkus.length} selected
-              </span>
-              <Button onClick={() => setBulkModalOpen(true)}>
-                Bulk Update Prices
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => setSelectedProducts([])}
-              >
-                Clear Selection
-              </Button>
-            </div>
-          )}
+          <div className="flex items-center gap-2">
+            <PackLadderButton
+              platform="google"
+              products={products}
+              selectedSkus={selectedProductSkus}
+            />
+            {selectedProductSkus.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {selectedProductSkus.length} selected
+                </span>
+                <Button onClick={() => setBulkModalOpen(true)}>
+                  Bulk Update Prices
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setSelectedProducts([])}
+                >
+                  Clear Selection
+                </Button>
+              </div>
+            )}
+          </div>
         </div>
 
+        <PriceRolloutsPanel platform="google" kind="product" />
+
         <ProductsTable
           products={products}
           isLoading={isLoading}
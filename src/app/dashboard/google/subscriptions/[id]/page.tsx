@@ -11,6 +11,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Header } from '@/components/layout';
 import { BasePlanEditor } from '@/components/subscriptions/base-plan-editor';
+import { LivePriceAnalysisCard } from '@/components/pricing/live-price-analysis';
 import { formatMoney } from '@/lib/google-play/types';
 import type { SubscriptionResponse } from '@/types/api';
 
@@ -153,6 +154,17 @@ export default function GoogleSubscriptionDetailPage({
               <h2 className="text-lg font-semibold mb-4">Base Plans</h2>
               <BasePlanEditor subscription={subscription} />
             </div>
+
+            {subscription.basePlans?.map((bp) => (
+              <LivePriceAnalysisCard
+                key={bp.basePlanId}
+                title={`Live Price Analysis: ${bp.basePlanId}`}
+                prices={Object.fromEntries(
+                  (bp.regionalConfigs || []).map((rc) => [rc.regionCode, rc.price])
+                )}
+                baseRegion="US"
+              />
+            ))}
           </>
         ) : (
           <Card>
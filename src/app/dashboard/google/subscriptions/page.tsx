@@ -6,6 +6,7 @@ import { toast } from 'sonner';
 import { Header } from '@/components/layout';
 import { SubscriptionsTable } from '@/components/subscriptions/subscriptions-table';
 import { BulkUpdateModal } from '@/components/pricing/bulk-update-modal';
+import { PriceRolloutsPanel } from '@/components/pricing/price-rollouts-panel';
 import { Button } from '@/components/ui/button';
 import { useSelectionStore } from '@/store/selection-store';
 import type { SubscriptionsListResponse } from '@/types/api';
@@ -73,6 +74,8 @@ export default function GoogleSubscriptionsPage() {
           )}
         </div>
 
+        <PriceRolloutsPanel platform="google" kind="subscription" />
+
         <SubscriptionsTable
           subscriptions={subscriptions}
           isLoading={isLoading}
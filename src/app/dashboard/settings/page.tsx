@@ -14,6 +14,9 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { CustomIndexCard } from '@/components/pricing/custom-index-card';
+import { PriceRelationshipsCard } from '@/components/pricing/relationships-card';
+import { UnstableCurrencyCard } from '@/components/pricing/unstable-currency-card';
 
 interface ApiKeyStatus {
   hasKey: boolean;
@@ -203,6 +206,12 @@ export default function SettingsPage() {
           </div>
         </CardContent>
       </Card>
+
+      <CustomIndexCard />
+
+      <PriceRelationshipsCard />
+
+      <UnstableCurrencyCard />
     </div>
   );
 }
@@ -1,8 +1,8 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, ArrowUpDown, ChevronUp, ChevronDown, Hamburger, Globe, RefreshCw, Tv } from 'lucide-react';
+import { ArrowLeft, ArrowUpDown, ChevronUp, ChevronDown, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -32,11 +32,39 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   calculateBulkPrices,
   getAllRegionCodes,
+  DEFAULT_BLEND_CONFIG,
+  listPricingStrategies,
+  getMultiplierSourceLabel,
+  type BlendConfig,
+  type PricingStrategy,
   type DynamicPPPData,
   type DynamicExchangeRates,
 } from '@/lib/google-play/currency';
-import { GOOGLE_PLAY_REGIONS, formatMoney } from '@/lib/google-play/types';
-import { getCurrencySymbol } from '@/lib/utils/currency';
+import { BlendWeightsEditor, BlendBreakdown } from '@/components/pricing/blend-config';
+import { PriceEndingsEditor } from '@/components/pricing/price-endings-config';
+import { PriceTraceToggle, PriceTraceRow } from '@/components/pricing/price-trace';
+import { getStrategyIcon } from '@/components/pricing/strategy-picker';
+import { PriceBandsEditor, PriceBandSummary, PriceBandBadge } from '@/components/pricing/price-bands-config';
+import { PppYearSelect } from '@/components/pricing/ppp-year-select';
+import { UnstableCurrencyIndicator } from '@/components/pricing/unstable-currency-card';
+import { LivePriceAnalysisTable } from '@/components/pricing/live-price-analysis';
+import { analyzeLivePrices, parseLivePriceList } from '@/lib/google-play/inverse-pricing';
+import type { PriceBandConfig } from '@/lib/google-play/price-bands';
+import { usePricingStore } from '@/store/pricing-store';
+import { formatPPPYearRange, pppApiUrl } from '@/lib/world-bank/ppp-years';
+import { GOOGLE_PLAY_REGIONS, formatMoney, parseMoney } from '@/lib/google-play/types';
+import { getCurrencySymbol } from '@/lib/currencies/registry';
+
+// Strategies driven by index data; direct, proceeds and custom have nothing to compare
+function listIndexStrategies() {
+  return listPricingStrategies().filter((strategy) => strategy.index);
+}
+
+// Where each World Bank PPP strategy's data year is recorded
+const PPP_YEAR_FIELDS: Record<string, 'pppYears' | 'consumptionPppYears'> = {
+  ppp: 'pppYears',
+  'ppp-consumption': 'consumptionPppYears',
+};
 
 interface PPPApiResponse {
   success: boolean;
@@ -66,8 +94,17 @@ interface ExchangeRatesApiResponse {
 type SortKey = 'region' | 'name' | 'currency' | 'multiplier' | 'price';
 type SortDirection = 'asc' | 'desc' | null;
 
+const LIVE_PRICE_PLACEHOLDER = 'DE 9.99\nTR 149.99\nIN 299\nAR 4.99 USD';
+
 export default function IndexCheckerPage() {
-  const [strategy, setStrategy] = useState<'ppp' | 'bigmac' | 'netflix'>('ppp');
+  const [mode, setMode] = useState<'calculate' | 'reverse'>('calculate');
+  const [livePriceText, setLivePriceText] = useState('');
+  const [strategy, setStrategy] = useState<PricingStrategy>('ppp');
+  const [blendConfig, setBlendConfig] = useState<BlendConfig>(DEFAULT_BLEND_CONFIG);
+  const [rounding, setRounding] = useState<'none' | 'locale-charm'>('none');
+  const [bands, setBands] = useState<PriceBandConfig | undefined>(undefined);
+  const [expandedTraces, setExpandedTraces] = useState<Set<string>>(new Set());
+  const { priceEndings, setPriceEndings, pppYearSelection, setPppYearSelection, unstableCurrencyPolicy } = usePricingStore();
   const [baseRegion, setBaseRegion] = useState<string>('US');
   const [baseAmount, setBaseAmount] = useState<string>('49.99');
   const [pppData, setPppData] = useState<DynamicPPPData | null>(null);
@@ -82,7 +119,7 @@ export default function IndexCheckerPage() {
   useEffect(() => {
     let cancelled = false;
     Promise.all([
-      fetch('/api/ppp').then((r) => r.json() as Promise<PPPApiResponse>),
+      fetch(pppApiUrl(pppYearSelection)).then((r) => r.json() as Promise<PPPApiResponse>),
       fetch('/api/exchange-rates').then((r) => r.json() as Promise<ExchangeRatesApiResponse>),
     ])
       .then(([ppp, rates]) => {
@@ -105,7 +142,7 @@ export default function IndexCheckerPage() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [pppYearSelection]);
 
   const baseCurrency = useMemo(
     () => GOOGLE_PLAY_REGIONS.find((r) => r.code === baseRegion)?.currency || 'USD',
@@ -113,29 +150,53 @@ export default function IndexCheckerPage() {
   );
 
   const baseAmountNum = parseFloat(baseAmount) || 0;
+  const pppYearField = PPP_YEAR_FIELDS[strategy];
+  const columnCount = pppYearField ? 6 : 5;
+
+  // Regions without World Bank data for the selection are priced from the static index
+  const pppYearLabel = (regionCode: string) => {
+    const years = pppYearField && pppData?.[regionCode]?.[pppYearField];
+    return years ? formatPPPYearRange(years) : 'static';
+  };
 
   const calculations = useMemo(() => {
     if (baseAmountNum <= 0) return [];
     const allRegions = getAllRegionCodes();
-    return calculateBulkPrices(
-      baseAmountNum,
-      allRegions,
+    return calculateBulkPrices(allRegions, {
+      basePrice: baseAmountNum,
       strategy,
-      'none',
-      undefined,
-      pppData ?? undefined,
-      undefined,
-      exchangeRates ?? undefined,
+      rounding,
+      dynamicPPPData: pppData ?? undefined,
+      dynamicExchangeRates: exchangeRates ?? undefined,
       baseCurrency,
-      baseRegion
-    ).map((calc) => {
+      baseRegion,
+      blend: blendConfig,
+      priceEndings,
+      unstableCurrency: unstableCurrencyPolicy,
+      bands,
+    }).map((calc) => {
       const region = GOOGLE_PLAY_REGIONS.find((r) => r.code === calc.regionCode);
       return {
         ...calc,
         countryName: region?.name || calc.regionCode,
       };
     });
-  }, [baseAmountNum, strategy, pppData, exchangeRates, baseCurrency, baseRegion]);
+  }, [baseAmountNum, strategy, blendConfig, rounding, priceEndings, unstableCurrencyPolicy, bands, pppData, exchangeRates, baseCurrency, baseRegion]);
+
+  // Reverse mode: the base amount stands in for the base region's live price
+  // unless the pasted list has one
+  const livePrices = useMemo(() => parseLivePriceList(livePriceText), [livePriceText]);
+  const liveAnalysis = useMemo(() => {
+    if (mode !== 'reverse' || loading) return [];
+    const prices = { ...livePrices.prices };
+    if (!prices[baseRegion] && baseAmountNum > 0) prices[baseRegion] = parseMoney(baseAmountNum, baseCurrency);
+    return analyzeLivePrices(prices, {
+      baseRegion,
+      dynamicPPPData: pppData ?? undefined,
+      dynamicExchangeRates: exchangeRates ?? undefined,
+      unstableCurrency: unstableCurrencyPolicy,
+    });
+  }, [mode, loading, livePrices, baseRegion, baseAmountNum, baseCurrency, pppData, exchangeRates, unstableCurrencyPolicy]);
 
   const sortedCalculations = useMemo(() => {
     if (!sortConfig.direction) return calculations;
@@ -174,6 +235,16 @@ export default function IndexCheckerPage() {
     return items;
   }, [calculations, sortConfig]);
 
+  const toggleTrace = (regionCode: string) => {
+    const next = new Set(expandedTraces);
+    if (next.has(regionCode)) {
+      next.delete(regionCode);
+    } else {
+      next.add(regionCode);
+    }
+    setExpandedTraces(next);
+  };
+
   const requestSort = (key: SortKey) => {
     let direction: SortDirection = 'asc';
     if (sortConfig.key === key && sortConfig.direction === 'asc') direction = 'desc';
@@ -204,7 +275,7 @@ export default function IndexCheckerPage() {
           </Button>
           <h1 className="text-3xl font-bold mb-2">Index Checker</h1>
           <p className="text-muted-foreground">
-            Calculate equivalent prices across countries using PPP (World Bank), Big Mac Index, or Netflix Index data.
+            Calculate equivalent prices across countries using PPP (World Bank), Big Mac, Netflix, Spotify or GNI per capita index data, or a weighted blend of PPP, Big Mac and Netflix.
           </p>
         </div>
 
@@ -227,61 +298,77 @@ export default function IndexCheckerPage() {
           </div>
         )}
 
+        <div className="flex gap-2 mb-6" role="radiogroup" aria-label="Mode">
+          <Button
+            variant={mode === 'calculate' ? 'default' : 'outline'}
+            size="sm"
+            role="radio"
+            aria-checked={mode === 'calculate'}
+            onClick={() => setMode('calculate')}
+          >
+            Calculate prices
+          </Button>
+          <Button
+            variant={mode === 'reverse' ? 'default' : 'outline'}
+            size="sm"
+            role="radio"
+            aria-checked={mode === 'reverse'}
+            onClick={() => setMode('reverse')}
+          >
+            Compare live prices
+          </Button>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-          {/* Strategy */}
+          {mode === 'reverse' ? (
+            /* Live prices */
+            <div className="space-y-2">
+              <Label htmlFor="live-prices">Live Prices</Label>
+              <textarea
+                id="live-prices"
+                rows={6}
+                value={livePriceText}
+                onChange={(e) => setLivePriceText(e.target.value)}
+                placeholder={LIVE_PRICE_PLACEHOLDER}
+                className="w-full min-w-0 rounded-md border border-input bg-transparent px-3 py-2 text-sm font-mono placeholder:text-muted-foreground shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30"
+              />
+              <p className="text-xs text-muted-foreground">
+                One region per line with its price; add a currency code if it isn&apos;t the local one.
+              </p>
+              {livePrices.errors.map((error) => (
+                <p key={error} className="text-xs text-destructive">{error}</p>
+              ))}
+            </div>
+          ) : (
+          /* Strategy */
           <div className="space-y-2">
             <Label>Index</Label>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-              <label
-                className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer flex-1 transition-colors ${
-                  strategy === 'ppp' ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
-                }`}
-              >
-                <input
-                  type="radio"
-                  name="strategy"
-                  value="ppp"
-                  checked={strategy === 'ppp'}
-                  onChange={() => setStrategy('ppp')}
-                  className="sr-only"
-                />
-                <Globe className="h-4 w-4" />
-                <span className="text-sm">PPP (World Bank)</span>
-              </label>
-              <label
-                className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer flex-1 transition-colors ${
-                  strategy === 'bigmac' ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
-                }`}
-              >
-                <input
-                  type="radio"
-                  name="strategy"
-                  value="bigmac"
-                  checked={strategy === 'bigmac'}
-                  onChange={() => setStrategy('bigmac')}
-                  className="sr-only"
-                />
-                <Hamburger className="h-4 w-4" />
-                <span className="text-sm">Big Mac Index</span>
-              </label>
-              <label
-                className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer flex-1 transition-colors ${
-                  strategy === 'netflix' ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
-                }`}
-              >
-                <input
-                  type="radio"
-                  name="strategy"
-                  value="netflix"
-                  checked={strategy === 'netflix'}
-                  onChange={() => setStrategy('netflix')}
-                  className="sr-only"
-                />
-                <Tv className="h-4 w-4" />
-                <span className="text-sm">Netflix Index</span>
-              </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {listIndexStrategies().map((option) => {
+                const Icon = getStrategyIcon(option.id);
+                return (
+                  <label
+                    key={option.id}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer flex-1 transition-colors ${
+                      strategy === option.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="strategy"
+                      value={option.id}
+                      checked={strategy === option.id}
+                      onChange={() => setStrategy(option.id)}
+                      className="sr-only"
+                    />
+                    <Icon className="h-4 w-4" />
+                    <span className="text-sm">{option.label}</span>
+                  </label>
+                );
+              })}
             </div>
           </div>
+          )}
 
           {/* Base region */}
           <div className="space-y-2">
@@ -304,7 +391,9 @@ export default function IndexCheckerPage() {
 
           {/* Base amount */}
           <div className="space-y-2">
-            <Label htmlFor="base-amount">Base Amount ({baseCurrency})</Label>
+            <Label htmlFor="base-amount">
+              {mode === 'reverse' ? `Base Price (${baseCurrency})` : `Base Amount (${baseCurrency})`}
+            </Label>
             <div className="relative">
               <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
                 {getCurrencySymbol(baseCurrency)}
@@ -320,10 +409,65 @@ export default function IndexCheckerPage() {
                 className="pl-9"
               />
             </div>
+            {mode === 'reverse' ? (
+              <p className="text-xs text-muted-foreground">
+                Live price in {baseRegion} that the multipliers are relative to, unless the list has one.
+              </p>
+            ) : (
+              <>
+                <Label htmlFor="rounding">Rounding</Label>
+                <Select value={rounding} onValueChange={(v) => setRounding(v as 'none' | 'locale-charm')}>
+                  <SelectTrigger id="rounding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (raw calculation)</SelectItem>
+                    <SelectItem value="locale-charm">Local price endings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </>
+            )}
           </div>
         </div>
 
-        {loading ? (
+        {mode === 'calculate' && strategy === 'blend' && (
+          <div className="mb-6">
+            <BlendWeightsEditor value={blendConfig} onChange={setBlendConfig} />
+          </div>
+        )}
+
+        {(mode === 'reverse' || pppYearField || strategy === 'blend') && (
+          <div className="mb-6">
+            <PppYearSelect value={pppYearSelection} onChange={setPppYearSelection} />
+          </div>
+        )}
+
+        {mode === 'calculate' && rounding === 'locale-charm' && (
+          <div className="mb-6">
+            <PriceEndingsEditor value={priceEndings} onChange={setPriceEndings} />
+          </div>
+        )}
+
+        {mode === 'calculate' && (
+          <div className="mb-6 space-y-2">
+            <PriceBandsEditor value={bands} onChange={setBands} />
+            {bands && <PriceBandSummary prices={calculations} />}
+          </div>
+        )}
+
+        {mode === 'reverse' && !loading ? (
+          liveAnalysis.length === 0 ? (
+            <div className="text-center text-sm text-muted-foreground py-8">
+              Paste the prices live in each region to see the multiplier they imply and the closest index.
+            </div>
+          ) : (
+            <div className="border rounded-lg">
+              <ScrollArea className="h-[60vh]">
+                <LivePriceAnalysisTable rows={liveAnalysis} baseRegion={baseRegion} />
+              </ScrollArea>
+            </div>
+          )
+        ) : loading ? (
           <div className="flex items-center gap-2 text-sm text-muted-foreground py-8 justify-center">
             <RefreshCw className="h-4 w-4 animate-spin" />
             Loading PPP and exchange-rate data…
@@ -363,6 +507,7 @@ export default function IndexCheckerPage() {
                       >
                         Multiplier {sortIcon('multiplier')}
                       </TableHead>
+                      {pppYearField && <TableHead className="text-right">PPP Year</TableHead>}
                       <TableHead
                         className="text-right cursor-pointer hover:bg-muted/50"
                         onClick={() => requestSort('price')}
@@ -373,48 +518,68 @@ export default function IndexCheckerPage() {
                   </TableHeader>
                   <TableBody>
                     {sortedCalculations.map((calc) => (
-                      <TableRow key={calc.regionCode}>
-                        <TableCell>
-                          <Badge variant="outline">{calc.regionCode}</Badge>
-                        </TableCell>
-                        <TableCell className="text-sm">{calc.countryName}</TableCell>
-                        <TableCell className="text-sm text-muted-foreground">
-                          {calc.currencyCode}
-                        </TableCell>
-                        <TableCell className="text-right text-sm">
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                              <span
-                                className={
-                                  calc.multiplier < 1
-                                    ? 'text-green-600 cursor-help'
-                                    : calc.multiplier > 1
-                                      ? 'text-orange-600 cursor-help'
-                                      : 'text-muted-foreground cursor-help'
-                                }
-                              >
-                                {calc.multiplier.toFixed(2)}×
-                              </span>
-                            </TooltipTrigger>
-                            <TooltipContent side="top">
-                              <p className="text-xs">
-                                {calc.multiplierSource === 'world-bank' && 'World Bank PPP data'}
-                                {calc.multiplierSource === 'big-mac' && 'Big Mac Index'}
-                                {calc.multiplierSource === 'netflix' && 'Netflix Price Index'}
-                                {calc.multiplierSource === 'static' && 'Static fallback data'}
-                                {calc.multiplierSource === 'direct' && 'Direct conversion (1:1)'}
-                                {calc.multiplierSource === 'custom' && 'Custom multiplier'}
-                              </p>
-                              <p className="text-xs text-muted-foreground">
-                                Relative to {baseRegion}: {calc.multiplier.toFixed(4)}×
-                              </p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TableCell>
-                        <TableCell className="text-right font-medium">
-                          {formatMoney(calc.price)}
-                        </TableCell>
-                      </TableRow>
+                      <Fragment key={calc.regionCode}>
+                        <TableRow>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <PriceTraceToggle
+                                open={expandedTraces.has(calc.regionCode)}
+                                onToggle={() => toggleTrace(calc.regionCode)}
+                              />
+                              <Badge variant="outline">{calc.regionCode}</Badge>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <div className="flex flex-col">
+                              {calc.countryName}
+                              {calc.band && <PriceBandBadge band={calc.band} />}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {calc.currencyCode}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span
+                                  className={
+                                    calc.multiplier < 1
+                                      ? 'text-green-600 cursor-help'
+                                      : calc.multiplier > 1
+                                        ? 'text-orange-600 cursor-help'
+                                        : 'text-muted-foreground cursor-help'
+                                  }
+                                >
+                                  {calc.multiplier.toFixed(2)}×
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent side="top">
+                                <p className="text-xs">
+                                  {calc.multiplierSource && getMultiplierSourceLabel(calc.multiplierSource)}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  Relative to {baseRegion}: {calc.multiplier.toFixed(4)}×
+                                </p>
+                                {calc.blendContributions && (
+                                  <BlendBreakdown contributions={calc.blendContributions} />
+                                )}
+                              </TooltipContent>
+                            </Tooltip>
+                          </TableCell>
+                          {pppYearField && (
+                            <TableCell className="text-right text-sm text-muted-foreground tabular-nums">
+                              {pppYearLabel(calc.regionCode)}
+                            </TableCell>
+                          )}
+                          <TableCell className="text-right font-medium">
+                            {calc.unstableCurrency && <UnstableCurrencyIndicator hit={calc.unstableCurrency} />}
+                            {formatMoney(calc.price)}
+                          </TableCell>
+                        </TableRow>
+                        {expandedTraces.has(calc.regionCode) && (
+                          <PriceTraceRow trace={calc.trace} colSpan={columnCount} />
+                        )}
+                      </Fragment>
                     ))}
                   </TableBody>
                 </Table>
@@ -424,7 +589,7 @@ export default function IndexCheckerPage() {
         )}
 
         <div className="text-xs text-muted-foreground mt-4">
-          PPP data source: World Bank Open Data (PA.NUS.PPP indicator). Big Mac Index source: The Economist. Netflix Index source: tompec/netflix-prices (CC-BY-4.0).
+          PPP data source: World Bank Open Data (PA.NUS.PPP and PA.NUS.PRVT.PP indicators). Big Mac Index source: The Economist. Netflix Index source: tompec/netflix-prices (CC-BY-4.0). Spotify Index source: Spotify Premium Individual list prices (snapshot 2025-01). GNI Index source: World Bank GNI per capita, Atlas method (NY.GNP.PCAP.CD, CC-BY-4.0).
           Calculations are estimates — actual store pricing may apply rounding, tier snapping, or local rules
           that this tool does not.
         </div>
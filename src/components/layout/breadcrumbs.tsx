@@ -12,6 +12,7 @@ const pathNames: Record<string, string> = {
   products: 'Products',
   subscriptions: 'Subscriptions',
   'app-price': 'App Price',
+  'fx-simulator': 'FX Simulator',
   settings: 'Settings',
 };
 
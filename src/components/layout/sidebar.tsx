@@ -8,15 +8,20 @@ import {
   LayoutDashboard,
   Settings,
   DollarSign,
+  Activity,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
 import { PlatformSelector } from './platform-selector';
 import { AppSwitcher } from './app-switcher';
 import { getPlatformFromPath, type Platform } from '@/lib/utils/platform-routes';
+import { hasDueRolloutStep, toDateString, type PriceRollout } from '@/lib/google-play/price-rollout';
+import { usePricingStore } from '@/store/pricing-store';
 
 export function Sidebar() {
   const pathname = usePathname();
+  const priceRollouts = usePricingStore((state) => state.priceRollouts);
 
   // Determine current platform from URL
   const currentPlatform = getPlatformFromPath(pathname);
@@ -28,6 +33,7 @@ export function Sidebar() {
         { name: 'Overview', href: '/dashboard', icon: LayoutDashboard, disabled: false },
         { name: 'Products', href: '/dashboard/products', icon: Package, disabled: true },
         { name: 'Subscriptions', href: '/dashboard/subscriptions', icon: CreditCard, disabled: true },
+        { name: 'FX Simulator', href: '/dashboard/fx-simulator', icon: Activity, disabled: false },
         { name: 'Settings', href: '/dashboard/settings', icon: Settings, disabled: false },
       ];
     }
@@ -37,6 +43,7 @@ export function Sidebar() {
       { name: 'Overview', href: basePath, icon: LayoutDashboard, disabled: false },
       { name: 'Products', href: `${basePath}/products`, icon: Package, disabled: false },
       { name: 'Subscriptions', href: `${basePath}/subscriptions`, icon: CreditCard, disabled: false },
+      { name: 'FX Simulator', href: '/dashboard/fx-simulator', icon: Activity, disabled: false },
       { name: 'Settings', href: '/dashboard/settings', icon: Settings, disabled: false },
     ];
 
@@ -55,6 +62,17 @@ export function Sidebar() {
 
   const navigation = getNavigation(currentPlatform);
 
+  // Stepped rollouts with a step to send, shown on the list page that sends it
+  const today = toDateString(new Date());
+  const dueRollouts = (kind: PriceRollout['kind']) =>
+    priceRollouts.filter(
+      (r) => r.platform === currentPlatform && r.kind === kind && hasDueRolloutStep(r, today)
+    ).length;
+  const dueCounts: Record<string, number> = {
+    Products: dueRollouts('product'),
+    Subscriptions: dueRollouts('subscription'),
+  };
+
   return (
     <div className="flex h-full w-64 flex-col border-r bg-background">
       <div className="flex h-14 items-center border-b px-4">
@@ -106,6 +124,15 @@ export function Sidebar() {
               >
                 <item.icon className="h-4 w-4" />
                 {item.name}
+                {dueCounts[item.name] > 0 && (
+                  <Badge
+                    variant={isActive ? 'secondary' : 'default'}
+                    className="ml-auto h-5 px-1.5"
+                    title={`${dueCounts[item.name]} stepped rollout${dueCounts[item.name] === 1 ? '' : 's'} with a step due`}
+                  >
+                    {dueCounts[item.name]}
+                  </Badge>
+                )}
               </Link>
             );
           })}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { PriceAnchor } from '@/lib/google-play/currency';
+
+export interface AnchorRegionOption {
+  code: string;
+  name: string;
+  currency: string;
+}
+
+// One editable anchor. Price and assignments stay as strings while typing.
+interface AnchorRow {
+  id: number;
+  region: string;
+  price: string;
+  regions: string;
+}
+
+let nextRowId = 0;
+
+function anchorsToRows(anchors: PriceAnchor[]): AnchorRow[] {
+  return anchors.map((anchor) => ({
+    id: nextRowId++,
+    region: anchor.region,
+    price: String(anchor.price),
+    regions: (anchor.regions ?? []).join(', '),
+  }));
+}
+
+// Rows without a region or a valid price are left out
+function rowsToAnchors(rows: AnchorRow[], options: AnchorRegionOption[]): PriceAnchor[] {
+  return rows.flatMap((row) => {
+    const price = parseFloat(row.price);
+    const option = options.find((o) => o.code === row.region);
+    if (!option || !(price >= 0)) return [];
+    const regions = row.regions
+      .split(',')
+      .map((code) => code.trim().toUpperCase())
+      .filter(Boolean);
+    return [{ region: option.code, price, currency: option.currency, ...(regions.length ? { regions } : {}) }];
+  });
+}
+
+interface AnchorsEditorProps {
+  /** Anchors in addition to the base region/price above the editor */
+  value: PriceAnchor[];
+  onChange: (value: PriceAnchor[]) => void;
+  /** Regions an anchor can be set for */
+  regions: AnchorRegionOption[];
+  /** The base region, already an anchor */
+  primaryRegion: string;
+}
+
+// Extra base prices for multi-anchor runs (e.g. EUR 9.99 for the Eurozone next to USD 9.99).
+export function AnchorsEditor({ value, onChange, regions, primaryRegion }: AnchorsEditorProps) {
+  const [rows, setRows] = useState<AnchorRow[]>(() => anchorsToRows(value));
+  const options = regions.filter((r) => r.code !== primaryRegion);
+
+  const update = (next: AnchorRow[]) => {
+    setRows(next);
+    onChange(rowsToAnchors(next, options));
+  };
+
+  const setField = (id: number, field: keyof Omit<AnchorRow, 'id'>, raw: string) => {
+    update(rows.map((row) => (row.id === id ? { ...row, [field]: raw } : row)));
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <Label className="text-xs">Additional anchors</Label>
+      {rows.length > 0 && (
+        <>
+          <div className="grid grid-cols-[10rem_6rem_1fr_2rem] gap-2 text-[10px] uppercase text-muted-foreground">
+            <span>Region</span>
+            <span>Price</span>
+            <span>Also assign</span>
+            <span />
+          </div>
+          <div className="space-y-1">
+            {rows.map((row) => {
+              const currency = options.find((o) => o.code === row.region)?.currency;
+              return (
+                <div key={row.id} className="grid grid-cols-[10rem_6rem_1fr_2rem] gap-2 items-center">
+                  <Select value={row.region} onValueChange={(region) => setField(row.id, 'region', region)}>
+                    <SelectTrigger className="h-7 text-xs" aria-label="Anchor region">
+                      <SelectValue placeholder="Region" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {options.map((option) => (
+                        <SelectItem key={option.code} value={option.code} className="text-xs">
+                          {option.name} ({option.currency})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="h-7 text-xs"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.price}
+                    placeholder={currency ?? '0.00'}
+                    aria-label="Anchor price"
+                    onChange={(e) => setField(row.id, 'price', e.target.value)}
+                  />
+                  <Input
+                    className="h-7 text-xs"
+                    value={row.regions}
+                    placeholder="Region codes, e.g. IE, MT"
+                    aria-label="Regions assigned to this anchor"
+                    onChange={(e) => setField(row.id, 'regions', e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label="Remove anchor"
+                    onClick={() => update(rows.filter((r) => r.id !== row.id))}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => update([...rows, { id: nextRowId++, region: '', price: '', regions: '' }])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Add anchor
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Each region is priced from an anchor that lists it, otherwise the nearest anchor (same part of the world,
+        same currency first), otherwise the base price above. Prices are in the anchor region&apos;s currency.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BLEND_INDEXES,
+  type BlendConfig,
+  type BlendContribution,
+  type BlendIndex,
+  type BlendMissingPolicy,
+} from '@/lib/google-play/currency';
+
+export const BLEND_INDEX_LABELS: Record<BlendIndex, string> = {
+  ppp: 'PPP',
+  netflix: 'Netflix',
+  bigmac: 'Big Mac',
+};
+
+const MISSING_POLICY_LABELS: Record<BlendMissingPolicy, string> = {
+  renormalize: 'Spread weight over the other indexes',
+  'index-default': "Use the index's default multiplier",
+  neutral: 'Treat as 1.0× (same as base region)',
+};
+
+interface BlendWeightsEditorProps {
+  value: BlendConfig;
+  onChange: (value: BlendConfig) => void;
+}
+
+// Weight inputs + missing-entry rule for the 'blend' pricing strategy.
+export function BlendWeightsEditor({ value, onChange }: BlendWeightsEditorProps) {
+  const total = BLEND_INDEXES.reduce((sum, index) => sum + (value.weights[index] || 0), 0);
+
+  const setWeight = (index: BlendIndex, raw: string) => {
+    const weight = Math.max(0, parseFloat(raw) || 0);
+    onChange({ ...value, weights: { ...value.weights, [index]: weight } });
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        {BLEND_INDEXES.map((index) => (
+          <div key={index} className="space-y-1">
+            <Label htmlFor={`blend-weight-${index}`} className="text-xs">
+              {BLEND_INDEX_LABELS[index]} weight
+            </Label>
+            <div className="relative">
+              <Input
+                id={`blend-weight-${index}`}
+                type="number"
+                step="5"
+                min="0"
+                value={value.weights[index]}
+                onChange={(e) => setWeight(index, e.target.value)}
+                className="pr-12"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                {total > 0 ? `${Math.round(((value.weights[index] || 0) / total) * 100)}%` : '—'}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">When an index has no entry for a region</Label>
+        <Select
+          value={value.missing}
+          onValueChange={(missing) => onChange({ ...value, missing: missing as BlendMissingPolicy })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MISSING_POLICY_LABELS) as BlendMissingPolicy[]).map((policy) => (
+              <SelectItem key={policy} value={policy} className="text-xs">
+                {MISSING_POLICY_LABELS[policy]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {total === 0 && (
+        <p className="text-xs text-amber-600 dark:text-amber-500">
+          Give at least one index a weight above zero.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Per-index breakdown shown in the multiplier tooltip for blended prices.
+export function BlendBreakdown({ contributions }: { contributions: BlendContribution[] }) {
+  return (
+    <div className="text-xs text-muted-foreground space-y-0.5 mt-1">
+      {contributions.map((part) => (
+        <p key={part.index}>
+          {BLEND_INDEX_LABELS[part.index]}: {part.multiplier.toFixed(2)}× × {(part.weight * 100).toFixed(0)}%
+          {' '}= {part.contribution.toFixed(3)}
+          {part.weight === 0 && ' (no data, dropped)'}
+          {part.filled && ' (no data, filled)'}
+        </p>
+      ))}
+    </div>
+  );
+}
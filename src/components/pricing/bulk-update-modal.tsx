@@ -37,6 +37,8 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { GOOGLE_PLAY_REGIONS } from '@/lib/google-play/types';
+import { usePricingStore } from '@/store/pricing-store';
+import { ChangeThresholdEditor } from './change-threshold-editor';
 
 const bulkUpdateFormSchema = z.object({
   operationType: z.enum(['percentage', 'fixed', 'round']),
@@ -57,6 +59,7 @@ interface BulkUpdateResult {
     oldPrice: string;
     newPrice: string;
   }>;
+  unchanged?: string[];
 }
 
 interface BulkUpdateModalProps {
@@ -76,6 +79,7 @@ export function BulkUpdateModal({
 }: BulkUpdateModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [results, setResults] = useState<BulkUpdateResult[] | null>(null);
+  const changeThreshold = usePricingStore((state) => state.changeThreshold);
 
   const form = useForm<BulkUpdateFormData>({
     resolver: zodResolver(bulkUpdateFormSchema),
@@ -126,6 +130,7 @@ export function BulkUpdateModal({
             roundTo: data.operationType === 'round' ? data.roundTo : undefined,
           },
           targetRegions: data.targetRegions,
+          changeThreshold,
         }),
       });
 
@@ -137,6 +142,14 @@ export function BulkUpdateModal({
 
       setResults(result.results);
 
+      const unchangedCount = (result.results as BulkUpdateResult[]).reduce(
+        (sum, r) => sum + (r.unchanged?.length ?? 0),
+        0
+      );
+      if (unchangedCount > 0) {
+        toast.info(`${unchangedCount} regions unchanged (below threshold)`);
+      }
+
       if (result.failed === 0) {
         toast.success(`Successfully updated ${result.successful} items`);
         onSuccess();
@@ -216,6 +229,11 @@ export function BulkUpdateModal({
                         ))}
                       </div>
                     )}
+                    {result.unchanged && result.unchanged.length > 0 && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        Unchanged (below threshold): {result.unchanged.join(', ')}
+                      </p>
+                    )}
                   </div>
                 ))}
               </div>
@@ -411,6 +429,8 @@ export function BulkUpdateModal({
                   </FormItem>
                 )}
               />
+
+              <ChangeThresholdEditor />
             </form>
           </Form>
         )}
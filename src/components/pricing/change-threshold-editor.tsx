@@ -0,0 +1,65 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ChangeThreshold } from '@/lib/google-play/change-threshold';
+import { usePricingStore } from '@/store/pricing-store';
+
+// Minimum meaningful change for bulk pricing, kept in the pricing preferences.
+// An empty field disables that bound.
+export function ChangeThresholdEditor() {
+  const threshold = usePricingStore((state) => state.changeThreshold);
+  const setThreshold = usePricingStore((state) => state.setChangeThreshold);
+
+  const setField = (key: keyof ChangeThreshold, raw: string, scale: number) => {
+    const amount = parseFloat(raw);
+    const next = { ...threshold };
+    if (raw === '' || isNaN(amount) || amount <= 0) {
+      delete next[key];
+    } else {
+      next[key] = amount / scale;
+    }
+    setThreshold(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Minimum change</Label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="change-threshold-relative" className="text-xs text-muted-foreground">
+            Percent of live price
+          </Label>
+          <Input
+            id="change-threshold-relative"
+            type="number"
+            step="0.5"
+            min="0"
+            max="100"
+            placeholder="e.g. 2"
+            value={threshold.relative !== undefined ? Math.round(threshold.relative * 10000) / 100 : ''}
+            onChange={(e) => setField('relative', e.target.value, 100)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="change-threshold-absolute" className="text-xs text-muted-foreground">
+            Amount in local currency
+          </Label>
+          <Input
+            id="change-threshold-absolute"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="e.g. 0.10"
+            value={threshold.absolute ?? ''}
+            onChange={(e) => setField('absolute', e.target.value, 1)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Regions whose new price is closer than this to the live price keep the live price.
+        With both set, a change must clear both.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CurrencyUnionAssignment } from '@/lib/google-play/currency';
+import {
+  CURRENCY_UNION_RESOLUTION_LABELS,
+  MONETARY_UNION_CURRENCIES,
+  type CurrencyUnionConfig,
+  type CurrencyUnionResolution,
+} from '@/lib/google-play/currency-union';
+
+type CurrencyUnionScope = 'monetary' | 'all';
+
+const DEFAULT_CURRENCY_UNION: CurrencyUnionConfig = {
+  resolution: 'median',
+  currencies: MONETARY_UNION_CURRENCIES,
+};
+
+interface CurrencyUnionEditorProps {
+  /** undefined = each region keeps its own price */
+  value: CurrencyUnionConfig | undefined;
+  onChange: (value: CurrencyUnionConfig | undefined) => void;
+}
+
+// Toggle, conflict resolution and scope for one price per billing currency.
+export function CurrencyUnionEditor({ value, onChange }: CurrencyUnionEditorProps) {
+  const scope: CurrencyUnionScope = value?.currencies ? 'monetary' : 'all';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <Checkbox
+            checked={value !== undefined}
+            onCheckedChange={(checked) =>
+              onChange(checked === true ? DEFAULT_CURRENCY_UNION : undefined)
+            }
+          />
+          <span className="text-sm">One price per currency</span>
+        </label>
+        {value && (
+          <>
+            <Select
+              value={value.resolution}
+              onValueChange={(resolution) =>
+                onChange({ ...value, resolution: resolution as CurrencyUnionResolution })
+              }
+            >
+              <SelectTrigger className="h-7 w-36 text-xs" aria-label="Conflict resolution">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CURRENCY_UNION_RESOLUTION_LABELS).map(([resolution, label]) => (
+                  <SelectItem key={resolution} value={resolution} className="text-xs">
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={scope}
+              onValueChange={(next) =>
+                onChange({
+                  ...value,
+                  currencies: next === 'monetary' ? MONETARY_UNION_CURRENCIES : undefined,
+                })
+              }
+            >
+              <SelectTrigger className="h-7 w-48 text-xs" aria-label="Currencies to unify">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="monetary" className="text-xs">
+                  Monetary unions ({MONETARY_UNION_CURRENCIES.join(', ')})
+                </SelectItem>
+                <SelectItem value="all" className="text-xs">
+                  Every shared currency
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground ml-6">
+        Regions billed in the same currency list the same price, picked from one of them.
+        {scope === 'all' && value && ' Many regions bill in USD, so this also aligns them with the US price.'}
+      </p>
+    </div>
+  );
+}
+
+// Shown next to a region whose price came from the currency union.
+export function CurrencyUnionBadge({ union }: { union: CurrencyUnionAssignment }) {
+  return (
+    <Badge
+      variant="outline"
+      className="text-[10px] w-fit"
+      title={
+        union.anchorMissing
+          ? `No anchor region selected; median of ${union.regionCount} regions`
+          : `${CURRENCY_UNION_RESOLUTION_LABELS[union.resolution]} of ${union.regionCount} regions; own price ${union.ownPrice}`
+      }
+    >
+      Union price ({union.sourceRegion})
+    </Badge>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, FileSpreadsheet, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  parseCustomIndex,
+  slugifyIndexName,
+  type CustomIndexParseResult,
+} from '@/lib/conversion-indexes/custom-index';
+import { usePricingStore } from '@/store/pricing-store';
+
+// Errors listed before "and N more"
+const MAX_LISTED_ERRORS = 5;
+
+interface PendingUpload {
+  fileName: string;
+  result: CustomIndexParseResult;
+}
+
+// Settings card for uploading, re-importing and removing custom multiplier indexes.
+export function CustomIndexCard() {
+  const customIndexes = usePricingStore((state) => state.customIndexes);
+  const saveCustomIndex = usePricingStore((state) => state.saveCustomIndex);
+  const removeCustomIndex = usePricingStore((state) => state.removeCustomIndex);
+  const [name, setName] = useState('');
+  const [pending, setPending] = useState<PendingUpload | null>(null);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPending({ fileName: file.name, result: parseCustomIndex(await file.text(), file.name) });
+    if (!name.trim()) setName(file.name.replace(/\.(csv|json|txt)$/i, ''));
+  };
+
+  const handleImport = () => {
+    if (!pending || pending.result.errors.length > 0 || !name.trim()) return;
+    const id = slugifyIndexName(name);
+    const replacing = customIndexes.some((index) => index.id === id);
+    saveCustomIndex({
+      id,
+      name: name.trim(),
+      multipliers: pending.result.multipliers,
+      importedAt: new Date().toISOString(),
+      fileName: pending.fileName,
+    });
+    toast.success(`${replacing ? 'Updated' : 'Imported'} ${name.trim()}`);
+    setPending(null);
+    setName('');
+  };
+
+  const errors = pending?.result.errors ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Custom Indexes
+        </CardTitle>
+        <CardDescription>
+          Upload your own per-region multipliers (CSV or JSON) to use as a pricing strategy next to PPP,
+          Big Mac and Netflix. Re-import a file under the same name to replace it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {customIndexes.length > 0 && (
+          <div className="space-y-2">
+            {customIndexes.map((index) => (
+              <div key={index.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div>
+                  <p className="font-medium">{index.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {Object.keys(index.multipliers).length} regions &bull; imported{' '}
+                    {new Date(index.importedAt).toLocaleDateString()}
+                    {index.fileName && <> from {index.fileName}</>}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeCustomIndex(index.id)}
+                  className="text-destructive hover:text-destructive"
+                  aria-label={`Remove ${index.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 pt-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="custom-index-name">Name</Label>
+              <Input
+                id="custom-index-name"
+                placeholder="e.g. ARPU Q3"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="custom-index-file">File</Label>
+              <Input
+                id="custom-index-file"
+                type="file"
+                accept=".csv,.json,.txt"
+                onChange={handleFileSelect}
+              />
+            </div>
+          </div>
+
+          {pending && (
+            <div className="space-y-1 text-sm">
+              {errors.length > 0 ? (
+                <div className="flex items-start gap-2 text-destructive">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p>{pending.fileName} can&apos;t be imported:</p>
+                    <ul className="list-disc ml-4">
+                      {errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                    {errors.length > MAX_LISTED_ERRORS && (
+                      <p>and {errors.length - MAX_LISTED_ERRORS} more</p>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <p className="flex items-center gap-2">
+                  <Badge variant="secondary">
+                    {Object.keys(pending.result.multipliers).length} regions
+                  </Badge>
+                  {pending.fileName}
+                </p>
+              )}
+              {pending.result.warnings.map((warning) => (
+                <p key={warning} className="flex items-start gap-2 text-amber-600 dark:text-amber-500">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={handleImport} disabled={!pending || errors.length > 0 || !name.trim()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            One row per region: <code>region,multiplier</code> with alpha-2 or alpha-3 codes (e.g. <code>DE,0.92</code>),
+            or JSON such as <code>{'{"DE": 0.92}'}</code>. Multipliers are normalised to the base region when pricing.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
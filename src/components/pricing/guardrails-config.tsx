@@ -0,0 +1,104 @@
+'use client';
+
+import { ShieldAlert } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import type {
+  GuardrailHit,
+  GuardrailRule,
+  PriceGuardrails,
+} from '@/lib/google-play/currency';
+
+const GUARDRAIL_FIELDS: Array<{
+  key: keyof PriceGuardrails;
+  label: string;
+  placeholder: string;
+}> = [
+  { key: 'minOfBase', label: 'Floor (% of base)', placeholder: 'e.g. 20' },
+  { key: 'maxOfBase', label: 'Ceiling (% of base)', placeholder: 'e.g. 130' },
+  { key: 'maxChangeFromCurrent', label: 'Max change vs. live (±%)', placeholder: 'e.g. 25' },
+];
+
+export const GUARDRAIL_RULE_LABELS: Record<GuardrailRule, string> = {
+  'min-of-base': 'Raised to the base-price floor',
+  'max-of-base': 'Capped at the base-price ceiling',
+  'max-increase': 'Increase limited vs. live price',
+  'max-decrease': 'Decrease limited vs. live price',
+};
+
+interface GuardrailsEditorProps {
+  value: PriceGuardrails;
+  onChange: (value: PriceGuardrails) => void;
+}
+
+// Percent inputs for the price guardrails. An empty field disables that bound.
+export function GuardrailsEditor({ value, onChange }: GuardrailsEditorProps) {
+  const setField = (key: keyof PriceGuardrails, raw: string) => {
+    const percent = parseFloat(raw);
+    const next = { ...value };
+    if (raw === '' || isNaN(percent) || percent < 0) {
+      delete next[key];
+    } else {
+      next[key] = percent / 100;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Guardrails</Label>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {GUARDRAIL_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`guardrail-${field.key}`} className="text-xs text-muted-foreground">
+              {field.label}
+            </Label>
+            <Input
+              id={`guardrail-${field.key}`}
+              type="number"
+              step="5"
+              min="0"
+              placeholder={field.placeholder}
+              value={value[field.key] !== undefined ? Math.round(value[field.key]! * 1000) / 10 : ''}
+              onChange={(e) => setField(field.key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Applied after the strategy and before rounding. Leave a field empty to disable it.
+      </p>
+    </div>
+  );
+}
+
+interface GuardrailIndicatorProps {
+  hit: GuardrailHit;
+  currencyCode: string;
+}
+
+// Shield icon next to a price that was clamped by a guardrail. Must be rendered
+// inside a TooltipProvider.
+export function GuardrailIndicator({ hit, currencyCode }: GuardrailIndicatorProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <ShieldAlert
+          className="inline h-3.5 w-3.5 mr-1 text-amber-600 dark:text-amber-500 cursor-help"
+          aria-label={GUARDRAIL_RULE_LABELS[hit.rule]}
+        />
+      </TooltipTrigger>
+      <TooltipContent side="top">
+        <p className="text-xs font-medium">{GUARDRAIL_RULE_LABELS[hit.rule]}</p>
+        <p className="text-xs text-muted-foreground">
+          Strategy price {hit.unclampedPrice.toFixed(2)} → {hit.limit.toFixed(2)} {currencyCode}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TooltipProvider } from '@/components/ui/tooltip';
+import type { StorePlatform } from '@/lib/currencies/registry';
+import { enforceStoreRules, type StoreRuleHit } from '@/lib/currencies/constraints';
+import { calculatePriceChange, type CalculatedPrice, type UnstableCurrencyHit } from '@/lib/google-play/currency';
+import { formatMoney, moneyToNumber, parseMoney, type Money } from '@/lib/google-play/types';
+import { StoreRulesBar, StoreRuleIndicator } from './store-rules';
+import { UnstableCurrencyIndicator } from './unstable-currency-card';
+
+// Shared by the ladder modals: one column per plan or pack, one row per region.
+
+export interface LadderRegion {
+  code: string;
+  name: string;
+  currency: string;
+}
+
+export interface LadderColumn {
+  key: string;
+  label: string;
+}
+
+// One column's price in one region, after store rules
+export interface LadderCell {
+  price: Money;
+  current: Money | null;
+  storeRule?: StoreRuleHit;
+  unstableCurrency?: UnstableCurrencyHit;
+}
+
+// Cells by column key, then region code
+export type LadderCells = Record<string, Record<string, LadderCell>>;
+
+// Check every calculated price against the store's rules; with autoFix the
+// closest accepted price replaces the calculated one.
+export function buildLadderCells(
+  platform: StorePlatform,
+  columns: Array<{ key: string; currentPrices?: Record<string, Money>; prices: CalculatedPrice[] }>,
+  autoFix: boolean
+): LadderCells {
+  const cells: LadderCells = {};
+  for (const column of columns) {
+    const row: Record<string, LadderCell> = {};
+    for (const calculated of column.prices) {
+      const storeRule = enforceStoreRules(
+        platform,
+        { regionCode: calculated.regionCode, currencyCode: calculated.currencyCode, price: moneyToNumber(calculated.price) },
+        autoFix
+      );
+      row[calculated.regionCode] = {
+        price: storeRule?.fixedPrice !== undefined
+          ? parseMoney(storeRule.fixedPrice, calculated.currencyCode)
+          : calculated.price,
+        current: column.currentPrices?.[calculated.regionCode] ?? null,
+        storeRule,
+        unstableCurrency: calculated.unstableCurrency,
+      };
+    }
+    cells[column.key] = row;
+  }
+  return cells;
+}
+
+export function isLadderCellChanged(cell: LadderCell): boolean {
+  if (!cell.current) return true;
+  return Math.abs(calculatePriceChange(moneyToNumber(cell.current), moneyToNumber(cell.price))) >= 0.5;
+}
+
+// Regions where any column's price changes
+export function changedLadderRegions(cells: LadderCells, regions: LadderRegion[]): Set<string> {
+  const changed = new Set<string>();
+  for (const region of regions) {
+    if (Object.values(cells).some((row) => row[region.code] && isLadderCellChanged(row[region.code]))) {
+      changed.add(region.code);
+    }
+  }
+  return changed;
+}
+
+// Selected regions with a price the store would reject in any column
+export function blockedLadderRegions(cells: LadderCells, selectedRegions: Set<string>): string[] {
+  return Array.from(selectedRegions).filter((code) =>
+    Object.values(cells).some((row) => {
+      const hit = row[code]?.storeRule;
+      return hit && hit.fixedPrice === undefined;
+    })
+  );
+}
+
+interface LadderPreviewProps {
+  columns: LadderColumn[];
+  regions: LadderRegion[];
+  cells: LadderCells;
+  selectedRegions: Set<string>;
+  onSelectedRegionsChange: (regions: Set<string>) => void;
+  autoFix: boolean;
+  onAutoFixChange: (value: boolean) => void;
+}
+
+// Region selection, store-rule bar and the price grid of a ladder modal
+export function LadderPreview({
+  columns,
+  regions,
+  cells,
+  selectedRegions,
+  onSelectedRegionsChange,
+  autoFix,
+  onAutoFixChange,
+}: LadderPreviewProps) {
+  const selectedCells = Array.from(selectedRegions).flatMap((code) =>
+    columns.map((column) => cells[column.key]?.[code]).filter((cell): cell is LadderCell => !!cell)
+  );
+  const fixedCount = selectedCells.filter((cell) => cell.storeRule?.fixedPrice !== undefined).length;
+  const blockedRegions = blockedLadderRegions(cells, selectedRegions);
+  const visibleRegions = regions.filter((region) => columns.some((column) => cells[column.key]?.[region.code]));
+
+  const toggleRegion = (code: string) => {
+    const next = new Set(selectedRegions);
+    if (next.has(code)) {
+      next.delete(code);
+    } else {
+      next.add(code);
+    }
+    onSelectedRegionsChange(next);
+  };
+
+  const deselectBlocked = () => {
+    const next = new Set(selectedRegions);
+    blockedRegions.forEach((code) => next.delete(code));
+    onSelectedRegionsChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Regions & Preview ({selectedRegions.size} selected)</Label>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onSelectedRegionsChange(new Set())}
+            disabled={selectedRegions.size === 0}
+          >
+            Deselect All
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onSelectedRegionsChange(changedLadderRegions(cells, visibleRegions))}
+          >
+            Select only modified
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onSelectedRegionsChange(new Set(visibleRegions.map((r) => r.code)))}
+            disabled={selectedRegions.size === visibleRegions.length}
+          >
+            Select All
+          </Button>
+        </div>
+      </div>
+      <StoreRulesBar
+        autoFix={autoFix}
+        onAutoFixChange={onAutoFixChange}
+        fixedCount={fixedCount}
+        blockedCount={blockedRegions.length}
+        onDeselectBlocked={deselectBlocked}
+      />
+      <div className="border rounded-lg">
+        <ScrollArea className="h-72">
+          <TooltipProvider delayDuration={100}>
+          <Table>
+            <TableHeader className="sticky top-0 bg-background z-10 shadow-sm">
+              <TableRow>
+                <TableHead className="w-12" />
+                <TableHead className="w-20">Region</TableHead>
+                <TableHead>Country</TableHead>
+                {columns.map((column) => (
+                  <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRegions.map((region) => {
+                const isSelected = selectedRegions.has(region.code);
+                return (
+                  <TableRow key={region.code} className={!isSelected ? 'opacity-50' : ''}>
+                    <TableCell>
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={() => toggleRegion(region.code)}
+                        aria-label={`Select ${region.code}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{region.code}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{region.name}</TableCell>
+                    {columns.map((column) => {
+                      const cell = cells[column.key]?.[region.code];
+                      return (
+                        <TableCell key={column.key} className="text-right text-sm">
+                          {cell ? (
+                            <div className="flex flex-col items-end">
+                              <span className={isLadderCellChanged(cell) ? 'font-medium' : 'text-muted-foreground'}>
+                                {cell.unstableCurrency && <UnstableCurrencyIndicator hit={cell.unstableCurrency} />}
+                                {cell.storeRule && <StoreRuleIndicator hit={cell.storeRule} currencyCode={cell.price.currencyCode} />}
+                                {formatMoney(cell.price)}
+                              </span>
+                              <span className="text-[10px] text-muted-foreground">
+                                {cell.current ? `was ${formatMoney(cell.current)}` : 'new'}
+                              </span>
+                            </div>
+                          ) : '-'}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          </TooltipProvider>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
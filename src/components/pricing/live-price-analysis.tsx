@@ -0,0 +1,184 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2, ScanSearch } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { usePricingData } from '@/hooks/use-pricing-data';
+import { formatCurrency } from '@/lib/currencies/registry';
+import { getTerritoryByAlpha2, getTerritoryByAlpha3 } from '@/lib/apple-connect/territories';
+import { analyzeLivePrices, type LivePriceAnalysis } from '@/lib/google-play/inverse-pricing';
+import { GOOGLE_PLAY_REGIONS, formatMoney, type Money } from '@/lib/google-play/types';
+import { usePricingStore } from '@/store/pricing-store';
+
+function regionName(code: string): string {
+  const territory = code.length === 3 ? getTerritoryByAlpha3(code) : getTerritoryByAlpha2(code);
+  return GOOGLE_PLAY_REGIONS.find((r) => r.code === code)?.name ?? territory?.name ?? code;
+}
+
+function formatGap(gap: number): string {
+  const percent = gap * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(0)}%`;
+}
+
+// Within 10% of the index counts as matching it
+function gapClass(gap: number): string {
+  if (Math.abs(gap) <= 0.1) return 'text-green-600 dark:text-green-500';
+  return Math.abs(gap) <= 0.3 ? 'text-amber-600 dark:text-amber-500' : 'text-red-600 dark:text-red-500';
+}
+
+interface LivePriceAnalysisTableProps {
+  rows: LivePriceAnalysis[];
+  baseRegion: string;
+}
+
+// Live price, USD value, implied multiplier and closest index per region.
+// Rows are sorted by implied multiplier.
+export function LivePriceAnalysisTable({ rows, baseRegion }: LivePriceAnalysisTableProps) {
+  const sorted = [...rows].sort((a, b) => (a.impliedMultiplier ?? 0) - (b.impliedMultiplier ?? 0));
+
+  return (
+    <TooltipProvider delayDuration={100}>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Region</TableHead>
+            <TableHead className="text-right">Live price</TableHead>
+            <TableHead className="text-right">USD</TableHead>
+            <TableHead className="text-right">Implied</TableHead>
+            <TableHead>Closest index</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map((row) => (
+            <TableRow key={row.regionCode}>
+              <TableCell className="text-sm">
+                <Badge variant="outline" className="mr-2">{row.regionCode}</Badge>
+                {regionName(row.regionCode)}
+              </TableCell>
+              <TableCell className="text-right text-sm tabular-nums">{formatMoney(row.price)}</TableCell>
+              <TableCell className="text-right text-sm tabular-nums">{formatCurrency(row.usdPrice, 'USD')}</TableCell>
+              <TableCell className="text-right text-sm tabular-nums">
+                {row.impliedMultiplier !== undefined ? `${row.impliedMultiplier.toFixed(2)}×` : '—'}
+              </TableCell>
+              <TableCell className="text-sm">
+                {row.closest ? (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="cursor-help">
+                        {row.closest.label}{' '}
+                        <span className="text-muted-foreground tabular-nums">{row.closest.multiplier.toFixed(2)}×</span>{' '}
+                        <span className={`tabular-nums ${gapClass(row.closest.gap)}`}>{formatGap(row.closest.gap)}</span>
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent side="top">
+                      <p className="text-xs font-medium mb-1">Live price vs. each index (relative to {baseRegion})</p>
+                      {row.indexes.map((c) => (
+                        <p key={c.strategy} className="text-xs tabular-nums">
+                          {c.label}: {c.multiplier.toFixed(2)}× · {formatGap(c.gap)}
+                          {c.isDefault && ' (no data, default)'}
+                        </p>
+                      ))}
+                    </TooltipContent>
+                  </Tooltip>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TooltipProvider>
+  );
+}
+
+interface LivePriceAnalysisCardProps {
+  /** Live prices by region code (alpha-2 or alpha-3) */
+  prices: Record<string, Money>;
+  /** Region the multipliers are relative to */
+  baseRegion: string;
+  title?: string;
+}
+
+// Collapsed card on the detail pages; live data is only fetched once opened.
+export function LivePriceAnalysisCard({ prices, baseRegion, title = 'Live Price Analysis' }: LivePriceAnalysisCardProps) {
+  const [open, setOpen] = useState(false);
+  const unstableCurrencyPolicy = usePricingStore((state) => state.unstableCurrencyPolicy);
+  const { pppData, exchangeRates, loading } = usePricingData(open);
+  const regionCount = Object.keys(prices).length;
+
+  const rows = useMemo(() => {
+    if (!open || loading) return [];
+    return analyzeLivePrices(prices, {
+      baseRegion,
+      dynamicPPPData: pppData ?? undefined,
+      dynamicExchangeRates: exchangeRates ?? undefined,
+      unstableCurrency: unstableCurrencyPolicy,
+    });
+  }, [open, loading, prices, baseRegion, pppData, exchangeRates, unstableCurrencyPolicy]);
+
+  const matched = rows.filter((row) => row.closest && Math.abs(row.closest.gap) <= 0.1).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ScanSearch className="h-5 w-5" />
+              {title}
+            </CardTitle>
+            <CardDescription>
+              The multiplier each live price implies relative to {baseRegion}, and the index it is closest to.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setOpen(!open)} disabled={regionCount === 0}>
+            {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            {open ? 'Hide' : `Analyze ${regionCount} regions`}
+          </Button>
+        </div>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-3">
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading exchange rates and PPP data...
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {rows.some((row) => row.impliedMultiplier !== undefined)
+                  ? `${matched} of ${rows.length} regions are within 10% of an index.`
+                  : `No live price in ${baseRegion}, so only USD values are shown.`}
+              </p>
+              <LivePriceAnalysisTable rows={rows} baseRegion={baseRegion} />
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
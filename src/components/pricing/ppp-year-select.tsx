@@ -0,0 +1,68 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  describePPPYearSelection,
+  MIN_PPP_YEAR,
+  pppYearSelectionKey,
+  type PPPYearSelection,
+} from '@/lib/world-bank/ppp-years';
+
+const AVERAGE_OPTIONS = [3, 5];
+
+// Latest, the averages, then single years newest first. The World Bank
+// publishes PPP factors a year or two behind, so the current year is left out.
+function selectionOptions(): PPPYearSelection[] {
+  const options: PPPYearSelection[] = [{ mode: 'latest' }];
+  for (const years of AVERAGE_OPTIONS) options.push({ mode: 'average', years });
+  for (let year = new Date().getFullYear() - 1; year >= MIN_PPP_YEAR; year--) {
+    options.push({ mode: 'year', year });
+  }
+  return options;
+}
+
+interface PppYearSelectProps {
+  value: PPPYearSelection;
+  onChange: (value: PPPYearSelection) => void;
+}
+
+// Reference year or rolling average for World Bank PPP data.
+export function PppYearSelect({ value, onChange }: PppYearSelectProps) {
+  const options = selectionOptions();
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3">
+        <span className="text-sm">PPP data year</span>
+        <Select
+          value={pppYearSelectionKey(value)}
+          onValueChange={(key) => {
+            const selection = options.find((option) => pppYearSelectionKey(option) === key);
+            if (selection) onChange(selection);
+          }}
+        >
+          <SelectTrigger className="h-7 w-44 text-xs" aria-label="PPP data year">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={pppYearSelectionKey(option)} value={pppYearSelectionKey(option)} className="text-xs">
+                {describePPPYearSelection(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {value.mode === 'latest'
+          ? 'Each region uses its most recent World Bank year, which can change when new data is published.'
+          : 'Pinning the data keeps PPP prices stable between runs. Regions without data fall back to static values.'}
+      </p>
+    </div>
+  );
+}
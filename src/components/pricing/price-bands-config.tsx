@@ -0,0 +1,125 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { PriceBandAssignment } from '@/lib/google-play/currency';
+import { MAX_PRICE_BANDS, type PriceBandConfig } from '@/lib/google-play/price-bands';
+
+const BAND_COUNTS = Array.from({ length: MAX_PRICE_BANDS - 1 }, (_, i) => i + 2);
+const DEFAULT_BAND_COUNT = 5;
+
+interface PriceBandsEditorProps {
+  /** undefined = one price per region */
+  value: PriceBandConfig | undefined;
+  onChange: (value: PriceBandConfig | undefined) => void;
+  /** Bands can't be used for the current setup (see priceBandsUnavailableReason) */
+  unavailableReason?: string | null;
+}
+
+// Toggle and band count for price-band clustering.
+export function PriceBandsEditor({ value, onChange, unavailableReason }: PriceBandsEditorProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <Checkbox
+            checked={value !== undefined && !unavailableReason}
+            disabled={!!unavailableReason}
+            onCheckedChange={(checked) =>
+              onChange(checked === true ? { count: DEFAULT_BAND_COUNT } : undefined)
+            }
+          />
+          <span className="text-sm">Group regions into price bands</span>
+        </label>
+        {value && !unavailableReason && (
+          <Select
+            value={String(value.count)}
+            onValueChange={(count) => onChange({ ...value, count: parseInt(count, 10) })}
+          >
+            <SelectTrigger className="h-7 w-28 text-xs" aria-label="Number of bands">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BAND_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)} className="text-xs">
+                  {count} bands
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground ml-6">
+        {unavailableReason ??
+          'Regions with similar multipliers share one price level (same USD-equivalent price before rounding).'}
+      </p>
+    </div>
+  );
+}
+
+interface BandedPrice {
+  band?: PriceBandAssignment;
+  multiplier: number;
+}
+
+// One line per band: name, shared multiplier, strategy range and region count.
+export function PriceBandSummary({ prices }: { prices: BandedPrice[] }) {
+  const bands = new Map<number, { label: string; multiplier: number; min: number; max: number; count: number }>();
+  for (const price of prices) {
+    if (!price.band) continue;
+    const entry = bands.get(price.band.index);
+    const strategy = price.band.strategyMultiplier;
+    if (entry) {
+      entry.min = Math.min(entry.min, strategy);
+      entry.max = Math.max(entry.max, strategy);
+      entry.count++;
+    } else {
+      bands.set(price.band.index, {
+        label: price.band.label,
+        multiplier: price.multiplier,
+        min: strategy,
+        max: strategy,
+        count: 1,
+      });
+    }
+  }
+  if (bands.size === 0) return null;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-1">
+      {[...bands.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, band]) => (
+          <div key={index} className="flex items-center justify-between gap-3 text-xs">
+            <span className="flex items-center gap-2">
+              <Badge variant="secondary" className="text-[10px]">{band.label}</Badge>
+              <span className="tabular-nums">{band.multiplier.toFixed(2)}×</span>
+            </span>
+            <span className="text-muted-foreground tabular-nums">
+              {band.min.toFixed(2)}–{band.max.toFixed(2)}× · {band.count} {band.count === 1 ? 'region' : 'regions'}
+            </span>
+          </div>
+        ))}
+    </div>
+  );
+}
+
+// Band name shown next to a region in the preview tables.
+export function PriceBandBadge({ band }: { band: PriceBandAssignment }) {
+  return (
+    <Badge
+      variant="secondary"
+      className="text-[10px] w-fit"
+      title={`Strategy multiplier ${band.strategyMultiplier.toFixed(2)}×`}
+    >
+      {band.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DEFAULT_ENDING_KEY,
+  DEFAULT_LOCALE_CHARM_ENDINGS,
+  type PriceEndingRule,
+  type PriceEndingTable,
+} from '@/lib/google-play/price-endings';
+
+// One editable line of the table: a single rule for a single currency.
+// Fields stay as strings so partially typed input ("0.", "80,") survives.
+interface EndingRow {
+  id: number;
+  currency: string;
+  minPrice: string;
+  step: string;
+  endings: string;
+}
+
+let nextRowId = 0;
+
+function tableToRows(table: PriceEndingTable): EndingRow[] {
+  const currencies = Object.keys(table).sort((a, b) => {
+    if (a === DEFAULT_ENDING_KEY) return -1;
+    if (b === DEFAULT_ENDING_KEY) return 1;
+    return a.localeCompare(b);
+  });
+  return currencies.flatMap((currency) =>
+    table[currency].map((rule) => ({
+      id: nextRowId++,
+      currency,
+      minPrice: rule.minPrice ? String(rule.minPrice) : '',
+      step: String(rule.step),
+      endings: rule.endings.join(', '),
+    }))
+  );
+}
+
+// Rows that don't parse (no currency, step ≤ 0, no endings) are left out
+function rowsToTable(rows: EndingRow[]): PriceEndingTable {
+  const table: PriceEndingTable = {};
+  for (const row of rows) {
+    const currency = row.currency.trim().toUpperCase();
+    const step = parseFloat(row.step);
+    const endings = row.endings
+      .split(',')
+      .map((e) => parseFloat(e))
+      .filter((e) => Number.isFinite(e) && e >= 0);
+    if (!currency || !(step > 0) || endings.length === 0) continue;
+
+    const rule: PriceEndingRule = { step, endings };
+    const minPrice = parseFloat(row.minPrice);
+    if (minPrice > 0) rule.minPrice = minPrice;
+    (table[currency] ??= []).push(rule);
+  }
+  // Highest band first, so the first matching rule wins
+  for (const rules of Object.values(table)) {
+    rules.sort((a, b) => (b.minPrice ?? 0) - (a.minPrice ?? 0));
+  }
+  return table;
+}
+
+interface PriceEndingsEditorProps {
+  value: PriceEndingTable;
+  onChange: (value: PriceEndingTable) => void;
+}
+
+// Editable per-currency price-ending table for the 'locale-charm' rounding mode.
+export function PriceEndingsEditor({ value, onChange }: PriceEndingsEditorProps) {
+  const [rows, setRows] = useState<EndingRow[]>(() => tableToRows(value));
+
+  const update = (next: EndingRow[]) => {
+    setRows(next);
+    onChange(rowsToTable(next));
+  };
+
+  const setField = (id: number, field: keyof Omit<EndingRow, 'id'>, raw: string) => {
+    update(rows.map((row) => (row.id === id ? { ...row, [field]: raw } : row)));
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">Price endings by currency</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => {
+            setRows(tableToRows(DEFAULT_LOCALE_CHARM_ENDINGS));
+            onChange(DEFAULT_LOCALE_CHARM_ENDINGS);
+          }}
+        >
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Reset
+        </Button>
+      </div>
+      <div className="grid grid-cols-[5rem_5rem_5rem_1fr_2rem] gap-2 text-[10px] uppercase text-muted-foreground">
+        <span>Currency</span>
+        <span>From</span>
+        <span>Step</span>
+        <span>Endings</span>
+        <span />
+      </div>
+      <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+        {rows.map((row) => (
+          <div key={row.id} className="grid grid-cols-[5rem_5rem_5rem_1fr_2rem] gap-2 items-center">
+            <Input
+              className="h-7 text-xs"
+              value={row.currency}
+              placeholder="EUR"
+              aria-label="Currency"
+              onChange={(e) => setField(row.id, 'currency', e.target.value)}
+            />
+            <Input
+              className="h-7 text-xs"
+              type="number"
+              min="0"
+              value={row.minPrice}
+              placeholder="0"
+              aria-label="Applies from price"
+              onChange={(e) => setField(row.id, 'minPrice', e.target.value)}
+            />
+            <Input
+              className="h-7 text-xs"
+              type="number"
+              min="0"
+              value={row.step}
+              aria-label="Step"
+              onChange={(e) => setField(row.id, 'step', e.target.value)}
+            />
+            <Input
+              className="h-7 text-xs"
+              value={row.endings}
+              placeholder="0.49, 0.99"
+              aria-label="Endings"
+              onChange={(e) => setField(row.id, 'endings', e.target.value)}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Remove rule"
+              onClick={() => update(rows.filter((r) => r.id !== row.id))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => update([...rows, { id: nextRowId++, currency: '', minPrice: '', step: '1', endings: '0.99' }])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Add rule
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Step 100 with endings 80, 0 gives …80 or …00. &quot;From&quot; limits a rule to prices at or above that
+        amount. {DEFAULT_ENDING_KEY} applies to every currency without its own rules.
+      </p>
+    </div>
+  );
+}
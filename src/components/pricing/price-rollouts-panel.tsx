@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import { CalendarClock, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import type { StorePlatform } from '@/lib/currencies/registry';
+import { moneyToNumber, type Money } from '@/lib/google-play/types';
+import {
+  hasDueRolloutStep,
+  isRolloutComplete,
+  isRolloutStepDue,
+  toDateString,
+  type PriceRollout,
+} from '@/lib/google-play/price-rollout';
+import { useUpdateProductPrices } from '@/hooks/use-products';
+import {
+  useResolveAppleSubscriptionPricePoints,
+  useUpdateAppleSubscriptionPrices,
+  useUpdateBasePlanPrices,
+} from '@/hooks/use-subscriptions';
+import { usePricingStore } from '@/store/pricing-store';
+
+interface PriceRolloutsPanelProps {
+  platform: StorePlatform;
+  kind: PriceRollout['kind'];
+}
+
+// Stepped rollouts with steps still to send. There is no server-side
+// scheduler: a due step is only sent when "Send due step" is clicked here.
+export function PriceRolloutsPanel({ platform, kind }: PriceRolloutsPanelProps) {
+  const allRollouts = usePricingStore((state) => state.priceRollouts);
+  const markStepSubmitted = usePricingStore((state) => state.markRolloutStepSubmitted);
+  const removeRollout = usePricingStore((state) => state.removePriceRollout);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const updateProductPrices = useUpdateProductPrices(platform);
+  const updateBasePlanPrices = useUpdateBasePlanPrices(platform);
+  const resolveApplePricePoints = useResolveAppleSubscriptionPricePoints();
+  const updateAppleSubscriptionPrices = useUpdateAppleSubscriptionPrices();
+
+  const rollouts = allRollouts.filter((r) => r.platform === platform && r.kind === kind);
+  if (rollouts.length === 0) return null;
+
+  const today = toDateString(new Date());
+
+  const sendPrices = async (rollout: PriceRollout, prices: Record<string, Money>, date: string) => {
+    if (rollout.platform === 'apple') {
+      const territories: Record<string, { targetPrice: number; currency: string }> = {};
+      for (const [code, price] of Object.entries(prices)) {
+        territories[code] = { targetPrice: moneyToNumber(price), currency: price.currencyCode };
+      }
+      const { resolved } = await resolveApplePricePoints.mutateAsync({
+        subscriptionId: rollout.productId,
+        territories,
+      });
+      const schedule: Record<string, { pricePointId: string; startDate?: string }> = {};
+      for (const [code, { pricePointId }] of Object.entries(resolved)) {
+        schedule[code] = { pricePointId, ...(date > today ? { startDate: date } : {}) };
+      }
+      await updateAppleSubscriptionPrices.mutateAsync({
+        subscriptionId: rollout.productId,
+        prices: schedule,
+        preserveCurrentPrice: rollout.preserveCurrentPrice,
+      });
+    } else if (rollout.kind === 'subscription' && rollout.basePlanId) {
+      await updateBasePlanPrices.mutateAsync({
+        productId: rollout.productId,
+        basePlanId: rollout.basePlanId,
+        regionalConfigs: Object.entries(prices).map(([regionCode, price]) => ({ regionCode, price })),
+      });
+    } else {
+      await updateProductPrices.mutateAsync({ sku: rollout.productId, prices });
+    }
+  };
+
+  // Steps missed while the dashboard was closed go out together, latest price winning
+  const sendDueSteps = async (rollout: PriceRollout) => {
+    const due = rollout.steps
+      .map((_, index) => index)
+      .filter((index) => isRolloutStepDue(rollout, index, today));
+    if (due.length === 0) return;
+
+    const prices: Record<string, Money> = {};
+    for (const index of due) Object.assign(prices, rollout.steps[index].prices);
+
+    setSendingId(rollout.id);
+    try {
+      await sendPrices(rollout, prices, rollout.steps[due[due.length - 1]].date);
+      due.forEach((index) => markStepSubmitted(rollout.id, index));
+      toast.success(`Sent step ${due[due.length - 1] + 1} of ${rollout.label}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send rollout step');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarClock className="h-4 w-4" />
+          Stepped Rollouts
+        </CardTitle>
+        <CardDescription>
+          {platform === 'apple'
+            ? 'Apple takes one scheduled price per territory, so send each step with "Send due step" once the previous one is live.'
+            : 'Google Play has no scheduled prices. Nothing is sent automatically: send each step with "Send due step" on or after its date.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rollouts.map((rollout) => {
+          const hasDue = hasDueRolloutStep(rollout, today);
+          const complete = isRolloutComplete(rollout);
+          return (
+            <div key={rollout.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">
+                  {rollout.label}
+                  {rollout.basePlanId && (
+                    <span className="ml-2 text-muted-foreground font-normal">{rollout.basePlanId}</span>
+                  )}
+                </p>
+                <div className="flex items-center gap-2">
+                  {hasDue && (
+                    <Button
+                      size="sm"
+                      onClick={() => sendDueSteps(rollout)}
+                      disabled={sendingId !== null}
+                    >
+                      {sendingId === rollout.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Send due step
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeRollout(rollout.id)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={complete ? `Dismiss ${rollout.label}` : `Cancel remaining steps of ${rollout.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {rollout.steps.map((step, index) => (
+                  <Badge
+                    key={step.date}
+                    variant={step.submittedAt ? 'secondary' : isRolloutStepDue(rollout, index, today) ? 'default' : 'outline'}
+                  >
+                    {index + 1}. {step.date} · {Object.keys(step.prices).length} regions
+                    {step.submittedAt ? ' · sent' : isRolloutStepDue(rollout, index, today) ? ' · due' : ''}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
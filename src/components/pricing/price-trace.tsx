@@ -0,0 +1,73 @@
+'use client';
+
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TableCell, TableRow } from '@/components/ui/table';
+import type { PriceTraceStep, PriceTraceStepKind } from '@/lib/google-play/currency';
+
+const STEP_LABELS: Record<PriceTraceStepKind, string> = {
+  anchor: 'Anchor',
+  band: 'Price band',
+  'currency-union': 'Currency union',
+  'base-currency': 'Base price',
+  multiplier: 'Multiplier',
+  'base-normalisation': 'Base region',
+  'hyperinflation-override': 'Override',
+  fx: 'Exchange rate',
+  guardrail: 'Guardrail',
+  rounding: 'Rounding',
+  'min-price': 'Minimum',
+  'store-rule': 'Store rule',
+};
+
+interface PriceTraceToggleProps {
+  open: boolean;
+  onToggle: () => void;
+}
+
+// Expand/collapse button for a preview row's derivation trace.
+export function PriceTraceToggle({ open, onToggle }: PriceTraceToggleProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6"
+      aria-label={open ? 'Hide price derivation' : 'Show price derivation'}
+      aria-expanded={open}
+      onClick={onToggle}
+    >
+      {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+    </Button>
+  );
+}
+
+interface PriceTraceRowProps {
+  trace: PriceTraceStep[];
+  /** Number of columns in the surrounding table */
+  colSpan: number;
+}
+
+// Full-width table row listing every step that produced a price.
+export function PriceTraceRow({ trace, colSpan }: PriceTraceRowProps) {
+  return (
+    <TableRow className="bg-muted/30 hover:bg-muted/30">
+      <TableCell colSpan={colSpan} className="py-2">
+        <ol className="space-y-0.5 text-xs">
+          {trace.map((step, i) => (
+            <li
+              key={i}
+              className={`grid grid-cols-[7rem_1fr] gap-2 ${
+                step.step === 'hyperinflation-override' || step.step === 'guardrail'
+                  ? 'text-amber-600 dark:text-amber-500'
+                  : ''
+              }`}
+            >
+              <span className="text-muted-foreground">{STEP_LABELS[step.step]}</span>
+              <span className="tabular-nums">{step.detail}</span>
+            </li>
+          ))}
+        </ol>
+      </TableCell>
+    </TableRow>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  STORE_COMMISSION_RATES,
+  type ProceedsConfig,
+} from '@/lib/google-play/currency';
+
+const COMMISSION_LABELS: Record<keyof typeof STORE_COMMISSION_RATES, string> = {
+  standard: '30% — standard commission',
+  reduced: '15% — small business program / subscriptions after year one',
+};
+
+interface ProceedsConfigEditorProps {
+  value: ProceedsConfig;
+  onChange: (value: ProceedsConfig) => void;
+}
+
+// Commission picker for the 'proceeds' pricing strategy.
+export function ProceedsConfigEditor({ value, onChange }: ProceedsConfigEditorProps) {
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <Label className="text-xs">Store commission</Label>
+      <Select
+        value={String(value.commission)}
+        onValueChange={(commission) => onChange({ ...value, commission: parseFloat(commission) })}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(STORE_COMMISSION_RATES) as Array<keyof typeof STORE_COMMISSION_RATES>).map((key) => (
+            <SelectItem key={key} value={String(STORE_COMMISSION_RATES[key])} className="text-xs">
+              {COMMISSION_LABELS[key]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        The base price is the net you want per sale. Each region adds back the commission and any VAT/GST included
+        in the store price, then converts currency.
+      </p>
+    </div>
+  );
+}
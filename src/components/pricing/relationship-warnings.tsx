@@ -0,0 +1,64 @@
+'use client';
+
+import { Link2Off } from 'lucide-react';
+import { useRelationshipViolations } from '@/hooks/use-price-relationships';
+import type { StorePlatform } from '@/lib/currencies/registry';
+import type { Money } from '@/lib/google-play/types';
+import {
+  describeRelationship,
+  describeViolation,
+  type RelationshipViolation,
+} from '@/lib/google-play/price-relationships';
+
+// Regions listed per relationship before "and N more"
+const MAX_LISTED_REGIONS = 5;
+
+interface RelationshipWarningsProps {
+  platform: StorePlatform;
+  itemKey: string;
+  /** The item's prices as they would be saved (live + pending edits or a bulk preview) */
+  prices: Record<string, Money>;
+}
+
+// Lists the price relationships (Settings → Price Relationships) that these
+// prices break. Renders nothing when all of them hold.
+export function RelationshipWarnings({ platform, itemKey, prices }: RelationshipWarningsProps) {
+  const { relationships, violations } = useRelationshipViolations(platform, itemKey, prices);
+  if (violations.length === 0) return null;
+
+  const byRelationship = new Map<string, RelationshipViolation[]>();
+  for (const violation of violations) {
+    const list = byRelationship.get(violation.relationship.id) ?? [];
+    list.push(violation);
+    byRelationship.set(violation.relationship.id, list);
+  }
+
+  return (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-800 dark:bg-amber-950/30">
+      <p className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-400">
+        <Link2Off className="h-4 w-4" />
+        {byRelationship.size} of {relationships.length} price relationships broken
+      </p>
+      <div className="mt-2 space-y-2">
+        {Array.from(byRelationship.values()).map((list) => (
+          <div key={list[0].relationship.id}>
+            <p className="font-medium">
+              {describeRelationship(list[0].relationship)}
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                {list.length} region{list.length !== 1 ? 's' : ''}
+              </span>
+            </p>
+            <ul className="ml-4 list-disc text-xs text-muted-foreground">
+              {list.slice(0, MAX_LISTED_REGIONS).map((violation) => (
+                <li key={violation.regionCode}>{describeViolation(violation)}</li>
+              ))}
+            </ul>
+            {list.length > MAX_LISTED_REGIONS && (
+              <p className="ml-4 text-xs text-muted-foreground">and {list.length - MAX_LISTED_REGIONS} more</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { Link2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePriceItems, type PriceItem } from '@/hooks/use-price-relationships';
+import { useAuthStore } from '@/store/auth-store';
+import { usePricingStore } from '@/store/pricing-store';
+import {
+  describeRelationship,
+  RELATIONSHIP_OPERATORS,
+  RELATIONSHIP_OPERATOR_SYMBOLS,
+  type PriceItemRef,
+  type RelationshipOperator,
+} from '@/lib/google-play/price-relationships';
+
+interface SideState {
+  key: string;
+  units: string;
+}
+
+const EMPTY_SIDE: SideState = { key: '', units: '' };
+
+function toRef(side: SideState, items: PriceItem[]): PriceItemRef | null {
+  const item = items.find((i) => i.key === side.key);
+  if (!item) return null;
+  const units = parseFloat(side.units);
+  return { key: item.key, label: item.label, ...(units > 0 && units !== 1 ? { units } : {}) };
+}
+
+function ItemSide({
+  id,
+  label,
+  items,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  items: PriceItem[];
+  value: SideState;
+  onChange: (value: SideState) => void;
+}) {
+  return (
+    <div className="grid grid-cols-[1fr_6rem] gap-2">
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-item`} className="text-xs text-muted-foreground">{label}</Label>
+        <Select value={value.key} onValueChange={(key) => onChange({ ...value, key })}>
+          <SelectTrigger id={`${id}-item`}>
+            <SelectValue placeholder="Product or plan" />
+          </SelectTrigger>
+          <SelectContent>
+            {items.map((item) => (
+              <SelectItem key={item.key} value={item.key}>{item.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-units`} className="text-xs text-muted-foreground">Units</Label>
+        <Input
+          id={`${id}-units`}
+          type="number"
+          min="1"
+          placeholder="1"
+          value={value.units}
+          onChange={(e) => onChange({ ...value, units: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Settings card for declaring price relationships between the active app's
+// products and plans. The editors and bulk modals warn when one is broken.
+export function PriceRelationshipsCard() {
+  const platform = useAuthStore((state) => state.platform);
+  const relationships = usePricingStore((state) => state.priceRelationships);
+  const addPriceRelationship = usePricingStore((state) => state.addPriceRelationship);
+  const removePriceRelationship = usePricingStore((state) => state.removePriceRelationship);
+  const items = usePriceItems();
+
+  const [left, setLeft] = useState<SideState>(EMPTY_SIDE);
+  const [right, setRight] = useState<SideState>(EMPTY_SIDE);
+  const [operator, setOperator] = useState<RelationshipOperator>('<=');
+  const [factor, setFactor] = useState('1');
+
+  const platformRelationships = relationships.filter((r) => r.platform === platform);
+  const leftRef = toRef(left, items);
+  const rightRef = toRef(right, items);
+  const factorNum = parseFloat(factor);
+  const canAdd = !!platform && !!leftRef && !!rightRef && leftRef.key !== rightRef.key && factorNum > 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const relationship = {
+      id: crypto.randomUUID(),
+      platform,
+      left: leftRef,
+      operator,
+      factor: factorNum,
+      right: rightRef,
+    };
+    addPriceRelationship(relationship);
+    toast.success(`Added ${describeRelationship(relationship)}`);
+    setLeft(EMPTY_SIDE);
+    setRight(EMPTY_SIDE);
+    setFactor('1');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Price Relationships
+        </CardTitle>
+        <CardDescription>
+          Rules between products and plans that must hold in every region, such as annual ≤ 10× monthly
+          or lifetime ≥ 2.5× annual. Set units to compare per-unit prices (e.g. coins per pack).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!platform ? (
+          <p className="text-sm text-muted-foreground">Connect an app to declare relationships between its products.</p>
+        ) : (
+          <>
+            {platformRelationships.length > 0 && (
+              <div className="space-y-2">
+                {platformRelationships.map((relationship) => (
+                  <div key={relationship.id} className="flex items-center justify-between p-3 rounded-lg border">
+                    <p className="font-medium">{describeRelationship(relationship)}</p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removePriceRelationship(relationship.id)}
+                      className="text-destructive hover:text-destructive"
+                      aria-label={`Remove ${describeRelationship(relationship)}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3 pt-2">
+              <ItemSide id="relationship-left" label="Price of" items={items} value={left} onChange={setLeft} />
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="relationship-operator" className="text-xs text-muted-foreground">Must be</Label>
+                  <Select value={operator} onValueChange={(value) => setOperator(value as RelationshipOperator)}>
+                    <SelectTrigger id="relationship-operator">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RELATIONSHIP_OPERATORS.map((op) => (
+                        <SelectItem key={op} value={op}>{RELATIONSHIP_OPERATOR_SYMBOLS[op]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="relationship-factor" className="text-xs text-muted-foreground">Times</Label>
+                  <Input
+                    id="relationship-factor"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={factor}
+                    onChange={(e) => setFactor(e.target.value)}
+                  />
+                </div>
+              </div>
+              <ItemSide id="relationship-right" label="Price of" items={items} value={right} onChange={setRight} />
+              <Button onClick={handleAdd} disabled={!canAdd}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add relationship
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import type { StorePlatform } from '@/lib/currencies/registry';
+import type { PricingPlanSettings } from '@/lib/google-play/pricing-plan';
+import { usePricingStore } from '@/store/pricing-store';
+
+interface SavePlanButtonProps {
+  platform: StorePlatform;
+  /** Suggested name, usually the product or plan being priced */
+  defaultName: string;
+  regions: string[];
+  settings: PricingPlanSettings;
+  disabled?: boolean;
+}
+
+// Keep the current bulk pricing settings as a named plan for the FX simulator
+export function SavePlanButton({ platform, defaultName, regions, settings, disabled }: SavePlanButtonProps) {
+  const savePricingPlan = usePricingStore((state) => state.savePricingPlan);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(defaultName);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    savePricingPlan({
+      id: crypto.randomUUID(),
+      name: trimmed,
+      platform,
+      savedAt: new Date().toISOString(),
+      regions,
+      settings,
+    });
+    toast.success(`Saved plan "${trimmed}" for the FX simulator`);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <Save className="h-4 w-4" />
+          Save plan
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div className="space-y-1">
+          <Label htmlFor="pricing-plan-name">Plan name</Label>
+          <Input
+            id="pricing-plan-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Saves the strategy, base price and adjustments for {regions.length} regions.
+        </p>
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={!name.trim()}>
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DEFAULT_ROLLOUT_SCHEDULE,
+  type RolloutSchedule,
+  type RolloutStep,
+} from '@/lib/google-play/price-rollout';
+
+interface SteppedRolloutEditorProps {
+  value: RolloutSchedule | null;
+  onChange: (value: RolloutSchedule | null) => void;
+  /** The planned steps for the current selection, for the summary */
+  plan: RolloutStep[];
+  /** How later steps reach the store, shown under the summary */
+  note: string;
+}
+
+// Opt-in schedule for splitting increases into several smaller steps
+export function SteppedRolloutEditor({ value, onChange, plan, note }: SteppedRolloutEditorProps) {
+  const setField = (key: keyof RolloutSchedule, raw: string, min: number, max = Infinity) => {
+    const parsed = parseInt(raw, 10);
+    if (!value || isNaN(parsed) || parsed < min || parsed > max) return;
+    onChange({ ...value, [key]: parsed });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="stepped-rollout"
+          checked={value !== null}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_ROLLOUT_SCHEDULE : null)}
+        />
+        <Label htmlFor="stepped-rollout" className="cursor-pointer">
+          Roll out increases in steps
+        </Label>
+      </div>
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="rollout-steps" className="text-xs text-muted-foreground">Steps</Label>
+              <Input
+                id="rollout-steps"
+                type="number"
+                min="2"
+                max="12"
+                value={value.steps}
+                onChange={(e) => setField('steps', e.target.value, 2, 12)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rollout-interval" className="text-xs text-muted-foreground">Days between steps</Label>
+              <Input
+                id="rollout-interval"
+                type="number"
+                min="1"
+                value={value.intervalDays}
+                onChange={(e) => setField('intervalDays', e.target.value, 1)}
+              />
+            </div>
+          </div>
+          {plan.length > 0 && (
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              {plan.map((step, i) => (
+                <li key={step.date}>
+                  Step {i + 1} · {step.date} · {Object.keys(step.prices).length} regions
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Only increases are split into equal steps; decreases and new regions apply in the first step. {note}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
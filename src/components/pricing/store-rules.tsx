@@ -0,0 +1,92 @@
+'use client';
+
+import { Ban, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import type { StoreRuleHit } from '@/lib/currencies/constraints';
+import { formatCurrency } from '@/lib/currencies/registry';
+
+interface StoreRulesBarProps {
+  autoFix: boolean;
+  onAutoFixChange: (value: boolean) => void;
+  /** Selected rows whose price was replaced to satisfy a store rule */
+  fixedCount: number;
+  /** Selected rows that would be rejected; applying is blocked while any remain */
+  blockedCount: number;
+  onDeselectBlocked: () => void;
+}
+
+// Auto-fix toggle and counts above a bulk preview table
+export function StoreRulesBar({
+  autoFix,
+  onAutoFixChange,
+  fixedCount,
+  blockedCount,
+  onDeselectBlocked,
+}: StoreRulesBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="store-rules-autofix"
+          checked={autoFix}
+          onCheckedChange={(checked) => onAutoFixChange(checked === true)}
+        />
+        <Label htmlFor="store-rules-autofix" className="text-xs font-normal">
+          Auto-fix prices the store would reject
+        </Label>
+      </div>
+      {fixedCount > 0 && (
+        <span className="text-amber-600 dark:text-amber-500">
+          {fixedCount} adjusted for store rules
+        </span>
+      )}
+      {blockedCount > 0 && (
+        <span className="flex items-center gap-2 text-destructive">
+          {blockedCount} would be rejected
+          <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={onDeselectBlocked}>
+            Deselect
+          </Button>
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface StoreRuleIndicatorProps {
+  hit: StoreRuleHit;
+  currencyCode: string;
+}
+
+// Icon next to a price that broke a store rule: a wrench when it was fixed, a
+// stop sign when the row blocks the run. Must be rendered inside a TooltipProvider.
+export function StoreRuleIndicator({ hit, currencyCode }: StoreRuleIndicatorProps) {
+  const fixed = hit.fixedPrice !== undefined;
+  const Icon = fixed ? Wrench : Ban;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Icon
+          className={`inline h-3.5 w-3.5 mr-1 cursor-help ${fixed ? 'text-amber-600 dark:text-amber-500' : 'text-destructive'}`}
+          aria-label={fixed ? 'Adjusted for store rules' : 'Rejected by store rules'}
+        />
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs">
+        {hit.violations.map((violation) => (
+          <p key={violation.rule} className="text-xs font-medium">{violation.message}</p>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          {fixed
+            ? `Strategy price ${formatCurrency(hit.proposedPrice, currencyCode)} → ${formatCurrency(hit.fixedPrice!, currencyCode)}`
+            : 'The store would reject this price; deselect the region to apply'}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
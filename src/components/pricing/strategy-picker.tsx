@@ -0,0 +1,90 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import {
+  Blend,
+  Calculator,
+  Globe,
+  Hamburger,
+  Landmark,
+  Music,
+  ShoppingBasket,
+  Sliders,
+  TrendingDown,
+  Tv,
+  Wallet,
+  type LucideIcon,
+} from 'lucide-react';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { listPricingStrategies, type PricingStrategy } from '@/lib/google-play/currency';
+
+// Icons for the built-in strategies; registered strategies get the calculator
+const STRATEGY_ICONS: Record<string, LucideIcon> = {
+  direct: Globe,
+  netflix: Tv,
+  ppp: TrendingDown,
+  'ppp-consumption': ShoppingBasket,
+  bigmac: Hamburger,
+  spotify: Music,
+  gni: Landmark,
+  blend: Blend,
+  proceeds: Wallet,
+  custom: Sliders,
+};
+
+export function getStrategyIcon(id: string): LucideIcon {
+  return STRATEGY_ICONS[id] ?? Calculator;
+}
+
+interface StrategyPickerProps {
+  value: PricingStrategy;
+  onChange: (value: PricingStrategy) => void;
+  /** Extra tooltip lines per strategy id (e.g. live data coverage) */
+  notes?: Record<string, ReactNode>;
+}
+
+// Radio grid with one option per registered pricing strategy.
+export function StrategyPicker({ value, onChange, notes }: StrategyPickerProps) {
+  return (
+    <TooltipProvider delayDuration={200}>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+        {listPricingStrategies().map((strategy) => {
+          const Icon = getStrategyIcon(strategy.id);
+          return (
+            <Tooltip key={strategy.id}>
+              <TooltipTrigger asChild>
+                <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
+                  <input
+                    type="radio"
+                    name="strategy"
+                    value={strategy.id}
+                    checked={value === strategy.id}
+                    onChange={() => onChange(strategy.id)}
+                    className="sr-only"
+                  />
+                  <Icon className="h-4 w-4 shrink-0" />
+                  <span className="text-sm font-medium truncate">{strategy.label}</span>
+                </label>
+              </TooltipTrigger>
+              <TooltipContent side="bottom" className="max-w-xs">
+                <p className="font-medium">{strategy.title}</p>
+                <p className="text-xs text-muted-foreground">{strategy.description}</p>
+                {strategy.attribution && (
+                  <p className="text-xs text-muted-foreground mt-1">{strategy.attribution}</p>
+                )}
+                {notes?.[strategy.id] && (
+                  <p className="text-xs text-muted-foreground mt-1">{notes[strategy.id]}</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+}
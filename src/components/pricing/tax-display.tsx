@@ -0,0 +1,56 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { getTaxBreakdown, type TaxMode } from '@/lib/google-play/currency';
+import { formatCurrency } from '@/lib/currencies/registry';
+
+interface TaxModeToggleProps {
+  value: TaxMode;
+  onChange: (value: TaxMode) => void;
+}
+
+// Switches rounding between the listed store price and the price the customer pays.
+export function TaxModeToggle({ value, onChange }: TaxModeToggleProps) {
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <Checkbox
+          checked={value === 'customer'}
+          onCheckedChange={(checked) => onChange(checked === true ? 'customer' : 'listed')}
+        />
+        <span className="text-sm">Round the price customers pay (incl. tax)</span>
+      </label>
+      <p className="text-xs text-muted-foreground ml-6">
+        Where tax is added at checkout (e.g. US, Canada) the listed price is set so that the total lands on the
+        rounded ending.
+      </p>
+    </div>
+  );
+}
+
+interface TaxSplitProps {
+  /** Listed store price */
+  amount: number;
+  currencyCode: string;
+  /** Alpha-2 or alpha-3 region code */
+  regionCode: string;
+}
+
+// Net and tax-inclusive amounts of a listed price, side by side.
+export function TaxSplit({ amount, currencyCode, regionCode }: TaxSplitProps) {
+  const split = getTaxBreakdown(amount, regionCode);
+  if (split.rate === 0) {
+    return <span className="text-xs text-muted-foreground">No tax data</span>;
+  }
+
+  const percent = `${Math.round(split.rate * 1000) / 10}%`;
+  return (
+    <div
+      className="flex justify-end gap-3 text-xs tabular-nums"
+      title={`${split.name} ${percent} ${split.inclusive ? 'included in the listed price' : 'added at checkout'}`}
+    >
+      <span className="text-muted-foreground">{formatCurrency(split.netPrice, currencyCode)}</span>
+      <span>{formatCurrency(split.grossPrice, currencyCode)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { useState } from 'react';
+import { Flame, Plus, Sparkles, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import {
+  getPricingStrategy,
+  listPricingStrategies,
+  RECOMMENDED_UNSTABLE_CURRENCY_RULES,
+  type UnstableCurrencyAction,
+  type UnstableCurrencyHit,
+} from '@/lib/google-play/currency';
+import { usePricingStore } from '@/store/pricing-store';
+
+// Strategies that read PPP themselves can't stand in for it
+const PPP_BASED_STRATEGIES = ['ppp', 'ppp-consumption', 'blend'];
+
+export function describeUnstableCurrencyAction(action: UnstableCurrencyAction): string {
+  switch (action.kind) {
+    case 'multiplier':
+      return `Fixed multiplier ${action.multiplier}`;
+    case 'index':
+      return `${getPricingStrategy(action.strategy)?.label ?? action.strategy} multiplier`;
+    case 'freeze':
+      return `Keep the live price (multiplier ${action.multiplier} where there is none)`;
+  }
+}
+
+interface ActionEditorProps {
+  id: string;
+  value: UnstableCurrencyAction;
+  onChange: (value: UnstableCurrencyAction) => void;
+}
+
+function ActionEditor({ id, value, onChange }: ActionEditorProps) {
+  const indexStrategies = listPricingStrategies().filter(
+    (s) => s.index && !PPP_BASED_STRATEGIES.includes(s.id)
+  );
+
+  const setKind = (kind: UnstableCurrencyAction['kind']) => {
+    const multiplier = value.kind === 'index' ? 0.25 : value.multiplier;
+    onChange(kind === 'index' ? { kind, strategy: indexStrategies[0]?.id ?? 'gni' } : { kind, multiplier });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <Select value={value.kind} onValueChange={(kind) => setKind(kind as UnstableCurrencyAction['kind'])}>
+        <SelectTrigger id={`${id}-kind`} aria-label="Action">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="multiplier">Fixed multiplier</SelectItem>
+          <SelectItem value="index">Use another index</SelectItem>
+          <SelectItem value="freeze">Freeze live price</SelectItem>
+        </SelectContent>
+      </Select>
+      {value.kind === 'index' ? (
+        <Select value={value.strategy} onValueChange={(strategy) => onChange({ kind: 'index', strategy })}>
+          <SelectTrigger aria-label="Index">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {indexStrategies.map((s) => (
+              <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          type="number"
+          step="0.05"
+          min="0"
+          aria-label={value.kind === 'freeze' ? 'Multiplier where there is no live price' : 'Multiplier'}
+          value={value.multiplier}
+          onChange={(e) => {
+            const multiplier = parseFloat(e.target.value);
+            if (multiplier >= 0) onChange({ ...value, multiplier });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Settings card for the policy that replaces PPP in regions with unstable
+// currencies. Rules always apply to their region; the fallback covers any
+// other region where PPP lands above the base price in a foreign billing currency.
+export function UnstableCurrencyCard() {
+  const policy = usePricingStore((state) => state.unstableCurrencyPolicy);
+  const setPolicy = usePricingStore((state) => state.setUnstableCurrencyPolicy);
+
+  const [match, setMatch] = useState('');
+  const [reason, setReason] = useState('');
+  const [action, setAction] = useState<UnstableCurrencyAction>({ kind: 'multiplier', multiplier: 0.3 });
+
+  const matchCode = match.trim().toUpperCase();
+  const canAdd = /^[A-Z]{2,3}$/.test(matchCode) && reason.trim() !== '';
+  const missingRecommended = RECOMMENDED_UNSTABLE_CURRENCY_RULES.filter(
+    (rule) => !policy.rules.some((r) => r.match === rule.match)
+  );
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    setPolicy({
+      ...policy,
+      rules: [...policy.rules.filter((r) => r.match !== matchCode), { match: matchCode, action, reason: reason.trim() }],
+    });
+    toast.success(`Added a rule for ${matchCode}`);
+    setMatch('');
+    setReason('');
+  };
+
+  const handleAddRecommended = () => {
+    setPolicy({ ...policy, rules: [...policy.rules, ...missingRecommended] });
+    toast.success(`Added ${missingRecommended.length} recommended rules`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="h-5 w-5" />
+          Unstable Currencies
+        </CardTitle>
+        <CardDescription>
+          How the PPP strategies price regions whose currency has outrun the World Bank data, such as
+          Argentina, Turkey, Nigeria, Egypt, Lebanon and Venezuela. Affected regions are flagged in every preview.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {policy.rules.length > 0 && (
+          <div className="space-y-2">
+            {policy.rules.map((rule, index) => (
+              <div key={rule.match} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm">
+                    <span className="font-mono font-medium mr-2">{rule.match}</span>
+                    <span className="text-muted-foreground">{rule.reason}</span>
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPolicy({ ...policy, rules: policy.rules.filter((r) => r.match !== rule.match) })}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={`Remove rule for ${rule.match}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <ActionEditor
+                  id={`unstable-rule-${rule.match}`}
+                  value={rule.action}
+                  onChange={(next) =>
+                    setPolicy({
+                      ...policy,
+                      rules: policy.rules.map((r, i) => (i === index ? { ...r, action: next } : r)),
+                    })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {missingRecommended.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handleAddRecommended}>
+            <Sparkles className="mr-2 h-4 w-4" />
+            Add recommended rules ({missingRecommended.map((r) => r.match).join(', ')})
+          </Button>
+        )}
+
+        <div className="space-y-3 pt-2">
+          <div className="grid grid-cols-[8rem_1fr] gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="unstable-match" className="text-xs text-muted-foreground">Region or currency</Label>
+              <Input
+                id="unstable-match"
+                placeholder="AR or ARS"
+                value={match}
+                onChange={(e) => setMatch(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="unstable-reason" className="text-xs text-muted-foreground">Reason</Label>
+              <Input
+                id="unstable-reason"
+                placeholder="e.g. PPP factors predate the devaluation"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <ActionEditor id="unstable-new" value={action} onChange={setAction} />
+          <Button onClick={handleAdd} disabled={!canAdd}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add rule
+          </Button>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          <Label>Fallback</Label>
+          <p className="text-xs text-muted-foreground">
+            For other regions where PPP lands above the base price while the store bills in a foreign currency.
+          </p>
+          <ActionEditor
+            id="unstable-fallback"
+            value={policy.fallback}
+            onChange={(fallback) => setPolicy({ ...policy, fallback })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface UnstableCurrencyIndicatorProps {
+  hit: UnstableCurrencyHit;
+}
+
+// Flame icon next to a price the unstable-currency policy decided. Must be
+// rendered inside a TooltipProvider.
+export function UnstableCurrencyIndicator({ hit }: UnstableCurrencyIndicatorProps) {
+  const title = hit.frozen ? 'Frozen at the live price' : describeUnstableCurrencyAction(hit.action);
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Flame
+          className="inline h-3.5 w-3.5 mr-1 text-orange-600 dark:text-orange-500 cursor-help"
+          aria-label={title}
+        />
+      </TooltipTrigger>
+      <TooltipContent side="top">
+        <p className="text-xs font-medium">{title}</p>
+        <p className="text-xs text-muted-foreground">
+          {hit.reason}{hit.match ? ` (${hit.match} rule)` : ' (fallback)'}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Coins } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { StorePlatform } from '@/lib/currencies/registry';
+import type { InAppProduct } from '@/lib/google-play/types';
+import type { ProductFamily } from '@/lib/google-play/pack-ladder';
+import { usePricingStore } from '@/store/pricing-store';
+import { PackLadderModal } from './pack-ladder-modal';
+
+interface PackLadderButtonProps {
+  platform: StorePlatform;
+  products: InAppProduct[];
+  selectedSkus: string[];
+}
+
+// Opens the pack ladder for the selected products or a saved family
+export function PackLadderButton({ platform, products, selectedSkus }: PackLadderButtonProps) {
+  const productFamilies = usePricingStore((state) => state.productFamilies);
+  const families = productFamilies.filter((f) => f.platform === platform);
+  // Each opening gets a fresh modal instance so it seeds from its packs
+  const [opening, setOpening] = useState<{ id: number; packs: InAppProduct[]; family?: ProductFamily } | null>(null);
+  const [open, setOpen] = useState(false);
+
+  const openWith = (packs: InAppProduct[], family?: ProductFamily) => {
+    setOpening({ id: (opening?.id ?? 0) + 1, packs, family });
+    setOpen(true);
+  };
+
+  const familyProducts = (family: ProductFamily) =>
+    family.members
+      .map((m) => products.find((p) => p.sku === m.productId))
+      .filter((p): p is InAppProduct => !!p);
+
+  const selectedProducts = products.filter((p) => selectedSkus.includes(p.sku));
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Coins className="mr-2 h-4 w-4" />
+            Pack Ladder
+            <ChevronDown className="ml-2 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            disabled={selectedProducts.length < 2}
+            onClick={() => openWith(selectedProducts)}
+          >
+            From selection ({selectedProducts.length})
+          </DropdownMenuItem>
+          {families.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Saved families</DropdownMenuLabel>
+              {families.map((family) => {
+                const members = familyProducts(family);
+                return (
+                  <DropdownMenuItem
+                    key={family.id}
+                    disabled={members.length === 0}
+                    onClick={() => openWith(members, family)}
+                  >
+                    {family.name} ({members.length})
+                  </DropdownMenuItem>
+                );
+              })}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {opening && (
+        <PackLadderModal
+          key={opening.id}
+          platform={platform}
+          products={opening.packs}
+          family={opening.family}
+          open={open}
+          onOpenChange={setOpen}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,591 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Coins, Loader2, Plus, RefreshCw, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getCurrencySymbol, getPriceDecimals, type StorePlatform } from '@/lib/currencies/registry';
+import { getSupportedAppleTerritories } from '@/lib/apple-connect/territories';
+import { getPriceTiersForCurrency } from '@/lib/apple-connect/price-tier-data';
+import type { AppleProductPrice } from '@/lib/apple-connect/types';
+import {
+  GOOGLE_PLAY_REGIONS,
+  formatMoney,
+  moneyToNumber,
+  parseMoney,
+  type InAppProduct,
+  type Money,
+} from '@/lib/google-play/types';
+import {
+  DEFAULT_BLEND_CONFIG,
+  type BlendConfig,
+  type PricingStrategy,
+  type RoundingMode,
+} from '@/lib/google-play/currency';
+import {
+  calculatePackPrices,
+  DEFAULT_VOLUME_DISCOUNTS,
+  parsePackUnits,
+  volumeDiscount,
+  type PackItem,
+  type ProductFamily,
+  type VolumeDiscountPoint,
+} from '@/lib/google-play/pack-ladder';
+import { BlendWeightsEditor } from '@/components/pricing/blend-config';
+import { StrategyPicker } from '@/components/pricing/strategy-picker';
+import { PppYearSelect } from '@/components/pricing/ppp-year-select';
+import { PriceEndingsEditor } from '@/components/pricing/price-endings-config';
+import {
+  blockedLadderRegions,
+  buildLadderCells,
+  changedLadderRegions,
+  LadderPreview,
+  type LadderRegion,
+} from '@/components/pricing/ladder-preview';
+import { usePricingStore } from '@/store/pricing-store';
+import { usePricingData } from '@/hooks/use-pricing-data';
+import { useAppleAppPrice } from '@/hooks/use-apple-app-price';
+import { useUpdateProductPrices } from '@/hooks/use-products';
+
+const GOOGLE_ROUNDING_OPTIONS: Array<{ value: RoundingMode; label: string }> = [
+  { value: 'nearest-99', label: 'Nearest .99' },
+  { value: 'round-up', label: 'Round up' },
+  { value: 'locale-charm', label: 'Local endings' },
+  { value: 'none', label: 'No Rounding' },
+];
+
+// Apple product prices are keyed by alpha-3 territory; territories without a
+// tier ladder can't be priced and are left out
+function getPackRegions(platform: StorePlatform): LadderRegion[] {
+  const regions = platform === 'google'
+    ? GOOGLE_PLAY_REGIONS.map((r) => ({ code: r.code, name: r.name, currency: r.currency }))
+    : getSupportedAppleTerritories()
+        .filter((t) => getPriceTiersForCurrency(t.currency).length > 0)
+        .map((t) => ({ code: t.alpha3, name: t.name, currency: t.currency }));
+  return regions.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function productTitle(product: InAppProduct): string {
+  return product.listings?.[product.defaultLanguage]?.title
+    ?? Object.values(product.listings ?? {})[0]?.title
+    ?? product.sku;
+}
+
+// Live prices as Money; Apple list rows carry Apple price objects
+function currentPricesOf(product: InAppProduct, platform: StorePlatform): Record<string, Money> {
+  if (platform === 'google') return product.prices ?? {};
+  const prices: Record<string, Money> = {};
+  for (const [code, price] of Object.entries(product.prices ?? {})) {
+    const applePrice = price as unknown as AppleProductPrice;
+    const amount = parseFloat(applePrice.customerPrice);
+    if (!isNaN(amount)) prices[code] = parseMoney(amount, applePrice.currency);
+  }
+  return prices;
+}
+
+// Editable pack row; units stay a string while typing
+interface PackRow {
+  product: InAppProduct;
+  units: string;
+}
+
+interface PackLadderModalProps {
+  platform: StorePlatform;
+  /** The packs to price, smallest first or in any order */
+  products: InAppProduct[];
+  /** Saved family the packs come from, if any */
+  family?: ProductFamily;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Prices a family of consumable packs from one per-unit price and a volume
+// discount curve, then writes every pack's regional prices. Mount it with a
+// fresh key per opening; its state is seeded from the props.
+export function PackLadderModal({
+  platform,
+  products,
+  family,
+  open,
+  onOpenChange,
+}: PackLadderModalProps) {
+  const { data: appPrice } = useAppleAppPrice();
+  const [rows, setRows] = useState<PackRow[]>(() =>
+    products.map((product) => {
+      const saved = family?.members.find((m) => m.productId === product.sku)?.units;
+      const units = saved ?? parsePackUnits(product.sku) ?? parsePackUnits(productTitle(product));
+      return { product, units: units ? String(units) : '' };
+    })
+  );
+  const [familyName, setFamilyName] = useState(family?.name ?? '');
+  const [curve, setCurve] = useState<VolumeDiscountPoint[]>(family?.curve ?? DEFAULT_VOLUME_DISCOUNTS);
+  const [unitPrice, setUnitPrice] = useState(family?.unitPrice !== undefined ? String(family.unitPrice) : '');
+  const [baseRegion, setBaseRegion] = useState(platform === 'apple' ? 'USA' : 'US');
+  const [userTouchedRegion, setUserTouchedRegion] = useState(false);
+  const [strategy, setStrategy] = useState<PricingStrategy>('ppp');
+  const [blendConfig, setBlendConfig] = useState<BlendConfig>(DEFAULT_BLEND_CONFIG);
+  const [rounding, setRounding] = useState<RoundingMode>(platform === 'apple' ? 'nearest-tier' : 'nearest-99');
+  const [autoFixStoreRules, setAutoFixStoreRules] = useState(true);
+  const [selectedRegions, setSelectedRegions] = useState<Set<string>>(new Set());
+  const [hasInitializedSelection, setHasInitializedSelection] = useState(false);
+  const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const {
+    priceEndings,
+    setPriceEndings,
+    pppYearSelection,
+    setPppYearSelection,
+    unstableCurrencyPolicy,
+    saveProductFamily,
+    removeProductFamily,
+  } = usePricingStore();
+  const { pppData, exchangeRates, loading } = usePricingData(open);
+  const updateMutation = useUpdateProductPrices(platform);
+
+  const regions = useMemo(() => getPackRegions(platform), [platform]);
+  const unitPriceNum = parseFloat(unitPrice) || 0;
+
+  // Apple products are priced from the app's base territory unless the user picks another
+  const effectiveBaseRegion = platform === 'apple' && !userTouchedRegion && appPrice?.baseTerritory
+    ? appPrice.baseTerritory
+    : baseRegion;
+  const baseCurrency = regions.find((r) => r.code === effectiveBaseRegion)?.currency || 'USD';
+
+  const packs = useMemo((): PackItem[] => rows.flatMap((row) => {
+    const units = parseInt(row.units, 10);
+    if (!(units > 0)) return [];
+    return [{
+      key: row.product.sku,
+      label: `${productTitle(row.product)} (${units})`,
+      units,
+      currentPrices: currentPricesOf(row.product, platform),
+    }];
+  }), [rows, platform]);
+
+  // Without a saved unit price, start from the smallest pack's live base-region price
+  const suggestedUnitPrice = useMemo(() => {
+    const smallest = [...packs].sort((a, b) => a.units - b.units)[0];
+    const current = smallest?.currentPrices?.[effectiveBaseRegion];
+    if (!current) return null;
+    return moneyToNumber(current) / smallest.units / (1 - volumeDiscount(curve, smallest.units));
+  }, [packs, effectiveBaseRegion, curve]);
+
+  useEffect(() => {
+    if (!unitPrice && suggestedUnitPrice) setUnitPrice(String(Number(suggestedUnitPrice.toPrecision(4))));
+  }, [unitPrice, suggestedUnitPrice]);
+
+  const actualCurrencies = useMemo(
+    () => Object.fromEntries(regions.map((r) => [r.code, r.currency])),
+    [regions]
+  );
+
+  const ladder = useMemo(() => {
+    if (unitPriceNum <= 0 || packs.length === 0) return [];
+    return calculatePackPrices(
+      regions.map((r) => r.code),
+      packs,
+      curve,
+      {
+        basePrice: unitPriceNum,
+        strategy,
+        rounding,
+        dynamicPPPData: pppData ?? undefined,
+        actualCurrencies,
+        dynamicExchangeRates: exchangeRates ?? undefined,
+        baseCurrency,
+        baseRegion: effectiveBaseRegion,
+        getTiersForCurrency: platform === 'apple' ? getPriceTiersForCurrency : undefined,
+        blend: blendConfig,
+        priceEndings,
+        unstableCurrency: unstableCurrencyPolicy,
+      },
+      getPriceDecimals(baseCurrency, platform)
+    );
+  }, [unitPriceNum, packs, regions, curve, strategy, rounding, pppData, actualCurrencies, exchangeRates, effectiveBaseRegion, baseCurrency, platform, blendConfig, priceEndings, unstableCurrencyPolicy]);
+
+  const cells = useMemo(
+    () => buildLadderCells(
+      platform,
+      ladder.map(({ pack, prices }) => ({ key: pack.key, currentPrices: pack.currentPrices, prices })),
+      autoFixStoreRules
+    ),
+    [ladder, platform, autoFixStoreRules]
+  );
+
+  // Pre-select regions where any pack's price changes, once pricing data has loaded
+  useEffect(() => {
+    if (!open || hasInitializedSelection || loading || ladder.length === 0) return;
+    setSelectedRegions(changedLadderRegions(cells, regions));
+    setHasInitializedSelection(true);
+  }, [open, hasInitializedSelection, loading, ladder, regions, cells]);
+
+  const blockedRegions = useMemo(
+    () => blockedLadderRegions(cells, selectedRegions),
+    [cells, selectedRegions]
+  );
+
+  const setRowUnits = (sku: string, units: string) => {
+    setRows(rows.map((row) => (row.product.sku === sku ? { ...row, units } : row)));
+  };
+
+  const setCurvePoint = (index: number, point: Partial<VolumeDiscountPoint>) => {
+    setCurve(curve.map((p, i) => (i === index ? { ...p, ...point } : p)));
+  };
+
+  const handleSaveFamily = () => {
+    const name = familyName.trim();
+    if (!name) {
+      toast.error('Name the family to save it');
+      return;
+    }
+    saveProductFamily({
+      id: family?.id ?? crypto.randomUUID(),
+      platform,
+      name,
+      members: packs.map((pack) => ({ productId: pack.key, units: pack.units })),
+      unitPrice: unitPriceNum > 0 ? unitPriceNum : undefined,
+      curve,
+    });
+    toast.success(`Saved ${name}`);
+  };
+
+  const handleDeleteFamily = () => {
+    if (!family) return;
+    removeProductFamily(family.id);
+    toast.success(`Deleted ${family.name}`);
+    onOpenChange(false);
+  };
+
+  const handleApplyClick = () => {
+    if (selectedRegions.size === 0) {
+      toast.error('Please select at least one region');
+      return;
+    }
+    if (blockedRegions.length > 0) {
+      toast.error(`${blockedRegions.length} regions have prices the store would reject`, {
+        description: 'Turn on auto-fix or deselect those regions.',
+      });
+      return;
+    }
+    setShowConfirmDialog(true);
+  };
+
+  const executeApply = async () => {
+    setShowConfirmDialog(false);
+    setIsApplying(true);
+    let updatedPacks = 0;
+    const skipped = new Set<string>();
+    try {
+      // Pack by pack so a failure names the pack; Apple needs the base territory in every write
+      for (const pack of packs) {
+        const packCells = cells[pack.key] ?? {};
+        const prices: Record<string, Money> = {};
+        for (const [code, cell] of Object.entries(packCells)) {
+          if (selectedRegions.has(code) || (platform === 'apple' && code === effectiveBaseRegion)) {
+            prices[code] = cell.price;
+          }
+        }
+        if (Object.keys(prices).length === 0) continue;
+        try {
+          const result = await updateMutation.mutateAsync({ sku: pack.key, prices });
+          (result?.skipped as string[] | undefined)?.forEach((code) => skipped.add(code));
+          updatedPacks++;
+        } catch (error) {
+          toast.error(`Failed to update ${pack.label}`, {
+            description: error instanceof Error ? error.message : undefined,
+          });
+          return;
+        }
+      }
+      if (skipped.size > 0) {
+        toast.warning(`${skipped.size} territories could not be updated`);
+      }
+      toast.success(`Updated ${updatedPacks} packs in ${selectedRegions.size} regions`);
+      onOpenChange(false);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Pack Ladder
+          </DialogTitle>
+          <DialogDescription>
+            Price {packs.length} packs from one per-unit price and a volume discount curve, then write them all at once.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto pr-4">
+        <div className="space-y-6 py-4">
+          {/* Family */}
+          <div className="space-y-2">
+            <Label htmlFor="pack-family-name">Family</Label>
+            <div className="flex gap-2">
+              <Input
+                id="pack-family-name"
+                placeholder="Coin packs"
+                value={familyName}
+                onChange={(e) => setFamilyName(e.target.value)}
+                className="w-64"
+              />
+              <Button variant="outline" onClick={handleSaveFamily} disabled={packs.length === 0}>
+                <Save className="mr-2 h-4 w-4" />
+                Save family
+              </Button>
+              {family && (
+                <Button variant="ghost" onClick={handleDeleteFamily} className="text-destructive hover:text-destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+            </div>
+            <div className="border rounded-lg divide-y">
+              {rows.map((row) => {
+                const result = ladder.find((l) => l.pack.key === row.product.sku);
+                return (
+                  <div key={row.product.sku} className="grid grid-cols-[1fr_7rem_6rem_8rem] items-center gap-3 p-2 text-sm">
+                    <span>
+                      <span className="font-medium">{productTitle(row.product)}</span>
+                      <span className="ml-2 font-mono text-xs text-muted-foreground">{row.product.sku}</span>
+                    </span>
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="Units"
+                      aria-label={`Units in ${row.product.sku}`}
+                      value={row.units}
+                      onChange={(e) => setRowUnits(row.product.sku, e.target.value)}
+                      className="h-8"
+                    />
+                    <span className="text-right text-muted-foreground">
+                      {result ? `−${Math.round(volumeDiscount(curve, result.pack.units) * 100)}%` : ''}
+                    </span>
+                    <span className="text-right font-medium">
+                      {result ? formatMoney(parseMoney(result.basePrice, baseCurrency)) : 'Set units'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Unit price + base region */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pack-base-region">Base Country / Region</Label>
+              <Select
+                value={effectiveBaseRegion}
+                onValueChange={(value) => {
+                  setBaseRegion(value);
+                  setUserTouchedRegion(true);
+                }}
+              >
+                <SelectTrigger id="pack-base-region">
+                  <SelectValue placeholder="Select region" />
+                </SelectTrigger>
+                <SelectContent className="max-h-64">
+                  {regions.map((r) => (
+                    <SelectItem key={r.code} value={r.code}>
+                      {r.code} — {r.name} ({r.currency})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pack-unit-price">Price per Unit ({baseCurrency})</Label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                  {getCurrencySymbol(baseCurrency)}
+                </span>
+                <Input
+                  id="pack-unit-price"
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  placeholder="0.0099"
+                  value={unitPrice}
+                  onChange={(e) => setUnitPrice(e.target.value)}
+                  className="pl-9 w-48"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Volume discount curve */}
+          <div className="space-y-2">
+            <Label>Volume Discounts</Label>
+            <p className="text-xs text-muted-foreground">
+              Discount off the per-unit price by pack size. Sizes between two points are interpolated on a log scale.
+            </p>
+            <div className="space-y-2">
+              {curve.map((point, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="1"
+                    aria-label="Pack size"
+                    value={point.units}
+                    onChange={(e) => setCurvePoint(index, { units: parseInt(e.target.value, 10) || 0 })}
+                    className="h-8 w-28"
+                  />
+                  <span className="text-sm text-muted-foreground">units →</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="95"
+                    aria-label="Discount percent"
+                    value={Math.round(point.discount * 1000) / 10}
+                    onChange={(e) => setCurvePoint(index, { discount: Math.min(0.95, Math.max(0, (parseFloat(e.target.value) || 0) / 100)) })}
+                    className="h-8 w-20"
+                  />
+                  <span className="text-sm text-muted-foreground">% off</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCurve(curve.filter((_, i) => i !== index))}
+                    aria-label="Remove point"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurve([...curve, { units: (curve[curve.length - 1]?.units ?? 100) * 2, discount: curve[curve.length - 1]?.discount ?? 0 }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add point
+              </Button>
+            </div>
+          </div>
+
+          {/* Strategy */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Pricing Strategy</Label>
+              {loading && <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+            <StrategyPicker value={strategy} onChange={setStrategy} />
+            {strategy === 'blend' && (
+              <BlendWeightsEditor value={blendConfig} onChange={setBlendConfig} />
+            )}
+            {(strategy === 'ppp' || strategy === 'ppp-consumption' || strategy === 'blend') && (
+              <PppYearSelect value={pppYearSelection} onChange={setPppYearSelection} />
+            )}
+          </div>
+
+          {/* Rounding */}
+          <div className="space-y-3">
+            <Label>Price Rounding</Label>
+            {platform === 'apple' ? (
+              <p className="text-xs text-muted-foreground">Each pack snaps to the nearest Apple price point.</p>
+            ) : (
+              <>
+                <div className="flex gap-4 flex-wrap">
+                  {GOOGLE_ROUNDING_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="pack-rounding"
+                        value={option.value}
+                        checked={rounding === option.value}
+                        onChange={() => setRounding(option.value)}
+                      />
+                      <span className="text-sm">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+                {rounding === 'locale-charm' && (
+                  <PriceEndingsEditor value={priceEndings} onChange={setPriceEndings} />
+                )}
+              </>
+            )}
+          </div>
+
+          {ladder.length > 0 && (
+            <LadderPreview
+              columns={packs}
+              regions={regions}
+              cells={cells}
+              selectedRegions={selectedRegions}
+              onSelectedRegionsChange={setSelectedRegions}
+              autoFix={autoFixStoreRules}
+              onAutoFixChange={setAutoFixStoreRules}
+            />
+          )}
+        </div>
+        </div>
+
+        <DialogFooter className="flex-shrink-0 border-t pt-4 gap-2 sm:gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApplyClick}
+            disabled={ladder.length === 0 || selectedRegions.size === 0 || blockedRegions.length > 0 || isApplying}
+          >
+            {isApplying ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Applying prices...
+              </>
+            ) : (
+              `Apply ${packs.length} Packs to ${selectedRegions.size} Regions`
+            )}
+          </Button>
+        </DialogFooter>
+
+        <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Confirm Pack Ladder</DialogTitle>
+              <DialogDescription>
+                New prices for {selectedRegions.size} regions will be written to each pack in turn.
+              </DialogDescription>
+            </DialogHeader>
+            <ul className="text-sm space-y-1">
+              {ladder.map(({ pack, basePrice }) => (
+                <li key={pack.key} className="flex justify-between">
+                  <span>{pack.label}</span>
+                  <span className="font-medium">
+                    {formatMoney(cells[pack.key]?.[effectiveBaseRegion]?.price ?? parseMoney(basePrice, baseCurrency))} in {effectiveBaseRegion}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={() => setShowConfirmDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={executeApply}>Apply</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
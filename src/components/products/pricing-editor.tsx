@@ -41,6 +41,9 @@ import {
 } from '@/lib/google-play/types';
 import { getSupportedAppleTerritories, getTerritoryByAlpha3 } from '@/lib/apple-connect/territories';
 import { useUpdateProductPrices, useDeleteRegionPrice } from '@/hooks/use-products';
+import { TaxSplit } from '@/components/pricing/tax-display';
+import { RelationshipWarnings } from '@/components/pricing/relationship-warnings';
+import { productItemKey } from '@/lib/google-play/price-relationships';
 import { BulkPricingModal } from './bulk-pricing-modal';
 
 interface PricingEditorProps {
@@ -290,6 +293,8 @@ export function PricingEditor({ product, onSave }: PricingEditorProps) {
         </Card>
       )}
 
+      <RelationshipWarnings platform={platform} itemKey={productItemKey(product.sku)} prices={currentPrices} />
+
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <Globe className="h-5 w-5 text-muted-foreground" />
@@ -323,6 +328,7 @@ export function PricingEditor({ product, onSave }: PricingEditorProps) {
               <TableHead>Country</TableHead>
               <TableHead>Currency</TableHead>
               <TableHead>Price</TableHead>
+              <TableHead className="text-right">Net / Incl. tax</TableHead>
               <TableHead className="w-24">Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -365,6 +371,13 @@ export function PricingEditor({ product, onSave }: PricingEditorProps) {
                       )}
                     </div>
                   </TableCell>
+                  <TableCell className="text-right">
+                    <TaxSplit
+                      amount={moneyToNumber(displayPrice)}
+                      currencyCode={displayPrice.currencyCode || region?.currency || 'USD'}
+                      regionCode={regionCode}
+                    />
+                  </TableCell>
                   <TableCell>
                     {!pendingChange?.isNew && (
                       <Button
@@ -392,7 +405,7 @@ export function PricingEditor({ product, onSave }: PricingEditorProps) {
             {sortedRegions.length === 0 && (
               <TableRow>
                 <TableCell
-                  colSpan={5}
+                  colSpan={6}
                   className="text-center text-muted-foreground py-8"
                 >
                   No regional pricing configured. Click &quot;Add Region&quot; to start.
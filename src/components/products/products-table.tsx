@@ -31,6 +31,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import type { InAppProduct } from '@/lib/google-play/types';
 import { formatMoney } from '@/lib/google-play/types';
 import { getProductDetailRoute, type Platform } from '@/lib/utils/platform-routes';
+import { usePricingStore } from '@/store/pricing-store';
 
 type SortField = 'sku' | 'status' | 'price' | 'regions' | 'type';
 type SortOrder = 'asc' | 'desc';
@@ -82,6 +83,17 @@ export function ProductsTable({
 }: ProductsTableProps) {
   const [sortField, setSortField] = useState<SortField>('sku');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
+  const productFamilies = usePricingStore((state) => state.productFamilies);
+
+  // Saved pack family name by product, for the badge under the SKU
+  const familyBySku = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const family of productFamilies) {
+      if (family.platform !== platform) continue;
+      family.members.forEach((m) => names.set(m.productId, family.name));
+    }
+    return names;
+  }, [productFamilies, platform]);
 
   const filteredProducts = useMemo(() => {
     if (!searchQuery.trim()) return products;
@@ -259,6 +271,11 @@ export function ProductsTable({
                       {product.sku}
                     </div>
                   </Link>
+                  {familyBySku.has(product.sku) && (
+                    <Badge variant="outline" className="mt-1 text-xs">
+                      {familyBySku.get(product.sku)}
+                    </Badge>
+                  )}
                 </TableCell>
                 <TableCell>
                   <Badge
@@ -0,0 +1,93 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Layers } from 'lucide-react';
+import { useQueries } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { usePlatformSubscriptions } from '@/hooks/use-platform-subscriptions';
+import type { AppleProductPrice } from '@/lib/apple-connect/types';
+import { parseMoney, type Money } from '@/lib/google-play/types';
+import { periodInMonths, type LadderPlan } from '@/lib/google-play/period-ladder';
+import { PeriodLadderModal } from './period-ladder-modal';
+
+interface AppleSubscriptionPricesResponse {
+  subscription: {
+    id: string;
+    prices: Record<string, AppleProductPrice>;
+  };
+}
+
+// Stable, so useQueries only hands back a new array when a member's prices change
+function selectPrices(results: Array<{ data?: AppleSubscriptionPricesResponse }>) {
+  return results.map((result) => result.data?.subscription.prices);
+}
+
+interface AppleGroupLadderButtonProps {
+  groupId?: string;
+  groupName?: string;
+}
+
+// Opens the price ladder for every subscription in an Apple subscription
+// group. Renders nothing unless the group has two or more subscriptions.
+export function AppleGroupLadderButton({ groupId, groupName }: AppleGroupLadderButtonProps) {
+  const [open, setOpen] = useState(false);
+  const { data } = usePlatformSubscriptions();
+
+  const members = useMemo(
+    () => (data?.subscriptions ?? []).filter(
+      (s) => s.platform === 'apple' && s.groupId === groupId && periodInMonths(s.period) !== null
+    ),
+    [data, groupId]
+  );
+
+  // The list endpoint has no prices; load each member's while the modal is open
+  const memberPrices = useQueries({
+    queries: members.map((member) => ({
+      queryKey: ['subscriptions', 'apple', member.appleSubscription?.id ?? member.id],
+      queryFn: async (): Promise<AppleSubscriptionPricesResponse> => {
+        const id = member.appleSubscription?.id ?? member.id;
+        const response = await fetch(`/api/apple/subscriptions/${encodeURIComponent(id)}`);
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error || 'Failed to fetch subscription');
+        }
+        return response.json();
+      },
+      enabled: open,
+    })),
+    combine: selectPrices,
+  });
+
+  const plans = useMemo((): LadderPlan[] => members.map((member, i) => {
+    const currentPrices: Record<string, Money> = {};
+    const prices = memberPrices[i] ?? member.appleSubscription?.prices ?? {};
+    for (const [code, price] of Object.entries(prices)) {
+      const amount = parseFloat(price.customerPrice);
+      if (!isNaN(amount)) currentPrices[code] = parseMoney(amount, price.currency);
+    }
+    return {
+      key: member.appleSubscription?.id ?? member.id,
+      label: member.name,
+      months: periodInMonths(member.period)!,
+      currentPrices,
+    };
+  }), [members, memberPrices]);
+
+  if (!groupId || members.length < 2) return null;
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Layers className="mr-2 h-4 w-4" />
+        Price Group Ladder
+      </Button>
+      <PeriodLadderModal
+        platform="apple"
+        title={groupName || members[0].groupName || 'this group'}
+        plans={plans}
+        open={open}
+        onOpenChange={setOpen}
+      />
+    </>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
-import { Calculator, Globe, DollarSign, TrendingDown, Sliders, RefreshCw, Hamburger, Tv, AlertTriangle, Loader2, ArrowUpDown, ChevronUp, ChevronDown } from 'lucide-react';
+import { Fragment, useState, useMemo, useEffect } from 'react';
+import { Calculator, DollarSign, RefreshCw, AlertTriangle, ShieldAlert, Loader2, ArrowUpDown, ChevronUp, ChevronDown } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -40,7 +40,8 @@ import {
 } from '@/lib/apple-connect/territories';
 import { useAppleAppPrice } from '@/hooks/use-apple-app-price';
 import { findClosestTierForCurrency, getPriceTiersForCurrency } from '@/lib/apple-connect/price-tier-data';
-import { getCurrencySymbol } from '@/lib/utils/currency';
+import { formatCurrency, getCurrencySymbol } from '@/lib/currencies/registry';
+import { enforceStoreRules, type StoreRuleHit } from '@/lib/currencies/constraints';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
@@ -50,28 +51,58 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import type { AppleProductPrice } from '@/lib/apple-connect/types';
+import { moneyToNumber, parseMoney, type Money } from '@/lib/google-play/types';
 import {
   calculateBulkPrices,
   calculatePriceChange,
   formatPriceChange,
+  DEFAULT_BLEND_CONFIG,
+  DEFAULT_PROCEEDS_CONFIG,
+  estimateProceeds,
+  priceBandsUnavailableReason,
+  getMultiplierSourceLabel,
+  type BlendConfig,
+  type CalculatedPrice,
+  type PriceGuardrails,
+  type PriceAnchor,
+  type ProceedsConfig,
   type PricingStrategy,
+  type TaxMode,
   type RoundingMode,
   type DynamicPPPData,
   type DynamicExchangeRates,
 } from '@/lib/google-play/currency';
+import { BlendWeightsEditor, BlendBreakdown } from '@/components/pricing/blend-config';
+import { GuardrailsEditor, GuardrailIndicator } from '@/components/pricing/guardrails-config';
+import { ChangeThresholdEditor } from '@/components/pricing/change-threshold-editor';
+import { SteppedRolloutEditor } from '@/components/pricing/stepped-rollout-editor';
+import { UnstableCurrencyIndicator } from '@/components/pricing/unstable-currency-card';
+import { AnchorsEditor } from '@/components/pricing/anchors-config';
+import { StrategyPicker } from '@/components/pricing/strategy-picker';
+import { PriceTraceToggle, PriceTraceRow } from '@/components/pricing/price-trace';
+import { PppYearSelect } from '@/components/pricing/ppp-year-select';
+import { PriceBandsEditor, PriceBandSummary, PriceBandBadge } from '@/components/pricing/price-bands-config';
+import { CurrencyUnionEditor, CurrencyUnionBadge } from '@/components/pricing/currency-union-config';
+import { SavePlanButton } from '@/components/pricing/save-plan-button';
+import type { PriceBandConfig } from '@/lib/google-play/price-bands';
+import type { CurrencyUnionConfig } from '@/lib/google-play/currency-union';
+import type { PricingPlanSettings } from '@/lib/google-play/pricing-plan';
+import { isBelowChangeThreshold } from '@/lib/google-play/change-threshold';
+import { planPriceRollout, toDateString, type RolloutSchedule } from '@/lib/google-play/price-rollout';
+import { ProceedsConfigEditor } from '@/components/pricing/proceeds-config';
+import { PriceEndingsEditor } from '@/components/pricing/price-endings-config';
+import { TaxModeToggle, TaxSplit } from '@/components/pricing/tax-display';
+import { StoreRulesBar, StoreRuleIndicator } from '@/components/pricing/store-rules';
+import { RelationshipWarnings } from '@/components/pricing/relationship-warnings';
+import { appleSubscriptionItemKey } from '@/lib/google-play/price-relationships';
+import { usePricingStore } from '@/store/pricing-store';
+import { pppApiUrl } from '@/lib/world-bank/ppp-years';
 import { useUpdateAppleSubscriptionPrices, useResolveAppleSubscriptionPricePoints } from '@/hooks/use-subscriptions';
 
 // Format price with currency
 function formatPrice(price: string | number, currency: string): string {
   const amount = typeof price === 'string' ? parseFloat(price) : price;
-  try {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-    }).format(amount);
-  } catch {
-    return `${currency} ${amount.toFixed(2)}`;
-  }
+  return formatCurrency(amount, currency, { platform: 'apple' });
 }
 
 // Get earliest allowed effective date (2 days from now) in YYYY-MM-DD format
@@ -88,6 +119,7 @@ interface PPPApiResponse {
     baseYear: number | null;
     fetchedAt: string;
     worldBankRegions: number;
+    consumptionPppRegions?: number;
     totalRegions: number;
     fallback?: boolean;
     error?: string;
@@ -142,7 +174,15 @@ interface PreviewPrice {
   priceChange: number | null; // Percentage change from current
   noTierData: boolean; // True if no tier data available for this currency
   multiplier: number; // Pricing multiplier applied to base
-  multiplierSource?: 'world-bank' | 'big-mac' | 'netflix' | 'static' | 'custom' | 'direct';
+  multiplierSource?: CalculatedPrice['multiplierSource'];
+  blendContributions?: CalculatedPrice['blendContributions'];
+  guardrail?: CalculatedPrice['guardrail'];
+  unstableCurrency?: CalculatedPrice['unstableCurrency'];
+  anchor?: CalculatedPrice['anchor'];
+  band?: CalculatedPrice['band'];
+  currencyUnion?: CalculatedPrice['currencyUnion'];
+  storeRule?: StoreRuleHit;
+  trace: CalculatedPrice['trace'];
 }
 
 export function AppleSubscriptionBulkPricingModal({
@@ -159,8 +199,19 @@ export function AppleSubscriptionBulkPricingModal({
   const [userTouchedRegion, setUserTouchedRegion] = useState(false);
   const [inputMode, setInputMode] = useState<'tier' | 'manual'>('tier');
   const [strategy, setStrategy] = useState<PricingStrategy>('ppp');
+  const [blendConfig, setBlendConfig] = useState<BlendConfig>(DEFAULT_BLEND_CONFIG);
+  const [proceedsConfig, setProceedsConfig] = useState<ProceedsConfig>(DEFAULT_PROCEEDS_CONFIG);
+  const [guardrails, setGuardrails] = useState<PriceGuardrails>({});
+  const [autoFixStoreRules, setAutoFixStoreRules] = useState(true);
+  const [extraAnchors, setExtraAnchors] = useState<PriceAnchor[]>([]);
+  const [bands, setBands] = useState<PriceBandConfig | undefined>(undefined);
+  const [currencyUnion, setCurrencyUnion] = useState<CurrencyUnionConfig | undefined>(undefined);
+  const [rolloutSchedule, setRolloutSchedule] = useState<RolloutSchedule | null>(null);
+  const { priceEndings, setPriceEndings, pppYearSelection, setPppYearSelection, unstableCurrencyPolicy, changeThreshold, savePriceRollout } = usePricingStore();
+  const [taxMode, setTaxMode] = useState<TaxMode>('listed');
   const [rounding, setRounding] = useState<RoundingMode>('nearest-tier');
   const [selectedRegions, setSelectedRegions] = useState<Set<string>>(new Set());
+  const [expandedTraces, setExpandedTraces] = useState<Set<string>>(new Set());
   const [startDate, setStartDate] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
@@ -267,11 +318,10 @@ export function AppleSubscriptionBulkPricingModal({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open]);
 
-  const fetchPPPData = async (forceRefresh = false) => {
+  const fetchPPPData = async (forceRefresh = false, yearSelection = pppYearSelection) => {
     setPppLoading(true);
     try {
-      const url = forceRefresh ? '/api/ppp?refresh=true' : '/api/ppp';
-      const response = await fetch(url);
+      const response = await fetch(pppApiUrl(yearSelection, forceRefresh));
       const data: PPPApiResponse = await response.json();
 
       if (data.success) {
@@ -326,25 +376,57 @@ export function AppleSubscriptionBulkPricingModal({
     return currencies;
   }, [allTerritories]);
 
+  // Live prices as Money, for the max-change guardrail
+  const currentPrices = useMemo(() => {
+    const prices: Record<string, Money> = {};
+    for (const [code, price] of Object.entries(subscription.prices || {})) {
+      const amount = parseFloat(price.customerPrice);
+      if (!isNaN(amount)) {
+        prices[code] = parseMoney(amount, price.currency);
+      }
+    }
+    return prices;
+  }, [subscription.prices]);
+
+  // The base region/price is the first anchor; extra anchors make this a multi-anchor run
+  const anchors = useMemo((): PriceAnchor[] | undefined => {
+    if (extraAnchors.length === 0) return undefined;
+    return [{ region: baseRegion, price: basePriceNum, currency: baseCurrency }, ...extraAnchors];
+  }, [extraAnchors, baseRegion, basePriceNum, baseCurrency]);
+
+  // Everything the preview depends on besides live data, kept for saved plans
+  const planSettings = useMemo((): PricingPlanSettings => ({
+    actualCurrencies,
+    basePrice: basePriceNum,
+    strategy,
+    rounding,
+    baseCurrency,
+    baseRegion,
+    blend: blendConfig,
+    guardrails,
+    priceEndings,
+    unstableCurrency: unstableCurrencyPolicy,
+    taxMode,
+    proceeds: proceedsConfig,
+    anchors,
+    bands,
+    currencyUnion,
+  }), [basePriceNum, strategy, rounding, actualCurrencies, baseCurrency, baseRegion, blendConfig, guardrails, priceEndings, unstableCurrencyPolicy, taxMode, proceedsConfig, anchors, bands, currencyUnion]);
+  const bandsUnavailable = priceBandsUnavailableReason({ strategy, anchors });
+
   // Calculate preview prices with Apple tier matching
   const previewPrices = useMemo((): PreviewPrice[] => {
-    if (basePriceNum <= 0) return [];
+    if (planSettings.basePrice <= 0) return [];
 
     // Base region is user-controlled state (seeded from app-level Apple base territory).
     // calculateBulkPrices accepts baseRegion as alpha-2 OR alpha-3; for Apple we pass alpha-3.
-    const calculatedPrices = calculateBulkPrices(
-      basePriceNum,
-      targetRegions,
-      strategy,
-      rounding,
-      undefined, // customMultipliers
-      pppData ?? undefined,
-      actualCurrencies,
-      exchangeRates ?? undefined,
-      baseCurrency,
-      baseRegion,
-      getPriceTiersForCurrency // tier-aware rounding for Apple
-    );
+    const calculatedPrices = calculateBulkPrices(targetRegions, {
+      ...planSettings,
+      dynamicPPPData: pppData ?? undefined,
+      dynamicExchangeRates: exchangeRates ?? undefined,
+      getTiersForCurrency: getPriceTiersForCurrency, // tier-aware rounding for Apple
+      currentPrices,
+    });
 
     // Map to preview format with Apple tier matching
     return calculatedPrices.map((calculated) => {
@@ -357,6 +439,12 @@ export function AppleSubscriptionBulkPricingModal({
 
       const tierPrice = closestTier?.price ?? calculated.rawPrice;
       const tier = closestTier?.tier ?? null;
+
+      // Tier prices are price points already, so this only catches territories
+      // Apple won't price; rows without tier data are skipped on apply instead
+      const storeRule = closestTier
+        ? enforceStoreRules('apple', { regionCode: calculated.regionCode, currencyCode: currency, price: tierPrice }, autoFixStoreRules)
+        : undefined;
       const tierDifference = closestTier
         ? ((closestTier.price - calculated.rawPrice) / calculated.rawPrice) * 100
         : 0;
@@ -382,9 +470,22 @@ export function AppleSubscriptionBulkPricingModal({
         noTierData: !closestTier,
         multiplier: calculated.multiplier,
         multiplierSource: calculated.multiplierSource,
+        blendContributions: calculated.blendContributions,
+        guardrail: calculated.guardrail,
+        unstableCurrency: calculated.unstableCurrency,
+        anchor: calculated.anchor,
+        band: calculated.band,
+        currencyUnion: calculated.currencyUnion,
+        storeRule,
+        trace: closestTier
+          ? [
+              ...calculated.trace,
+              { step: 'rounding', detail: `Apple tier ${closestTier.tier}: ${formatPrice(closestTier.price, currency)}`, value: closestTier.price, currency },
+            ]
+          : calculated.trace,
       };
     });
-  }, [basePriceNum, targetRegions, strategy, rounding, pppData, actualCurrencies, exchangeRates, subscription.prices, baseRegion, baseCurrency]);
+  }, [planSettings, targetRegions, currentPrices, pppData, exchangeRates, subscription.prices, autoFixStoreRules]);
 
   const sortedPreviewPrices = useMemo(() => {
     const items = [...previewPrices];
@@ -475,6 +576,57 @@ export function AppleSubscriptionBulkPricingModal({
     return previewPrices.filter(p => selectedRegions.has(p.territoryCode) && !p.noTierData && p.tier).length;
   }, [previewPrices, selectedRegions]);
 
+  // Selected rows that broke a store rule: fixed, or blocking the run
+  const storeRuleFixedCount = useMemo(
+    () => previewPrices.filter((p) => p.storeRule?.fixedPrice !== undefined && selectedRegions.has(p.territoryCode)).length,
+    [previewPrices, selectedRegions]
+  );
+  const blockedRegions = useMemo(
+    () => previewPrices.filter((p) => p.storeRule && p.storeRule.fixedPrice === undefined && selectedRegions.has(p.territoryCode)).map((p) => p.territoryCode),
+    [previewPrices, selectedRegions]
+  );
+
+  // Live prices with the selected tier prices replaced, for the relationship checks
+  const proposedPrices = useMemo(() => {
+    const prices: Record<string, Money> = { ...currentPrices };
+    previewPrices.forEach((p) => {
+      if (selectedRegions.has(p.territoryCode) && p.tier) {
+        prices[p.territoryCode] = parseMoney(p.tierPrice, p.currency);
+      }
+    });
+    return prices;
+  }, [currentPrices, previewPrices, selectedRegions]);
+
+  // Territories whose tier price is too close to the live one to be written
+  const belowThresholdRegions = useMemo(
+    () => new Set(
+      previewPrices
+        .filter((p) => p.tier && isBelowChangeThreshold(currentPrices[p.territoryCode], parseMoney(p.tierPrice, p.currency), changeThreshold))
+        .map((p) => p.territoryCode)
+    ),
+    [previewPrices, currentPrices, changeThreshold]
+  );
+  const belowThresholdCount = [...belowThresholdRegions].filter((code) => selectedRegions.has(code)).length;
+
+  // Dated steps for the selected tier prices, starting on the effective date.
+  // Only approved subscriptions have subscribers to step for.
+  const rolloutPlan = useMemo(() => {
+    if (!rolloutSchedule || !isApproved) return [];
+    const targets: Record<string, Money> = {};
+    previewPrices.forEach((p) => {
+      if (selectedRegions.has(p.territoryCode) && !p.noTierData && p.tier) {
+        targets[p.territoryCode] = parseMoney(p.tierPrice, p.currency);
+      }
+    });
+    return planPriceRollout(targets, currentPrices, rolloutSchedule, startDate || toDateString(new Date()), 'apple', changeThreshold);
+  }, [rolloutSchedule, isApproved, previewPrices, selectedRegions, currentPrices, startDate, changeThreshold]);
+
+  const deselectBlockedRegions = () => {
+    const next = new Set(selectedRegions);
+    blockedRegions.forEach((code) => next.delete(code));
+    setSelectedRegions(next);
+  };
+
   // Handle sorting
   const requestSort = (key: string) => {
     let direction: 'asc' | 'desc' | null = 'asc';
@@ -502,6 +654,21 @@ export function AppleSubscriptionBulkPricingModal({
     return previewPrices.filter(p => p.noTierData || Math.abs(p.tierDifference) > 10).length;
   }, [previewPrices]);
 
+  const guardrailHitCount = useMemo(() => {
+    return previewPrices.filter(p => p.guardrail).length;
+  }, [previewPrices]);
+
+  // Expand/collapse a row's derivation trace
+  const toggleTrace = (regionCode: string) => {
+    const next = new Set(expandedTraces);
+    if (next.has(regionCode)) {
+      next.delete(regionCode);
+    } else {
+      next.add(regionCode);
+    }
+    setExpandedTraces(next);
+  };
+
   // Handle region selection
   const toggleRegion = (regionCode: string) => {
     const newSelected = new Set(selectedRegions);
@@ -548,6 +715,13 @@ export function AppleSubscriptionBulkPricingModal({
       return;
     }
 
+    if (blockedRegions.length > 0) {
+      toast.error(`${blockedRegions.length} prices would be rejected by App Store Connect`, {
+        description: 'Deselect those regions to apply the rest.',
+      });
+      return;
+    }
+
     const changing: Array<{
       name: string;
       regionCode: string;
@@ -606,26 +780,49 @@ export function AppleSubscriptionBulkPricingModal({
       return;
     }
 
+    // A stepped rollout schedules its first step now. Apple takes one future
+    // price per territory, so later steps are recorded and scheduled from the
+    // subscriptions page once the previous step is live.
+    const stepped = rolloutPlan.length > 1;
+
     setIsSaving(true);
     setShowConfirmDialog(false);
 
     try {
       // Phase 1: Resolve price points server-side in a single request
       const territories: Record<string, { targetPrice: number; currency: string }> = {};
-      for (const p of validPrices) {
-        territories[p.territoryCode] = {
-          targetPrice: p.tierPrice,
-          currency: p.currency,
-        };
+      if (stepped) {
+        for (const [territoryCode, price] of Object.entries(rolloutPlan[0].prices)) {
+          territories[territoryCode] = {
+            targetPrice: moneyToNumber(price),
+            currency: price.currencyCode,
+          };
+        }
+      } else {
+        for (const p of validPrices) {
+          territories[p.territoryCode] = {
+            targetPrice: p.tierPrice,
+            currency: p.currency,
+          };
+        }
       }
 
-      const { resolved, skipped } = await resolveMutation.mutateAsync({
+      const { resolved, skipped, unchanged = [] } = await resolveMutation.mutateAsync({
         subscriptionId: subscription.id,
         territories,
+        changeThreshold,
       });
 
       const skipCount = skipped.length;
 
+      if (unchanged.length > 0) {
+        toast.info(`${unchanged.length} regions unchanged (below threshold)`);
+        if (Object.keys(resolved).length === 0) {
+          onOpenChange(false);
+          return;
+        }
+      }
+
       if (Object.keys(resolved).length === 0) {
         toast.error('Failed to resolve any prices to Apple price points');
         return;
@@ -646,6 +843,20 @@ export function AppleSubscriptionBulkPricingModal({
         preserveCurrentPrice,
       });
 
+      if (stepped) {
+        savePriceRollout({
+          id: crypto.randomUUID(),
+          platform: 'apple',
+          kind: 'subscription',
+          productId: subscription.id,
+          label: subscription.name || subscription.productId,
+          createdAt: new Date().toISOString(),
+          steps: rolloutPlan.map((step, i) => (i === 0 ? { ...step, submittedAt: new Date().toISOString() } : step)),
+          preserveCurrentPrice,
+        });
+        toast.info(`Step 1 of ${rolloutPlan.length} scheduled; the last step takes effect on ${rolloutPlan[rolloutPlan.length - 1].date}`);
+      }
+
       const successCount = Object.keys(resolved).length;
       if (skipCount > 0) {
         toast.success(`Updated ${successCount} regions (${skipCount} skipped)`);
@@ -814,139 +1025,39 @@ export function AppleSubscriptionBulkPricingModal({
                   <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />
                 )}
               </div>
-              <TooltipProvider delayDuration={200}>
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2">
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                        <input
-                          type="radio"
-                          name="strategy"
-                          value="direct"
-                          checked={strategy === 'direct'}
-                          onChange={() => setStrategy('direct')}
-                          className="sr-only"
-                        />
-                        <Globe className="h-4 w-4 shrink-0" />
-                        <span className="text-sm font-medium truncate">Direct</span>
-                      </label>
-                    </TooltipTrigger>
-                    <TooltipContent side="bottom" className="max-w-xs">
-                      <p className="font-medium">Direct Conversion</p>
-                      <p className="text-xs text-muted-foreground">
-                        Same USD value in all regions (converted to local currency)
-                      </p>
-                    </TooltipContent>
-                  </Tooltip>
-
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                        <input
-                          type="radio"
-                          name="strategy"
-                          value="netflix"
-                          checked={strategy === 'netflix'}
-                          onChange={() => setStrategy('netflix')}
-                          className="sr-only"
-                        />
-                        <Tv className="h-4 w-4 shrink-0" />
-                        <span className="text-sm font-medium truncate">Netflix</span>
-                      </label>
-                    </TooltipTrigger>
-                    <TooltipContent side="bottom" className="max-w-xs">
-                      <p className="font-medium">Netflix Index</p>
-                      <p className="text-xs text-muted-foreground">
-                        Prices based on Netflix Standard ad-free subscription prices by country.
-                      </p>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Data: tompec/netflix-prices (CC-BY-4.0)
-                      </p>
-                    </TooltipContent>
-                  </Tooltip>
-
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                        <input
-                          type="radio"
-                          name="strategy"
-                          value="ppp"
-                          checked={strategy === 'ppp'}
-                          onChange={() => setStrategy('ppp')}
-                          className="sr-only"
-                        />
-                        <TrendingDown className="h-4 w-4 shrink-0" />
-                        <span className="text-sm font-medium truncate">PPP (World Bank)</span>
-                      </label>
-                    </TooltipTrigger>
-                    <TooltipContent side="bottom" className="max-w-xs">
-                      <p className="font-medium">PPP-Adjusted (Recommended)</p>
-                      <p className="text-xs text-muted-foreground">
-                        Lower prices for lower-income regions based on World Bank purchasing power parity data.
-                        Hyperinflation regions automatically receive reduced prices for affordability.
-                      </p>
-                      {pppMetadata && pppMetadata.worldBankRegions > 0 && (
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Data: World Bank ({pppMetadata.baseYear}) &bull; {pppMetadata.worldBankRegions} regions
-                        </p>
-                      )}
-                    </TooltipContent>
-                  </Tooltip>
-
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                        <input
-                          type="radio"
-                          name="strategy"
-                          value="bigmac"
-                          checked={strategy === 'bigmac'}
-                          onChange={() => setStrategy('bigmac')}
-                          className="sr-only"
-                        />
-                        <Hamburger className="h-4 w-4 shrink-0" />
-                        <span className="text-sm font-medium truncate">Big Mac</span>
-                      </label>
-                    </TooltipTrigger>
-                    <TooltipContent side="bottom" className="max-w-xs">
-                      <p className="font-medium">Big Mac Index</p>
-                      <p className="text-xs text-muted-foreground">
-                        Prices based on The Economist&apos;s Big Mac Index - a real-world measure of purchasing power.
-                      </p>
-                    </TooltipContent>
-                  </Tooltip>
-
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                        <input
-                          type="radio"
-                          name="strategy"
-                          value="custom"
-                          checked={strategy === 'custom'}
-                          onChange={() => setStrategy('custom')}
-                          className="sr-only"
-                        />
-                        <Sliders className="h-4 w-4 shrink-0" />
-                        <span className="text-sm font-medium truncate">Custom</span>
-                      </label>
-                    </TooltipTrigger>
-                    <TooltipContent side="bottom" className="max-w-xs">
-                      <p className="font-medium">Custom Multipliers</p>
-                      <p className="text-xs text-muted-foreground">
-                        Define your own regional price multipliers (coming soon).
-                      </p>
-                    </TooltipContent>
-                  </Tooltip>
-                </div>
-              </TooltipProvider>
+              <StrategyPicker
+                value={strategy}
+                onChange={setStrategy}
+                notes={{
+                  ppp: pppMetadata && pppMetadata.worldBankRegions > 0 && (
+                    <>Data: World Bank ({pppMetadata.baseYear}) &bull; {pppMetadata.worldBankRegions} regions</>
+                  ),
+                  'ppp-consumption': pppMetadata && !!pppMetadata.consumptionPppRegions && (
+                    <>Data: World Bank ({pppMetadata.baseYear}) &bull; {pppMetadata.consumptionPppRegions} regions</>
+                  ),
+                }}
+              />
+              {strategy === 'blend' && (
+                <BlendWeightsEditor value={blendConfig} onChange={setBlendConfig} />
+              )}
+              {(strategy === 'ppp' || strategy === 'ppp-consumption' || strategy === 'blend') && (
+                <PppYearSelect
+                  value={pppYearSelection}
+                  onChange={(selection) => {
+                    setPppYearSelection(selection);
+                    fetchPPPData(false, selection);
+                  }}
+                />
+              )}
+              {strategy === 'proceeds' && (
+                <ProceedsConfigEditor value={proceedsConfig} onChange={setProceedsConfig} />
+              )}
             </div>
 
             {/* Rounding mode */}
             <div className="space-y-3">
               <Label>Rounding</Label>
-              <div className="grid grid-cols-3 gap-2">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
                 <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
                   <input
                     type="radio"
@@ -980,12 +1091,28 @@ export function AppleSubscriptionBulkPricingModal({
                   />
                   <span className="text-sm font-medium truncate">Round up</span>
                 </label>
+                <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
+                  <input
+                    type="radio"
+                    name="rounding"
+                    value="locale-charm"
+                    checked={rounding === 'locale-charm'}
+                    onChange={() => setRounding('locale-charm')}
+                    className="sr-only"
+                  />
+                  <span className="text-sm font-medium truncate">Local endings</span>
+                </label>
               </div>
               <p className="text-xs text-muted-foreground">
                 {rounding === 'nearest-tier' && 'Snaps to the closest Apple tier price.'}
                 {rounding === 'nearest-99' && 'Closest .99 ending by absolute distance.'}
                 {rounding === 'round-up' && 'Always rounds up to the next .99 ending.'}
+                {rounding === 'locale-charm' && 'Snaps to the price endings configured for each currency, then to the closest Apple tier.'}
               </p>
+              {rounding === 'locale-charm' && (
+                <PriceEndingsEditor value={priceEndings} onChange={setPriceEndings} />
+              )}
+              <TaxModeToggle value={taxMode} onChange={setTaxMode} />
             </div>
 
 
@@ -1003,6 +1130,43 @@ export function AppleSubscriptionBulkPricingModal({
               </p>
             </div>
 
+            {/* Guardrails */}
+            <GuardrailsEditor value={guardrails} onChange={setGuardrails} />
+
+            {/* Minimum meaningful change */}
+            <ChangeThresholdEditor />
+
+            {/* Stepped rollout */}
+            {isApproved && (
+              <SteppedRolloutEditor
+                value={rolloutSchedule}
+                onChange={setRolloutSchedule}
+                plan={rolloutPlan}
+                note="Apple takes one future price per territory, so later steps are saved in this browser only; send each one from the subscriptions page once the previous one is live."
+              />
+            )}
+
+            {/* Anchors */}
+            <AnchorsEditor
+              value={extraAnchors}
+              onChange={setExtraAnchors}
+              regions={allTerritories.map((t) => ({ code: t.alpha3, name: t.name, currency: t.currency }))}
+              primaryRegion={baseRegion}
+            />
+
+            {/* Price bands */}
+            <div className="space-y-2">
+              <PriceBandsEditor
+                value={bands}
+                onChange={setBands}
+                unavailableReason={bandsUnavailable}
+              />
+              {bands && !bandsUnavailable && <PriceBandSummary prices={previewPrices} />}
+            </div>
+
+            {/* Currency unions */}
+            <CurrencyUnionEditor value={currencyUnion} onChange={setCurrencyUnion} />
+
             {/* Preview Table */}
             {previewPrices.length > 0 && (
               <div className="space-y-2">
@@ -1015,6 +1179,17 @@ export function AppleSubscriptionBulkPricingModal({
                         <span className="text-[10px]">{warningCount} regions with issues</span>
                       </div>
                     )}
+                    {guardrailHitCount > 0 && (
+                      <div className="flex items-center gap-1 text-amber-600 dark:text-amber-500 mt-1">
+                        <ShieldAlert className="h-3 w-3" />
+                        <span className="text-[10px]">{guardrailHitCount} regions clamped by guardrails</span>
+                      </div>
+                    )}
+                    {belowThresholdCount > 0 && (
+                      <span className="text-[10px] text-muted-foreground mt-1">
+                        {belowThresholdCount} unchanged (below threshold)
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <Button
@@ -1053,6 +1228,18 @@ export function AppleSubscriptionBulkPricingModal({
                     </Button>
                   </div>
                 </div>
+                <StoreRulesBar
+                  autoFix={autoFixStoreRules}
+                  onAutoFixChange={setAutoFixStoreRules}
+                  fixedCount={storeRuleFixedCount}
+                  blockedCount={blockedRegions.length}
+                  onDeselectBlocked={deselectBlockedRegions}
+                />
+                <RelationshipWarnings
+                  platform="apple"
+                  itemKey={appleSubscriptionItemKey(subscription.productId)}
+                  prices={proposedPrices}
+                />
                 <div className="border rounded-lg">
                   <ScrollArea className="h-72">
                     <TooltipProvider delayDuration={100}>
@@ -1096,6 +1283,7 @@ export function AppleSubscriptionBulkPricingModal({
                               New {getSortIcon('new')}
                             </div>
                           </TableHead>
+                          <TableHead className="text-right">Net / Incl. tax</TableHead>
                           <TableHead className="text-right cursor-pointer hover:bg-muted/50 transition-colors" onClick={() => requestSort('change')}>
                             <div className="flex items-center justify-end">
                               Change {getSortIcon('change')}
@@ -1106,111 +1294,155 @@ export function AppleSubscriptionBulkPricingModal({
                       <TableBody>
                         {sortedPreviewPrices.map((preview) => {
                           const isSelected = selectedRegions.has(preview.territoryCode);
+                          const anchor = anchors?.find((a) => a.region === preview.anchor);
+                          const rowBasePrice = anchor?.price ?? basePriceNum;
+                          const rowBaseCurrency = anchor?.currency ?? baseCurrency;
+                          const rowBaseRegion = anchor?.region ?? baseRegion;
                           const rowClassName = preview.noTierData
                             ? 'bg-red-50/50 dark:bg-red-950/20'
                             : !isSelected ? 'opacity-50' : '';
 
                           return (
-                            <TableRow key={preview.territoryCode} className={rowClassName}>
-                              <TableCell>
-                                <Checkbox 
-                                  checked={isSelected}
-                                  onCheckedChange={() => toggleRegion(preview.territoryCode)}
-                                  aria-label={`Select ${preview.territoryCode}`}
-                                />
-                              </TableCell>
-                              <TableCell>
-                                <Badge variant="outline">
-                                  {preview.territoryAlpha3}
-                                </Badge>
-                              </TableCell>
-                              <TableCell className="text-sm">
-                                {preview.countryName}
-                              </TableCell>
-                              <TableCell className="text-sm text-muted-foreground">
-                                {preview.currency}
-                              </TableCell>
-                              <TableCell className="text-right text-sm">
-                                <Tooltip>
-                                  <TooltipTrigger asChild>
-                                    <span className={
-                                      preview.multiplier < 1
-                                        ? 'text-green-600 cursor-help'
-                                        : preview.multiplier > 1
-                                        ? 'text-orange-600 cursor-help'
-                                        : 'text-muted-foreground cursor-help'
-                                    }>
-                                      {preview.multiplier.toFixed(2)}×
-                                    </span>
-                                  </TooltipTrigger>
-                                  <TooltipContent side="top">
-                                    <p className="text-xs">
-                                      {preview.multiplierSource === 'world-bank' && 'World Bank PPP data'}
-                                      {preview.multiplierSource === 'big-mac' && 'Big Mac Index'}
-                                      {preview.multiplierSource === 'netflix' && 'Netflix Price Index'}
-                                      {preview.multiplierSource === 'static' && 'Static fallback data'}
-                                      {preview.multiplierSource === 'custom' && 'Custom multiplier'}
-                                      {preview.multiplierSource === 'direct' && 'Direct conversion (1:1)'}
-                                    </p>
-                                    <p className="text-xs text-muted-foreground">
-                                      Relative to base: {preview.multiplier.toFixed(2)}×
-                                    </p>
-                                  </TooltipContent>
-                                </Tooltip>
-                              </TableCell>
-                              <TableCell className="text-right text-sm text-muted-foreground">
-                                {preview.currentPrice !== null
-                                  ? formatPrice(preview.currentPrice, preview.currency)
-                                  : '-'}
-                              </TableCell>
-                              <TableCell className="text-right font-medium">
-                                {preview.noTierData ? (
-                                  <span className="text-red-600">No tier data</span>
-                                ) : (
+                            <Fragment key={preview.territoryCode}>
+                              <TableRow className={rowClassName}>
+                                <TableCell>
+                                  <Checkbox 
+                                    checked={isSelected}
+                                    onCheckedChange={() => toggleRegion(preview.territoryCode)}
+                                    aria-label={`Select ${preview.territoryCode}`}
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-1">
+                                    <PriceTraceToggle open={expandedTraces.has(preview.territoryCode)} onToggle={() => toggleTrace(preview.territoryCode)} />
+                                    <Badge variant="outline">
+                                      {preview.territoryAlpha3}
+                                    </Badge>
+                                  </div>
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                  <div className="flex flex-col">
+                                    {preview.countryName}
+                                    {preview.band && <PriceBandBadge band={preview.band} />}
+                                    {preview.currencyUnion && <CurrencyUnionBadge union={preview.currencyUnion} />}
+                                    {anchor && anchor.region !== baseRegion && (
+                                      <span className="text-[10px] text-muted-foreground">From {anchor.region} anchor</span>
+                                    )}
+                                  </div>
+                                </TableCell>
+                                <TableCell className="text-sm text-muted-foreground">
+                                  {preview.currency}
+                                </TableCell>
+                                <TableCell className="text-right text-sm">
                                   <Tooltip>
                                     <TooltipTrigger asChild>
-                                      <span className="cursor-help">
-                                        {formatPrice(preview.tierPrice, preview.currency)}
+                                      <span className={
+                                        preview.multiplier < 1
+                                          ? 'text-green-600 cursor-help'
+                                          : preview.multiplier > 1
+                                          ? 'text-orange-600 cursor-help'
+                                          : 'text-muted-foreground cursor-help'
+                                      }>
+                                        {preview.multiplier.toFixed(2)}×
                                       </span>
                                     </TooltipTrigger>
-                                    <TooltipContent side="top" className="max-w-xs">
-                                      <p className="text-xs font-medium mb-1">
-                                        {baseCurrency} → {preview.currency} Calculation
+                                    <TooltipContent side="top">
+                                      <p className="text-xs">
+                                        {preview.multiplierSource && getMultiplierSourceLabel(preview.multiplierSource)}
+                                      </p>
+                                      <p className="text-xs text-muted-foreground">
+                                        Relative to {rowBaseRegion}: {preview.multiplier.toFixed(2)}×
                                       </p>
-                                      <div className="text-xs text-muted-foreground space-y-0.5">
-                                        <p>1. Base price: {basePriceNum.toFixed(2)} {baseCurrency} ({baseRegion})</p>
-                                        <p>2. Relative Adjustment: {preview.multiplier.toFixed(2)}×</p>
-                                        <p>3. Adjusted Price: {(basePriceNum * preview.multiplier).toFixed(2)} {baseCurrency}</p>
-                                        {baseCurrency !== preview.currency && (
-                                          <p>4. Exchange Rate ({baseCurrency}→{preview.currency}): {(preview.idealPrice / (basePriceNum * preview.multiplier)).toFixed(4)}</p>
-                                        )}
-                                        <p>{baseCurrency !== preview.currency ? '5' : '4'}. Ideal Target: {preview.idealPrice.toFixed(2)} {preview.currency}</p>
-                                        {preview.tier && (
-                                          <p>{baseCurrency !== preview.currency ? '6' : '5'}. Apple Tier: Tier {preview.tier} ({formatPrice(preview.tierPrice, preview.currency)})</p>
-                                        )}
-                                      </div>
+                                      {preview.blendContributions && (
+                                        <BlendBreakdown contributions={preview.blendContributions} />
+                                      )}
                                     </TooltipContent>
                                   </Tooltip>
-                                )}
-                              </TableCell>
-                              <TableCell className="text-right">
-                                {preview.priceChange !== null ? (
-                                  <span
-                                    className={
-                                      preview.priceChange > 0
-                                        ? 'text-red-600'
-                                        : preview.priceChange < 0
-                                        ? 'text-green-600'
-                                        : 'text-muted-foreground'
-                                    }
-                                  >
-                                    {formatPriceChange(preview.priceChange)}
-                                  </span>
-                                ) : (
-                                  <span className="text-green-600">New</span>
-                                )}
-                              </TableCell>
-                            </TableRow>
+                                </TableCell>
+                                <TableCell className="text-right text-sm text-muted-foreground">
+                                  {preview.currentPrice !== null
+                                    ? formatPrice(preview.currentPrice, preview.currency)
+                                    : '-'}
+                                </TableCell>
+                                <TableCell className="text-right font-medium">
+                                  {preview.noTierData ? (
+                                    <span className="text-red-600">No tier data</span>
+                                  ) : (
+                                    <>
+                                      {preview.guardrail && (
+                                        <GuardrailIndicator hit={preview.guardrail} currencyCode={preview.currency} />
+                                      )}
+                                      {preview.unstableCurrency && (
+                                        <UnstableCurrencyIndicator hit={preview.unstableCurrency} />
+                                      )}
+                                      {preview.storeRule && (
+                                        <StoreRuleIndicator hit={preview.storeRule} currencyCode={preview.currency} />
+                                      )}
+                                      <Tooltip>
+                                        <TooltipTrigger asChild>
+                                          <span className="cursor-help">
+                                            {formatPrice(preview.tierPrice, preview.currency)}
+                                          </span>
+                                        </TooltipTrigger>
+                                        <TooltipContent side="top" className="max-w-xs">
+                                          <p className="text-xs font-medium mb-1">
+                                            {rowBaseCurrency} → {preview.currency} Calculation
+                                          </p>
+                                          <div className="text-xs text-muted-foreground space-y-0.5">
+                                            <p>1. Base price: {rowBasePrice.toFixed(2)} {rowBaseCurrency} ({rowBaseRegion})</p>
+                                            <p>2. Relative Adjustment: {preview.multiplier.toFixed(2)}×</p>
+                                            <p>3. Adjusted Price: {(rowBasePrice * preview.multiplier).toFixed(2)} {rowBaseCurrency}</p>
+                                            {rowBaseCurrency !== preview.currency && (
+                                              <p>4. Exchange Rate ({rowBaseCurrency}→{preview.currency}): {(preview.idealPrice / (rowBasePrice * preview.multiplier)).toFixed(4)}</p>
+                                            )}
+                                            <p>{rowBaseCurrency !== preview.currency ? '5' : '4'}. Ideal Target: {preview.idealPrice.toFixed(2)} {preview.currency}</p>
+                                            {preview.tier && (
+                                              <p>{rowBaseCurrency !== preview.currency ? '6' : '5'}. Apple Tier: Tier {preview.tier} ({formatPrice(preview.tierPrice, preview.currency)})</p>
+                                            )}
+                                          </div>
+                                          <p className="text-xs text-muted-foreground mt-1">
+                                            Est. proceeds: {estimateProceeds(preview.tierPrice, preview.territoryCode, proceedsConfig.commission).toFixed(2)} {preview.currency} ({Math.round(proceedsConfig.commission * 100)}% commission)
+                                          </p>
+                                        </TooltipContent>
+                                      </Tooltip>
+                                    </>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {!preview.noTierData && (
+                                    <TaxSplit
+                                      amount={preview.tierPrice}
+                                      currencyCode={preview.currency}
+                                      regionCode={preview.territoryCode}
+                                    />
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {belowThresholdRegions.has(preview.territoryCode) ? (
+                                    <span className="text-muted-foreground" title="Below the minimum change; the live price is kept">
+                                      Unchanged
+                                    </span>
+                                  ) : preview.priceChange !== null ? (
+                                    <span
+                                      className={
+                                        preview.priceChange > 0
+                                          ? 'text-red-600'
+                                          : preview.priceChange < 0
+                                          ? 'text-green-600'
+                                          : 'text-muted-foreground'
+                                      }
+                                    >
+                                      {formatPriceChange(preview.priceChange)}
+                                    </span>
+                                  ) : (
+                                    <span className="text-green-600">New</span>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                              {expandedTraces.has(preview.territoryCode) && (
+                                <PriceTraceRow trace={preview.trace} colSpan={9} />
+                              )}
+                            </Fragment>
                           );
                         })}
                       </TableBody>
@@ -1224,12 +1456,19 @@ export function AppleSubscriptionBulkPricingModal({
         </div>
 
         <DialogFooter className="flex-shrink-0 border-t pt-4 mt-4">
+          <SavePlanButton
+            platform="apple"
+            defaultName={subscription.name || subscription.productId}
+            regions={Array.from(selectedRegions)}
+            settings={planSettings}
+            disabled={selectedRegions.size === 0}
+          />
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
           <Button
             onClick={handleApplyClick}
-            disabled={previewPrices.length === 0 || isSaving || resolveMutation.isPending || updateMutation.isPending}
+            disabled={previewPrices.length === 0 || blockedRegions.length > 0 || isSaving || resolveMutation.isPending || updateMutation.isPending}
           >
             {isSaving || resolveMutation.isPending || updateMutation.isPending ? (
               <>
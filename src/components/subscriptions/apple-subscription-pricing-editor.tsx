@@ -6,6 +6,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
 import { AppleSubscriptionBulkPricingModal } from './apple-subscription-bulk-pricing-modal';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
   Select,
@@ -43,7 +44,12 @@ import {
   getTerritoryByAlpha2,
   alpha2ToAlpha3,
 } from '@/lib/apple-connect/territories';
-import type { AppleProductPrice } from '@/lib/apple-connect/types';
+import { formatApplePrice, type AppleProductPrice } from '@/lib/apple-connect/types';
+import { TaxSplit } from '@/components/pricing/tax-display';
+import { RelationshipWarnings } from '@/components/pricing/relationship-warnings';
+import { appleSubscriptionItemKey } from '@/lib/google-play/price-relationships';
+import { parseMoney, type Money } from '@/lib/google-play/types';
+import { findTierByProceeds } from '@/lib/google-play/currency';
 import {
   useSubscriptionPricePoints,
   useUpdateAppleSubscriptionPrices,
@@ -88,15 +94,7 @@ function formatAppleStatus(status: string): {
 
 // Format price with currency
 function formatPrice(price: string, currency: string): string {
-  const amount = parseFloat(price);
-  try {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-    }).format(amount);
-  } catch {
-    return `${currency} ${price}`;
-  }
+  return formatApplePrice(price, currency);
 }
 
 // Get earliest allowed effective date (2 days from now) in YYYY-MM-DD format
@@ -167,6 +165,9 @@ export function AppleSubscriptionPricingEditor({
   const [selectedPricePoint, setSelectedPricePoint] = useState<SubscriptionPricePoint | null>(null);
   const [selectedStartDate, setSelectedStartDate] = useState<string>('');
 
+  // Optional net-per-sale target; highlights the price point with the closest proceeds
+  const [targetProceeds, setTargetProceeds] = useState<string>('');
+
   // Mutations
   const updateMutation = useUpdateAppleSubscriptionPrices();
   const clearScheduledMutation = useClearScheduledPrices();
@@ -183,6 +184,20 @@ export function AppleSubscriptionPricingEditor({
       editingTerritory || ''
     );
 
+  const closestProceedsPointId = useMemo(() => {
+    const target = parseFloat(targetProceeds);
+    if (!pricePointsData?.pricePoints || !(target > 0)) return null;
+    const match = findTierByProceeds(
+      pricePointsData.pricePoints.map((pp) => ({
+        id: pp.id,
+        price: parseFloat(pp.customerPrice),
+        proceeds: parseFloat(pp.proceeds),
+      })),
+      target
+    );
+    return match?.id ?? null;
+  }, [pricePointsData, targetProceeds]);
+
   // Get sorted list of current prices (including pending new additions)
   const sortedPrices = useMemo(() => {
     const pricesMap = new Map(Object.entries(subscription.prices || {}));
@@ -217,6 +232,18 @@ export function AppleSubscriptionPricingEditor({
     );
   }, [subscription.prices, pendingChanges]);
 
+  // Live prices with pending edits applied, for the relationship checks
+  const currentPrices = useMemo(() => {
+    const prices: Record<string, Money> = {};
+    for (const [code, price] of Object.entries(subscription.prices || {})) {
+      prices[code] = parseMoney(parseFloat(price.customerPrice), price.currency);
+    }
+    pendingChanges.forEach((change, territoryCode) => {
+      prices[territoryCode] = parseMoney(parseFloat(change.newCustomerPrice), change.newCurrency);
+    });
+    return prices;
+  }, [subscription.prices, pendingChanges]);
+
   const status = formatAppleStatus(subscription.state);
   const hasChanges = pendingChanges.size > 0;
   const hasScheduledPrices = Object.keys(subscription.scheduledPrices || {}).length > 0;
@@ -434,6 +461,12 @@ export function AppleSubscriptionPricingEditor({
         </div>
       )}
 
+      <RelationshipWarnings
+        platform="apple"
+        itemKey={appleSubscriptionItemKey(subscription.productId)}
+        prices={currentPrices}
+      />
+
       <Accordion type="multiple" className="space-y-4" defaultValue={['subscription-plan']}>
         <AccordionItem
           value="subscription-plan"
@@ -514,6 +547,7 @@ export function AppleSubscriptionPricingEditor({
                       <TableHead className="w-20">Region</TableHead>
                       <TableHead>Country</TableHead>
                       <TableHead>Price</TableHead>
+                      <TableHead className="text-right">Net / Incl. tax</TableHead>
                       <TableHead className="w-16">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -585,6 +619,13 @@ export function AppleSubscriptionPricingEditor({
                               )}
                             </button>
                           </TableCell>
+                          <TableCell className="text-right">
+                            <TaxSplit
+                              amount={parseFloat(displayData.price)}
+                              currencyCode={displayData.currency}
+                              regionCode={regionCode}
+                            />
+                          </TableCell>
                           <TableCell>
                             <Button
                               variant="ghost"
@@ -601,7 +642,7 @@ export function AppleSubscriptionPricingEditor({
                     {sortedPrices.length === 0 && (
                       <TableRow>
                         <TableCell
-                          colSpan={4}
+                          colSpan={5}
                           className="text-center text-muted-foreground py-6"
                         >
                           No regional pricing configured
@@ -688,53 +729,75 @@ export function AppleSubscriptionPricingEditor({
                   <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
                 </div>
               ) : pricePointsData?.pricePoints && pricePointsData.pricePoints.length > 0 ? (
-                <ScrollArea className="h-80">
-                  <div className="space-y-1 pr-4">
-                    {pricePointsData.pricePoints.map((pp) => {
-                      const currentPrice = editingTerritory
-                        ? subscription.prices[editingTerritory]
-                        : null;
-                      const pendingChange = editingTerritory
-                        ? pendingChanges.get(editingTerritory)
-                        : null;
-                      const isCurrentPrice = currentPrice?.pricePointId === pp.id;
-                      const isPendingPrice = pendingChange?.newPricePointId === pp.id;
-
-                      return (
-                        <button
-                          key={pp.id}
-                          type="button"
-                          onClick={() => handleSelectPricePoint(pp)}
-                          className={`w-full p-3 rounded-md text-left transition-colors ${
-                            isCurrentPrice || isPendingPrice
-                              ? 'bg-primary/10 border border-primary'
-                              : 'hover:bg-muted border border-transparent'
-                          }`}
-                        >
-                          <div className="flex items-center justify-between">
-                            <span className="font-medium">
-                              {formatPrice(
-                                pp.customerPrice,
-                                editingTerritoryInfo?.currency || 'USD'
-                              )}
-                            </span>
-                            <span className="text-sm text-muted-foreground">
-                              proceeds: {formatPrice(
-                                pp.proceeds,
-                                editingTerritoryInfo?.currency || 'USD'
-                              )}
-                            </span>
-                          </div>
-                          {(isCurrentPrice || isPendingPrice) && (
-                            <span className="text-xs text-primary mt-1 block">
-                              {isPendingPrice ? 'Selected (pending)' : 'Current price'}
-                            </span>
-                          )}
-                        </button>
-                      );
-                    })}
+                <>
+                  <div className="flex items-center gap-2 pb-2">
+                    <Label htmlFor="target-proceeds" className="text-xs whitespace-nowrap">
+                      Target proceeds ({editingTerritoryInfo?.currency || 'USD'})
+                    </Label>
+                    <Input
+                      id="target-proceeds"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Optional"
+                      value={targetProceeds}
+                      onChange={(e) => setTargetProceeds(e.target.value)}
+                      className="h-8"
+                    />
                   </div>
-                </ScrollArea>
+                  <ScrollArea className="h-80">
+                    <div className="space-y-1 pr-4">
+                      {pricePointsData.pricePoints.map((pp) => {
+                        const currentPrice = editingTerritory
+                          ? subscription.prices[editingTerritory]
+                          : null;
+                        const pendingChange = editingTerritory
+                          ? pendingChanges.get(editingTerritory)
+                          : null;
+                        const isCurrentPrice = currentPrice?.pricePointId === pp.id;
+                        const isPendingPrice = pendingChange?.newPricePointId === pp.id;
+
+                        return (
+                          <button
+                            key={pp.id}
+                            type="button"
+                            onClick={() => handleSelectPricePoint(pp)}
+                            className={`w-full p-3 rounded-md text-left transition-colors ${
+                              isCurrentPrice || isPendingPrice
+                                ? 'bg-primary/10 border border-primary'
+                                : 'hover:bg-muted border border-transparent'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">
+                                {formatPrice(
+                                  pp.customerPrice,
+                                  editingTerritoryInfo?.currency || 'USD'
+                                )}
+                              </span>
+                              <span className="text-sm text-muted-foreground">
+                                proceeds: {formatPrice(
+                                  pp.proceeds,
+                                  editingTerritoryInfo?.currency || 'USD'
+                                )}
+                              </span>
+                            </div>
+                            {(isCurrentPrice || isPendingPrice) && (
+                              <span className="text-xs text-primary mt-1 block">
+                                {isPendingPrice ? 'Selected (pending)' : 'Current price'}
+                              </span>
+                            )}
+                            {pp.id === closestProceedsPointId && (
+                              <span className="text-xs text-green-600 mt-1 block">
+                                Closest to target proceeds
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </ScrollArea>
+                </>
               ) : (
                 <div className="text-center text-muted-foreground py-8">
                   No price tiers available for this territory
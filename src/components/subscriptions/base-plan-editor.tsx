@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { Plus, Trash2, Save, X, Globe, AlertCircle, Calculator } from 'lucide-react';
+import { Plus, Trash2, Save, X, Globe, AlertCircle, Calculator, Layers } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
@@ -48,7 +48,12 @@ import {
   useUpdateBasePlanPrices,
   useDeleteBasePlanRegionPrice,
 } from '@/hooks/use-subscriptions';
+import { TaxSplit } from '@/components/pricing/tax-display';
+import { RelationshipWarnings } from '@/components/pricing/relationship-warnings';
+import { basePlanItemKey } from '@/lib/google-play/price-relationships';
+import { periodInMonths, type LadderPlan } from '@/lib/google-play/period-ladder';
 import { SubscriptionBulkPricingModal } from './bulk-pricing-modal';
+import { PeriodLadderModal } from './period-ladder-modal';
 
 // Convert ISO 8601 duration to human-readable format
 function formatBillingPeriod(duration: string): string {
@@ -127,6 +132,11 @@ function BasePlanPricingSection({
     return GOOGLE_PLAY_REGIONS.filter((r) => !currentConfigs.has(r.code));
   }, [currentConfigs]);
 
+  const currentPrices = useMemo(
+    () => Object.fromEntries(Array.from(currentConfigs, ([code, config]) => [code, config.price])),
+    [currentConfigs]
+  );
+
   const sortedConfigs = useMemo(() => {
     return Array.from(currentConfigs.entries()).sort(([a], [b]) => {
       const regionA = GOOGLE_PLAY_REGIONS.find((r) => r.code === a);
@@ -182,6 +192,12 @@ function BasePlanPricingSection({
         </div>
       </div>
 
+      <RelationshipWarnings
+        platform="google"
+        itemKey={basePlanItemKey(subscription.productId, basePlan.basePlanId)}
+        prices={currentPrices}
+      />
+
       <label className="flex items-center gap-2 text-sm text-muted-foreground">
         <Checkbox checked disabled />
         <span>Preserve existing subscriber prices</span>
@@ -197,6 +213,7 @@ function BasePlanPricingSection({
               <TableHead className="w-20">Region</TableHead>
               <TableHead>Country</TableHead>
               <TableHead>Price</TableHead>
+              <TableHead className="text-right">Net / Incl. tax</TableHead>
               <TableHead className="w-16">Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -244,6 +261,13 @@ function BasePlanPricingSection({
                       )}
                     </div>
                   </TableCell>
+                  <TableCell className="text-right">
+                    <TaxSplit
+                      amount={moneyToNumber(displayPrice)}
+                      currencyCode={displayPrice.currencyCode}
+                      regionCode={regionCode}
+                    />
+                  </TableCell>
                   <TableCell>
                     {!pendingChange?.isNew && (
                       <Button
@@ -271,7 +295,7 @@ function BasePlanPricingSection({
             })}
             {sortedConfigs.length === 0 && (
               <TableRow>
-                <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
                   No regional pricing configured
                 </TableCell>
               </TableRow>
@@ -356,6 +380,25 @@ export function BasePlanEditor({ subscription }: BasePlanEditorProps) {
   const [allChanges, setAllChanges] = useState<Map<string, BasePlanChanges>>(
     new Map()
   );
+  const [ladderOpen, setLadderOpen] = useState(false);
+
+  // Base plans with a billing period the ladder can price
+  const ladderPlans = useMemo((): LadderPlan[] => {
+    const plans: LadderPlan[] = [];
+    for (const basePlan of subscription.basePlans ?? []) {
+      const period = basePlan.autoRenewingBasePlanType?.billingPeriodDuration
+        ?? basePlan.prepaidBasePlanType?.billingPeriodDuration;
+      const months = periodInMonths(period);
+      if (months === null) continue;
+      plans.push({
+        key: basePlan.basePlanId,
+        label: `${basePlan.basePlanId} (${formatBillingPeriod(period!)})`,
+        months,
+        currentPrices: Object.fromEntries((basePlan.regionalConfigs ?? []).map((c) => [c.regionCode, c.price])),
+      });
+    }
+    return plans;
+  }, [subscription.basePlans]);
 
   // BasePlanEditor is Google-only (Apple uses apple-subscription-pricing-editor).
   const updateMutation = useUpdateBasePlanPrices('google');
@@ -508,6 +551,23 @@ export function BasePlanEditor({ subscription }: BasePlanEditorProps) {
         </Card>
       )}
 
+      {ladderPlans.length > 1 && (
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => setLadderOpen(true)}>
+            <Layers className="mr-2 h-4 w-4" />
+            Price Ladder
+          </Button>
+          <PeriodLadderModal
+            platform="google"
+            title={subscription.listings?.[0]?.title || subscription.productId}
+            productId={subscription.productId}
+            plans={ladderPlans}
+            open={ladderOpen}
+            onOpenChange={setLadderOpen}
+          />
+        </div>
+      )}
+
       <Accordion type="multiple" className="space-y-4" defaultValue={subscription.basePlans.map(bp => bp.basePlanId)}>
         {subscription.basePlans.map((basePlan) => {
           const planChanges = allChanges.get(basePlan.basePlanId);
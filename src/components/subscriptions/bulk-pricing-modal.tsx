@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useMemo, useEffect, useCallback } from 'react';
-import { Calculator, Globe, TrendingDown, Sliders, RefreshCw, Hamburger, Tv, Loader2, ArrowUpDown, ChevronUp, ChevronDown } from 'lucide-react';
+import { Fragment, useState, useMemo, useEffect, useCallback } from 'react';
+import { Calculator, RefreshCw, Loader2, ArrowUpDown, ChevronUp, ChevronDown } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -32,7 +32,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { getCurrencySymbol } from '@/lib/utils/currency';
+import { getCurrencySymbol } from '@/lib/currencies/registry';
+import { enforceStoreRules, storeRuleTraceStep, type StoreRuleHit } from '@/lib/currencies/constraints';
 import {
   Tooltip,
   TooltipContent,
@@ -44,16 +45,52 @@ import {
   GOOGLE_PLAY_REGIONS,
   formatMoney,
   moneyToNumber,
+  parseMoney,
 } from '@/lib/google-play/types';
 import {
   calculateBulkPrices,
   calculatePriceChange,
   formatPriceChange,
+  DEFAULT_BLEND_CONFIG,
+  DEFAULT_PROCEEDS_CONFIG,
+  estimateProceeds,
+  priceBandsUnavailableReason,
+  getMultiplierSourceLabel,
+  type BlendConfig,
+  type PriceGuardrails,
+  type PriceAnchor,
+  type ProceedsConfig,
   type PricingStrategy,
+  type TaxMode,
   type RoundingMode,
   type DynamicPPPData,
   type DynamicExchangeRates,
 } from '@/lib/google-play/currency';
+import { BlendWeightsEditor, BlendBreakdown } from '@/components/pricing/blend-config';
+import { GuardrailsEditor, GuardrailIndicator } from '@/components/pricing/guardrails-config';
+import { ChangeThresholdEditor } from '@/components/pricing/change-threshold-editor';
+import { SteppedRolloutEditor } from '@/components/pricing/stepped-rollout-editor';
+import { UnstableCurrencyIndicator } from '@/components/pricing/unstable-currency-card';
+import { AnchorsEditor } from '@/components/pricing/anchors-config';
+import { StrategyPicker } from '@/components/pricing/strategy-picker';
+import { PriceTraceToggle, PriceTraceRow } from '@/components/pricing/price-trace';
+import { PppYearSelect } from '@/components/pricing/ppp-year-select';
+import { PriceBandsEditor, PriceBandSummary, PriceBandBadge } from '@/components/pricing/price-bands-config';
+import { CurrencyUnionEditor, CurrencyUnionBadge } from '@/components/pricing/currency-union-config';
+import { SavePlanButton } from '@/components/pricing/save-plan-button';
+import type { PriceBandConfig } from '@/lib/google-play/price-bands';
+import type { CurrencyUnionConfig } from '@/lib/google-play/currency-union';
+import type { PricingPlanSettings } from '@/lib/google-play/pricing-plan';
+import { isBelowChangeThreshold } from '@/lib/google-play/change-threshold';
+import { planPriceRollout, toDateString, type RolloutSchedule } from '@/lib/google-play/price-rollout';
+import { ProceedsConfigEditor } from '@/components/pricing/proceeds-config';
+import { PriceEndingsEditor } from '@/components/pricing/price-endings-config';
+import { TaxModeToggle, TaxSplit } from '@/components/pricing/tax-display';
+import { StoreRulesBar, StoreRuleIndicator } from '@/components/pricing/store-rules';
+import { RelationshipWarnings } from '@/components/pricing/relationship-warnings';
+import { basePlanItemKey } from '@/lib/google-play/price-relationships';
+import { usePricingStore } from '@/store/pricing-store';
+import { pppApiUrl } from '@/lib/world-bank/ppp-years';
 import { useUpdateBasePlanPrices } from '@/hooks/use-subscriptions';
 
 interface PPPApiResponse {
@@ -63,6 +100,7 @@ interface PPPApiResponse {
     baseYear: number | null;
     fetchedAt: string;
     worldBankRegions: number;
+    consumptionPppRegions?: number;
     totalRegions: number;
     fallback?: boolean;
     error?: string;
@@ -101,8 +139,19 @@ export function SubscriptionBulkPricingModal({
   const [basePrice, setBasePrice] = useState<string>('');
   const [baseRegion, setBaseRegion] = useState<string>('US');
   const [strategy, setStrategy] = useState<PricingStrategy>('ppp');
+  const [blendConfig, setBlendConfig] = useState<BlendConfig>(DEFAULT_BLEND_CONFIG);
+  const [proceedsConfig, setProceedsConfig] = useState<ProceedsConfig>(DEFAULT_PROCEEDS_CONFIG);
+  const [guardrails, setGuardrails] = useState<PriceGuardrails>({});
+  const [autoFixStoreRules, setAutoFixStoreRules] = useState(true);
+  const [extraAnchors, setExtraAnchors] = useState<PriceAnchor[]>([]);
+  const [bands, setBands] = useState<PriceBandConfig | undefined>(undefined);
+  const [currencyUnion, setCurrencyUnion] = useState<CurrencyUnionConfig | undefined>(undefined);
+  const [rolloutSchedule, setRolloutSchedule] = useState<RolloutSchedule | null>(null);
+  const { priceEndings, setPriceEndings, pppYearSelection, setPppYearSelection, unstableCurrencyPolicy, changeThreshold, savePriceRollout } = usePricingStore();
+  const [taxMode, setTaxMode] = useState<TaxMode>('listed');
   const [rounding, setRounding] = useState<RoundingMode>('nearest-99');
   const [selectedRegions, setSelectedRegions] = useState<Set<string>>(new Set());
+  const [expandedTraces, setExpandedTraces] = useState<Set<string>>(new Set());
 
   // PPP data from World Bank API
   const [pppData, setPppData] = useState<DynamicPPPData | null>(null);
@@ -163,11 +212,10 @@ export function SubscriptionBulkPricingModal({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open]);
 
-  const fetchPPPData = async (forceRefresh = false) => {
+  const fetchPPPData = async (forceRefresh = false, yearSelection = pppYearSelection) => {
     setPppLoading(true);
     try {
-      const url = forceRefresh ? '/api/ppp?refresh=true' : '/api/ppp';
-      const response = await fetch(url);
+      const response = await fetch(pppApiUrl(yearSelection, forceRefresh));
       const data: PPPApiResponse = await response.json();
 
       if (data.success) {
@@ -239,23 +287,111 @@ export function SubscriptionBulkPricingModal({
     }
   }, [baseRegion, basePlan.regionalConfigs]);
 
+  // The base region/price is the first anchor; extra anchors make this a multi-anchor run
+  const anchors = useMemo((): PriceAnchor[] | undefined => {
+    if (extraAnchors.length === 0) return undefined;
+    return [{ region: baseRegion, price: basePriceNum, currency: baseCurrency }, ...extraAnchors];
+  }, [extraAnchors, baseRegion, basePriceNum, baseCurrency]);
+
+  // Everything the preview depends on besides live data, kept for saved plans
+  const planSettings = useMemo((): PricingPlanSettings => ({
+    actualCurrencies,
+    basePrice: basePriceNum,
+    strategy,
+    rounding,
+    baseCurrency,
+    baseRegion,
+    blend: blendConfig,
+    guardrails,
+    priceEndings,
+    unstableCurrency: unstableCurrencyPolicy,
+    taxMode,
+    proceeds: proceedsConfig,
+    anchors,
+    bands,
+    currencyUnion,
+  }), [basePriceNum, strategy, rounding, actualCurrencies, baseCurrency, baseRegion, blendConfig, guardrails, priceEndings, unstableCurrencyPolicy, taxMode, proceedsConfig, anchors, bands, currencyUnion]);
+  const bandsUnavailable = priceBandsUnavailableReason({ strategy, anchors });
+
   // Calculate preview prices
   const previewPrices = useMemo(() => {
-    if (basePriceNum < 0) return [];
-
-    return calculateBulkPrices(
-      basePriceNum,
-      targetRegions,
-      strategy,
-      rounding,
-      undefined, // customMultipliers
-      pppData ?? undefined, // dynamicPPPData
-      actualCurrencies, // Use actual currencies from Google Play
-      exchangeRates ?? undefined, // Dynamic exchange rates from API
-      baseCurrency,
-      baseRegion
-    );
-  }, [basePriceNum, targetRegions, strategy, rounding, pppData, actualCurrencies, exchangeRates, baseCurrency, baseRegion]);
+    if (planSettings.basePrice < 0) return [];
+
+    const calculatedPrices = calculateBulkPrices(targetRegions, {
+      ...planSettings,
+      dynamicPPPData: pppData ?? undefined,
+      dynamicExchangeRates: exchangeRates ?? undefined, // Dynamic exchange rates from API
+      currentPrices: normalizedPrices,
+    });
+
+    // Check each price against Google Play's rules; with auto-fix on, submit the closest accepted price
+    return calculatedPrices.map((calculated): typeof calculated & { storeRule?: StoreRuleHit } => {
+      const storeRule = enforceStoreRules(
+        'google',
+        { regionCode: calculated.regionCode, currencyCode: calculated.currencyCode, price: moneyToNumber(calculated.price) },
+        autoFixStoreRules
+      );
+      if (!storeRule) return calculated;
+      if (storeRule.fixedPrice === undefined) return { ...calculated, storeRule };
+      return {
+        ...calculated,
+        storeRule,
+        price: parseMoney(storeRule.fixedPrice, calculated.currencyCode),
+        trace: [...calculated.trace, storeRuleTraceStep(storeRule, calculated.currencyCode)],
+      };
+    });
+  }, [planSettings, targetRegions, normalizedPrices, pppData, exchangeRates, autoFixStoreRules]);
+
+  const guardrailHitCount = useMemo(
+    () => previewPrices.filter((p) => p.guardrail && selectedRegions.has(p.regionCode)).length,
+    [previewPrices, selectedRegions]
+  );
+
+  // Selected rows that broke a store rule: fixed, or blocking the run
+  const storeRuleFixedCount = useMemo(
+    () => previewPrices.filter((p) => p.storeRule?.fixedPrice !== undefined && selectedRegions.has(p.regionCode)).length,
+    [previewPrices, selectedRegions]
+  );
+  const blockedRegions = useMemo(
+    () => previewPrices.filter((p) => p.storeRule && p.storeRule.fixedPrice === undefined && selectedRegions.has(p.regionCode)).map((p) => p.regionCode),
+    [previewPrices, selectedRegions]
+  );
+
+  // Live prices with the selected rows replaced, for the relationship checks
+  const proposedPrices = useMemo(() => {
+    const prices: Record<string, Money> = { ...normalizedPrices };
+    previewPrices.forEach((p) => {
+      if (selectedRegions.has(p.regionCode)) prices[p.regionCode] = p.price;
+    });
+    return prices;
+  }, [normalizedPrices, previewPrices, selectedRegions]);
+
+  // Regions whose new price is too close to the live one to be written
+  const belowThresholdRegions = useMemo(
+    () => new Set(
+      previewPrices
+        .filter((p) => isBelowChangeThreshold(normalizedPrices[p.regionCode], p.price, changeThreshold))
+        .map((p) => p.regionCode)
+    ),
+    [previewPrices, normalizedPrices, changeThreshold]
+  );
+  const belowThresholdCount = [...belowThresholdRegions].filter((code) => selectedRegions.has(code)).length;
+
+  // Dated steps for the selected prices when the rollout is stepped
+  const rolloutPlan = useMemo(() => {
+    if (!rolloutSchedule) return [];
+    const targets: Record<string, Money> = {};
+    previewPrices.forEach((p) => {
+      if (selectedRegions.has(p.regionCode)) targets[p.regionCode] = p.price;
+    });
+    return planPriceRollout(targets, normalizedPrices, rolloutSchedule, toDateString(new Date()), 'google', changeThreshold);
+  }, [rolloutSchedule, previewPrices, selectedRegions, normalizedPrices, changeThreshold]);
+
+  const deselectBlockedRegions = () => {
+    const next = new Set(selectedRegions);
+    blockedRegions.forEach((code) => next.delete(code));
+    setSelectedRegions(next);
+  };
 
   // Get current price for a region
   const getCurrentPrice = useCallback((regionCode: string): Money | null => {
@@ -391,6 +527,17 @@ export function SubscriptionBulkPricingModal({
     );
   };
 
+  // Expand/collapse a row's derivation trace
+  const toggleTrace = (regionCode: string) => {
+    const next = new Set(expandedTraces);
+    if (next.has(regionCode)) {
+      next.delete(regionCode);
+    } else {
+      next.add(regionCode);
+    }
+    setExpandedTraces(next);
+  };
+
   // Handle region selection
   const toggleRegion = (regionCode: string) => {
     const newSelected = new Set(selectedRegions);
@@ -423,6 +570,13 @@ export function SubscriptionBulkPricingModal({
       return;
     }
 
+    if (blockedRegions.length > 0) {
+      toast.error(`${blockedRegions.length} prices would be rejected by Google Play`, {
+        description: 'Turn on auto-fix or deselect those regions.',
+      });
+      return;
+    }
+
     const changing: Array<{
       name: string;
       regionCode: string;
@@ -474,15 +628,39 @@ export function SubscriptionBulkPricingModal({
       return;
     }
 
+    // A stepped rollout sends its first step now and records the rest, which
+    // are sent from the subscriptions page on their dates
+    const stepped = rolloutPlan.length > 1;
+
     setIsApplying(true);
     setShowConfirmDialog(false);
     try {
-      await updateMutation.mutateAsync({
+      const result = await updateMutation.mutateAsync({
         productId: subscription.productId,
         basePlanId: basePlan.basePlanId,
-        regionalConfigs,
+        regionalConfigs: stepped
+          ? Object.entries(rolloutPlan[0].prices).map(([regionCode, price]) => ({ regionCode, price }))
+          : regionalConfigs,
+        changeThreshold,
       });
-      toast.success(`Updated prices for ${regionalConfigs.length} regions`);
+      if (stepped) {
+        savePriceRollout({
+          id: crypto.randomUUID(),
+          platform: 'google',
+          kind: 'subscription',
+          productId: subscription.productId,
+          basePlanId: basePlan.basePlanId,
+          label: subscription.listings?.[0]?.title ?? subscription.productId,
+          createdAt: new Date().toISOString(),
+          steps: rolloutPlan.map((step, i) => (i === 0 ? { ...step, submittedAt: new Date().toISOString() } : step)),
+        });
+        toast.info(`Step 1 of ${rolloutPlan.length} applied; the last step is due on ${rolloutPlan[rolloutPlan.length - 1].date}`);
+      }
+      const unchanged = (result?.unchanged as string[] | undefined) ?? [];
+      if (unchanged.length > 0) {
+        toast.info(`${unchanged.length} regions unchanged (below threshold)`);
+      }
+      toast.success(`Updated prices for ${regionalConfigs.length - unchanged.length} regions`);
       onOpenChange(false);
     } catch (error) {
       toast.error(
@@ -576,133 +754,33 @@ export function SubscriptionBulkPricingModal({
                 <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />
               )}
             </div>
-            <TooltipProvider delayDuration={200}>
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2">
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                      <input
-                        type="radio"
-                        name="strategy"
-                        value="direct"
-                        checked={strategy === 'direct'}
-                        onChange={() => setStrategy('direct')}
-                        className="sr-only"
-                      />
-                      <Globe className="h-4 w-4 shrink-0" />
-                      <span className="text-sm font-medium truncate">Direct</span>
-                    </label>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom" className="max-w-xs">
-                    <p className="font-medium">Direct Conversion</p>
-                    <p className="text-xs text-muted-foreground">
-                      Same USD value in all regions (converted to local currency)
-                    </p>
-                  </TooltipContent>
-                </Tooltip>
-
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                      <input
-                        type="radio"
-                        name="strategy"
-                        value="netflix"
-                        checked={strategy === 'netflix'}
-                        onChange={() => setStrategy('netflix')}
-                        className="sr-only"
-                      />
-                      <Tv className="h-4 w-4 shrink-0" />
-                      <span className="text-sm font-medium truncate">Netflix</span>
-                    </label>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom" className="max-w-xs">
-                    <p className="font-medium">Netflix Index</p>
-                    <p className="text-xs text-muted-foreground">
-                      Prices based on Netflix Standard ad-free subscription prices by country.
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Data: tompec/netflix-prices (CC-BY-4.0)
-                    </p>
-                  </TooltipContent>
-                </Tooltip>
-
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                      <input
-                        type="radio"
-                        name="strategy"
-                        value="ppp"
-                        checked={strategy === 'ppp'}
-                        onChange={() => setStrategy('ppp')}
-                        className="sr-only"
-                      />
-                      <TrendingDown className="h-4 w-4 shrink-0" />
-                      <span className="text-sm font-medium truncate">PPP (World Bank)</span>
-                    </label>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom" className="max-w-xs">
-                    <p className="font-medium">PPP-Adjusted (Recommended)</p>
-                    <p className="text-xs text-muted-foreground">
-                      Lower prices for lower-income regions based on World Bank purchasing power parity data.
-                      Hyperinflation regions automatically receive reduced prices for affordability.
-                    </p>
-                    {pppMetadata && pppMetadata.worldBankRegions > 0 && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Data: World Bank ({pppMetadata.baseYear}) &bull; {pppMetadata.worldBankRegions} regions
-                      </p>
-                    )}
-                  </TooltipContent>
-                </Tooltip>
-
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                      <input
-                        type="radio"
-                        name="strategy"
-                        value="bigmac"
-                        checked={strategy === 'bigmac'}
-                        onChange={() => setStrategy('bigmac')}
-                        className="sr-only"
-                      />
-                      <Hamburger className="h-4 w-4 shrink-0" />
-                      <span className="text-sm font-medium truncate">Big Mac</span>
-                    </label>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom" className="max-w-xs">
-                    <p className="font-medium">Big Mac Index</p>
-                    <p className="text-xs text-muted-foreground">
-                      Prices based on The Economist&apos;s Big Mac Index - a real-world measure of purchasing power.
-                    </p>
-                  </TooltipContent>
-                </Tooltip>
-
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <label className="flex items-center gap-2 p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors has-[:checked]:border-primary has-[:checked]:bg-primary/5">
-                      <input
-                        type="radio"
-                        name="strategy"
-                        value="custom"
-                        checked={strategy === 'custom'}
-                        onChange={() => setStrategy('custom')}
-                        className="sr-only"
-                      />
-                      <Sliders className="h-4 w-4 shrink-0" />
-                      <span className="text-sm font-medium truncate">Custom</span>
-                    </label>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom" className="max-w-xs">
-                    <p className="font-medium">Custom Multipliers</p>
-                    <p className="text-xs text-muted-foreground">
-                      Define your own regional price multipliers (coming soon).
-                    </p>
-                  </TooltipContent>
-                </Tooltip>
-              </div>
-            </TooltipProvider>
+            <StrategyPicker
+              value={strategy}
+              onChange={setStrategy}
+              notes={{
+                ppp: pppMetadata && pppMetadata.worldBankRegions > 0 && (
+                  <>Data: World Bank ({pppMetadata.baseYear}) &bull; {pppMetadata.worldBankRegions} regions</>
+                ),
+                'ppp-consumption': pppMetadata && !!pppMetadata.consumptionPppRegions && (
+                  <>Data: World Bank ({pppMetadata.baseYear}) &bull; {pppMetadata.consumptionPppRegions} regions</>
+                ),
+              }}
+            />
+            {strategy === 'blend' && (
+              <BlendWeightsEditor value={blendConfig} onChange={setBlendConfig} />
+            )}
+            {(strategy === 'ppp' || strategy === 'ppp-consumption' || strategy === 'blend') && (
+              <PppYearSelect
+                value={pppYearSelection}
+                onChange={(selection) => {
+                  setPppYearSelection(selection);
+                  fetchPPPData(false, selection);
+                }}
+              />
+            )}
+            {strategy === 'proceeds' && (
+              <ProceedsConfigEditor value={proceedsConfig} onChange={setProceedsConfig} />
+            )}
           </div>
 
           {/* Rounding Options */}
@@ -729,6 +807,16 @@ export function SubscriptionBulkPricingModal({
                 />
                 <span className="text-sm">Round up</span>
               </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="rounding"
+                  value="locale-charm"
+                  checked={rounding === 'locale-charm'}
+                  onChange={() => setRounding('locale-charm')}
+                />
+                <span className="text-sm">Local endings</span>
+              </label>
               <label className="flex items-center gap-2 cursor-pointer">
                 <input
                   type="radio"
@@ -743,8 +831,13 @@ export function SubscriptionBulkPricingModal({
             <p className="text-xs text-muted-foreground">
               {rounding === 'nearest-99' && 'Closest .99 ending by absolute distance.'}
               {rounding === 'round-up' && 'Always rounds up to the next .99 ending.'}
+              {rounding === 'locale-charm' && 'Snaps to the price endings configured for each currency.'}
               {rounding === 'none' && 'Use the calculated value as-is.'}
             </p>
+            {rounding === 'locale-charm' && (
+              <PriceEndingsEditor value={priceEndings} onChange={setPriceEndings} />
+            )}
+            <TaxModeToggle value={taxMode} onChange={setTaxMode} />
           </div>
 
           {/* Preserve Existing Subscriber Prices */}
@@ -758,11 +851,58 @@ export function SubscriptionBulkPricingModal({
             </p>
           </div>
 
+          {/* Guardrails */}
+          <GuardrailsEditor value={guardrails} onChange={setGuardrails} />
+
+          {/* Minimum meaningful change */}
+          <ChangeThresholdEditor />
+
+          {/* Stepped rollout */}
+          <SteppedRolloutEditor
+            value={rolloutSchedule}
+            onChange={setRolloutSchedule}
+            plan={rolloutPlan}
+            note="Nothing is sent automatically: later steps are saved in this browser only and listed on the subscriptions page, where you send each one once it is due."
+          />
+
+          {/* Anchors */}
+          <AnchorsEditor
+            value={extraAnchors}
+            onChange={setExtraAnchors}
+            regions={allRegions}
+            primaryRegion={baseRegion}
+          />
+
+          {/* Price bands */}
+          <div className="space-y-2">
+            <PriceBandsEditor
+              value={bands}
+              onChange={setBands}
+              unavailableReason={bandsUnavailable}
+            />
+            {bands && !bandsUnavailable && <PriceBandSummary prices={previewPrices} />}
+          </div>
+
+          {/* Currency unions */}
+          <CurrencyUnionEditor value={currencyUnion} onChange={setCurrencyUnion} />
+
           {/* Preview Table */}
           {previewPrices.length > 0 && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
-                <Label>Regions & Preview ({selectedRegions.size} selected)</Label>
+                <Label>
+                  Regions & Preview ({selectedRegions.size} selected)
+                  {guardrailHitCount > 0 && (
+                    <span className="ml-2 text-xs font-normal text-amber-600 dark:text-amber-500">
+                      {guardrailHitCount} clamped by guardrails
+                    </span>
+                  )}
+                  {belowThresholdCount > 0 && (
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      {belowThresholdCount} unchanged (below threshold)
+                    </span>
+                  )}
+                </Label>
                 <div className="flex items-center gap-2">
                   <Button
                     variant="outline"
@@ -801,6 +941,18 @@ export function SubscriptionBulkPricingModal({
                   </Button>
                 </div>
               </div>
+              <StoreRulesBar
+                autoFix={autoFixStoreRules}
+                onAutoFixChange={setAutoFixStoreRules}
+                fixedCount={storeRuleFixedCount}
+                blockedCount={blockedRegions.length}
+                onDeselectBlocked={deselectBlockedRegions}
+              />
+              <RelationshipWarnings
+                platform="google"
+                itemKey={basePlanItemKey(subscription.productId, basePlan.basePlanId)}
+                prices={proposedPrices}
+              />
               <div className="border rounded-lg">
                 <ScrollArea className="h-72">
                   <TooltipProvider delayDuration={100}>
@@ -844,6 +996,7 @@ export function SubscriptionBulkPricingModal({
                             New {getSortIcon('new')}
                           </div>
                         </TableHead>
+                        <TableHead className="text-right">Net / Incl. tax</TableHead>
                         <TableHead className="text-right cursor-pointer hover:bg-muted/50 transition-colors" onClick={() => requestSort('change')}>
                           <div className="flex items-center justify-end">
                             Change {getSortIcon('change')}
@@ -857,104 +1010,143 @@ export function SubscriptionBulkPricingModal({
                           calculated.regionCode
                         );
                         const isSelected = selectedRegions.has(calculated.regionCode);
+                        const anchor = anchors?.find((a) => a.region === calculated.anchor);
+                        const rowBasePrice = anchor?.price ?? basePriceNum;
+                        const rowBaseCurrency = anchor?.currency ?? baseCurrency;
+                        const rowBaseRegion = anchor?.region ?? baseRegion;
 
                         return (
-                          <TableRow 
-                            key={calculated.regionCode}
-                            className={!isSelected ? 'opacity-50' : ''}
-                          >
-                            <TableCell>
-                              <Checkbox 
-                                checked={isSelected}
-                                onCheckedChange={() => toggleRegion(calculated.regionCode)}
-                                aria-label={`Select ${calculated.regionCode}`}
-                              />
-                            </TableCell>
-                            <TableCell>
-                              <Badge variant="outline">
-                                {calculated.regionCode}
-                              </Badge>
-                            </TableCell>
-                            <TableCell className="text-sm">
-                              {calculated.countryName}
-                            </TableCell>
-                            <TableCell className="text-sm text-muted-foreground">
-                              {calculated.currencyCode}
-                            </TableCell>
-                            <TableCell className="text-right text-sm">
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <span className={
-                                    calculated.multiplier < 1
-                                      ? 'text-green-600 cursor-help'
-                                      : calculated.multiplier > 1
-                                      ? 'text-orange-600 cursor-help'
-                                      : 'text-muted-foreground cursor-help'
-                                  }>
-                                    {calculated.multiplier.toFixed(2)}×
+                          <Fragment key={calculated.regionCode}>
+                            <TableRow 
+                              className={!isSelected ? 'opacity-50' : ''}
+                            >
+                              <TableCell>
+                                <Checkbox 
+                                  checked={isSelected}
+                                  onCheckedChange={() => toggleRegion(calculated.regionCode)}
+                                  aria-label={`Select ${calculated.regionCode}`}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-1">
+                                  <PriceTraceToggle open={expandedTraces.has(calculated.regionCode)} onToggle={() => toggleTrace(calculated.regionCode)} />
+                                  <Badge variant="outline">
+                                    {calculated.regionCode}
+                                  </Badge>
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                <div className="flex flex-col">
+                                  {calculated.countryName}
+                                  {calculated.band && <PriceBandBadge band={calculated.band} />}
+                                  {calculated.currencyUnion && <CurrencyUnionBadge union={calculated.currencyUnion} />}
+                                  {anchor && anchor.region !== baseRegion && (
+                                    <span className="text-[10px] text-muted-foreground">From {anchor.region} anchor</span>
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {calculated.currencyCode}
+                              </TableCell>
+                              <TableCell className="text-right text-sm">
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <span className={
+                                      calculated.multiplier < 1
+                                        ? 'text-green-600 cursor-help'
+                                        : calculated.multiplier > 1
+                                        ? 'text-orange-600 cursor-help'
+                                        : 'text-muted-foreground cursor-help'
+                                    }>
+                                      {calculated.multiplier.toFixed(2)}×
+                                    </span>
+                                  </TooltipTrigger>
+                                  <TooltipContent side="top">
+                                    <p className="text-xs">
+                                      {calculated.multiplierSource && getMultiplierSourceLabel(calculated.multiplierSource)}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                      Relative to {rowBaseRegion}: {calculated.multiplier.toFixed(2)}×
+                                    </p>
+                                    {calculated.blendContributions && (
+                                      <BlendBreakdown contributions={calculated.blendContributions} />
+                                    )}
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TableCell>
+                              <TableCell className="text-right text-sm text-muted-foreground">
+                                {currentPrice
+                                  ? formatMoney(currentPrice)
+                                  : '-'}
+                              </TableCell>
+                              <TableCell className="text-right font-medium">
+                                {calculated.guardrail && (
+                                  <GuardrailIndicator hit={calculated.guardrail} currencyCode={calculated.currencyCode} />
+                                )}
+                                {calculated.unstableCurrency && (
+                                  <UnstableCurrencyIndicator hit={calculated.unstableCurrency} />
+                                )}
+                                {calculated.storeRule && (
+                                  <StoreRuleIndicator hit={calculated.storeRule} currencyCode={calculated.currencyCode} />
+                                )}
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <span className="cursor-help">
+                                      {formatMoney(calculated.price)}
+                                    </span>
+                                  </TooltipTrigger>
+                                  <TooltipContent side="top" className="max-w-xs">
+                                    <p className="text-xs font-medium mb-1">
+                                      {rowBaseCurrency} → {calculated.currencyCode} Calculation
+                                    </p>
+                                    <div className="text-xs text-muted-foreground space-y-0.5">
+                                      <p>1. Base price: {rowBasePrice.toFixed(2)} {rowBaseCurrency} ({rowBaseRegion})</p>
+                                      <p>2. Relative Adjustment: {calculated.multiplier.toFixed(2)}×</p>
+                                      <p>3. Adjusted Price: {(rowBasePrice * calculated.multiplier).toFixed(2)} {rowBaseCurrency}</p>
+                                      {rowBaseCurrency !== calculated.currencyCode && (
+                                        <p>4. Exchange Rate ({rowBaseCurrency}→{calculated.currencyCode}): {(calculated.rawPrice / (rowBasePrice * calculated.multiplier)).toFixed(4)}</p>
+                                      )}
+                                      <p>{rowBaseCurrency !== calculated.currencyCode ? '5' : '4'}. Target Price: {calculated.rawPrice.toFixed(2)} {calculated.currencyCode}</p>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                      Est. proceeds: {estimateProceeds(moneyToNumber(calculated.price), calculated.regionCode, proceedsConfig.commission).toFixed(2)} {calculated.currencyCode} ({Math.round(proceedsConfig.commission * 100)}% commission)
+                                    </p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <TaxSplit
+                                  amount={moneyToNumber(calculated.price)}
+                                  currencyCode={calculated.currencyCode}
+                                  regionCode={calculated.regionCode}
+                                />
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {belowThresholdRegions.has(calculated.regionCode) ? (
+                                  <span className="text-muted-foreground" title="Below the minimum change; the live price is kept">
+                                    Unchanged
                                   </span>
-                                </TooltipTrigger>
-                                <TooltipContent side="top">
-                                  <p className="text-xs">
-                                    {calculated.multiplierSource === 'world-bank' && 'World Bank PPP data'}
-                                    {calculated.multiplierSource === 'big-mac' && 'Big Mac Index'}
-                                    {calculated.multiplierSource === 'netflix' && 'Netflix Price Index'}
-                                    {calculated.multiplierSource === 'static' && 'Static fallback data'}
-                                    {calculated.multiplierSource === 'custom' && 'Custom multiplier'}
-                                    {calculated.multiplierSource === 'direct' && 'Direct conversion (1:1)'}
-                                  </p>
-                                  <p className="text-xs text-muted-foreground">
-                                    Relative to US: {calculated.multiplier.toFixed(2)}×
-                                  </p>
-                                </TooltipContent>
-                              </Tooltip>
-                            </TableCell>
-                            <TableCell className="text-right text-sm text-muted-foreground">
-                              {currentPrice
-                                ? formatMoney(currentPrice)
-                                : '-'}
-                            </TableCell>
-                            <TableCell className="text-right font-medium">
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <span className="cursor-help">
-                                    {formatMoney(calculated.price)}
+                                ) : currentPrice ? (
+                                  <span
+                                    className={
+                                      calculated.change > 0
+                                        ? 'text-red-600'
+                                        : calculated.change < 0
+                                        ? 'text-green-600'
+                                        : 'text-muted-foreground'
+                                    }
+                                  >
+                                    {formatPriceChange(calculated.change)}
                                   </span>
-                                </TooltipTrigger>
-                                <TooltipContent side="top" className="max-w-xs">
-                                  <p className="text-xs font-medium mb-1">
-                                    {baseCurrency} → {calculated.currencyCode} Calculation
-                                  </p>
-                                  <div className="text-xs text-muted-foreground space-y-0.5">
-                                    <p>1. Base price: {basePriceNum.toFixed(2)} {baseCurrency} ({baseRegion})</p>
-                                    <p>2. Relative Adjustment: {calculated.multiplier.toFixed(2)}×</p>
-                                    <p>3. Adjusted Price: {(basePriceNum * calculated.multiplier).toFixed(2)} {baseCurrency}</p>
-                                    {baseCurrency !== calculated.currencyCode && (
-                                      <p>4. Exchange Rate ({baseCurrency}→{calculated.currencyCode}): {(calculated.rawPrice / (basePriceNum * calculated.multiplier)).toFixed(4)}</p>
-                                    )}
-                                    <p>{baseCurrency !== calculated.currencyCode ? '5' : '4'}. Target Price: {calculated.rawPrice.toFixed(2)} {calculated.currencyCode}</p>
-                                  </div>
-                                </TooltipContent>
-                              </Tooltip>
-                            </TableCell>
-                            <TableCell className="text-right">
-                              {currentPrice ? (
-                                <span
-                                  className={
-                                    calculated.change > 0
-                                      ? 'text-red-600'
-                                      : calculated.change < 0
-                                      ? 'text-green-600'
-                                      : 'text-muted-foreground'
-                                  }
-                                >
-                                  {formatPriceChange(calculated.change)}
-                                </span>
-                              ) : (
-                                <span className="text-green-600">New</span>
-                              )}
-                            </TableCell>
-                          </TableRow>
+                                ) : (
+                                  <span className="text-green-600">New</span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                            {expandedTraces.has(calculated.regionCode) && (
+                              <PriceTraceRow trace={calculated.trace} colSpan={9} />
+                            )}
+                          </Fragment>
                         );
                       })}
                     </TableBody>
@@ -968,12 +1160,19 @@ export function SubscriptionBulkPricingModal({
         </div>
 
         <DialogFooter className="flex-shrink-0 border-t pt-4 gap-2 sm:gap-2">
+          <SavePlanButton
+            platform="google"
+            defaultName={`${subscription.listings?.[0]?.title ?? subscription.productId} · ${basePlan.basePlanId}`}
+            regions={Array.from(selectedRegions)}
+            settings={planSettings}
+            disabled={selectedRegions.size === 0}
+          />
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
           <Button
             onClick={handleApplyClick}
-            disabled={selectedRegions.size === 0 || isApplying}
+            disabled={selectedRegions.size === 0 || blockedRegions.length > 0 || isApplying}
           >
             {isApplying ? (
               <>
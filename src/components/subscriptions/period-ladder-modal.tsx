@@ -0,0 +1,490 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Layers, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { getPriceDecimals, getCurrencySymbol, type StorePlatform } from '@/lib/currencies/registry';
+import { getSupportedAppleTerritories } from '@/lib/apple-connect/territories';
+import { getPriceTiersForCurrency } from '@/lib/apple-connect/price-tier-data';
+import {
+  GOOGLE_PLAY_REGIONS,
+  formatMoney,
+  moneyToNumber,
+  parseMoney,
+} from '@/lib/google-play/types';
+import {
+  DEFAULT_BLEND_CONFIG,
+  type BlendConfig,
+  type PricingStrategy,
+  type RoundingMode,
+} from '@/lib/google-play/currency';
+import {
+  calculateLadderPrices,
+  DEFAULT_LADDER_POLICY,
+  describeLadderStep,
+  ladderFactor,
+  type LadderPlan,
+  type LadderPolicy,
+} from '@/lib/google-play/period-ladder';
+import { BlendWeightsEditor } from '@/components/pricing/blend-config';
+import { StrategyPicker } from '@/components/pricing/strategy-picker';
+import { PppYearSelect } from '@/components/pricing/ppp-year-select';
+import { PriceEndingsEditor } from '@/components/pricing/price-endings-config';
+import {
+  blockedLadderRegions,
+  buildLadderCells,
+  changedLadderRegions,
+  LadderPreview,
+  type LadderRegion,
+} from '@/components/pricing/ladder-preview';
+import { usePricingStore } from '@/store/pricing-store';
+import { usePricingData } from '@/hooks/use-pricing-data';
+import {
+  useResolveAppleSubscriptionPricePoints,
+  useUpdateAppleSubscriptionPrices,
+  useUpdateBasePlanPrices,
+} from '@/hooks/use-subscriptions';
+
+const GOOGLE_ROUNDING_OPTIONS: Array<{ value: RoundingMode; label: string }> = [
+  { value: 'nearest-99', label: 'Nearest .99' },
+  { value: 'round-up', label: 'Round up' },
+  { value: 'locale-charm', label: 'Local endings' },
+  { value: 'none', label: 'No Rounding' },
+];
+
+// Apple only sells at price points, so Apple regions without a tier ladder are left out
+function getLadderRegions(platform: StorePlatform): LadderRegion[] {
+  const regions = platform === 'google'
+    ? GOOGLE_PLAY_REGIONS.map((r) => ({ code: r.code, name: r.name, currency: r.currency }))
+    : getSupportedAppleTerritories()
+        .filter((t) => getPriceTiersForCurrency(t.currency).length > 0)
+        .map((t) => ({ code: t.alpha2, name: t.name, currency: t.currency }));
+  return regions.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+interface PeriodLadderModalProps {
+  platform: StorePlatform;
+  /** Subscription (Google) or subscription group (Apple) being priced */
+  title: string;
+  /** Google subscription product id the base plans belong to */
+  productId?: string;
+  /** Base plans (Google) or subscriptions of one group (Apple), keyed by base plan or subscription id */
+  plans: LadderPlan[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Prices every plan of a subscription from one anchor plan and a discount
+// policy, then saves each plan's regional prices in turn.
+export function PeriodLadderModal({
+  platform,
+  title,
+  productId,
+  plans,
+  open,
+  onOpenChange,
+}: PeriodLadderModalProps) {
+  const [anchorKey, setAnchorKey] = useState('');
+  const [anchorPrice, setAnchorPrice] = useState('');
+  const [baseRegion, setBaseRegion] = useState('US');
+  const [strategy, setStrategy] = useState<PricingStrategy>('ppp');
+  const [blendConfig, setBlendConfig] = useState<BlendConfig>(DEFAULT_BLEND_CONFIG);
+  const [rounding, setRounding] = useState<RoundingMode>(platform === 'apple' ? 'nearest-tier' : 'nearest-99');
+  const [policy, setPolicy] = useState<LadderPolicy>(DEFAULT_LADDER_POLICY);
+  const [autoFixStoreRules, setAutoFixStoreRules] = useState(true);
+  const [preserveCurrentPrice, setPreserveCurrentPrice] = useState(true);
+  const [selectedRegions, setSelectedRegions] = useState<Set<string>>(new Set());
+  const [hasInitializedSelection, setHasInitializedSelection] = useState(false);
+  const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const { priceEndings, setPriceEndings, pppYearSelection, setPppYearSelection, unstableCurrencyPolicy } = usePricingStore();
+
+  const { pppData, exchangeRates, loading } = usePricingData(open);
+
+  const updateBasePlanMutation = useUpdateBasePlanPrices('google');
+  const resolveMutation = useResolveAppleSubscriptionPricePoints();
+  const updateAppleMutation = useUpdateAppleSubscriptionPrices();
+
+  const regions = useMemo(() => getLadderRegions(platform), [platform]);
+  const baseCurrency = regions.find((r) => r.code === baseRegion)?.currency || 'USD';
+  const anchorPriceNum = parseFloat(anchorPrice) || 0;
+
+  // Prefill the anchor price from the anchor plan's live price in the base region
+  useEffect(() => {
+    const current = plans.find((p) => p.key === anchorKey)?.currentPrices?.[baseRegion];
+    if (current) setAnchorPrice(moneyToNumber(current).toString());
+  }, [anchorKey, baseRegion, plans]);
+
+  const actualCurrencies = useMemo(
+    () => Object.fromEntries(regions.map((r) => [r.code, r.currency])),
+    [regions]
+  );
+
+  const ladder = useMemo(() => {
+    if (!anchorKey || anchorPriceNum <= 0) return [];
+    return calculateLadderPrices(
+      regions.map((r) => r.code),
+      plans,
+      anchorKey,
+      policy,
+      {
+        basePrice: anchorPriceNum,
+        strategy,
+        rounding,
+        dynamicPPPData: pppData ?? undefined,
+        actualCurrencies,
+        dynamicExchangeRates: exchangeRates ?? undefined,
+        baseCurrency,
+        baseRegion,
+        getTiersForCurrency: platform === 'apple' ? getPriceTiersForCurrency : undefined,
+        blend: blendConfig,
+        priceEndings,
+        unstableCurrency: unstableCurrencyPolicy,
+      },
+      getPriceDecimals(baseCurrency, platform)
+    );
+  }, [anchorKey, anchorPriceNum, regions, plans, policy, strategy, rounding, pppData, actualCurrencies, exchangeRates, baseCurrency, baseRegion, platform, blendConfig, priceEndings, unstableCurrencyPolicy]);
+
+  // Cells by plan key, then region code, with store rules applied
+  const cells = useMemo(
+    () => buildLadderCells(
+      platform,
+      ladder.map(({ plan, prices }) => ({ key: plan.key, currentPrices: plan.currentPrices, prices })),
+      autoFixStoreRules
+    ),
+    [ladder, platform, autoFixStoreRules]
+  );
+
+  // Pre-select regions where any plan's price changes, once pricing data has loaded
+  useEffect(() => {
+    if (!open || hasInitializedSelection || loading || ladder.length === 0) return;
+    setSelectedRegions(changedLadderRegions(cells, regions));
+    setHasInitializedSelection(true);
+  }, [open, hasInitializedSelection, loading, ladder, regions, cells]);
+
+  const blockedRegions = useMemo(
+    () => blockedLadderRegions(cells, selectedRegions),
+    [cells, selectedRegions]
+  );
+
+  const setPlanFactor = (months: number, value: string) => {
+    const factor = parseFloat(value);
+    if (!(factor > 0)) return;
+    setPolicy({ ...policy, [String(months)]: factor });
+  };
+
+  const handleApplyClick = () => {
+    if (selectedRegions.size === 0) {
+      toast.error('Please select at least one region');
+      return;
+    }
+    if (blockedRegions.length > 0) {
+      toast.error(`${blockedRegions.length} regions have prices the store would reject`, {
+        description: 'Turn on auto-fix or deselect those regions.',
+      });
+      return;
+    }
+    setShowConfirmDialog(true);
+  };
+
+  // Save one plan's selected regions; returns the number of regions updated
+  const savePlan = async (plan: LadderPlan): Promise<number> => {
+    const planCells = cells[plan.key] ?? {};
+    const codes = Array.from(selectedRegions).filter((code) => planCells[code]);
+    if (codes.length === 0) return 0;
+
+    if (platform === 'google') {
+      await updateBasePlanMutation.mutateAsync({
+        productId: productId!,
+        basePlanId: plan.key,
+        regionalConfigs: codes.map((code) => ({ regionCode: code, price: planCells[code].price })),
+      });
+      return codes.length;
+    }
+
+    const territories: Record<string, { targetPrice: number; currency: string }> = {};
+    for (const code of codes) {
+      territories[code] = { targetPrice: moneyToNumber(planCells[code].price), currency: planCells[code].price.currencyCode };
+    }
+    const { resolved } = await resolveMutation.mutateAsync({ subscriptionId: plan.key, territories });
+    const prices: Record<string, { pricePointId: string }> = {};
+    for (const [code, { pricePointId }] of Object.entries(resolved)) {
+      prices[code] = { pricePointId };
+    }
+    if (Object.keys(prices).length === 0) return 0;
+    await updateAppleMutation.mutateAsync({ subscriptionId: plan.key, prices, preserveCurrentPrice });
+    return Object.keys(prices).length;
+  };
+
+  const executeApply = async () => {
+    setShowConfirmDialog(false);
+    setIsApplying(true);
+    let updatedPlans = 0;
+    try {
+      // One plan at a time so a failure names the plan and leaves the rest untouched
+      for (const plan of plans) {
+        try {
+          if ((await savePlan(plan)) > 0) updatedPlans++;
+        } catch (error) {
+          toast.error(`Failed to update ${plan.label}`, {
+            description: error instanceof Error ? error.message : undefined,
+          });
+          return;
+        }
+      }
+      toast.success(`Updated ${updatedPlans} plans in ${selectedRegions.size} regions`);
+      onOpenChange(false);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // Start each opening from the monthly plan (or the first) with a fresh selection
+  useEffect(() => {
+    if (!open) {
+      setAnchorKey('');
+      setHasInitializedSelection(false);
+    } else if (!anchorKey && plans.length > 0) {
+      setAnchorKey((plans.find((p) => p.months === 1) ?? plans[0]).key);
+    }
+  }, [open, anchorKey, plans]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col overflow-hidden">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Price Ladder
+          </DialogTitle>
+          <DialogDescription>
+            Price every {platform === 'google' ? 'base plan' : 'subscription'} of <strong>{title}</strong> from
+            one anchor plan, keeping the same period discounts in every region.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto pr-4">
+        <div className="space-y-6 py-4">
+          {/* Anchor */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ladder-anchor">Anchor Plan</Label>
+              <Select value={anchorKey} onValueChange={setAnchorKey}>
+                <SelectTrigger id="ladder-anchor">
+                  <SelectValue placeholder="Select plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {plans.map((plan) => (
+                    <SelectItem key={plan.key} value={plan.key}>{plan.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ladder-base-region">Base Country / Region</Label>
+              <Select value={baseRegion} onValueChange={setBaseRegion}>
+                <SelectTrigger id="ladder-base-region">
+                  <SelectValue placeholder="Select region" />
+                </SelectTrigger>
+                <SelectContent className="max-h-64">
+                  {regions.map((r) => (
+                    <SelectItem key={r.code} value={r.code}>
+                      {r.code} — {r.name} ({r.currency})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ladder-anchor-price">Anchor Price ({baseCurrency})</Label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                  {getCurrencySymbol(baseCurrency)}
+                </span>
+                <Input
+                  id="ladder-anchor-price"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="9.99"
+                  value={anchorPrice}
+                  onChange={(e) => setAnchorPrice(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Discount policy */}
+          <div className="space-y-2">
+            <Label>Discount Policy</Label>
+            <p className="text-xs text-muted-foreground">
+              Each plan costs its length in months × the monthly price × its factor. Plans of the same length share a factor.
+            </p>
+            <div className="border rounded-lg divide-y">
+              {ladder.length === 0 && plans.map((plan) => (
+                <div key={plan.key} className="flex items-center justify-between p-2 text-sm">
+                  <span className="font-medium">{plan.label}</span>
+                  <span className="text-muted-foreground">{describeLadderStep(plan.months, ladderFactor(policy, plan.months))}</span>
+                </div>
+              ))}
+              {ladder.map(({ plan, basePrice }) => (
+                <div key={plan.key} className="grid grid-cols-[1fr_6rem_1fr_8rem] items-center gap-3 p-2 text-sm">
+                  <span className="font-medium">
+                    {plan.label}
+                    {plan.key === anchorKey && <Badge variant="secondary" className="ml-2">Anchor</Badge>}
+                  </span>
+                  <Input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    aria-label={`Factor for ${plan.label}`}
+                    defaultValue={ladderFactor(policy, plan.months)}
+                    key={`${plan.key}-${ladderFactor(policy, plan.months)}`}
+                    onBlur={(e) => setPlanFactor(plan.months, e.target.value)}
+                    className="h-8"
+                  />
+                  <span className="text-muted-foreground">{describeLadderStep(plan.months, ladderFactor(policy, plan.months))}</span>
+                  <span className="text-right font-medium">{formatMoney(parseMoney(basePrice, baseCurrency))}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Strategy */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Pricing Strategy</Label>
+              {loading && <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+            <StrategyPicker value={strategy} onChange={setStrategy} />
+            {strategy === 'blend' && (
+              <BlendWeightsEditor value={blendConfig} onChange={setBlendConfig} />
+            )}
+            {(strategy === 'ppp' || strategy === 'ppp-consumption' || strategy === 'blend') && (
+              <PppYearSelect value={pppYearSelection} onChange={setPppYearSelection} />
+            )}
+          </div>
+
+          {/* Rounding */}
+          <div className="space-y-3">
+            <Label>Price Rounding</Label>
+            {platform === 'apple' ? (
+              <p className="text-xs text-muted-foreground">Each plan snaps to the nearest Apple price point.</p>
+            ) : (
+              <>
+                <div className="flex gap-4 flex-wrap">
+                  {GOOGLE_ROUNDING_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="ladder-rounding"
+                        value={option.value}
+                        checked={rounding === option.value}
+                        onChange={() => setRounding(option.value)}
+                      />
+                      <span className="text-sm">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+                {rounding === 'locale-charm' && (
+                  <PriceEndingsEditor value={priceEndings} onChange={setPriceEndings} />
+                )}
+              </>
+            )}
+          </div>
+
+          {platform === 'apple' && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox
+                checked={preserveCurrentPrice}
+                onCheckedChange={(checked) => setPreserveCurrentPrice(checked === true)}
+              />
+              <span className="text-sm">Preserve current prices for existing subscribers</span>
+            </label>
+          )}
+
+          {/* Preview */}
+          {ladder.length > 0 && (
+            <LadderPreview
+              columns={plans}
+              regions={regions}
+              cells={cells}
+              selectedRegions={selectedRegions}
+              onSelectedRegionsChange={setSelectedRegions}
+              autoFix={autoFixStoreRules}
+              onAutoFixChange={setAutoFixStoreRules}
+            />
+          )}
+        </div>
+        </div>
+
+        <DialogFooter className="flex-shrink-0 border-t pt-4 gap-2 sm:gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApplyClick}
+            disabled={ladder.length === 0 || selectedRegions.size === 0 || blockedRegions.length > 0 || isApplying}
+          >
+            {isApplying ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Applying prices...
+              </>
+            ) : (
+              `Apply ${plans.length} Plans to ${selectedRegions.size} Regions`
+            )}
+          </Button>
+        </DialogFooter>
+
+        <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Confirm Price Ladder</DialogTitle>
+              <DialogDescription>
+                New prices for {selectedRegions.size} regions will be saved to each plan in turn.
+              </DialogDescription>
+            </DialogHeader>
+            <ul className="text-sm space-y-1">
+              {ladder.map(({ plan, basePrice }) => (
+                <li key={plan.key} className="flex justify-between">
+                  <span>{plan.label}</span>
+                  <span className="font-medium">
+                    {formatMoney(cells[plan.key]?.[baseRegion]?.price ?? parseMoney(basePrice, baseCurrency))} in {baseRegion}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={() => setShowConfirmDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={executeApply}>Apply</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
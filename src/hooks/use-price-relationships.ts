@@ -0,0 +1,92 @@
+import { useMemo } from 'react';
+import { usePlatformProducts } from '@/hooks/use-platform-products';
+import { usePlatformSubscriptions } from '@/hooks/use-platform-subscriptions';
+import { usePricingStore } from '@/store/pricing-store';
+import { parseMoney, type Money } from '@/lib/google-play/types';
+import type { AppleProductPrice } from '@/lib/apple-connect/types';
+import type { StorePlatform } from '@/lib/currencies/registry';
+import {
+  appleSubscriptionItemKey,
+  basePlanItemKey,
+  evaluateRelationships,
+  productItemKey,
+  relationshipsForItem,
+  toRegionalPriceMap,
+  type RegionalPriceMap,
+} from '@/lib/google-play/price-relationships';
+
+// A product or plan a relationship can refer to, with its live prices
+export interface PriceItem {
+  key: string;
+  label: string;
+  prices: RegionalPriceMap;
+}
+
+function applePricesToMoney(prices: Record<string, AppleProductPrice> | undefined): Record<string, Money> {
+  const result: Record<string, Money> = {};
+  for (const [code, price] of Object.entries(prices ?? {})) {
+    if (price.customerPrice) result[code] = parseMoney(parseFloat(price.customerPrice), price.currency);
+  }
+  return result;
+}
+
+// Every product, base plan (Google) and subscription (Apple) of the active app
+export function usePriceItems(): PriceItem[] {
+  const { data: productsData } = usePlatformProducts();
+  const { data: subscriptionsData } = usePlatformSubscriptions();
+
+  return useMemo(() => {
+    const items: PriceItem[] = [];
+    for (const product of productsData?.products ?? []) {
+      const prices = product.googleProduct?.prices ?? applePricesToMoney(product.appleProduct?.prices);
+      items.push({
+        key: productItemKey(product.id),
+        label: product.name,
+        prices: toRegionalPriceMap(prices),
+      });
+    }
+    for (const subscription of subscriptionsData?.subscriptions ?? []) {
+      if (subscription.platform === 'google') {
+        for (const basePlan of subscription.basePlans ?? []) {
+          items.push({
+            key: basePlanItemKey(subscription.id, basePlan.basePlanId),
+            label: `${subscription.name} · ${basePlan.basePlanId}`,
+            prices: Object.fromEntries(basePlan.regionalConfigs.map((c) => [c.regionCode, c.price])),
+          });
+        }
+      } else {
+        items.push({
+          key: appleSubscriptionItemKey(subscription.id),
+          label: subscription.name,
+          prices: toRegionalPriceMap(applePricesToMoney(subscription.appleSubscription?.prices)),
+        });
+      }
+    }
+    return items;
+  }, [productsData, subscriptionsData]);
+}
+
+// Relationships broken by `prices` (the item's proposed prices, alpha-2 or
+// alpha-3 keyed) against every other item's live prices.
+export function useRelationshipViolations(
+  platform: StorePlatform,
+  itemKey: string,
+  prices: Record<string, Money>
+) {
+  const allRelationships = usePricingStore((state) => state.priceRelationships);
+  const relationships = useMemo(
+    () => relationshipsForItem(allRelationships, platform, itemKey),
+    [allRelationships, platform, itemKey]
+  );
+  const items = usePriceItems();
+
+  const violations = useMemo(() => {
+    if (relationships.length === 0) return [];
+    const pricesByItem: Record<string, RegionalPriceMap> = {};
+    for (const item of items) pricesByItem[item.key] = item.prices;
+    pricesByItem[itemKey] = toRegionalPriceMap(prices);
+    return evaluateRelationships(relationships, pricesByItem);
+  }, [relationships, items, itemKey, prices]);
+
+  return { relationships, violations };
+}
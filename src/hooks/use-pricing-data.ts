@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { usePricingStore } from '@/store/pricing-store';
+import { pppApiUrl, pppYearSelectionKey } from '@/lib/world-bank/ppp-years';
+import type { DynamicExchangeRates, DynamicPPPData } from '@/lib/google-play/currency';
+
+interface PPPApiResponse {
+  success: boolean;
+  data: DynamicPPPData;
+}
+
+interface ExchangeRatesApiResponse {
+  success: boolean;
+  data: {
+    base: string;
+    rates: Record<string, number>;
+    fetchedAt: string;
+  };
+}
+
+// Live PPP data (for the stored World Bank year selection) and exchange rates.
+// Either stays null when its API fails; pricing then uses the bundled tables.
+export function usePricingData(enabled = true) {
+  const pppYearSelection = usePricingStore((state) => state.pppYearSelection);
+  const [pppData, setPppData] = useState<DynamicPPPData | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<DynamicExchangeRates | null>(null);
+  // Selection key of the last completed fetch; loading until it matches
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const selectionKey = pppYearSelectionKey(pppYearSelection);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    Promise.all([
+      fetch(pppApiUrl(pppYearSelection)).then((r) => r.json() as Promise<PPPApiResponse>),
+      fetch('/api/exchange-rates').then((r) => r.json() as Promise<ExchangeRatesApiResponse>),
+    ])
+      .then(([ppp, rates]) => {
+        if (cancelled) return;
+        if (ppp.success) setPppData(ppp.data);
+        if (rates.success) {
+          setExchangeRates({
+            base: rates.data.base,
+            rates: rates.data.rates,
+            fetchedAt: rates.data.fetchedAt,
+          });
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to fetch pricing data:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedKey(selectionKey);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, pppYearSelection, selectionKey]);
+
+  return { pppData, exchangeRates, loading: loadedKey !== selectionKey };
+}
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type { Money } from '@/lib/google-play/types';
 import { parseMoney } from '@/lib/google-play/types';
+import type { ChangeThreshold } from '@/lib/google-play/change-threshold';
 import type { RawAppleProduct, ProductsListResponse, ProductResponse } from '@/types/api';
 import { useAuthStore } from '@/store/auth-store';
 
@@ -109,10 +110,16 @@ export function useUpdateProductPrices(platformOverride?: 'google' | 'apple') {
       sku,
       prices,
       defaultPrice,
+      changeThreshold,
+      scheduledSteps,
     }: {
       sku: string;
       prices: Record<string, Money>;
       defaultPrice?: Money;
+      /** Regions within this distance of their live price are left alone */
+      changeThreshold?: ChangeThreshold;
+      /** Apple only: later rollout steps added to the price schedule */
+      scheduledSteps?: Array<{ startDate: string; prices: Record<string, Money> }>;
     }) => {
       const url = platform === 'apple'
         ? `/api/apple/products/${encodeURIComponent(sku)}`
@@ -121,7 +128,7 @@ export function useUpdateProductPrices(platformOverride?: 'google' | 'apple') {
       const response = await fetch(url, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prices, defaultPrice }),
+        body: JSON.stringify({ prices, defaultPrice, changeThreshold, scheduledSteps }),
       });
 
       if (!response.ok) {
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type { RegionalBasePlanConfig } from '@/lib/google-play/types';
 import { parseMoney } from '@/lib/google-play/types';
+import type { ChangeThreshold } from '@/lib/google-play/change-threshold';
 import type { RawAppleSubscription, SubscriptionsListResponse, SubscriptionResponse } from '@/types/api';
 import type { AppleProductPrice } from '@/lib/apple-connect/types';
 import { useAuthStore } from '@/store/auth-store';
@@ -120,10 +121,13 @@ export function useUpdateBasePlanPrices(platformOverride?: 'google' | 'apple') {
       productId,
       basePlanId,
       regionalConfigs,
+      changeThreshold,
     }: {
       productId: string;
       basePlanId: string;
       regionalConfigs: RegionalBasePlanConfig[];
+      /** Regions within this distance of their live price are left alone */
+      changeThreshold?: ChangeThreshold;
     }) => {
       const url = platform === 'apple'
         ? `/api/apple/subscriptions/${encodeURIComponent(productId)}`
@@ -132,7 +136,7 @@ export function useUpdateBasePlanPrices(platformOverride?: 'google' | 'apple') {
       const response = await fetch(url, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ basePlanId, regionalConfigs }),
+        body: JSON.stringify({ basePlanId, regionalConfigs, changeThreshold }),
       });
 
       if (!response.ok) {
@@ -280,6 +284,8 @@ export function useUpdateAppleSubscriptionPrices() {
 export interface BatchResolvedPricePoints {
   resolved: Record<string, { pricePointId: string; tierPrice: number }>;
   skipped: string[];
+  /** Territories left at their live price (below the change threshold) */
+  unchanged?: string[];
 }
 
 export function useResolveAppleSubscriptionPricePoints() {
@@ -288,16 +294,18 @@ export function useResolveAppleSubscriptionPricePoints() {
   const mutateAsync = async ({
     subscriptionId,
     territories,
+    changeThreshold,
   }: {
     subscriptionId: string;
     territories: Record<string, { targetPrice: number; currency: string }>;
+    changeThreshold?: ChangeThreshold;
   }) => {
     return streaming.mutateAsync(
       `/api/apple/subscriptions/${encodeURIComponent(subscriptionId)}/price-points/batch`,
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ territories }),
+        body: JSON.stringify({ territories, changeThreshold }),
       }
     );
   };
@@ -8,6 +8,7 @@ import type {
 import { appleApiRequest, getAppIdForBundleId } from './client';
 import { UNSUPPORTED_IAP_TERRITORIES } from './territories';
 import { getAvailablePricePoints, findClosestPricePoint } from './products';
+import { formatNanos, moneyToNanos } from '@/lib/google-play/money';
 
 // Get the app's price schedule ID and base territory
 export async function getAppPriceSchedule(
@@ -332,8 +333,7 @@ export async function resolveAppPricesToPricePoints(
   // Resolve each territory — find the closest price tier, then construct
   // a territory-specific price point ID using encodePricePointId
   for (const [territoryCode, price] of Object.entries(prices)) {
-    const localAmount =
-      parseFloat(price.units) + (price.nanos ? price.nanos / 1_000_000_000 : 0);
+    const localNanos = moneyToNanos(price);
     const pricePoints = currencyPricePointsMap.get(price.currencyCode);
 
     if (!pricePoints || pricePoints.length === 0) {
@@ -341,10 +341,10 @@ export async function resolveAppPricesToPricePoints(
       continue;
     }
 
-    const closest = findClosestPricePoint(localAmount, pricePoints);
+    const closest = findClosestPricePoint(localNanos, pricePoints);
     if (!closest) {
       skipped.push(
-        `${territoryCode}: no matching price point for ${price.currencyCode} ${localAmount}`
+        `${territoryCode}: no matching price point for ${price.currencyCode} ${formatNanos(localNanos)}`
       );
       continue;
     }
@@ -12,6 +12,7 @@ import type {
 import { appleApiRequest, getAppIdForBundleId } from './client';
 import { alpha3ToAlpha2, UNSUPPORTED_IAP_TERRITORIES } from './territories';
 import { findClosestTierForCurrency, hasTierData } from './price-tier-data';
+import { decimalToNanos, formatNanos, moneyToNanos, nanosToNumber, type Nanos } from '@/lib/google-play/money';
 
 // List all in-app purchases for an app
 export async function listInAppPurchases(
@@ -578,18 +579,19 @@ export async function updateInAppPurchasePrice(
   );
 }
 
-// Update in-app purchase prices for multiple territories at once
+// Update in-app purchase prices for multiple territories at once. A territory
+// may appear more than once with later startDates to schedule future prices.
 export async function updateInAppPurchasePrices(
   credentials: AppleConnectCredentials,
   inAppPurchaseId: string,
-  manualPrices: Array<{ territoryId: string; pricePointId: string }>,
+  manualPrices: Array<{ territoryId: string; pricePointId: string; startDate?: string }>,
   baseTerritoryId: string = 'USA'
 ): Promise<void> {
   // Filter out unsupported territories that cause 500 errors
   const supportedPrices = manualPrices.filter(p => !UNSUPPORTED_IAP_TERRITORIES.includes(p.territoryId));
 
   // Find base territory price (required by Apple)
-  const basePrice = supportedPrices.find(p => p.territoryId === baseTerritoryId);
+  const basePrice = supportedPrices.find(p => p.territoryId === baseTerritoryId && !p.startDate);
 
   if (!basePrice) {
     console.error(`[Apple] Base territory ${baseTerritoryId} not found in prices`);
@@ -603,7 +605,7 @@ export async function updateInAppPurchasePrices(
     id: `\${price-${index}}`,
     type: 'inAppPurchasePrices',
     attributes: {
-      startDate: null,
+      startDate: price.startDate ?? null,
     },
     relationships: {
       inAppPurchasePricePoint: {
@@ -735,7 +737,7 @@ async function resolvePPPPricesWithCache(
 
   for (const [territoryCode, price] of territories) {
     const currency = price.currencyCode;
-    const localAmount = parseFloat(price.units) + (price.nanos ? price.nanos / 1_000_000_000 : 0);
+    const localAmount = nanosToNumber(moneyToNanos(price));
 
     // Find closest tier using cached tier data for this currency
     const closestTier = findClosestTierForCurrency(localAmount, currency);
@@ -815,7 +817,7 @@ async function resolvePPPPricesFromAPI(
   const skippedTerritories: string[] = [];
 
   for (const [territoryCode, price] of territories) {
-    const localAmount = parseFloat(price.units) + (price.nanos ? price.nanos / 1_000_000_000 : 0);
+    const localNanos = moneyToNanos(price);
     const currency = price.currencyCode;
 
     // Get price points for THIS currency
@@ -828,9 +830,9 @@ async function resolvePPPPricesFromAPI(
     }
 
     // Find closest price point in LOCAL currency (not USD!)
-    const closest = findClosestPricePoint(localAmount, localPricePoints);
+    const closest = findClosestPricePoint(localNanos, localPricePoints);
     if (!closest) {
-      skippedTerritories.push(`${territoryCode}: no matching price point for ${currency} ${localAmount}`);
+      skippedTerritories.push(`${territoryCode}: no matching price point for ${currency} ${formatNanos(localNanos)}`);
       continue;
     }
 
@@ -851,18 +853,25 @@ async function resolvePPPPricesFromAPI(
   };
 }
 
-// Find the closest price point to a target amount
+// Find the closest price point to a target amount. Compared in exact
+// decimal nanos so equidistant points in high-denomination currencies are
+// not decided by float noise; ties keep the first (cheaper) point.
 export function findClosestPricePoint(
-  targetAmount: number,
+  targetNanos: Nanos,
   pricePoints: Array<{ id: string; customerPrice: string }>
 ): { id: string; customerPrice: string } | null {
   if (pricePoints.length === 0) return null;
 
+  const distance = (pp: { customerPrice: string }) => {
+    const diff = decimalToNanos(pp.customerPrice) - targetNanos;
+    return diff < BigInt(0) ? -diff : diff;
+  };
+
   let closest = pricePoints[0];
-  let minDiff = Math.abs(parseFloat(closest.customerPrice) - targetAmount);
+  let minDiff = distance(closest);
 
   for (const pp of pricePoints) {
-    const diff = Math.abs(parseFloat(pp.customerPrice) - targetAmount);
+    const diff = distance(pp);
     if (diff < minDiff) {
       minDiff = diff;
       closest = pp;
@@ -1,5 +1,7 @@
 // Apple App Store Connect API Type Definitions
 
+import { formatCurrency } from '@/lib/currencies/registry';
+
 export interface AppleConnectCredentials {
   privateKey: string; // .p8 file contents
   keyId: string; // Key ID from App Store Connect
@@ -436,11 +438,7 @@ export function formatApplePrice(
   customerPrice: string,
   currency: string
 ): string {
-  const amount = parseFloat(customerPrice);
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-  }).format(amount);
+  return formatCurrency(parseFloat(customerPrice), currency, { platform: 'apple' });
 }
 
 // Helper to convert Apple price to number
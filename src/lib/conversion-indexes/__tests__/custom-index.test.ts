@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseCustomIndex, slugifyIndexName } from '../custom-index';
+
+describe('parseCustomIndex — CSV', () => {
+  it('reads region,multiplier rows and skips a header', () => {
+    const result = parseCustomIndex('region,multiplier\nUS,1\nDE,0.9\nIND,0.25\n', 'arpu.csv');
+    expect(result.errors).toEqual([]);
+    // Apple alpha-3 codes are stored as alpha-2
+    expect(result.multipliers).toEqual({ US: 1, DE: 0.9, IN: 0.25 });
+    expect(result.warnings[0]).toMatch(/not in the file/);
+  });
+
+  it('accepts semicolon-separated files with decimal commas and extra columns', () => {
+    const result = parseCustomIndex('US;1.0;United States\nBR;0,5;Brazil\nMX;0.55;Mexico', 'arpu.csv');
+    expect(result.multipliers).toEqual({ US: 1, BR: 0.5, MX: 0.55 });
+    expect(result.errors).toEqual([]);
+  });
+
+  it('reports unknown regions, bad multipliers and duplicates by line', () => {
+    const result = parseCustomIndex('US,1\nXX,0.5\nDE,-1\nUS,1.1', 'arpu.csv');
+    expect(result.errors).toEqual([
+      'Line 2: unknown region "XX"',
+      'Line 3: multiplier for DE must be a positive number',
+      'Line 4: US appears more than once',
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe('parseCustomIndex — JSON', () => {
+  it('accepts a region map, a wrapped map and an array', () => {
+    const expected = { US: 1, GB: 0.95 };
+    expect(parseCustomIndex('{"US": 1, "GB": 0.95}').multipliers).toEqual(expected);
+    expect(parseCustomIndex('{"multipliers": {"USA": 1, "GBR": 0.95}}', 'i.json').multipliers).toEqual(expected);
+    expect(
+      parseCustomIndex('[{"region": "US", "multiplier": 1}, {"region": "gb", "multiplier": "0.95"}]').multipliers
+    ).toEqual(expected);
+  });
+
+  it('reports invalid JSON', () => {
+    const result = parseCustomIndex('{"US": 1,', 'index.json');
+    expect(result.errors[0]).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe('slugifyIndexName', () => {
+  it('lower-cases and dashes the name', () => {
+    expect(slugifyIndexName('  ARPU Q3 / 2026 ')).toBe('arpu-q3-2026');
+    expect(slugifyIndexName('!!!')).toBe('index');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GNI_INDEX,
+  DEFAULT_GNI_MULTIPLIER,
+  getGniMultiplier,
+  getAllGniData,
+} from '../gni';
+
+const ALPHA2 = /^[A-Z]{2}$/;
+
+describe('GNI_INDEX', () => {
+  it('has at least one entry', () => {
+    expect(Object.keys(GNI_INDEX).length).toBeGreaterThan(0);
+  });
+
+  it('every key is alpha-2', () => {
+    for (const code of Object.keys(GNI_INDEX)) {
+      expect(code).toMatch(ALPHA2);
+    }
+  });
+
+  it('every multiplier is a finite number in [0.1, 2.0]', () => {
+    for (const [code, entry] of Object.entries(GNI_INDEX)) {
+      expect(Number.isFinite(entry.multiplier), code).toBe(true);
+      expect(entry.multiplier, code).toBeGreaterThanOrEqual(0.1);
+      expect(entry.multiplier, code).toBeLessThanOrEqual(2.0);
+    }
+  });
+
+  it('multiplier is the square root of income relative to the US', () => {
+    expect(GNI_INDEX.US.multiplier).toBe(1.0);
+    for (const [code, entry] of Object.entries(GNI_INDEX)) {
+      const expected = Math.sqrt(entry.gniPerCapitaUsd / GNI_INDEX.US.gniPerCapitaUsd);
+      expect(entry.multiplier, code).toBeCloseTo(Math.max(0.1, Math.min(2.0, expected)), 3);
+    }
+  });
+});
+
+describe('DEFAULT_GNI_MULTIPLIER', () => {
+  it('is in valid range', () => {
+    expect(DEFAULT_GNI_MULTIPLIER).toBeGreaterThanOrEqual(0.1);
+    expect(DEFAULT_GNI_MULTIPLIER).toBeLessThanOrEqual(2.0);
+  });
+});
+
+describe('getGniMultiplier', () => {
+  it('returns the matching value for a known region', () => {
+    expect(getGniMultiplier('IN')).toBe(GNI_INDEX.IN.multiplier);
+  });
+
+  it('returns the default for an unknown region', () => {
+    expect(getGniMultiplier('XX')).toBe(DEFAULT_GNI_MULTIPLIER);
+  });
+});
+
+describe('getAllGniData', () => {
+  it('exposes every GNI_INDEX entry with source = world-bank-gni', () => {
+    const data = getAllGniData();
+    for (const [code, entry] of Object.entries(GNI_INDEX)) {
+      expect(data[code]).toEqual({ multiplier: entry.multiplier, source: 'world-bank-gni' });
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SPOTIFY_PRICE_INDEX,
+  DEFAULT_SPOTIFY_MULTIPLIER,
+  getSpotifyMultiplier,
+  getAllSpotifyData,
+} from '../spotify';
+
+const ALPHA2 = /^[A-Z]{2}$/;
+const ALPHA3 = /^[A-Z]{3}$/;
+
+describe('SPOTIFY_PRICE_INDEX', () => {
+  it('has at least one entry', () => {
+    expect(Object.keys(SPOTIFY_PRICE_INDEX).length).toBeGreaterThan(0);
+  });
+
+  it('every key is alpha-2 and every currency alpha-3', () => {
+    for (const [code, entry] of Object.entries(SPOTIFY_PRICE_INDEX)) {
+      expect(code).toMatch(ALPHA2);
+      expect(entry.currency, code).toMatch(ALPHA3);
+    }
+  });
+
+  it('every multiplier is a finite number in [0.1, 2.0]', () => {
+    for (const [code, entry] of Object.entries(SPOTIFY_PRICE_INDEX)) {
+      expect(Number.isFinite(entry.multiplier), code).toBe(true);
+      expect(entry.multiplier, code).toBeGreaterThanOrEqual(0.1);
+      expect(entry.multiplier, code).toBeLessThanOrEqual(2.0);
+    }
+  });
+
+  it('is relative to the US price', () => {
+    expect(SPOTIFY_PRICE_INDEX.US.multiplier).toBe(1.0);
+    expect(SPOTIFY_PRICE_INDEX.US.premiumPriceUsd).toBe(SPOTIFY_PRICE_INDEX.US.localPrice);
+  });
+});
+
+describe('DEFAULT_SPOTIFY_MULTIPLIER', () => {
+  it('is in valid range', () => {
+    expect(DEFAULT_SPOTIFY_MULTIPLIER).toBeGreaterThanOrEqual(0.1);
+    expect(DEFAULT_SPOTIFY_MULTIPLIER).toBeLessThanOrEqual(2.0);
+  });
+});
+
+describe('getSpotifyMultiplier', () => {
+  it('returns the matching value for a known region', () => {
+    expect(getSpotifyMultiplier('BR')).toBe(SPOTIFY_PRICE_INDEX.BR.multiplier);
+  });
+
+  it('returns the default for an unknown region', () => {
+    expect(getSpotifyMultiplier('XX')).toBe(DEFAULT_SPOTIFY_MULTIPLIER);
+  });
+});
+
+describe('getAllSpotifyData', () => {
+  it('exposes every SPOTIFY_PRICE_INDEX entry with source = spotify-premium', () => {
+    const data = getAllSpotifyData();
+    for (const [code, entry] of Object.entries(SPOTIFY_PRICE_INDEX)) {
+      expect(data[code]).toEqual({ multiplier: entry.multiplier, source: 'spotify-premium' });
+    }
+  });
+});
@@ -0,0 +1,135 @@
+// User-uploaded multiplier indexes (e.g. revenue-per-user research kept
+// outside PricingKit and re-imported each quarter).
+//
+// A file maps regions to multipliers on the same scale as the bundled
+// indexes; prices are normalised to the base region at calculation time, so
+// only the ratios between regions matter.
+//
+// Accepted formats:
+//   CSV  - `region,multiplier` rows (comma, semicolon or tab separated), an
+//          optional header row, extra columns ignored; decimal commas are
+//          accepted when the separator isn't a comma
+//   JSON - `{ "DE": 0.9, ... }`, `{ "multipliers": { ... } }` or
+//          `[{ "region": "DE", "multiplier": 0.9 }, ...]`
+// Regions may be alpha-2 (Google) or alpha-3 (Apple) codes.
+import { GOOGLE_PLAY_REGIONS } from '../google-play/types';
+import { APPLE_TERRITORIES } from '../apple-connect/territories';
+
+export interface CustomIndex {
+  /** Slug derived from the name; the strategy id is `custom-index:<id>` */
+  id: string;
+  name: string;
+  /** Multiplier per alpha-2 region code */
+  multipliers: Record<string, number>;
+  /** ISO timestamp of the upload */
+  importedAt: string;
+  fileName?: string;
+}
+
+export interface CustomIndexParseResult {
+  /** Valid rows, keyed by alpha-2 code */
+  multipliers: Record<string, number>;
+  /** Problems that block the import (unknown region, bad multiplier, duplicates) */
+  errors: string[];
+  /** Problems worth showing that don't block it (e.g. regions not covered) */
+  warnings: string[];
+}
+
+// alpha-2 → alpha-2 and alpha-3 → alpha-2 for every Google Play region and Apple territory
+const KNOWN_REGIONS = new Map<string, string>([
+  ...GOOGLE_PLAY_REGIONS.map((r): [string, string] => [r.code, r.code]),
+  ...APPLE_TERRITORIES.map((t): [string, string] => [t.alpha2, t.alpha2]),
+  ...APPLE_TERRITORIES.map((t): [string, string] => [t.alpha3, t.alpha2]),
+]);
+
+export function slugifyIndexName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'index';
+}
+
+// Raw (code, value) pairs with a label for error messages
+type RawRow = { label: string; region: unknown; multiplier: unknown };
+
+function csvRows(text: string): RawRow[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const delimiter = [';', '\t'].find((d) => lines.some((line) => line.includes(d))) ?? ',';
+  const rows: RawRow[] = [];
+  lines.forEach((line, i) => {
+    if (!line || line.startsWith('#')) return;
+    const [region = '', multiplier = ''] = line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    // Header row: a non-numeric multiplier column on the first data line
+    if (rows.length === 0 && Number.isNaN(parseFloat(multiplier))) return;
+    // Semicolon/tab files often come from spreadsheets with decimal commas
+    rows.push({
+      label: `Line ${i + 1}`,
+      region,
+      multiplier: delimiter === ',' ? multiplier : multiplier.replace(',', '.'),
+    });
+  });
+  return rows;
+}
+
+function jsonRows(text: string): RawRow[] | string {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (Array.isArray(data)) {
+    return data.map((entry, i) => ({
+      label: `Entry ${i + 1}`,
+      region: entry?.region ?? entry?.code,
+      multiplier: entry?.multiplier ?? entry?.value,
+    }));
+  }
+  if (data && typeof data === 'object') {
+    const record = 'multipliers' in data ? (data as { multipliers: unknown }).multipliers : data;
+    if (record && typeof record === 'object') {
+      return Object.entries(record).map(([region, multiplier]) => ({
+        label: region,
+        region,
+        multiplier,
+      }));
+    }
+  }
+  return 'Expected an object of region → multiplier or an array of { region, multiplier }';
+}
+
+// Parse and validate an uploaded index file. The format is taken from the
+// file name when given, otherwise sniffed from the first character.
+export function parseCustomIndex(text: string, fileName?: string): CustomIndexParseResult {
+  const isJson = fileName ? /\.json$/i.test(fileName) : /^\s*[[{]/.test(text);
+  const rows = isJson ? jsonRows(text) : csvRows(text);
+  if (typeof rows === 'string') {
+    return { multipliers: {}, errors: [rows], warnings: [] };
+  }
+
+  const multipliers: Record<string, number> = {};
+  const errors: string[] = [];
+  for (const row of rows) {
+    const code = String(row.region ?? '').trim().toUpperCase();
+    const alpha2 = KNOWN_REGIONS.get(code);
+    const multiplier = typeof row.multiplier === 'number' ? row.multiplier : parseFloat(String(row.multiplier ?? ''));
+    if (!alpha2) {
+      errors.push(`${row.label}: unknown region "${code}"`);
+    } else if (!Number.isFinite(multiplier) || multiplier <= 0) {
+      errors.push(`${row.label}: multiplier for ${code} must be a positive number`);
+    } else if (alpha2 in multipliers) {
+      errors.push(`${row.label}: ${code} appears more than once`);
+    } else {
+      multipliers[alpha2] = multiplier;
+    }
+  }
+  if (rows.length === 0) {
+    errors.push('The file has no rows');
+  }
+
+  const warnings: string[] = [];
+  const missing = GOOGLE_PLAY_REGIONS.filter((r) => !(r.code in multipliers)).length;
+  if (errors.length === 0 && missing > 0) {
+    warnings.push(
+      `${missing} of ${GOOGLE_PLAY_REGIONS.length} Google Play regions are not in the file and will be priced at base-region parity`
+    );
+  }
+  return { multipliers, errors, warnings };
+}
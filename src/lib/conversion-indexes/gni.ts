@@ -0,0 +1,632 @@
+// GNI per capita affordability index for regional pricing
+// Source: World Bank, GNI per capita, Atlas method (current US$), NY.GNP.PCAP.CD, CC-BY-4.0, https://data.worldbank.org/indicator/NY.GNP.PCAP.CD
+// Source snapshot: 2023 values (World Bank, Atlas method), entered by hand
+// without an API run. Replace by running scripts/generate-gni-index.mjs.
+
+export interface GniIndexEntry {
+  multiplier: number;
+  gniPerCapitaUsd: number;
+  /** Year of the most recent reported value */
+  year: number;
+}
+
+// Income-based multipliers relative to US (US = 1.0).
+// Multiplier = (country GNI per capita / US GNI per capita) ^ 0.5, clamped to [0.1, 2.0].
+export const GNI_INDEX: Record<string, GniIndexEntry> = {
+  AE: {
+    multiplier: 0.782,
+    gniPerCapitaUsd: 49100,
+    year: 2023,
+  },
+  AL: {
+    multiplier: 0.3103,
+    gniPerCapitaUsd: 7730,
+    year: 2023,
+  },
+  AM: {
+    multiplier: 0.277,
+    gniPerCapitaUsd: 6160,
+    year: 2023,
+  },
+  AO: {
+    multiplier: 0.1625,
+    gniPerCapitaUsd: 2120,
+    year: 2023,
+  },
+  AR: {
+    multiplier: 0.4034,
+    gniPerCapitaUsd: 13070,
+    year: 2023,
+  },
+  AT: {
+    multiplier: 0.8361,
+    gniPerCapitaUsd: 56140,
+    year: 2023,
+  },
+  AU: {
+    multiplier: 0.8969,
+    gniPerCapitaUsd: 64590,
+    year: 2023,
+  },
+  AZ: {
+    multiplier: 0.2929,
+    gniPerCapitaUsd: 6890,
+    year: 2023,
+  },
+  BA: {
+    multiplier: 0.3172,
+    gniPerCapitaUsd: 8080,
+    year: 2023,
+  },
+  BD: {
+    multiplier: 0.1887,
+    gniPerCapitaUsd: 2860,
+    year: 2023,
+  },
+  BE: {
+    multiplier: 0.8202,
+    gniPerCapitaUsd: 54020,
+    year: 2023,
+  },
+  BG: {
+    multiplier: 0.4202,
+    gniPerCapitaUsd: 14180,
+    year: 2023,
+  },
+  BH: {
+    multiplier: 0.569,
+    gniPerCapitaUsd: 26000,
+    year: 2023,
+  },
+  BO: {
+    multiplier: 0.2117,
+    gniPerCapitaUsd: 3600,
+    year: 2023,
+  },
+  BR: {
+    multiplier: 0.3361,
+    gniPerCapitaUsd: 9070,
+    year: 2023,
+  },
+  BW: {
+    multiplier: 0.3005,
+    gniPerCapitaUsd: 7250,
+    year: 2023,
+  },
+  BY: {
+    multiplier: 0.3052,
+    gniPerCapitaUsd: 7480,
+    year: 2023,
+  },
+  CA: {
+    multiplier: 0.8132,
+    gniPerCapitaUsd: 53100,
+    year: 2023,
+  },
+  CH: {
+    multiplier: 1.0905,
+    gniPerCapitaUsd: 95490,
+    year: 2023,
+  },
+  CI: {
+    multiplier: 0.1823,
+    gniPerCapitaUsd: 2670,
+    year: 2023,
+  },
+  CL: {
+    multiplier: 0.444,
+    gniPerCapitaUsd: 15830,
+    year: 2023,
+  },
+  CM: {
+    multiplier: 0.1438,
+    gniPerCapitaUsd: 1660,
+    year: 2023,
+  },
+  CN: {
+    multiplier: 0.4085,
+    gniPerCapitaUsd: 13400,
+    year: 2023,
+  },
+  CO: {
+    multiplier: 0.2925,
+    gniPerCapitaUsd: 6870,
+    year: 2023,
+  },
+  CR: {
+    multiplier: 0.4132,
+    gniPerCapitaUsd: 13710,
+    year: 2023,
+  },
+  CY: {
+    multiplier: 0.6472,
+    gniPerCapitaUsd: 33640,
+    year: 2023,
+  },
+  CZ: {
+    multiplier: 0.5916,
+    gniPerCapitaUsd: 28100,
+    year: 2023,
+  },
+  DE: {
+    multiplier: 0.8154,
+    gniPerCapitaUsd: 53390,
+    year: 2023,
+  },
+  DK: {
+    multiplier: 0.9442,
+    gniPerCapitaUsd: 71590,
+    year: 2023,
+  },
+  DO: {
+    multiplier: 0.3626,
+    gniPerCapitaUsd: 10560,
+    year: 2023,
+  },
+  DZ: {
+    multiplier: 0.2475,
+    gniPerCapitaUsd: 4920,
+    year: 2023,
+  },
+  EC: {
+    multiplier: 0.2869,
+    gniPerCapitaUsd: 6610,
+    year: 2023,
+  },
+  EE: {
+    multiplier: 0.6052,
+    gniPerCapitaUsd: 29410,
+    year: 2023,
+  },
+  EG: {
+    multiplier: 0.2268,
+    gniPerCapitaUsd: 4130,
+    year: 2023,
+  },
+  ES: {
+    multiplier: 0.6318,
+    gniPerCapitaUsd: 32050,
+    year: 2023,
+  },
+  ET: {
+    multiplier: 0.1127,
+    gniPerCapitaUsd: 1020,
+    year: 2023,
+  },
+  FI: {
+    multiplier: 0.8223,
+    gniPerCapitaUsd: 54300,
+    year: 2023,
+  },
+  FR: {
+    multiplier: 0.7501,
+    gniPerCapitaUsd: 45180,
+    year: 2023,
+  },
+  GB: {
+    multiplier: 0.7831,
+    gniPerCapitaUsd: 49240,
+    year: 2023,
+  },
+  GE: {
+    multiplier: 0.2718,
+    gniPerCapitaUsd: 5930,
+    year: 2023,
+  },
+  GH: {
+    multiplier: 0.1722,
+    gniPerCapitaUsd: 2380,
+    year: 2023,
+  },
+  GR: {
+    multiplier: 0.5351,
+    gniPerCapitaUsd: 22990,
+    year: 2023,
+  },
+  GT: {
+    multiplier: 0.2669,
+    gniPerCapitaUsd: 5720,
+    year: 2023,
+  },
+  HK: {
+    multiplier: 0.8225,
+    gniPerCapitaUsd: 54320,
+    year: 2023,
+  },
+  HN: {
+    multiplier: 0.1939,
+    gniPerCapitaUsd: 3020,
+    year: 2023,
+  },
+  HR: {
+    multiplier: 0.517,
+    gniPerCapitaUsd: 21460,
+    year: 2023,
+  },
+  HU: {
+    multiplier: 0.4867,
+    gniPerCapitaUsd: 19020,
+    year: 2023,
+  },
+  ID: {
+    multiplier: 0.2463,
+    gniPerCapitaUsd: 4870,
+    year: 2023,
+  },
+  IE: {
+    multiplier: 1.0043,
+    gniPerCapitaUsd: 81000,
+    year: 2023,
+  },
+  IL: {
+    multiplier: 0.825,
+    gniPerCapitaUsd: 54650,
+    year: 2023,
+  },
+  IN: {
+    multiplier: 0.1779,
+    gniPerCapitaUsd: 2540,
+    year: 2023,
+  },
+  IQ: {
+    multiplier: 0.2706,
+    gniPerCapitaUsd: 5880,
+    year: 2023,
+  },
+  IS: {
+    multiplier: 0.988,
+    gniPerCapitaUsd: 78380,
+    year: 2023,
+  },
+  IT: {
+    multiplier: 0.6967,
+    gniPerCapitaUsd: 38980,
+    year: 2023,
+  },
+  JM: {
+    multiplier: 0.2745,
+    gniPerCapitaUsd: 6050,
+    year: 2023,
+  },
+  JO: {
+    multiplier: 0.237,
+    gniPerCapitaUsd: 4510,
+    year: 2023,
+  },
+  JP: {
+    multiplier: 0.6972,
+    gniPerCapitaUsd: 39030,
+    year: 2023,
+  },
+  KE: {
+    multiplier: 0.1621,
+    gniPerCapitaUsd: 2110,
+    year: 2023,
+  },
+  KH: {
+    multiplier: 0.1534,
+    gniPerCapitaUsd: 1890,
+    year: 2023,
+  },
+  KR: {
+    multiplier: 0.6422,
+    gniPerCapitaUsd: 33120,
+    year: 2023,
+  },
+  KW: {
+    multiplier: 0.702,
+    gniPerCapitaUsd: 39570,
+    year: 2023,
+  },
+  KZ: {
+    multiplier: 0.3745,
+    gniPerCapitaUsd: 11260,
+    year: 2023,
+  },
+  LA: {
+    multiplier: 0.1621,
+    gniPerCapitaUsd: 2110,
+    year: 2023,
+  },
+  LK: {
+    multiplier: 0.212,
+    gniPerCapitaUsd: 3610,
+    year: 2023,
+  },
+  LT: {
+    multiplier: 0.5668,
+    gniPerCapitaUsd: 25800,
+    year: 2023,
+  },
+  LU: {
+    multiplier: 1.0657,
+    gniPerCapitaUsd: 91200,
+    year: 2023,
+  },
+  LV: {
+    multiplier: 0.5337,
+    gniPerCapitaUsd: 22870,
+    year: 2023,
+  },
+  MA: {
+    multiplier: 0.2149,
+    gniPerCapitaUsd: 3710,
+    year: 2023,
+  },
+  MD: {
+    multiplier: 0.2779,
+    gniPerCapitaUsd: 6200,
+    year: 2023,
+  },
+  ME: {
+    multiplier: 0.3765,
+    gniPerCapitaUsd: 11380,
+    year: 2023,
+  },
+  MG: {
+    multiplier: 0.1,
+    gniPerCapitaUsd: 520,
+    year: 2023,
+  },
+  MK: {
+    multiplier: 0.2976,
+    gniPerCapitaUsd: 7110,
+    year: 2023,
+  },
+  MM: {
+    multiplier: 0.1258,
+    gniPerCapitaUsd: 1270,
+    year: 2023,
+  },
+  MN: {
+    multiplier: 0.2473,
+    gniPerCapitaUsd: 4910,
+    year: 2023,
+  },
+  MT: {
+    multiplier: 0.6541,
+    gniPerCapitaUsd: 34360,
+    year: 2023,
+  },
+  MU: {
+    multiplier: 0.3858,
+    gniPerCapitaUsd: 11950,
+    year: 2023,
+  },
+  MX: {
+    multiplier: 0.3863,
+    gniPerCapitaUsd: 11980,
+    year: 2023,
+  },
+  MY: {
+    multiplier: 0.3861,
+    gniPerCapitaUsd: 11970,
+    year: 2023,
+  },
+  MZ: {
+    multiplier: 0.1,
+    gniPerCapitaUsd: 540,
+    year: 2023,
+  },
+  NA: {
+    multiplier: 0.2465,
+    gniPerCapitaUsd: 4880,
+    year: 2023,
+  },
+  NG: {
+    multiplier: 0.155,
+    gniPerCapitaUsd: 1930,
+    year: 2023,
+  },
+  NI: {
+    multiplier: 0.1729,
+    gniPerCapitaUsd: 2400,
+    year: 2023,
+  },
+  NL: {
+    multiplier: 0.8661,
+    gniPerCapitaUsd: 60230,
+    year: 2023,
+  },
+  NO: {
+    multiplier: 1.0888,
+    gniPerCapitaUsd: 95200,
+    year: 2023,
+  },
+  NP: {
+    multiplier: 0.1292,
+    gniPerCapitaUsd: 1340,
+    year: 2023,
+  },
+  NZ: {
+    multiplier: 0.7768,
+    gniPerCapitaUsd: 48460,
+    year: 2023,
+  },
+  OM: {
+    multiplier: 0.5009,
+    gniPerCapitaUsd: 20150,
+    year: 2023,
+  },
+  PA: {
+    multiplier: 0.4639,
+    gniPerCapitaUsd: 17280,
+    year: 2023,
+  },
+  PE: {
+    multiplier: 0.3003,
+    gniPerCapitaUsd: 7240,
+    year: 2023,
+  },
+  PH: {
+    multiplier: 0.2295,
+    gniPerCapitaUsd: 4230,
+    year: 2023,
+  },
+  PK: {
+    multiplier: 0.1367,
+    gniPerCapitaUsd: 1500,
+    year: 2023,
+  },
+  PL: {
+    multiplier: 0.4957,
+    gniPerCapitaUsd: 19730,
+    year: 2023,
+  },
+  PT: {
+    multiplier: 0.572,
+    gniPerCapitaUsd: 26270,
+    year: 2023,
+  },
+  PY: {
+    multiplier: 0.2738,
+    gniPerCapitaUsd: 6020,
+    year: 2023,
+  },
+  QA: {
+    multiplier: 0.937,
+    gniPerCapitaUsd: 70500,
+    year: 2023,
+  },
+  RO: {
+    multiplier: 0.472,
+    gniPerCapitaUsd: 17890,
+    year: 2023,
+  },
+  RS: {
+    multiplier: 0.3552,
+    gniPerCapitaUsd: 10130,
+    year: 2023,
+  },
+  RU: {
+    multiplier: 0.4213,
+    gniPerCapitaUsd: 14250,
+    year: 2023,
+  },
+  RW: {
+    multiplier: 0.1116,
+    gniPerCapitaUsd: 1000,
+    year: 2023,
+  },
+  SA: {
+    multiplier: 0.5966,
+    gniPerCapitaUsd: 28580,
+    year: 2023,
+  },
+  SE: {
+    multiplier: 0.8857,
+    gniPerCapitaUsd: 62990,
+    year: 2023,
+  },
+  SG: {
+    multiplier: 0.9376,
+    gniPerCapitaUsd: 70590,
+    year: 2023,
+  },
+  SI: {
+    multiplier: 0.6266,
+    gniPerCapitaUsd: 31530,
+    year: 2023,
+  },
+  SK: {
+    multiplier: 0.5483,
+    gniPerCapitaUsd: 24140,
+    year: 2023,
+  },
+  SN: {
+    multiplier: 0.1438,
+    gniPerCapitaUsd: 1660,
+    year: 2023,
+  },
+  SV: {
+    multiplier: 0.2532,
+    gniPerCapitaUsd: 5150,
+    year: 2023,
+  },
+  TH: {
+    multiplier: 0.3001,
+    gniPerCapitaUsd: 7230,
+    year: 2023,
+  },
+  TN: {
+    multiplier: 0.2201,
+    gniPerCapitaUsd: 3890,
+    year: 2023,
+  },
+  TR: {
+    multiplier: 0.3809,
+    gniPerCapitaUsd: 11650,
+    year: 2023,
+  },
+  TT: {
+    multiplier: 0.4831,
+    gniPerCapitaUsd: 18740,
+    year: 2023,
+  },
+  TZ: {
+    multiplier: 0.1222,
+    gniPerCapitaUsd: 1200,
+    year: 2023,
+  },
+  UA: {
+    multiplier: 0.2513,
+    gniPerCapitaUsd: 5070,
+    year: 2023,
+  },
+  UG: {
+    multiplier: 0.1099,
+    gniPerCapitaUsd: 970,
+    year: 2023,
+  },
+  US: {
+    multiplier: 1.0,
+    gniPerCapitaUsd: 80300,
+    year: 2023,
+  },
+  UY: {
+    multiplier: 0.5192,
+    gniPerCapitaUsd: 21650,
+    year: 2023,
+  },
+  UZ: {
+    multiplier: 0.174,
+    gniPerCapitaUsd: 2430,
+    year: 2023,
+  },
+  VN: {
+    multiplier: 0.2282,
+    gniPerCapitaUsd: 4180,
+    year: 2023,
+  },
+  ZA: {
+    multiplier: 0.2906,
+    gniPerCapitaUsd: 6780,
+    year: 2023,
+  },
+  ZM: {
+    multiplier: 0.1233,
+    gniPerCapitaUsd: 1220,
+    year: 2023,
+  },
+  ZW: {
+    multiplier: 0.1609,
+    gniPerCapitaUsd: 2080,
+    year: 2023,
+  },
+};
+
+export const DEFAULT_GNI_MULTIPLIER = 0.70;
+
+export function getGniMultiplier(regionCode: string): number {
+  return GNI_INDEX[regionCode]?.multiplier ?? DEFAULT_GNI_MULTIPLIER;
+}
+
+export function getAllGniData(): Record<string, { multiplier: number; source: 'world-bank-gni' | 'default' }> {
+  const result: Record<string, { multiplier: number; source: 'world-bank-gni' | 'default' }> = {};
+
+  for (const [regionCode, entry] of Object.entries(GNI_INDEX)) {
+    result[regionCode] = { multiplier: entry.multiplier, source: 'world-bank-gni' };
+  }
+
+  return result;
+}
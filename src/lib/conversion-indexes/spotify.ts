@@ -0,0 +1,328 @@
+// Spotify Premium price index data for regional pricing
+// Source: Spotify Premium Individual list prices, https://www.spotify.com/<country>/premium/
+// Licence: none (factual list prices)
+// Price snapshot: 2025-01 (scripts/data/spotify-premium-prices.csv)
+// FX: fallback exchange rates, last updated 2026-02-01
+// Generated by: scripts/generate-spotify-index.mjs
+
+export interface SpotifyPriceIndexEntry {
+  multiplier: number;
+  premiumPriceUsd: number;
+  localPrice: number;
+  currency: string;
+}
+
+// Spotify Premium Individual multipliers relative to US (US = 1.0).
+// Multiplier = country Premium price in USD / US Premium price in USD.
+export const SPOTIFY_PRICE_INDEX: Record<string, SpotifyPriceIndexEntry> = {
+  AE: {
+    multiplier: 0.4994,
+    premiumPriceUsd: 5.99,
+    localPrice: 21.99,
+    currency: 'AED',
+  },
+  AT: {
+    multiplier: 1.1905,
+    premiumPriceUsd: 14.27,
+    localPrice: 11.99,
+    currency: 'EUR',
+  },
+  AU: {
+    multiplier: 0.8103,
+    premiumPriceUsd: 9.72,
+    localPrice: 13.99,
+    currency: 'AUD',
+  },
+  BD: {
+    multiplier: 0.1618,
+    premiumPriceUsd: 1.94,
+    localPrice: 239,
+    currency: 'BDT',
+  },
+  BE: {
+    multiplier: 1.1905,
+    premiumPriceUsd: 14.27,
+    localPrice: 11.99,
+    currency: 'EUR',
+  },
+  BR: {
+    multiplier: 0.3472,
+    premiumPriceUsd: 4.16,
+    localPrice: 21.9,
+    currency: 'BRL',
+  },
+  CA: {
+    multiplier: 0.7353,
+    premiumPriceUsd: 8.82,
+    localPrice: 11.99,
+    currency: 'CAD',
+  },
+  CH: {
+    multiplier: 1.511,
+    premiumPriceUsd: 18.12,
+    localPrice: 13.95,
+    currency: 'CHF',
+  },
+  CO: {
+    multiplier: 0.384,
+    premiumPriceUsd: 4.6,
+    localPrice: 16900,
+    currency: 'COP',
+  },
+  CZ: {
+    multiplier: 0.6866,
+    premiumPriceUsd: 8.23,
+    localPrice: 169,
+    currency: 'CZK',
+  },
+  DE: {
+    multiplier: 1.0912,
+    premiumPriceUsd: 13.08,
+    localPrice: 10.99,
+    currency: 'EUR',
+  },
+  DK: {
+    multiplier: 1.443,
+    premiumPriceUsd: 17.3,
+    localPrice: 109,
+    currency: 'DKK',
+  },
+  EG: {
+    multiplier: 0.106,
+    premiumPriceUsd: 1.27,
+    localPrice: 59.99,
+    currency: 'EGP',
+  },
+  ES: {
+    multiplier: 1.0912,
+    premiumPriceUsd: 13.08,
+    localPrice: 10.99,
+    currency: 'EUR',
+  },
+  FI: {
+    multiplier: 1.1905,
+    premiumPriceUsd: 14.27,
+    localPrice: 11.99,
+    currency: 'EUR',
+  },
+  FR: {
+    multiplier: 1.1041,
+    premiumPriceUsd: 13.24,
+    localPrice: 11.12,
+    currency: 'EUR',
+  },
+  GB: {
+    multiplier: 1.3699,
+    premiumPriceUsd: 16.42,
+    localPrice: 11.99,
+    currency: 'GBP',
+  },
+  GR: {
+    multiplier: 0.7437,
+    premiumPriceUsd: 8.92,
+    localPrice: 7.49,
+    currency: 'EUR',
+  },
+  HK: {
+    multiplier: 0.7262,
+    premiumPriceUsd: 8.71,
+    localPrice: 68,
+    currency: 'HKD',
+  },
+  HU: {
+    multiplier: 0.4927,
+    premiumPriceUsd: 5.91,
+    localPrice: 1899,
+    currency: 'HUF',
+  },
+  ID: {
+    multiplier: 0.2734,
+    premiumPriceUsd: 3.28,
+    localPrice: 54990,
+    currency: 'IDR',
+  },
+  IE: {
+    multiplier: 1.1905,
+    premiumPriceUsd: 14.27,
+    localPrice: 11.99,
+    currency: 'EUR',
+  },
+  IL: {
+    multiplier: 0.5371,
+    premiumPriceUsd: 6.44,
+    localPrice: 19.9,
+    currency: 'ILS',
+  },
+  IN: {
+    multiplier: 0.1082,
+    premiumPriceUsd: 1.3,
+    localPrice: 119,
+    currency: 'INR',
+  },
+  IT: {
+    multiplier: 1.0912,
+    premiumPriceUsd: 13.08,
+    localPrice: 10.99,
+    currency: 'EUR',
+  },
+  JP: {
+    multiplier: 0.5277,
+    premiumPriceUsd: 6.33,
+    localPrice: 980,
+    currency: 'JPY',
+  },
+  KE: {
+    multiplier: 0.1916,
+    premiumPriceUsd: 2.3,
+    localPrice: 299,
+    currency: 'KES',
+  },
+  KR: {
+    multiplier: 0.6266,
+    premiumPriceUsd: 7.51,
+    localPrice: 10900,
+    currency: 'KRW',
+  },
+  MX: {
+    multiplier: 0.6194,
+    premiumPriceUsd: 7.43,
+    localPrice: 129,
+    currency: 'MXN',
+  },
+  MY: {
+    multiplier: 0.3789,
+    premiumPriceUsd: 4.54,
+    localPrice: 17.9,
+    currency: 'MYR',
+  },
+  NG: {
+    multiplier: 0.1,
+    premiumPriceUsd: 0.93,
+    localPrice: 1300,
+    currency: 'NGN',
+  },
+  NL: {
+    multiplier: 1.1905,
+    premiumPriceUsd: 14.27,
+    localPrice: 11.99,
+    currency: 'EUR',
+  },
+  NO: {
+    multiplier: 1.1161,
+    premiumPriceUsd: 13.38,
+    localPrice: 129,
+    currency: 'NOK',
+  },
+  NZ: {
+    multiplier: 0.7531,
+    premiumPriceUsd: 9.03,
+    localPrice: 14.99,
+    currency: 'NZD',
+  },
+  PE: {
+    multiplier: 0.5172,
+    premiumPriceUsd: 6.2,
+    localPrice: 20.9,
+    currency: 'PEN',
+  },
+  PH: {
+    multiplier: 0.2109,
+    premiumPriceUsd: 2.53,
+    localPrice: 149,
+    currency: 'PHP',
+  },
+  PK: {
+    multiplier: 0.1,
+    premiumPriceUsd: 1.06,
+    localPrice: 299,
+    currency: 'PKR',
+  },
+  PL: {
+    multiplier: 0.562,
+    premiumPriceUsd: 6.74,
+    localPrice: 23.99,
+    currency: 'PLN',
+  },
+  PT: {
+    multiplier: 0.7933,
+    premiumPriceUsd: 9.51,
+    localPrice: 7.99,
+    currency: 'EUR',
+  },
+  SA: {
+    multiplier: 0.4891,
+    premiumPriceUsd: 5.86,
+    localPrice: 21.99,
+    currency: 'SAR',
+  },
+  SE: {
+    multiplier: 1.2089,
+    premiumPriceUsd: 14.49,
+    localPrice: 129,
+    currency: 'SEK',
+  },
+  SG: {
+    multiplier: 0.7867,
+    premiumPriceUsd: 9.43,
+    localPrice: 11.98,
+    currency: 'SGD',
+  },
+  TH: {
+    multiplier: 0.3672,
+    premiumPriceUsd: 4.4,
+    localPrice: 139,
+    currency: 'THB',
+  },
+  TR: {
+    multiplier: 0.1153,
+    premiumPriceUsd: 1.38,
+    localPrice: 59.99,
+    currency: 'TRY',
+  },
+  TW: {
+    multiplier: 0.3933,
+    premiumPriceUsd: 4.72,
+    localPrice: 149,
+    currency: 'TWD',
+  },
+  UA: {
+    multiplier: 0.1911,
+    premiumPriceUsd: 2.29,
+    localPrice: 99,
+    currency: 'UAH',
+  },
+  US: {
+    multiplier: 1.0,
+    premiumPriceUsd: 11.99,
+    localPrice: 11.99,
+    currency: 'USD',
+  },
+  VN: {
+    multiplier: 0.1897,
+    premiumPriceUsd: 2.27,
+    localPrice: 59000,
+    currency: 'VND',
+  },
+  ZA: {
+    multiplier: 0.3621,
+    premiumPriceUsd: 4.34,
+    localPrice: 69.99,
+    currency: 'ZAR',
+  },
+};
+
+export const DEFAULT_SPOTIFY_MULTIPLIER = 0.70;
+
+export function getSpotifyMultiplier(regionCode: string): number {
+  return SPOTIFY_PRICE_INDEX[regionCode]?.multiplier ?? DEFAULT_SPOTIFY_MULTIPLIER;
+}
+
+export function getAllSpotifyData(): Record<string, { multiplier: number; source: 'spotify-premium' | 'default' }> {
+  const result: Record<string, { multiplier: number; source: 'spotify-premium' | 'default' }> = {};
+
+  for (const [regionCode, entry] of Object.entries(SPOTIFY_PRICE_INDEX)) {
+    result[regionCode] = { multiplier: entry.multiplier, source: 'spotify-premium' };
+  }
+
+  return result;
+}
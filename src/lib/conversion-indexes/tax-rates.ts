@@ -0,0 +1,105 @@
+// Consumer tax on app-store purchases, by region (alpha-2)
+// Standard VAT / GST / consumption-tax rates as of 2025. Reduced rates for
+// e-books, news etc. are not modelled.
+
+export interface TaxRateEntry {
+  /** Standard rate as a fraction (0.19 = 19%) */
+  rate: number;
+  /** Local name of the tax, for display */
+  name: string;
+  /**
+   * Whether the price set in the store already includes the tax. True almost
+   * everywhere; false where the tax is added at checkout (US, Canada).
+   */
+  inclusive: boolean;
+}
+
+const vat = (rate: number, name = 'VAT'): TaxRateEntry => ({ rate, name, inclusive: true });
+
+export const TAX_RATES: Record<string, TaxRateEntry> = {
+  // European Union
+  AT: vat(0.20),
+  BE: vat(0.21),
+  BG: vat(0.20),
+  HR: vat(0.25),
+  CY: vat(0.19),
+  CZ: vat(0.21),
+  DK: vat(0.25),
+  EE: vat(0.24),
+  FI: vat(0.255),
+  FR: vat(0.20),
+  DE: vat(0.19),
+  GR: vat(0.24),
+  HU: vat(0.27),
+  IE: vat(0.23),
+  IT: vat(0.22),
+  LV: vat(0.21),
+  LT: vat(0.21),
+  LU: vat(0.17),
+  MT: vat(0.18),
+  NL: vat(0.21),
+  PL: vat(0.23),
+  PT: vat(0.23),
+  RO: vat(0.21),
+  SK: vat(0.23),
+  SI: vat(0.22),
+  ES: vat(0.21),
+  SE: vat(0.25),
+
+  // Rest of Europe
+  GB: vat(0.20),
+  NO: vat(0.25),
+  IS: vat(0.24),
+  CH: vat(0.081),
+  TR: vat(0.20, 'KDV'),
+  UA: vat(0.20),
+  RS: vat(0.20, 'PDV'),
+
+  // Asia-Pacific
+  AU: vat(0.10, 'GST'),
+  NZ: vat(0.15, 'GST'),
+  JP: vat(0.10, 'Consumption tax'),
+  KR: vat(0.10),
+  SG: vat(0.09, 'GST'),
+  IN: vat(0.18, 'GST'),
+  TW: vat(0.05),
+  TH: vat(0.07),
+  MY: vat(0.08, 'SST'),
+  ID: vat(0.11, 'PPN'),
+  PH: vat(0.12),
+  VN: vat(0.10),
+  BD: vat(0.15),
+  PK: vat(0.15, 'Sales tax'),
+
+  // Middle East & Africa
+  SA: vat(0.15),
+  AE: vat(0.05),
+  BH: vat(0.10),
+  OM: vat(0.05),
+  IL: vat(0.18),
+  EG: vat(0.14),
+  ZA: vat(0.15),
+  NG: vat(0.075),
+  KE: vat(0.16),
+
+  // Americas
+  MX: vat(0.16, 'IVA'),
+  CL: vat(0.19, 'IVA'),
+  CO: vat(0.19, 'IVA'),
+  AR: vat(0.21, 'IVA'),
+  PE: vat(0.18, 'IGV'),
+  UY: vat(0.22, 'IVA'),
+  CR: vat(0.13, 'IVA'),
+
+  // Added at checkout. The US has no national rate (state sales tax varies),
+  // so it is left at 0; Canada uses the federal GST only.
+  US: { rate: 0, name: 'Sales tax', inclusive: false },
+  CA: { rate: 0.05, name: 'GST', inclusive: false },
+};
+
+// Regions without an entry are treated as untaxed, tax-inclusive pricing
+export const DEFAULT_TAX_ENTRY: TaxRateEntry = { rate: 0, name: 'Tax', inclusive: true };
+
+export function getTaxRateEntry(regionCode: string): TaxRateEntry {
+  return TAX_RATES[regionCode] || DEFAULT_TAX_ENTRY;
+}
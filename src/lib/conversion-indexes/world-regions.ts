@@ -0,0 +1,48 @@
+// Coarse world-region grouping of store regions (alpha-2)
+// Used to match a region to the nearest pricing anchor when no anchor shares
+// its currency. Groups follow the usual store-reporting split rather than
+// strict geography (e.g. Turkey and the Caucasus sit with Europe).
+
+export type WorldRegion = 'americas' | 'europe' | 'middle-east-africa' | 'asia-pacific';
+
+export const WORLD_REGION_LABELS: Record<WorldRegion, string> = {
+  americas: 'Americas',
+  europe: 'Europe',
+  'middle-east-africa': 'Middle East & Africa',
+  'asia-pacific': 'Asia-Pacific',
+};
+
+const WORLD_REGION_MEMBERS: Record<WorldRegion, string[]> = {
+  americas: [
+    'AG', 'AI', 'AR', 'AW', 'BB', 'BM', 'BO', 'BR', 'BS', 'BZ', 'CA', 'CL', 'CO', 'CR', 'DM', 'DO',
+    'EC', 'GD', 'GT', 'GY', 'HN', 'HT', 'JM', 'KN', 'KY', 'LC', 'MS', 'MX', 'NI', 'PA', 'PE', 'PY',
+    'SR', 'SV', 'TC', 'TT', 'US', 'UY', 'VC', 'VE', 'VG',
+  ],
+  europe: [
+    'AL', 'AM', 'AT', 'AZ', 'BA', 'BE', 'BG', 'BY', 'CH', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI',
+    'FR', 'GB', 'GE', 'GI', 'GR', 'HR', 'HU', 'IE', 'IS', 'IT', 'LI', 'LT', 'LU', 'LV', 'MC', 'MD',
+    'ME', 'MK', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'RS', 'RU', 'SE', 'SI', 'SK', 'SM', 'TR', 'UA',
+    'VA', 'XK',
+  ],
+  'middle-east-africa': [
+    'AE', 'AO', 'BF', 'BH', 'BJ', 'BW', 'CD', 'CF', 'CG', 'CI', 'CM', 'CV', 'DJ', 'DZ', 'EG', 'ER',
+    'GA', 'GH', 'GM', 'GN', 'GW', 'IL', 'IQ', 'JO', 'KE', 'KM', 'KW', 'LB', 'LR', 'LY', 'MA', 'MG',
+    'ML', 'MR', 'MU', 'MW', 'MZ', 'NA', 'NE', 'NG', 'OM', 'QA', 'RW', 'SA', 'SC', 'SL', 'SN', 'SO',
+    'ST', 'SZ', 'TD', 'TG', 'TN', 'TZ', 'UG', 'YE', 'ZA', 'ZM', 'ZW',
+  ],
+  'asia-pacific': [
+    'AF', 'AU', 'BD', 'BN', 'BT', 'CN', 'FJ', 'FM', 'HK', 'ID', 'IN', 'JP', 'KG', 'KH', 'KR', 'KZ',
+    'LA', 'LK', 'MM', 'MN', 'MO', 'MV', 'MY', 'NP', 'NR', 'NZ', 'PG', 'PH', 'PK', 'PW', 'SB', 'SG',
+    'TH', 'TJ', 'TM', 'TO', 'TW', 'UZ', 'VN', 'VU', 'WS',
+  ],
+};
+
+export const WORLD_REGIONS: Record<string, WorldRegion> = Object.fromEntries(
+  (Object.keys(WORLD_REGION_MEMBERS) as WorldRegion[]).flatMap((group) =>
+    WORLD_REGION_MEMBERS[group].map((code) => [code, group])
+  )
+);
+
+export function getWorldRegion(regionCode: string): WorldRegion | undefined {
+  return WORLD_REGIONS[regionCode];
+}
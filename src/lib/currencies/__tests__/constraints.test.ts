@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkApplePrice,
+  checkGooglePrice,
+  enforceStoreRules,
+  storeRuleTraceStep,
+} from '../constraints';
+import { getCurrencyInfo } from '../registry';
+import { getPriceTiersForCurrency } from '../../apple-connect/price-tier-data';
+import { GOOGLE_PLAY_REGIONS } from '../../google-play/types';
+
+const rules = (check: { violations: { rule: string }[] }) => check.violations.map((v) => v.rule);
+
+describe('checkGooglePrice', () => {
+  it('passes prices inside the range', () => {
+    expect(checkGooglePrice(4.99, 'USD')).toEqual({ violations: [] });
+    expect(checkGooglePrice(1500, 'JPY')).toEqual({ violations: [] });
+  });
+
+  it('has a price range for every Google Play region currency', () => {
+    for (const region of GOOGLE_PLAY_REGIONS) {
+      const info = getCurrencyInfo(region.currency);
+      expect(info?.googleMinPrice, region.currency).toBeGreaterThan(0);
+      expect(info?.googleMaxPrice, region.currency).toBeGreaterThan(info!.googleMinPrice!);
+    }
+  });
+
+  it('raises prices below the minimum', () => {
+    const check = checkGooglePrice(0.01, 'USD');
+    expect(rules(check)).toEqual(['min-price']);
+    expect(check.fixedPrice).toBe(0.05);
+  });
+
+  it('caps prices above the maximum', () => {
+    const check = checkGooglePrice(5000, 'USD');
+    expect(rules(check)).toEqual(['max-price']);
+    expect(check.fixedPrice).toBe(999.99);
+  });
+
+  it('rounds decimals for whole-unit currencies', () => {
+    const check = checkGooglePrice(1234.5, 'HUF');
+    expect(rules(check)).toEqual(['decimals']);
+    expect(check.violations[0].message).toMatch(/whole HUF/);
+    expect(check.fixedPrice).toBe(1235);
+  });
+
+  it('rounds sub-cent amounts', () => {
+    expect(checkGooglePrice(4.995, 'EUR').fixedPrice).toBe(5);
+  });
+
+  it('requires CFA franc prices in multiples of 100', () => {
+    const check = checkGooglePrice(1450, 'XOF');
+    expect(rules(check)).toEqual(['price-step']);
+    expect(check.fixedPrice).toBe(1500);
+    expect(checkGooglePrice(1400, 'XAF')).toEqual({ violations: [] });
+  });
+
+  it('keeps the fix on the step grid when clamping to the minimum', () => {
+    expect(checkGooglePrice(30, 'XAF').fixedPrice).toBe(100);
+  });
+
+  it('only checks decimals for currencies without a known range', () => {
+    expect(checkGooglePrice(123456789, 'ISK')).toEqual({ violations: [] });
+  });
+});
+
+describe('checkApplePrice', () => {
+  const usdTiers = getPriceTiersForCurrency('USD');
+
+  it('passes App Store price points', () => {
+    expect(checkApplePrice(usdTiers[0].price, 'USD', 'US')).toEqual({ violations: [] });
+  });
+
+  it('snaps other prices to the closest price point', () => {
+    const check = checkApplePrice(0.991, 'USD', 'USA');
+    expect(rules(check)).toEqual(['price-point']);
+    expect(check.fixedPrice).toBe(0.99);
+  });
+
+  it('rejects territories without IAP pricing, by alpha-2 or alpha-3', () => {
+    for (const territory of ['BD', 'BGD']) {
+      const check = checkApplePrice(100, 'BDT', territory);
+      expect(rules(check)).toEqual(['unsupported-territory']);
+      expect(check.fixedPrice).toBeUndefined();
+    }
+  });
+
+  it('cannot fix currencies without price points', () => {
+    const check = checkApplePrice(10, 'XYZ', 'US');
+    expect(rules(check)).toEqual(['price-point']);
+    expect(check.fixedPrice).toBeUndefined();
+  });
+});
+
+describe('enforceStoreRules', () => {
+  const row = { regionCode: 'HU', currencyCode: 'HUF', price: 1234.5 };
+
+  it('returns nothing for a valid price', () => {
+    expect(enforceStoreRules('google', { ...row, price: 1235 }, true)).toBeUndefined();
+  });
+
+  it('proposes the fix only with auto-fix on', () => {
+    expect(enforceStoreRules('google', row, true)).toMatchObject({ proposedPrice: 1234.5, fixedPrice: 1235 });
+    expect(enforceStoreRules('google', row, false)?.fixedPrice).toBeUndefined();
+  });
+
+  it('records the fix as a trace step', () => {
+    const hit = enforceStoreRules('google', row, true)!;
+    expect(storeRuleTraceStep(hit, 'HUF')).toMatchObject({ step: 'store-rule', value: 1235, currency: 'HUF' });
+  });
+});
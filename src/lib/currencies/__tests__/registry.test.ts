@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatCurrency,
+  getCurrencyInfo,
+  getCurrencySymbol,
+  getPriceDecimals,
+  listCurrencies,
+  listWholeUnitCurrencies,
+} from '../registry';
+import { GOOGLE_PLAY_REGIONS } from '../../google-play/types';
+import { NINETY_NINE_ENDINGS, DEFAULT_ENDING_KEY } from '../../google-play/price-endings';
+
+describe('currency registry', () => {
+  it('covers every currency Google Play bills in', () => {
+    for (const region of GOOGLE_PLAY_REGIONS) {
+      expect(getCurrencyInfo(region.currency), region.currency).toBeDefined();
+    }
+  });
+
+  it('keys every entry by its own code', () => {
+    for (const info of listCurrencies()) {
+      expect(info.code).toMatch(/^[A-Z]{3}$/);
+      expect(getCurrencyInfo(info.code)).toBe(info);
+    }
+  });
+
+  it('records ISO 4217 minor units', () => {
+    expect(getCurrencyInfo('USD')?.minorUnits).toBe(2);
+    expect(getCurrencyInfo('JPY')?.minorUnits).toBe(0);
+    expect(getCurrencyInfo('KWD')?.minorUnits).toBe(3);
+  });
+
+  it('treats HUF, COP and IQD as whole-unit on Google Play', () => {
+    for (const code of ['HUF', 'COP', 'IQD']) {
+      expect(getPriceDecimals(code, 'google'), code).toBe(0);
+      expect(formatCurrency(1234.56, code, { platform: 'google' })).not.toMatch(/[.,]\d{2}$/);
+    }
+  });
+
+  it('uses the stricter store when no platform is given', () => {
+    expect(getPriceDecimals('USD')).toBe(2);
+    expect(getPriceDecimals('JPY')).toBe(0);
+    expect(getPriceDecimals('HUF')).toBe(0);
+  });
+
+  it('assumes cents for unknown currencies', () => {
+    expect(getPriceDecimals('ZZZ')).toBe(2);
+    expect(getPriceDecimals('ZZZ', 'apple')).toBe(2);
+  });
+
+  it('lists the same whole-unit currencies as the .99 ending table', () => {
+    const tableKeys = Object.keys(NINETY_NINE_ENDINGS).filter((key) => key !== DEFAULT_ENDING_KEY);
+    expect(listWholeUnitCurrencies().sort()).toEqual(tableKeys.sort());
+  });
+});
+
+describe('getCurrencySymbol', () => {
+  it('returns app and native symbols', () => {
+    expect(getCurrencySymbol('GBP')).toBe('£');
+    expect(getCurrencySymbol('CAD')).toBe('CA$');
+    expect(getCurrencySymbol('CAD', true)).toBe('$');
+  });
+
+  it('falls back to the code for unknown currencies', () => {
+    expect(getCurrencySymbol('ZZZ')).toBe('ZZZ');
+  });
+});
+
+describe('formatCurrency', () => {
+  it('formats with the ISO exponent by default', () => {
+    expect(formatCurrency(4.5, 'USD')).toBe('$4.50');
+    expect(formatCurrency(1500, 'JPY')).toBe('¥1,500');
+  });
+
+  it('formats with store decimals when a platform is given', () => {
+    expect(formatCurrency(1.234, 'KWD', { platform: 'google' })).toMatch(/^KWD\s1\.23$/);
+  });
+
+  it('never throws for codes Intl rejects', () => {
+    expect(formatCurrency(12, 'not-a-code')).toBe('not-a-code 12.00');
+  });
+});
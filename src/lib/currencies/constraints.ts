@@ -0,0 +1,151 @@
+// Store rules a proposed price must satisfy. Checked in the bulk previews so a
+// bad row is fixed or deselected before submission, instead of the store
+// rejecting the PATCH partway through a run. Google's limits live in the
+// currency registry (scripts/data/google-play-price-ranges.csv); Apple's are
+// its price point ladder and the territories IAP pricing supports.
+import {
+  findClosestTierForCurrency,
+  getPriceTiersForCurrency,
+} from '../apple-connect/price-tier-data';
+import { alpha2ToAlpha3, UNSUPPORTED_IAP_TERRITORIES } from '../apple-connect/territories';
+import type { PriceTraceStep } from '../google-play/currency';
+import { numberToNanos, roundAmount, roundNanos } from '../google-play/money';
+import {
+  formatCurrency,
+  getCurrencyInfo,
+  getPriceDecimals,
+  type StorePlatform,
+} from './registry';
+
+export type PriceConstraintRule =
+  | 'min-price'
+  | 'max-price'
+  | 'decimals'
+  | 'price-step'
+  | 'price-point'
+  | 'unsupported-territory';
+
+export interface PriceViolation {
+  rule: PriceConstraintRule;
+  /** The rule as the store states it, for display */
+  message: string;
+}
+
+export interface PriceConstraintCheck {
+  violations: PriceViolation[];
+  /** Closest price the store accepts; unset when no price would be (e.g. unsupported territory) */
+  fixedPrice?: number;
+}
+
+export interface StorePriceRow {
+  regionCode: string;
+  currencyCode: string;
+  price: number;
+}
+
+const ZERO = BigInt(0);
+
+export function checkGooglePrice(price: number, currencyCode: string): PriceConstraintCheck {
+  const info = getCurrencyInfo(currencyCode);
+  const decimals = getPriceDecimals(currencyCode, 'google');
+  const format = (amount: number) => formatCurrency(amount, currencyCode, { platform: 'google' });
+  const violations: PriceViolation[] = [];
+
+  const min = info?.googleMinPrice;
+  const max = info?.googleMaxPrice;
+  const step = info?.googlePriceStep;
+  if (min !== undefined && price < min) {
+    violations.push({ rule: 'min-price', message: `Google Play's minimum ${currencyCode} price is ${format(min)}` });
+  }
+  if (max !== undefined && price > max) {
+    violations.push({ rule: 'max-price', message: `Google Play's maximum ${currencyCode} price is ${format(max)}` });
+  }
+  const nanos = numberToNanos(price);
+  if (roundNanos(nanos, decimals) !== nanos) {
+    violations.push({
+      rule: 'decimals',
+      message: decimals === 0
+        ? `Google Play only accepts whole ${currencyCode} amounts`
+        : `Google Play accepts at most ${decimals} decimals for ${currencyCode}`,
+    });
+  } else if (step !== undefined && nanos % numberToNanos(step) !== ZERO) {
+    violations.push({ rule: 'price-step', message: `Google Play requires ${currencyCode} prices in multiples of ${step}` });
+  }
+
+  if (violations.length === 0) return { violations };
+
+  // Nearest multiple of the step, then pulled inside the range on the step grid
+  const unit = step ?? 10 ** -decimals;
+  let fixed = Math.round(price / unit) * unit;
+  if (min !== undefined && fixed < min) fixed = Math.ceil(min / unit) * unit;
+  if (max !== undefined && fixed > max) fixed = Math.floor(max / unit) * unit;
+  return { violations, fixedPrice: roundAmount(fixed, decimals) };
+}
+
+// `territory` may be alpha-2 (as the previews key regions) or alpha-3
+export function checkApplePrice(
+  price: number,
+  currencyCode: string,
+  territory: string
+): PriceConstraintCheck {
+  const alpha3 = territory.length === 2 ? (alpha2ToAlpha3(territory) ?? territory) : territory;
+  if (UNSUPPORTED_IAP_TERRITORIES.includes(alpha3.toUpperCase())) {
+    return {
+      violations: [{ rule: 'unsupported-territory', message: `App Store Connect does not accept in-app prices for ${alpha3}` }],
+    };
+  }
+
+  const tiers = getPriceTiersForCurrency(currencyCode);
+  if (tiers.some((tier) => tier.price === price)) return { violations: [] };
+
+  const closest = findClosestTierForCurrency(price, currencyCode);
+  return {
+    violations: [{
+      rule: 'price-point',
+      message: closest
+        ? `${formatCurrency(price, currencyCode, { platform: 'apple' })} is not an App Store price point`
+        : `No App Store price points are known for ${currencyCode}`,
+    }],
+    fixedPrice: closest?.price,
+  };
+}
+
+export function checkStorePrice(platform: StorePlatform, row: StorePriceRow): PriceConstraintCheck {
+  return platform === 'apple'
+    ? checkApplePrice(row.price, row.currencyCode, row.regionCode)
+    : checkGooglePrice(row.price, row.currencyCode);
+}
+
+export interface StoreRuleHit {
+  violations: PriceViolation[];
+  /** Price the strategy produced */
+  proposedPrice: number;
+  /** Price submitted instead; unset when the row blocks the run */
+  fixedPrice?: number;
+}
+
+// Check a proposed price and, with autoFix, pick the closest accepted price to
+// submit instead. Undefined when the price passes.
+export function enforceStoreRules(
+  platform: StorePlatform,
+  row: StorePriceRow,
+  autoFix: boolean
+): StoreRuleHit | undefined {
+  const check = checkStorePrice(platform, row);
+  if (check.violations.length === 0) return undefined;
+  return {
+    violations: check.violations,
+    proposedPrice: row.price,
+    fixedPrice: autoFix ? check.fixedPrice : undefined,
+  };
+}
+
+// Trace step for a price replaced to satisfy a store rule
+export function storeRuleTraceStep(hit: StoreRuleHit, currencyCode: string): PriceTraceStep {
+  return {
+    step: 'store-rule',
+    detail: hit.violations.map((v) => v.message).join('; '),
+    value: hit.fixedPrice,
+    currency: currencyCode,
+  };
+}
@@ -0,0 +1,1413 @@
+// Auto-generated by scripts/generate-currency-metadata.mjs — do not edit by hand.
+// Source: ISO 4217 (minor units), Unicode CLDR via Node ICU 77.1
+// (names, symbols, locales), Google Play whole-unit currencies, Apple tier ladder,
+// Google Play price ranges (scripts/data/google-play-price-ranges.csv, snapshot 2025-06).
+
+import type { CurrencyInfo } from './registry';
+
+export const CURRENCY_DATA: Record<string, CurrencyInfo> = {
+  AED: {
+    code: 'AED',
+    name: 'United Arab Emirates Dirham',
+    minorUnits: 2,
+    symbol: 'AED',
+    nativeSymbol: 'د.إ.',
+    locale: 'ar-AE',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.25,
+    googleMaxPrice: 3700,
+  },
+  ALL: {
+    code: 'ALL',
+    name: 'Albanian Lek',
+    minorUnits: 2,
+    symbol: 'ALL',
+    nativeSymbol: 'Lekë',
+    locale: 'sq-AL',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  AMD: {
+    code: 'AMD',
+    name: 'Armenian Dram',
+    minorUnits: 2,
+    symbol: 'AMD',
+    nativeSymbol: '֏',
+    locale: 'hy-AM',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  AOA: {
+    code: 'AOA',
+    name: 'Angolan Kwanza',
+    minorUnits: 2,
+    symbol: 'AOA',
+    nativeSymbol: 'Kz',
+    locale: 'pt-AO',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  ARS: {
+    code: 'ARS',
+    name: 'Argentine Peso',
+    minorUnits: 2,
+    symbol: 'ARS',
+    nativeSymbol: '$',
+    locale: 'es-AR',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  AUD: {
+    code: 'AUD',
+    name: 'Australian Dollar',
+    minorUnits: 2,
+    symbol: 'A$',
+    nativeSymbol: '$',
+    locale: 'en-AU',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.1,
+    googleMaxPrice: 1500,
+  },
+  AZN: {
+    code: 'AZN',
+    name: 'Azerbaijani Manat',
+    minorUnits: 2,
+    symbol: 'AZN',
+    nativeSymbol: '₼',
+    locale: 'az-AZ',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BAM: {
+    code: 'BAM',
+    name: 'Bosnia-Herzegovina Convertible Mark',
+    minorUnits: 2,
+    symbol: 'BAM',
+    nativeSymbol: 'KM',
+    locale: 'bs-BA',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BBD: {
+    code: 'BBD',
+    name: 'Barbadian Dollar',
+    minorUnits: 2,
+    symbol: 'BBD',
+    nativeSymbol: '$',
+    locale: 'en-BB',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BDT: {
+    code: 'BDT',
+    name: 'Bangladeshi Taka',
+    minorUnits: 2,
+    symbol: 'BDT',
+    nativeSymbol: '৳',
+    locale: 'bn-BD',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 5,
+    googleMaxPrice: 85000,
+  },
+  BGN: {
+    code: 'BGN',
+    name: 'Bulgarian Lev',
+    minorUnits: 2,
+    symbol: 'BGN',
+    nativeSymbol: 'лв.',
+    locale: 'bg-BG',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BHD: {
+    code: 'BHD',
+    name: 'Bahraini Dinar',
+    minorUnits: 3,
+    symbol: 'BHD',
+    nativeSymbol: 'د.ب.',
+    locale: 'ar-BH',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BND: {
+    code: 'BND',
+    name: 'Brunei Dollar',
+    minorUnits: 2,
+    symbol: 'BND',
+    nativeSymbol: '$',
+    locale: 'ms-BN',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BOB: {
+    code: 'BOB',
+    name: 'Bolivian Boliviano',
+    minorUnits: 2,
+    symbol: 'BOB',
+    nativeSymbol: 'Bs',
+    locale: 'es-BO',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.35,
+    googleMaxPrice: 7000,
+  },
+  BRL: {
+    code: 'BRL',
+    name: 'Brazilian Real',
+    minorUnits: 2,
+    symbol: 'R$',
+    nativeSymbol: 'R$',
+    locale: 'pt-BR',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.25,
+    googleMaxPrice: 5500,
+  },
+  BTN: {
+    code: 'BTN',
+    name: 'Bhutanese Ngultrum',
+    minorUnits: 2,
+    symbol: 'BTN',
+    nativeSymbol: 'Nu.',
+    locale: 'dz-BT',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BWP: {
+    code: 'BWP',
+    name: 'Botswanan Pula',
+    minorUnits: 2,
+    symbol: 'BWP',
+    nativeSymbol: 'P',
+    locale: 'en-BW',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BYN: {
+    code: 'BYN',
+    name: 'Belarusian Ruble',
+    minorUnits: 2,
+    symbol: 'BYN',
+    nativeSymbol: 'Br',
+    locale: 'be-BY',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  BZD: {
+    code: 'BZD',
+    name: 'Belize Dollar',
+    minorUnits: 2,
+    symbol: 'BZD',
+    nativeSymbol: '$',
+    locale: 'en-BZ',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  CAD: {
+    code: 'CAD',
+    name: 'Canadian Dollar',
+    minorUnits: 2,
+    symbol: 'CA$',
+    nativeSymbol: '$',
+    locale: 'en-CA',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.05,
+    googleMaxPrice: 1350,
+  },
+  CDF: {
+    code: 'CDF',
+    name: 'Congolese Franc',
+    minorUnits: 2,
+    symbol: 'CDF',
+    nativeSymbol: 'FC',
+    locale: 'fr-CD',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  CHF: {
+    code: 'CHF',
+    name: 'Swiss Franc',
+    minorUnits: 2,
+    symbol: 'CHF',
+    nativeSymbol: 'CHF',
+    locale: 'de-CH',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.05,
+    googleMaxPrice: 950,
+  },
+  CLP: {
+    code: 'CLP',
+    name: 'Chilean Peso',
+    minorUnits: 0,
+    symbol: 'CLP',
+    nativeSymbol: '$',
+    locale: 'es-CL',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 50,
+    googleMaxPrice: 950000,
+  },
+  CNY: {
+    code: 'CNY',
+    name: 'Chinese Yuan',
+    minorUnits: 2,
+    symbol: 'CN¥',
+    nativeSymbol: '¥',
+    locale: 'zh-CN',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  COP: {
+    code: 'COP',
+    name: 'Colombian Peso',
+    minorUnits: 2,
+    symbol: 'COP',
+    nativeSymbol: '$',
+    locale: 'es-CO',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 200,
+    googleMaxPrice: 4000000,
+  },
+  CRC: {
+    code: 'CRC',
+    name: 'Costa Rican Colón',
+    minorUnits: 2,
+    symbol: 'CRC',
+    nativeSymbol: '₡',
+    locale: 'es-CR',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 35,
+    googleMaxPrice: 600000,
+  },
+  CVE: {
+    code: 'CVE',
+    name: 'Cape Verdean Escudo',
+    minorUnits: 2,
+    symbol: 'CVE',
+    nativeSymbol: '​',
+    locale: 'pt-CV',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  CZK: {
+    code: 'CZK',
+    name: 'Czech Koruna',
+    minorUnits: 2,
+    symbol: 'CZK',
+    nativeSymbol: 'Kč',
+    locale: 'cs-CZ',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 1,
+    googleMaxPrice: 23000,
+  },
+  DKK: {
+    code: 'DKK',
+    name: 'Danish Krone',
+    minorUnits: 2,
+    symbol: 'DKK',
+    nativeSymbol: 'kr.',
+    locale: 'da-DK',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 0.4,
+    googleMaxPrice: 6800,
+  },
+  DOP: {
+    code: 'DOP',
+    name: 'Dominican Peso',
+    minorUnits: 2,
+    symbol: 'DOP',
+    nativeSymbol: '$',
+    locale: 'es-DO',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  DZD: {
+    code: 'DZD',
+    name: 'Algerian Dinar',
+    minorUnits: 2,
+    symbol: 'DZD',
+    nativeSymbol: 'د.ج.',
+    locale: 'ar-DZ',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 7,
+    googleMaxPrice: 135000,
+  },
+  EGP: {
+    code: 'EGP',
+    name: 'Egyptian Pound',
+    minorUnits: 2,
+    symbol: 'EGP',
+    nativeSymbol: 'E£',
+    locale: 'ar-EG',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 1,
+    googleMaxPrice: 50000,
+  },
+  EUR: {
+    code: 'EUR',
+    name: 'Euro',
+    minorUnits: 2,
+    symbol: '€',
+    nativeSymbol: '€',
+    locale: 'de-DE',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.05,
+    googleMaxPrice: 900,
+  },
+  FJD: {
+    code: 'FJD',
+    name: 'Fijian Dollar',
+    minorUnits: 2,
+    symbol: 'FJD',
+    nativeSymbol: '$',
+    locale: 'en-FJ',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  GBP: {
+    code: 'GBP',
+    name: 'British Pound',
+    minorUnits: 2,
+    symbol: '£',
+    nativeSymbol: '£',
+    locale: 'en-GB',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.05,
+    googleMaxPrice: 800,
+  },
+  GEL: {
+    code: 'GEL',
+    name: 'Georgian Lari',
+    minorUnits: 2,
+    symbol: 'GEL',
+    nativeSymbol: '₾',
+    locale: 'ka-GE',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.15,
+    googleMaxPrice: 2700,
+  },
+  GHS: {
+    code: 'GHS',
+    name: 'Ghanaian Cedi',
+    minorUnits: 2,
+    symbol: 'GHS',
+    nativeSymbol: 'GH₵',
+    locale: 'ak-GH',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.35,
+    googleMaxPrice: 12000,
+  },
+  GMD: {
+    code: 'GMD',
+    name: 'Gambian Dalasi',
+    minorUnits: 2,
+    symbol: 'GMD',
+    nativeSymbol: 'D',
+    locale: 'en-GM',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  GTQ: {
+    code: 'GTQ',
+    name: 'Guatemalan Quetzal',
+    minorUnits: 2,
+    symbol: 'GTQ',
+    nativeSymbol: 'Q',
+    locale: 'es-GT',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  GYD: {
+    code: 'GYD',
+    name: 'Guyanaese Dollar',
+    minorUnits: 2,
+    symbol: 'GYD',
+    nativeSymbol: '$',
+    locale: 'en-GY',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  HKD: {
+    code: 'HKD',
+    name: 'Hong Kong Dollar',
+    minorUnits: 2,
+    symbol: 'HK$',
+    nativeSymbol: '$',
+    locale: 'zh-HK',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 0.4,
+    googleMaxPrice: 7800,
+  },
+  HNL: {
+    code: 'HNL',
+    name: 'Honduran Lempira',
+    minorUnits: 2,
+    symbol: 'HNL',
+    nativeSymbol: 'L',
+    locale: 'es-HN',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  HUF: {
+    code: 'HUF',
+    name: 'Hungarian Forint',
+    minorUnits: 2,
+    symbol: 'HUF',
+    nativeSymbol: 'Ft',
+    locale: 'hu-HU',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 15,
+    googleMaxPrice: 360000,
+  },
+  IDR: {
+    code: 'IDR',
+    name: 'Indonesian Rupiah',
+    minorUnits: 2,
+    symbol: 'IDR',
+    nativeSymbol: 'Rp',
+    locale: 'id-ID',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 500,
+    googleMaxPrice: 15000000,
+  },
+  ILS: {
+    code: 'ILS',
+    name: 'Israeli New Shekel',
+    minorUnits: 2,
+    symbol: '₪',
+    nativeSymbol: '₪',
+    locale: 'he-IL',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.2,
+    googleMaxPrice: 3700,
+  },
+  INR: {
+    code: 'INR',
+    name: 'Indian Rupee',
+    minorUnits: 2,
+    symbol: '₹',
+    nativeSymbol: '₹',
+    locale: 'en-IN',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 10,
+    googleMaxPrice: 83000,
+  },
+  IQD: {
+    code: 'IQD',
+    name: 'Iraqi Dinar',
+    minorUnits: 3,
+    symbol: 'IQD',
+    nativeSymbol: 'د.ع.',
+    locale: 'ar-IQ',
+    googleDecimals: false,
+    appleDecimals: true,
+    googleMinPrice: 70,
+    googleMaxPrice: 1300000,
+  },
+  ISK: {
+    code: 'ISK',
+    name: 'Icelandic Króna',
+    minorUnits: 0,
+    symbol: 'ISK',
+    nativeSymbol: 'kr.',
+    locale: 'is-IS',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  JMD: {
+    code: 'JMD',
+    name: 'Jamaican Dollar',
+    minorUnits: 2,
+    symbol: 'JMD',
+    nativeSymbol: '$',
+    locale: 'en-JM',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  JOD: {
+    code: 'JOD',
+    name: 'Jordanian Dinar',
+    minorUnits: 3,
+    symbol: 'JOD',
+    nativeSymbol: 'د.أ.',
+    locale: 'ar-JO',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.04,
+    googleMaxPrice: 700,
+  },
+  JPY: {
+    code: 'JPY',
+    name: 'Japanese Yen',
+    minorUnits: 0,
+    symbol: '¥',
+    nativeSymbol: '￥',
+    locale: 'ja-JP',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 10,
+    googleMaxPrice: 150000,
+  },
+  KES: {
+    code: 'KES',
+    name: 'Kenyan Shilling',
+    minorUnits: 2,
+    symbol: 'KES',
+    nativeSymbol: 'Ksh',
+    locale: 'en-KE',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 5,
+    googleMaxPrice: 130000,
+  },
+  KGS: {
+    code: 'KGS',
+    name: 'Kyrgystani Som',
+    minorUnits: 2,
+    symbol: 'KGS',
+    nativeSymbol: '⃀',
+    locale: 'ky-KG',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  KHR: {
+    code: 'KHR',
+    name: 'Cambodian Riel',
+    minorUnits: 2,
+    symbol: 'KHR',
+    nativeSymbol: '៛',
+    locale: 'km-KH',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  KRW: {
+    code: 'KRW',
+    name: 'South Korean Won',
+    minorUnits: 0,
+    symbol: '₩',
+    nativeSymbol: '₩',
+    locale: 'ko-KR',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 100,
+    googleMaxPrice: 1300000,
+  },
+  KWD: {
+    code: 'KWD',
+    name: 'Kuwaiti Dinar',
+    minorUnits: 3,
+    symbol: 'KWD',
+    nativeSymbol: 'د.ك.',
+    locale: 'ar-KW',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  KYD: {
+    code: 'KYD',
+    name: 'Cayman Islands Dollar',
+    minorUnits: 2,
+    symbol: 'KYD',
+    nativeSymbol: '$',
+    locale: 'en-KY',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  KZT: {
+    code: 'KZT',
+    name: 'Kazakhstani Tenge',
+    minorUnits: 2,
+    symbol: 'KZT',
+    nativeSymbol: '₸',
+    locale: 'ru-KZ',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 25,
+    googleMaxPrice: 470000,
+  },
+  LAK: {
+    code: 'LAK',
+    name: 'Laotian Kip',
+    minorUnits: 2,
+    symbol: 'LAK',
+    nativeSymbol: '₭',
+    locale: 'lo-LA',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  LBP: {
+    code: 'LBP',
+    name: 'Lebanese Pound',
+    minorUnits: 2,
+    symbol: 'LBP',
+    nativeSymbol: 'L£',
+    locale: 'ar-LB',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  LKR: {
+    code: 'LKR',
+    name: 'Sri Lankan Rupee',
+    minorUnits: 2,
+    symbol: 'LKR',
+    nativeSymbol: 'Rs',
+    locale: 'en-LK',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 15,
+    googleMaxPrice: 300000,
+  },
+  LRD: {
+    code: 'LRD',
+    name: 'Liberian Dollar',
+    minorUnits: 2,
+    symbol: 'LRD',
+    nativeSymbol: '$',
+    locale: 'en-LR',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  LYD: {
+    code: 'LYD',
+    name: 'Libyan Dinar',
+    minorUnits: 3,
+    symbol: 'LYD',
+    nativeSymbol: 'د.ل.',
+    locale: 'ar-LY',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MAD: {
+    code: 'MAD',
+    name: 'Moroccan Dirham',
+    minorUnits: 2,
+    symbol: 'MAD',
+    nativeSymbol: 'د.م.',
+    locale: 'ar-MA',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.5,
+    googleMaxPrice: 10000,
+  },
+  MDL: {
+    code: 'MDL',
+    name: 'Moldovan Leu',
+    minorUnits: 2,
+    symbol: 'MDL',
+    nativeSymbol: 'L',
+    locale: 'ro-MD',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MGA: {
+    code: 'MGA',
+    name: 'Malagasy Ariary',
+    minorUnits: 2,
+    symbol: 'MGA',
+    nativeSymbol: 'Ar',
+    locale: 'mg-MG',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MKD: {
+    code: 'MKD',
+    name: 'Macedonian Denar',
+    minorUnits: 2,
+    symbol: 'MKD',
+    nativeSymbol: 'ден.',
+    locale: 'mk-MK',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MMK: {
+    code: 'MMK',
+    name: 'Myanmar Kyat',
+    minorUnits: 2,
+    symbol: 'MMK',
+    nativeSymbol: 'K',
+    locale: 'my-MM',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 100,
+    googleMaxPrice: 2100000,
+  },
+  MNT: {
+    code: 'MNT',
+    name: 'Mongolian Tugrik',
+    minorUnits: 2,
+    symbol: 'MNT',
+    nativeSymbol: '₮',
+    locale: 'mn-MN',
+    googleDecimals: false,
+    appleDecimals: true,
+    googleMinPrice: 150,
+    googleMaxPrice: 3400000,
+  },
+  MOP: {
+    code: 'MOP',
+    name: 'Macanese Pataca',
+    minorUnits: 2,
+    symbol: 'MOP',
+    nativeSymbol: 'MOP$',
+    locale: 'zh-MO',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.4,
+    googleMaxPrice: 8000,
+  },
+  MRU: {
+    code: 'MRU',
+    name: 'Mauritanian Ouguiya',
+    minorUnits: 2,
+    symbol: 'MRU',
+    nativeSymbol: 'أ.م.',
+    locale: 'ar-MR',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MUR: {
+    code: 'MUR',
+    name: 'Mauritian Rupee',
+    minorUnits: 2,
+    symbol: 'MUR',
+    nativeSymbol: 'Rs',
+    locale: 'fr-MU',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MVR: {
+    code: 'MVR',
+    name: 'Maldivian Rufiyaa',
+    minorUnits: 2,
+    symbol: 'MVR',
+    nativeSymbol: 'MVR',
+    locale: 'dv-MV',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MWK: {
+    code: 'MWK',
+    name: 'Malawian Kwacha',
+    minorUnits: 2,
+    symbol: 'MWK',
+    nativeSymbol: 'MK',
+    locale: 'en-MW',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  MXN: {
+    code: 'MXN',
+    name: 'Mexican Peso',
+    minorUnits: 2,
+    symbol: 'MX$',
+    nativeSymbol: '$',
+    locale: 'es-MX',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 1,
+    googleMaxPrice: 17000,
+  },
+  MYR: {
+    code: 'MYR',
+    name: 'Malaysian Ringgit',
+    minorUnits: 2,
+    symbol: 'MYR',
+    nativeSymbol: 'RM',
+    locale: 'ms-MY',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.2,
+    googleMaxPrice: 4700,
+  },
+  MZN: {
+    code: 'MZN',
+    name: 'Mozambican Metical',
+    minorUnits: 2,
+    symbol: 'MZN',
+    nativeSymbol: 'MTn',
+    locale: 'pt-MZ',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  NAD: {
+    code: 'NAD',
+    name: 'Namibian Dollar',
+    minorUnits: 2,
+    symbol: 'NAD',
+    nativeSymbol: '$',
+    locale: 'af-NA',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  NGN: {
+    code: 'NGN',
+    name: 'Nigerian Naira',
+    minorUnits: 2,
+    symbol: 'NGN',
+    nativeSymbol: '₦',
+    locale: 'en-NG',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 20,
+    googleMaxPrice: 1500000,
+  },
+  NIO: {
+    code: 'NIO',
+    name: 'Nicaraguan Córdoba',
+    minorUnits: 2,
+    symbol: 'NIO',
+    nativeSymbol: 'C$',
+    locale: 'es-NI',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  NOK: {
+    code: 'NOK',
+    name: 'Norwegian Krone',
+    minorUnits: 2,
+    symbol: 'NOK',
+    nativeSymbol: 'kr',
+    locale: 'nb-NO',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 0.5,
+    googleMaxPrice: 10500,
+  },
+  NPR: {
+    code: 'NPR',
+    name: 'Nepalese Rupee',
+    minorUnits: 2,
+    symbol: 'NPR',
+    nativeSymbol: 'रू',
+    locale: 'ne-NP',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  NZD: {
+    code: 'NZD',
+    name: 'New Zealand Dollar',
+    minorUnits: 2,
+    symbol: 'NZ$',
+    nativeSymbol: '$',
+    locale: 'en-NZ',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.1,
+    googleMaxPrice: 1650,
+  },
+  OMR: {
+    code: 'OMR',
+    name: 'Omani Rial',
+    minorUnits: 3,
+    symbol: 'OMR',
+    nativeSymbol: 'ر.ع.',
+    locale: 'ar-OM',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  PAB: {
+    code: 'PAB',
+    name: 'Panamanian Balboa',
+    minorUnits: 2,
+    symbol: 'PAB',
+    nativeSymbol: 'B/.',
+    locale: 'es-PA',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  PEN: {
+    code: 'PEN',
+    name: 'Peruvian Sol',
+    minorUnits: 2,
+    symbol: 'PEN',
+    nativeSymbol: 'S/',
+    locale: 'es-PE',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.2,
+    googleMaxPrice: 3700,
+  },
+  PGK: {
+    code: 'PGK',
+    name: 'Papua New Guinean Kina',
+    minorUnits: 2,
+    symbol: 'PGK',
+    nativeSymbol: 'PGK',
+    locale: 'tpi-PG',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  PHP: {
+    code: 'PHP',
+    name: 'Philippine Peso',
+    minorUnits: 2,
+    symbol: '₱',
+    nativeSymbol: '₱',
+    locale: 'en-PH',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 2,
+    googleMaxPrice: 56000,
+  },
+  PKR: {
+    code: 'PKR',
+    name: 'Pakistani Rupee',
+    minorUnits: 2,
+    symbol: 'PKR',
+    nativeSymbol: 'Rs',
+    locale: 'en-PK',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 10,
+    googleMaxPrice: 280000,
+  },
+  PLN: {
+    code: 'PLN',
+    name: 'Polish Zloty',
+    minorUnits: 2,
+    symbol: 'PLN',
+    nativeSymbol: 'zł',
+    locale: 'pl-PL',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.2,
+    googleMaxPrice: 4000,
+  },
+  PYG: {
+    code: 'PYG',
+    name: 'Paraguayan Guarani',
+    minorUnits: 0,
+    symbol: 'PYG',
+    nativeSymbol: '₲',
+    locale: 'gn-PY',
+    googleDecimals: false,
+    appleDecimals: true,
+    googleMinPrice: 350,
+    googleMaxPrice: 7300000,
+  },
+  QAR: {
+    code: 'QAR',
+    name: 'Qatari Riyal',
+    minorUnits: 2,
+    symbol: 'QAR',
+    nativeSymbol: 'ر.ق.',
+    locale: 'ar-QA',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.2,
+    googleMaxPrice: 3600,
+  },
+  RON: {
+    code: 'RON',
+    name: 'Romanian Leu',
+    minorUnits: 2,
+    symbol: 'RON',
+    nativeSymbol: 'lei',
+    locale: 'ro-RO',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.25,
+    googleMaxPrice: 4600,
+  },
+  RSD: {
+    code: 'RSD',
+    name: 'Serbian Dinar',
+    minorUnits: 2,
+    symbol: 'RSD',
+    nativeSymbol: 'RSD',
+    locale: 'sr-RS',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 5,
+    googleMaxPrice: 105000,
+  },
+  RUB: {
+    code: 'RUB',
+    name: 'Russian Ruble',
+    minorUnits: 2,
+    symbol: 'RUB',
+    nativeSymbol: '₽',
+    locale: 'ru-RU',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 5,
+    googleMaxPrice: 90000,
+  },
+  RWF: {
+    code: 'RWF',
+    name: 'Rwandan Franc',
+    minorUnits: 0,
+    symbol: 'RWF',
+    nativeSymbol: 'RF',
+    locale: 'rw-RW',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  SAR: {
+    code: 'SAR',
+    name: 'Saudi Riyal',
+    minorUnits: 2,
+    symbol: 'SAR',
+    nativeSymbol: 'ر.س.',
+    locale: 'ar-SA',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.2,
+    googleMaxPrice: 3750,
+  },
+  SBD: {
+    code: 'SBD',
+    name: 'Solomon Islands Dollar',
+    minorUnits: 2,
+    symbol: 'SBD',
+    nativeSymbol: '$',
+    locale: 'en-SB',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  SCR: {
+    code: 'SCR',
+    name: 'Seychellois Rupee',
+    minorUnits: 2,
+    symbol: 'SCR',
+    nativeSymbol: 'SR',
+    locale: 'fr-SC',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  SEK: {
+    code: 'SEK',
+    name: 'Swedish Krona',
+    minorUnits: 2,
+    symbol: 'SEK',
+    nativeSymbol: 'kr',
+    locale: 'sv-SE',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 0.5,
+    googleMaxPrice: 10500,
+  },
+  SGD: {
+    code: 'SGD',
+    name: 'Singapore Dollar',
+    minorUnits: 2,
+    symbol: 'SGD',
+    nativeSymbol: '$',
+    locale: 'en-SG',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.1,
+    googleMaxPrice: 1350,
+  },
+  SLL: {
+    code: 'SLL',
+    name: 'Sierra Leonean Leone (1964—2022)',
+    minorUnits: 2,
+    symbol: 'SLL',
+    nativeSymbol: 'SLL',
+    locale: 'en-SL',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  SRD: {
+    code: 'SRD',
+    name: 'Surinamese Dollar',
+    minorUnits: 2,
+    symbol: 'SRD',
+    nativeSymbol: '$',
+    locale: 'nl-SR',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  STN: {
+    code: 'STN',
+    name: 'São Tomé & Príncipe Dobra',
+    minorUnits: 2,
+    symbol: 'STN',
+    nativeSymbol: 'Db',
+    locale: 'pt-ST',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  SZL: {
+    code: 'SZL',
+    name: 'Swazi Lilangeni',
+    minorUnits: 2,
+    symbol: 'SZL',
+    nativeSymbol: 'E',
+    locale: 'en-SZ',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  THB: {
+    code: 'THB',
+    name: 'Thai Baht',
+    minorUnits: 2,
+    symbol: 'THB',
+    nativeSymbol: '฿',
+    locale: 'th-TH',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 2,
+    googleMaxPrice: 35000,
+  },
+  TJS: {
+    code: 'TJS',
+    name: 'Tajikistani Somoni',
+    minorUnits: 2,
+    symbol: 'TJS',
+    nativeSymbol: 'сом.',
+    locale: 'tg-TJ',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  TMT: {
+    code: 'TMT',
+    name: 'Turkmenistani Manat',
+    minorUnits: 2,
+    symbol: 'TMT',
+    nativeSymbol: 'TMT',
+    locale: 'tk-TM',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  TND: {
+    code: 'TND',
+    name: 'Tunisian Dinar',
+    minorUnits: 3,
+    symbol: 'TND',
+    nativeSymbol: 'د.ت.',
+    locale: 'ar-TN',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  TOP: {
+    code: 'TOP',
+    name: 'Tongan Paʻanga',
+    minorUnits: 2,
+    symbol: 'TOP',
+    nativeSymbol: 'T$',
+    locale: 'to-TO',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  TRY: {
+    code: 'TRY',
+    name: 'Turkish Lira',
+    minorUnits: 2,
+    symbol: 'TRY',
+    nativeSymbol: '₺',
+    locale: 'tr-TR',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 1,
+    googleMaxPrice: 32000,
+  },
+  TTD: {
+    code: 'TTD',
+    name: 'Trinidad & Tobago Dollar',
+    minorUnits: 2,
+    symbol: 'TTD',
+    nativeSymbol: '$',
+    locale: 'en-TT',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  TWD: {
+    code: 'TWD',
+    name: 'New Taiwan Dollar',
+    minorUnits: 2,
+    symbol: 'NT$',
+    nativeSymbol: '$',
+    locale: 'zh-TW',
+    googleDecimals: true,
+    appleDecimals: false,
+    googleMinPrice: 2,
+    googleMaxPrice: 32000,
+  },
+  TZS: {
+    code: 'TZS',
+    name: 'Tanzanian Shilling',
+    minorUnits: 2,
+    symbol: 'TZS',
+    nativeSymbol: 'TSh',
+    locale: 'en-TZ',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 100,
+    googleMaxPrice: 2600000,
+  },
+  UAH: {
+    code: 'UAH',
+    name: 'Ukrainian Hryvnia',
+    minorUnits: 2,
+    symbol: 'UAH',
+    nativeSymbol: '₴',
+    locale: 'uk-UA',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 1,
+    googleMaxPrice: 41000,
+  },
+  UGX: {
+    code: 'UGX',
+    name: 'Ugandan Shilling',
+    minorUnits: 0,
+    symbol: 'UGX',
+    nativeSymbol: 'USh',
+    locale: 'en-UG',
+    googleDecimals: false,
+    appleDecimals: true,
+  },
+  USD: {
+    code: 'USD',
+    name: 'US Dollar',
+    minorUnits: 2,
+    symbol: '$',
+    nativeSymbol: '$',
+    locale: 'en-US',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 0.05,
+    googleMaxPrice: 999.99,
+  },
+  UYU: {
+    code: 'UYU',
+    name: 'Uruguayan Peso',
+    minorUnits: 2,
+    symbol: 'UYU',
+    nativeSymbol: '$',
+    locale: 'es-UY',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  UZS: {
+    code: 'UZS',
+    name: 'Uzbekistani Som',
+    minorUnits: 2,
+    symbol: 'UZS',
+    nativeSymbol: 'soʻm',
+    locale: 'uz-UZ',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  VND: {
+    code: 'VND',
+    name: 'Vietnamese Dong',
+    minorUnits: 0,
+    symbol: '₫',
+    nativeSymbol: '₫',
+    locale: 'vi-VN',
+    googleDecimals: false,
+    appleDecimals: false,
+    googleMinPrice: 1000,
+    googleMaxPrice: 25000000,
+  },
+  VUV: {
+    code: 'VUV',
+    name: 'Vanuatu Vatu',
+    minorUnits: 0,
+    symbol: 'VUV',
+    nativeSymbol: 'VUV',
+    locale: 'bi-VU',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  WST: {
+    code: 'WST',
+    name: 'Samoan Tala',
+    minorUnits: 2,
+    symbol: 'WST',
+    nativeSymbol: 'WST',
+    locale: 'sm-WS',
+    googleDecimals: true,
+    appleDecimals: false,
+  },
+  XAF: {
+    code: 'XAF',
+    name: 'Central African CFA Franc',
+    minorUnits: 0,
+    symbol: 'FCFA',
+    nativeSymbol: 'FCFA',
+    locale: 'fr-CM',
+    googleDecimals: false,
+    appleDecimals: true,
+    googleMinPrice: 100,
+    googleMaxPrice: 600000,
+    googlePriceStep: 100,
+  },
+  XCD: {
+    code: 'XCD',
+    name: 'East Caribbean Dollar',
+    minorUnits: 2,
+    symbol: 'EC$',
+    nativeSymbol: '$',
+    locale: 'en-AG',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  XOF: {
+    code: 'XOF',
+    name: 'West African CFA Franc',
+    minorUnits: 0,
+    symbol: 'F CFA',
+    nativeSymbol: 'F CFA',
+    locale: 'fr-SN',
+    googleDecimals: false,
+    appleDecimals: true,
+    googleMinPrice: 100,
+    googleMaxPrice: 600000,
+    googlePriceStep: 100,
+  },
+  YER: {
+    code: 'YER',
+    name: 'Yemeni Rial',
+    minorUnits: 2,
+    symbol: 'YER',
+    nativeSymbol: 'ر.ي.',
+    locale: 'ar-YE',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+  ZAR: {
+    code: 'ZAR',
+    name: 'South African Rand',
+    minorUnits: 2,
+    symbol: 'ZAR',
+    nativeSymbol: 'R',
+    locale: 'en-ZA',
+    googleDecimals: true,
+    appleDecimals: true,
+    googleMinPrice: 1,
+    googleMaxPrice: 18000,
+  },
+  ZMW: {
+    code: 'ZMW',
+    name: 'Zambian Kwacha',
+    minorUnits: 2,
+    symbol: 'ZMW',
+    nativeSymbol: 'ZK',
+    locale: 'en-ZM',
+    googleDecimals: true,
+    appleDecimals: true,
+  },
+};
@@ -0,0 +1,109 @@
+// Canonical per-currency metadata (ISO 4217 + store rules). Everything that
+// formats, parses or rounds an amount by currency reads it from here, so
+// adding a currency means regenerating currency-data.ts and nothing else:
+//   node scripts/generate-currency-metadata.mjs
+import { CURRENCY_DATA } from './currency-data';
+
+export type StorePlatform = 'google' | 'apple';
+
+export interface CurrencyInfo {
+  /** ISO 4217 alphabetic code */
+  code: string;
+  name: string;
+  /** ISO 4217 exponent: 2 for USD, 0 for JPY, 3 for KWD */
+  minorUnits: number;
+  /** Symbol as shown in the app's en-US UI, e.g. "CA$" */
+  symbol: string;
+  /** Symbol in the currency's own locale, e.g. "$" for CAD */
+  nativeSymbol: string;
+  /** BCP 47 locale used to format amounts the way local customers see them */
+  locale: string;
+  /** Google Play accepts fractional prices (false: whole units only) */
+  googleDecimals: boolean;
+  /** App Store price points carry fractional amounts */
+  appleDecimals: boolean;
+  /** Lowest and highest price Google Play accepts (unset: not billed on Google Play) */
+  googleMinPrice?: number;
+  googleMaxPrice?: number;
+  /** Google Play prices must be a multiple of this, e.g. 100 for CFA francs */
+  googlePriceStep?: number;
+}
+
+// Stores bill at most to the cent, whatever the ISO exponent
+const MAX_PRICE_DECIMALS = 2;
+
+export function getCurrencyInfo(currencyCode: string): CurrencyInfo | undefined {
+  return CURRENCY_DATA[currencyCode];
+}
+
+export function listCurrencies(): CurrencyInfo[] {
+  return Object.values(CURRENCY_DATA);
+}
+
+// Decimals a price in this currency may carry on a store. Without a platform,
+// the stricter of the two; unknown currencies are assumed to take cents.
+export function getPriceDecimals(currencyCode: string, platform?: StorePlatform): number {
+  const info = getCurrencyInfo(currencyCode);
+  if (!info) return MAX_PRICE_DECIMALS;
+  const accepts =
+    platform === 'google'
+      ? info.googleDecimals
+      : platform === 'apple'
+        ? info.appleDecimals
+        : info.googleDecimals && info.appleDecimals;
+  return accepts ? MAX_PRICE_DECIMALS : 0;
+}
+
+// Currencies Google Play prices in whole units
+export function listWholeUnitCurrencies(): string[] {
+  return listCurrencies()
+    .filter((info) => !info.googleDecimals)
+    .map((info) => info.code);
+}
+
+// Symbol for a currency code (e.g. "GBP" → "£"), falling back to Intl and
+// then the code itself for currencies outside the registry.
+export function getCurrencySymbol(currencyCode: string, native = false): string {
+  const info = getCurrencyInfo(currencyCode);
+  if (info) return native ? info.nativeSymbol : info.symbol;
+  try {
+    return (
+      new Intl.NumberFormat('en', { style: 'currency', currency: currencyCode })
+        .formatToParts(0)
+        .find((part) => part.type === 'currency')?.value || currencyCode
+    );
+  } catch {
+    return currencyCode;
+  }
+}
+
+interface FormatCurrencyOptions {
+  /** Show as many decimals as this store prices with; otherwise the ISO exponent */
+  platform?: StorePlatform;
+  /** Format in the currency's own locale instead of en-US */
+  native?: boolean;
+}
+
+// Format an amount with a consistent number of decimals per currency.
+// Never throws: unknown codes come back as "XYZ 12.00".
+export function formatCurrency(
+  amount: number,
+  currencyCode: string,
+  options: FormatCurrencyOptions = {}
+): string {
+  const info = getCurrencyInfo(currencyCode);
+  const decimals = options.platform
+    ? getPriceDecimals(currencyCode, options.platform)
+    : (info?.minorUnits ?? MAX_PRICE_DECIMALS);
+  try {
+    return new Intl.NumberFormat(options.native && info ? info.locale : 'en-US', {
+      style: 'currency',
+      currency: currencyCode,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  } catch {
+    // Not a currency Intl knows
+    return `${currencyCode} ${amount.toFixed(decimals)}`;
+  }
+}
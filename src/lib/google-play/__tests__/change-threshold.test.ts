@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeChangeThreshold,
+  hasChangeThreshold,
+  isBelowChangeThreshold,
+  splitByChangeThreshold,
+} from '../change-threshold';
+import { parseMoney } from '../types';
+
+const usd = (amount: number) => parseMoney(amount, 'USD');
+
+describe('isBelowChangeThreshold', () => {
+  it('never skips without a threshold or a live price', () => {
+    expect(isBelowChangeThreshold(usd(9.99), usd(9.99), undefined)).toBe(false);
+    expect(isBelowChangeThreshold(usd(9.99), usd(9.99), {})).toBe(false);
+    expect(isBelowChangeThreshold(undefined, usd(9.99), { relative: 0.05 })).toBe(false);
+  });
+
+  it('compares the change with a percentage of the live price', () => {
+    expect(isBelowChangeThreshold(usd(10), usd(10.19), { relative: 0.02 })).toBe(true);
+    // exactly on the bound clears it
+    expect(isBelowChangeThreshold(usd(10), usd(10.2), { relative: 0.02 })).toBe(false);
+    expect(isBelowChangeThreshold(usd(10), usd(9.79), { relative: 0.02 })).toBe(false);
+  });
+
+  it('compares the change with an absolute amount', () => {
+    expect(isBelowChangeThreshold(parseMoney(100, 'TRY'), parseMoney(104.99, 'TRY'), { absolute: 5 })).toBe(true);
+    expect(isBelowChangeThreshold(parseMoney(100, 'TRY'), parseMoney(105, 'TRY'), { absolute: 5 })).toBe(false);
+  });
+
+  it('requires a change to clear every bound that is set', () => {
+    // 5% clears the percentage but not the 1.00 absolute bound
+    expect(isBelowChangeThreshold(usd(10), usd(10.5), { relative: 0.02, absolute: 1 })).toBe(true);
+  });
+
+  it('treats a currency switch as a change', () => {
+    expect(isBelowChangeThreshold(parseMoney(10, 'ARS'), usd(10), { relative: 0.5 })).toBe(false);
+  });
+});
+
+describe('splitByChangeThreshold', () => {
+  it('separates regions worth writing from those left alone', () => {
+    const split = splitByChangeThreshold(
+      { US: usd(10.05), GB: parseMoney(8.99, 'GBP'), DE: parseMoney(9.99, 'EUR') },
+      { US: usd(9.99), GB: parseMoney(7.99, 'GBP') },
+      { relative: 0.02 },
+      (money) => money
+    );
+    expect(Object.keys(split.changed)).toEqual(['GB', 'DE']);
+    expect(split.unchanged).toEqual(['US']);
+  });
+});
+
+describe('describeChangeThreshold', () => {
+  it('lists the bounds that are set', () => {
+    expect(hasChangeThreshold({ relative: 0 })).toBe(false);
+    expect(describeChangeThreshold({ relative: 0.025, absolute: 1 })).toBe('2.5% and 1 in local currency');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { resolveCurrencyUnions, type CurrencyUnionMember } from '../currency-union';
+
+const eur = (alpha2: string, amount: number): CurrencyUnionMember => ({
+  regionCode: alpha2,
+  alpha2,
+  currencyCode: 'EUR',
+  amount,
+});
+
+const members: CurrencyUnionMember[] = [
+  eur('PT', 6.99),
+  eur('ES', 7.99),
+  eur('FR', 9.49),
+  eur('DE', 9.99),
+  eur('LU', 12.99),
+  { regionCode: 'US', alpha2: 'US', currencyCode: 'USD', amount: 9.99 },
+];
+
+const sharedAmount = (resolution: 'average' | 'median' | 'anchor' | 'lowest', baseRegion?: string) =>
+  resolveCurrencyUnions(members, { resolution }, baseRegion).get('PT')?.amount;
+
+describe('resolveCurrencyUnions', () => {
+  it('gives every member the same price and leaves single-region currencies alone', () => {
+    const unions = resolveCurrencyUnions(members, { resolution: 'median' });
+    const amounts = ['PT', 'ES', 'FR', 'DE', 'LU'].map((code) => unions.get(code)?.amount);
+    expect(new Set(amounts).size).toBe(1);
+    expect(unions.get('PT')?.regionCount).toBe(5);
+    expect(unions.has('US')).toBe(false);
+  });
+
+  it('resolves conflicts by average, median, lowest or anchor', () => {
+    // average 9.49: the member price closest to it
+    expect(sharedAmount('average')).toBe(9.49);
+    expect(sharedAmount('median')).toBe(9.49);
+    expect(sharedAmount('lowest')).toBe(6.99);
+    // Germany is the default EUR anchor; a EUR base region takes precedence
+    expect(sharedAmount('anchor')).toBe(9.99);
+    expect(sharedAmount('anchor', 'LU')).toBe(12.99);
+  });
+
+  it('falls back to the median when no anchor region is in the currency', () => {
+    const withoutDe = members.filter((m) => m.regionCode !== 'DE');
+    const pt = resolveCurrencyUnions(withoutDe, { resolution: 'anchor' }).get('PT');
+    expect(pt?.anchorMissing).toBe(true);
+    expect(pt?.amount).toBe(7.99);
+  });
+
+  it('only unifies the listed currencies', () => {
+    const unions = resolveCurrencyUnions(
+      [...members, { regionCode: 'EC', alpha2: 'EC', currencyCode: 'USD', amount: 4.99 }],
+      { resolution: 'lowest', currencies: ['EUR'] }
+    );
+    expect(unions.has('EC')).toBe(false);
+    expect(unions.get('LU')?.amount).toBe(6.99);
+  });
+});
@@ -2,6 +2,16 @@ import { describe, it, expect } from 'vitest';
 import {
   calculateRegionalPrice,
   calculateBulkPrices,
+  estimateProceeds,
+  getTaxBreakdown,
+  priceBandsUnavailableReason,
+  resolveAnchor,
+  type BlendConfig,
+  type DynamicPPPData,
+  type PriceAnchor,
+  type PricingRequest,
+  type RegionalPricingOptions,
+  type UnstableCurrencyPolicy,
 } from '../currency';
 import { calculateNewPrice } from '../products';
 import {
@@ -9,21 +19,23 @@ import {
   TEST_EXCHANGE_RATES,
   APPLE_BILLED_IN_USD,
 } from './fixtures/ppp-snapshot';
-import type { Money } from '../types';
+import { moneyToNumber, type Money } from '../types';
 import { getNetflixMultiplier } from '../../conversion-indexes/netflix';
+import { getBigMacMultiplier } from '../../conversion-indexes/big-mac';
+import { getSpotifyMultiplier } from '../../conversion-indexes/spotify';
+import { getGniMultiplier } from '../../conversion-indexes/gni';
+import { getPricingIndexEntry } from '../../conversion-indexes/ppp';
+import { findClosestTierForCurrency, getPriceTiersForCurrency } from '../../apple-connect/price-tier-data';
 
 describe('calculateRegionalPrice — direct strategy', () => {
   it('US base: applies exchange rate only (multiplier 1.0)', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'DE',
-      'direct',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('DE', {
+      basePrice: 49.99,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.multiplier).toBeCloseTo(1.0, 6);
     expect(result.multiplierSource).toBe('direct');
     expect(result.currencyCode).toBe('EUR');
@@ -31,16 +43,13 @@ describe('calculateRegionalPrice — direct strategy', () => {
   });
 
   it('TR same-currency: 49.99 USD → 49.99 × TRY rate', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'TR',
-      'direct',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('TR', {
+      basePrice: 49.99,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBeCloseTo(49.99 * 45.2557, 2);
     expect(result.multiplier).toBeCloseTo(1.0, 6);
   });
@@ -48,16 +57,13 @@ describe('calculateRegionalPrice — direct strategy', () => {
 
 describe('calculateRegionalPrice — PPP strategy, US base', () => {
   it('DE: same-currency formula → baseUsdPrice × pppFactor', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'DE',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('DE', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     // PPP fair price in EUR: 49.99 × 0.7053 ≈ 35.25
     expect(result.rawPrice).toBeCloseTo(49.99 * 0.7053, 1);
     expect(result.multiplierSource).toBe('world-bank');
@@ -65,63 +71,90 @@ describe('calculateRegionalPrice — PPP strategy, US base', () => {
   });
 
   it('TR: same-currency formula → 49.99 × 15.1551 TRY ≈ ₺757.6', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'TR',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('TR', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBeCloseTo(49.99 * 15.1551, 1);
   });
 
   it('IN: same-currency → 49.99 × 20.4220 INR ≈ ₹1020.9', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'IN',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('IN', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBeCloseTo(49.99 * 20.4220, 1);
   });
 
   it('US (base region itself): multiplier exactly 1.0 — guards against AFG-as-base inversion', () => {
-    const result = calculateRegionalPrice(
-      0.99,
-      'US',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 0.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.multiplier).toBeCloseTo(1.0, 6);
     expect(result.rawPrice).toBeCloseTo(0.99, 2);
   });
 });
 
+describe('calculateRegionalPrice — consumption PPP strategy', () => {
+  const withConsumption: DynamicPPPData = {
+    ...TEST_PPP_DATA,
+    US: { ...TEST_PPP_DATA.US, consumptionPppConversionFactor: 1.0, consumptionPppMultiplier: 1.0 },
+    TR: {
+      ...TEST_PPP_DATA.TR,
+      consumptionPppConversionFactor: 12.5,
+      consumptionPppMultiplier: 12.5 / 45.2557,
+    },
+  };
+
+  it('TR: uses the private-consumption factor instead of the GDP one', () => {
+    const request = {
+      basePrice: 49.99,
+      rounding: 'none' as const,
+      dynamicPPPData: withConsumption,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    };
+    const consumption = calculateRegionalPrice('TR', { ...request, strategy: 'ppp-consumption' });
+    const gdp = calculateRegionalPrice('TR', { ...request, strategy: 'ppp' });
+    expect(consumption.rawPrice).toBeCloseTo(49.99 * 12.5, 1);
+    expect(consumption.multiplierSource).toBe('world-bank');
+    expect(gdp.rawPrice).toBeCloseTo(49.99 * 15.1551, 1);
+  });
+
+  it('falls back to the static multiplier where no consumption factor was fetched', () => {
+    const result = calculateRegionalPrice('IN', {
+      basePrice: 49.99,
+      strategy: 'ppp-consumption',
+      rounding: 'none',
+      dynamicPPPData: withConsumption,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
+    expect(result.multiplierSource).toBe('static');
+    expect(result.multiplier).toBeCloseTo(getPricingIndexEntry('IN').pppMultiplier, 6);
+  });
+});
+
 describe('calculateRegionalPrice — PPP strategy, mixed billing/local currency', () => {
   it('AR billed in USD: hyperinflation override → 0.25 affordability multiplier', () => {
     // AR pppFactor = 400, marketRate = 100 → pppPriceInUsd = 49.99 × 400 / 100 = $199.96
     // Exceeds baseUsdPrice ($49.99) → override fires
-    const result = calculateRegionalPrice(
-      49.99,
-      'AR',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      APPLE_BILLED_IN_USD,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('AR', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      actualCurrencies: APPLE_BILLED_IN_USD,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.currencyCode).toBe('USD');
     // 49.99 × 0.25 × 1.0 (USD billing rate) = $12.4975
     expect(result.rawPrice).toBeCloseTo(49.99 * 0.25, 2);
@@ -130,20 +163,104 @@ describe('calculateRegionalPrice — PPP strategy, mixed billing/local currency'
   });
 });
 
+describe('calculateRegionalPrice — unstable-currency policy', () => {
+  const priced = (regionCode: string, unstableCurrency: UnstableCurrencyPolicy, currentPrices?: Record<string, Money>) =>
+    calculateRegionalPrice(regionCode, {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      actualCurrencies: APPLE_BILLED_IN_USD,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      unstableCurrency,
+      currentPrices,
+    });
+
+  it('applies the fallback action where PPP lands above base', () => {
+    const result = priced('AR', { rules: [], fallback: { kind: 'multiplier', multiplier: 0.4 } });
+    expect(result.multiplier).toBe(0.4);
+    expect(result.unstableCurrency?.match).toBeUndefined();
+    expect(result.unstableCurrency?.reason).toContain('above the base region');
+  });
+
+  it('applies a region rule even where PPP looks sane', () => {
+    const result = priced('TR', {
+      rules: [{ match: 'TR', action: { kind: 'multiplier', multiplier: 0.3 }, reason: 'Lira' }],
+      fallback: { kind: 'multiplier', multiplier: 0.25 },
+    });
+    expect(result.multiplier).toBe(0.3);
+    expect(result.unstableCurrency).toMatchObject({ match: 'TR', reason: 'Lira' });
+    expect(result.trace.find((t) => t.step === 'hyperinflation-override')?.detail).toContain('Lira');
+  });
+
+  it('matches rules by local currency and can defer to another index', () => {
+    const result = priced('AR', {
+      rules: [{ match: 'ARS', action: { kind: 'index', strategy: 'gni' }, reason: 'Peso' }],
+      fallback: { kind: 'multiplier', multiplier: 0.25 },
+    });
+    expect(result.multiplier).toBeCloseTo(getGniMultiplier('AR') / getGniMultiplier('US'), 6);
+    expect(result.multiplierSource).toBe('gni');
+    expect(result.unstableCurrency?.match).toBe('ARS');
+  });
+
+  it('freezes the live price, and uses the freeze multiplier where there is none', () => {
+    const policy: UnstableCurrencyPolicy = {
+      rules: [{ match: 'AR', action: { kind: 'freeze', multiplier: 0.2 }, reason: 'Peso' }],
+      fallback: { kind: 'multiplier', multiplier: 0.25 },
+    };
+    const live: Money = { currencyCode: 'USD', units: '7', nanos: 490000000 };
+    const frozen = priced('AR', policy, { AR: live });
+    expect(frozen.price).toEqual(live);
+    expect(frozen.unstableCurrency?.frozen).toBe(true);
+
+    const unfrozen = priced('AR', policy);
+    expect(unfrozen.rawPrice).toBeCloseTo(49.99 * 0.2, 2);
+    expect(unfrozen.unstableCurrency?.frozen).toBeUndefined();
+  });
+
+  it('keeps the tax split and proceeds for a frozen price', () => {
+    const live: Money = { currencyCode: 'USD', units: '7', nanos: 490000000 };
+    const frozen = calculateRegionalPrice('AR', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      actualCurrencies: APPLE_BILLED_IN_USD,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      unstableCurrency: {
+        rules: [{ match: 'AR', action: { kind: 'freeze', multiplier: 0.2 }, reason: 'Peso' }],
+        fallback: { kind: 'multiplier', multiplier: 0.25 },
+      },
+      currentPrices: { AR: live },
+      taxMode: 'customer',
+      proceeds: { commission: 0.15 },
+    });
+    expect(frozen.unstableCurrency?.frozen).toBe(true);
+    expect(frozen.tax).toEqual(getTaxBreakdown(7.49, 'AR'));
+    expect(frozen.estimatedProceeds).toBeCloseTo(estimateProceeds(7.49, 'AR', 0.15), 6);
+  });
+
+  it('leaves regions outside the policy alone', () => {
+    const result = priced('IN', {
+      rules: [{ match: 'AR', action: { kind: 'multiplier', multiplier: 0.3 }, reason: 'Peso' }],
+      fallback: { kind: 'multiplier', multiplier: 0.25 },
+    });
+    expect(result.unstableCurrency).toBeUndefined();
+    expect(result.multiplierSource).toBe('world-bank');
+  });
+});
+
 describe('calculateRegionalPrice — PPP, non-USD base region', () => {
   it('DE base €40 → TR target: normalises EUR→USD then PPP relative to DE', () => {
-    const result = calculateRegionalPrice(
-      40,
-      'TR',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES,
-      'EUR',
-      'DE'
-    );
+    const result = calculateRegionalPrice('TR', {
+      basePrice: 40,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'EUR',
+      baseRegion: 'DE',
+    });
     // baseUsdPrice = 40 / 0.851 ≈ 47.0035
     const baseUsd = 40 / 0.851;
     // rawRealMultiplier (TR) = 15.1551 / 45.2557 ≈ 0.33488
@@ -158,16 +275,13 @@ describe('calculateRegionalPrice — PPP, non-USD base region', () => {
   });
 
   it('US base, DE target: baseRealMultiplier = 1 cancels out — same as before', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'DE',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('DE', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     // multiplier = (0.7053 / 0.851) / (1/1) ≈ 0.82879
     expect(result.multiplier).toBeCloseTo(0.7053 / 0.851, 4);
   });
@@ -175,36 +289,57 @@ describe('calculateRegionalPrice — PPP, non-USD base region', () => {
 
 describe('calculateRegionalPrice — Big Mac strategy', () => {
   it('returns multiplier from BIG_MAC_INDEX normalised by base region', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'CH', // Switzerland — known higher than US
-      'bigmac',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('CH', { // Switzerland — known higher than US
+      basePrice: 49.99,
+      strategy: 'bigmac',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.multiplierSource).toBe('big-mac');
     // CH big-mac multiplier > 1 because Swiss prices are higher than US
     expect(result.multiplier).toBeGreaterThan(1);
   });
 });
 
+describe('calculateRegionalPrice — Spotify and GNI strategies', () => {
+  it('Spotify: index multiplier normalised by the base region', () => {
+    const result = calculateRegionalPrice('IN', {
+      basePrice: 9.99,
+      strategy: 'spotify',
+      rounding: 'none',
+      baseCurrency: 'EUR',
+      baseRegion: 'DE',
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
+    expect(result.multiplierSource).toBe('spotify');
+    expect(result.multiplier).toBeCloseTo(getSpotifyMultiplier('IN') / getSpotifyMultiplier('DE'), 10);
+  });
+
+  it('GNI: lower-income regions get a lower multiplier', () => {
+    const [de, inr] = calculateBulkPrices(['DE', 'IN'], {
+      basePrice: 9.99,
+      strategy: 'gni',
+      rounding: 'none',
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
+    expect(de.multiplierSource).toBe('gni');
+    expect(de.multiplier).toBe(getGniMultiplier('DE'));
+    expect(inr.multiplier).toBeLessThan(de.multiplier);
+  });
+});
+
 describe('calculateRegionalPrice — Netflix strategy', () => {
   it('returns multiplier from NETFLIX_PRICE_INDEX normalised by base region', () => {
-    const result = calculateRegionalPrice(
-      40,
-      'BR',
-      'netflix',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES,
-      'EUR',
-      'DE'
-    );
+    const result = calculateRegionalPrice('BR', {
+      basePrice: 40,
+      strategy: 'netflix',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'EUR',
+      baseRegion: 'DE',
+    });
 
     const baseUsd = 40 / 0.851;
     const effective = getNetflixMultiplier('BR') / getNetflixMultiplier('DE');
@@ -216,18 +351,162 @@ describe('calculateRegionalPrice — Netflix strategy', () => {
   });
 });
 
+describe('calculateRegionalPrice — blend strategy', () => {
+  const blendPrice = (regionCode: string, blend: BlendConfig) =>
+    calculateRegionalPrice(regionCode, {
+      basePrice: 49.99,
+      strategy: 'blend',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      blend,
+    });
+
+  it('weighted mean of the three index multipliers (DE, 50/30/20)', () => {
+    const result = blendPrice('DE', {
+      weights: { ppp: 50, netflix: 30, bigmac: 20 },
+      missing: 'renormalize',
+    });
+    const ppp = 0.7053 / 0.851;
+    // DE has no Big Mac entry → renormalised over PPP + Netflix (50/30)
+    const expected = (ppp * 50 + getNetflixMultiplier('DE') * 30) / 80;
+    expect(result.multiplierSource).toBe('blend');
+    expect(result.multiplier).toBeCloseTo(expected, 6);
+    expect(result.rawPrice).toBeCloseTo(49.99 * expected * 0.851, 2);
+  });
+
+  it('reports each index contribution, summing to the blended multiplier', () => {
+    const result = blendPrice('TR', {
+      weights: { ppp: 50, netflix: 30, bigmac: 20 },
+      missing: 'renormalize',
+    });
+    const contributions = result.blendContributions ?? [];
+    expect(contributions.map((c) => c.index).sort()).toEqual(['bigmac', 'netflix', 'ppp']);
+    const total = contributions.reduce((sum, c) => sum + c.contribution, 0);
+    expect(total).toBeCloseTo(result.multiplier, 10);
+    const weights = contributions.reduce((sum, c) => sum + c.weight, 0);
+    expect(weights).toBeCloseTo(1, 10);
+    const bigmac = contributions.find((c) => c.index === 'bigmac');
+    expect(bigmac?.multiplier).toBeCloseTo(getBigMacMultiplier('TR'), 6);
+    expect(bigmac?.weight).toBeCloseTo(0.2, 6);
+  });
+
+  it('100% weight on one index reproduces that strategy', () => {
+    const blended = blendPrice('TR', {
+      weights: { ppp: 100, netflix: 0, bigmac: 0 },
+      missing: 'renormalize',
+    });
+    const ppp = calculateRegionalPrice('TR', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
+    expect(blended.multiplier).toBeCloseTo(ppp.multiplier, 10);
+    expect(blended.rawPrice).toBeCloseTo(ppp.rawPrice, 6);
+  });
+
+  it('missing = index-default keeps the Big Mac default for uncovered regions', () => {
+    const result = blendPrice('DE', {
+      weights: { ppp: 0, netflix: 0, bigmac: 100 },
+      missing: 'index-default',
+    });
+    const bigmac = result.blendContributions?.find((c) => c.index === 'bigmac');
+    expect(bigmac?.filled).toBe(true);
+    expect(result.multiplier).toBeCloseTo(getBigMacMultiplier('DE'), 6);
+  });
+
+  it('missing = neutral treats the uncovered index as 1.0', () => {
+    const result = blendPrice('DE', {
+      weights: { ppp: 50, netflix: 0, bigmac: 50 },
+      missing: 'neutral',
+    });
+    const ppp = 0.7053 / 0.851;
+    expect(result.multiplier).toBeCloseTo((ppp + 1.0) / 2, 6);
+  });
+
+  it('missing = renormalize drops the uncovered index with zero weight', () => {
+    const result = blendPrice('DE', {
+      weights: { ppp: 50, netflix: 30, bigmac: 20 },
+      missing: 'renormalize',
+    });
+    const bigmac = result.blendContributions?.find((c) => c.index === 'bigmac');
+    expect(bigmac?.weight).toBe(0);
+    expect(bigmac?.contribution).toBe(0);
+    expect(bigmac?.filled).toBe(false);
+  });
+});
+
+describe('calculateRegionalPrice — proceeds strategy', () => {
+  const proceeds = (
+    target: number,
+    regionCode: string,
+    options: RegionalPricingOptions = {},
+    tiers?: { price: number }[]
+  ) =>
+    calculateRegionalPrice(regionCode, {
+      basePrice: target,
+      strategy: 'proceeds',
+      rounding: tiers ? 'nearest-tier' : 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      getTiersForCurrency: tiers ? () => tiers : undefined,
+      ...options,
+    });
+
+  it('adds back the 30% standard commission (US, tax added at checkout)', () => {
+    const result = proceeds(7, 'US');
+    expect(result.multiplierSource).toBe('proceeds');
+    expect(result.rawPrice).toBe(10);
+    expect(result.estimatedProceeds).toBeCloseTo(7, 6);
+  });
+
+  it('adds back included VAT and converts currency', () => {
+    // 10 USD net → × 1.19 / 0.85 = 14 USD gross → × 0.851 = 11.91 EUR
+    const result = proceeds(10, 'DE', { proceeds: { commission: 0.15 } });
+    expect(result.multiplier).toBeCloseTo(1.4, 6);
+    expect(result.rawPrice).toBe(11.91);
+    expect(result.estimatedProceeds).toBeCloseTo(8.51, 2);
+  });
+
+  it('rounds the grossed-up price to the nearest tier and estimates its proceeds', () => {
+    // 7 USD net → 10 USD gross → nearest tier 9.99
+    const result = proceeds(7, 'US', {}, [{ price: 9.99 }, { price: 10.49 }]);
+    expect(result.rawPrice).toBe(9.99);
+    expect(result.estimatedProceeds).toBeCloseTo(9.99 * 0.7, 6);
+  });
+
+  it('estimates proceeds for other strategies when a commission is given', () => {
+    const result = calculateRegionalPrice('DE', {
+      basePrice: 11.9,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      proceeds: { commission: 0.3 },
+    });
+    // 11.9 × 0.851 = 10.13 EUR → / 1.19 × 0.7
+    expect(result.estimatedProceeds).toBeCloseTo((10.13 / 1.19) * 0.7, 6);
+  });
+});
+
 describe('calculateRegionalPrice — custom strategy', () => {
   it('applies the user-supplied custom multiplier verbatim', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'DE',
-      'custom',
-      'none',
-      0.5,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('DE', {
+      basePrice: 49.99,
+      strategy: 'custom',
+      rounding: 'none',
+      customMultiplier: 0.5,
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.multiplier).toBe(0.5);
     expect(result.multiplierSource).toBe('custom');
     // 49.99 × 0.5 × 0.851 ≈ 21.27
@@ -237,16 +516,13 @@ describe('calculateRegionalPrice — custom strategy', () => {
 
 describe('calculateRegionalPrice — free price', () => {
   it('basePrice = 0 returns rawPrice 0 (skips multiplier math)', () => {
-    const result = calculateRegionalPrice(
-      0,
-      'DE',
-      'ppp',
-      'nearest-99',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('DE', {
+      basePrice: 0,
+      strategy: 'ppp',
+      rounding: 'nearest-99',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBe(0);
     // Free path returns multiplier as the identity (1) — exits before any math
     expect(result.multiplier).toBe(1);
@@ -255,150 +531,446 @@ describe('calculateRegionalPrice — free price', () => {
 
 describe('calculateRegionalPrice — rounding modes', () => {
   it('nearest-99: 12.34 → 11.99 (closest .99 ending)', () => {
-    const result = calculateRegionalPrice(
-      12.34,
-      'US',
-      'direct',
-      'nearest-99',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 12.34,
+      strategy: 'direct',
+      rounding: 'nearest-99',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBe(11.99);
   });
 
   it('nearest-99: 0.50 → 0.99 (floor-clamped)', () => {
-    const result = calculateRegionalPrice(
-      0.50,
-      'US',
-      'direct',
-      'nearest-99',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 0.50,
+      strategy: 'direct',
+      rounding: 'nearest-99',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBe(0.99);
   });
 
   it('round-up: 12.34 → 12.99 (next .99)', () => {
-    const result = calculateRegionalPrice(
-      12.34,
-      'US',
-      'direct',
-      'round-up',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 12.34,
+      strategy: 'direct',
+      rounding: 'round-up',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBe(12.99);
   });
 
   it('round-up: 0.50 → 0.99 (next .99)', () => {
-    const result = calculateRegionalPrice(
-      0.50,
-      'US',
-      'direct',
-      'round-up',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 0.50,
+      strategy: 'direct',
+      rounding: 'round-up',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBe(0.99);
   });
 
   it('round-up: 2.99 → 2.99 (already .99, no-op)', () => {
-    const result = calculateRegionalPrice(
-      2.99,
-      'US',
-      'direct',
-      'round-up',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 2.99,
+      strategy: 'direct',
+      rounding: 'round-up',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBe(2.99);
   });
 
   it('round-up: 1.46 → 1.99 (regression: was bugged in charm mode)', () => {
     // PPP-style: base 2.99 USD × 0.49 ≈ 1.46. Apple AL bug context.
-    const result = calculateRegionalPrice(
-      2.99,
-      'US',
-      'custom',
-      'round-up',
-      0.49,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 2.99,
+      strategy: 'custom',
+      rounding: 'round-up',
+      customMultiplier: 0.49,
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     // 2.99 × 0.49 = 1.4651 → round-up → 1.99
     expect(result.rawPrice).toBe(1.99);
   });
 
   it('nearest-tier: 1.46 → 1.49 when tier list provided', () => {
-    const result = calculateRegionalPrice(
-      2.99,
-      'US',
-      'custom',
-      'nearest-tier',
-      0.49,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES,
-      'USD',
-      'US',
-      () => [{ price: 0.99 }, { price: 1.49 }, { price: 1.99 }]
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 2.99,
+      strategy: 'custom',
+      rounding: 'nearest-tier',
+      customMultiplier: 0.49,
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      getTiersForCurrency: () => [{ price: 0.99 }, { price: 1.49 }, { price: 1.99 }],
+    });
     expect(result.rawPrice).toBe(1.49);
   });
 
   it('nearest-tier without tiers falls back to nearest-99', () => {
-    const result = calculateRegionalPrice(
-      2.99,
-      'US',
-      'custom',
-      'nearest-tier',
-      0.49,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 2.99,
+      strategy: 'custom',
+      rounding: 'nearest-tier',
+      customMultiplier: 0.49,
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     // No callback → falls back to nearest-99 (1.46 → 0.99)
     expect(result.rawPrice).toBe(0.99);
   });
 
   it('none: 12.34 → unchanged (after .01 epsilon round)', () => {
-    const result = calculateRegionalPrice(
-      12.34,
-      'US',
-      'direct',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('US', {
+      basePrice: 12.34,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result.rawPrice).toBeCloseTo(12.34, 2);
   });
 });
 
+describe('calculateRegionalPrice — locale-charm rounding', () => {
+  const charm = (
+    basePrice: number,
+    regionCode: string,
+    options: RegionalPricingOptions = {},
+    rounding: 'locale-charm' | 'nearest-99' = 'locale-charm'
+  ) =>
+    calculateRegionalPrice(regionCode, {
+      basePrice,
+      strategy: 'direct',
+      rounding,
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      ...options,
+    });
+
+  it('EUR snaps to the closer of .49 / .99', () => {
+    // 12.34 × 0.851 = 10.50 EUR → 10.49
+    expect(charm(12.34, 'DE').rawPrice).toBe(10.49);
+  });
+
+  it('JPY snaps to …80 or …00', () => {
+    // 10 × 156.31 = 1563.1 JPY → 1580 (1600 is further away)
+    expect(charm(10, 'JP').rawPrice).toBe(1580);
+  });
+
+  it('INR snaps to a …9 ending', () => {
+    // 2 × 94.668 = 189.34 INR → 189
+    expect(charm(2, 'IN').rawPrice).toBe(189);
+  });
+
+  it('currencies without an entry use the default .99 rule', () => {
+    expect(charm(12.34, 'US').rawPrice).toBe(11.99);
+  });
+
+  it('uses a caller-supplied ending table', () => {
+    const result = charm(12.34, 'US', {
+      priceEndings: { '*': [{ step: 1, endings: [0.95] }] },
+    });
+    expect(result.rawPrice).toBe(11.95);
+  });
+
+  it('picks the rule for the price band', () => {
+    const priceEndings = {
+      JPY: [
+        { minPrice: 1000, step: 500, endings: [0] },
+        { step: 10, endings: [0] },
+      ],
+    };
+    expect(charm(10, 'JP', { priceEndings }).rawPrice).toBe(1500);
+    // 3 × 156.31 = 468.9 JPY → below the 1000 band
+    expect(charm(3, 'JP', { priceEndings }).rawPrice).toBe(470);
+  });
+
+  it('leaves nearest-99 on the no-decimal …90 ending', () => {
+    expect(charm(10, 'JP', {}, 'nearest-99').rawPrice).toBe(1590);
+  });
+});
+
+describe('calculateRegionalPrice — tax mode', () => {
+  // CAD isn't in the shared snapshot; 10 USD → 14.00 CAD listed
+  const RATES_WITH_CAD = {
+    ...TEST_EXCHANGE_RATES,
+    rates: { ...TEST_EXCHANGE_RATES.rates, CAD: 1.4 },
+  };
+
+  const taxed = (
+    regionCode: string,
+    taxMode: RegionalPricingOptions['taxMode'],
+    rounding: 'nearest-99' | 'nearest-tier' = 'nearest-99',
+    tiers?: { price: number }[]
+  ) =>
+    calculateRegionalPrice(regionCode, {
+      basePrice: 10,
+      strategy: 'direct',
+      rounding,
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: RATES_WITH_CAD,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      getTiersForCurrency: tiers ? () => tiers : undefined,
+      taxMode,
+    });
+
+  it('listed mode rounds the store price and reports no tax split', () => {
+    const result = taxed('CA', 'listed');
+    expect(result.rawPrice).toBe(13.99);
+    expect(result.tax).toBeUndefined();
+  });
+
+  it('customer mode rounds the checkout price where tax is added on top', () => {
+    // 14.00 × 1.05 GST = 14.70 → 14.99 at checkout → 14.28 listed
+    const result = taxed('CA', 'customer');
+    expect(result.rawPrice).toBe(14.28);
+    expect(result.tax?.inclusive).toBe(false);
+    expect(result.tax?.netPrice).toBe(14.28);
+    expect(result.tax?.grossPrice).toBeCloseTo(14.99, 2);
+  });
+
+  it('customer mode keeps tier prices on the tier ladder', () => {
+    // Gross tiers 14.69 / 15.74; the 14.70 checkout target picks 13.99
+    const result = taxed('CA', 'customer', 'nearest-tier', [{ price: 13.99 }, { price: 14.99 }]);
+    expect(result.rawPrice).toBe(13.99);
+  });
+
+  it('tax-inclusive regions round the same in both modes', () => {
+    const listed = taxed('DE', 'listed');
+    const customer = taxed('DE', 'customer');
+    expect(customer.rawPrice).toBe(listed.rawPrice);
+    expect(customer.tax?.grossPrice).toBe(customer.rawPrice);
+    expect(customer.tax?.netPrice).toBeCloseTo(customer.rawPrice / 1.19, 6);
+  });
+
+  it('backs tax out to whole units for zero-decimal currencies', () => {
+    // CA billed in JPY: the gross price ÷ 1.05 GST is not a whole yen
+    const result = calculateRegionalPrice('CA', {
+      basePrice: 10,
+      strategy: 'direct',
+      rounding: 'nearest-99',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      actualCurrencies: { CA: 'JPY' },
+      taxMode: 'customer',
+    });
+    expect(result.currencyCode).toBe('JPY');
+    expect(Number.isInteger(result.rawPrice)).toBe(true);
+    expect(result.rawPrice).toBe(moneyToNumber(result.price));
+  });
+});
+
+describe('getTaxBreakdown', () => {
+  it('backs VAT out of a tax-inclusive price (alpha-3 codes accepted)', () => {
+    const split = getTaxBreakdown(9.99, 'DEU');
+    expect(split.name).toBe('VAT');
+    expect(split.rate).toBe(0.19);
+    expect(split.grossPrice).toBe(9.99);
+    expect(split.netPrice).toBeCloseTo(8.39, 2);
+  });
+
+  it('treats unknown regions as untaxed', () => {
+    const split = getTaxBreakdown(4.99, 'ZZ');
+    expect(split.netPrice).toBe(4.99);
+    expect(split.grossPrice).toBe(4.99);
+  });
+});
+
+describe('calculateRegionalPrice — guardrails', () => {
+  const guarded = (
+    regionCode: string,
+    strategy: 'direct' | 'custom',
+    options: RegionalPricingOptions,
+    customMultiplier?: number
+  ) =>
+    calculateRegionalPrice(regionCode, {
+      basePrice: 10,
+      strategy,
+      rounding: 'none',
+      customMultiplier,
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      ...options,
+    });
+
+  it('minOfBase lifts the price to the floor and records the hit', () => {
+    const result = guarded('DE', 'custom', { guardrails: { minOfBase: 0.2 } }, 0.1);
+    // floor = 10 × 0.2 × 0.851 = 1.702 EUR
+    expect(result.rawPrice).toBeCloseTo(1.7, 2);
+    expect(result.guardrail?.rule).toBe('min-of-base');
+    expect(result.guardrail?.unclampedPrice).toBeCloseTo(10 * 0.1 * 0.851, 6);
+  });
+
+  it('maxOfBase caps the price at the ceiling', () => {
+    const result = guarded('DE', 'custom', { guardrails: { maxOfBase: 1.3 } }, 2.0);
+    expect(result.rawPrice).toBeCloseTo(10 * 1.3 * 0.851, 2);
+    expect(result.guardrail?.rule).toBe('max-of-base');
+  });
+
+  it('prices inside the bounds are untouched and unmarked', () => {
+    const result = guarded('DE', 'direct', { guardrails: { minOfBase: 0.2, maxOfBase: 1.3 } });
+    expect(result.rawPrice).toBeCloseTo(8.51, 2);
+    expect(result.guardrail).toBeUndefined();
+  });
+
+  it('maxChangeFromCurrent limits increases relative to the live price', () => {
+    const result = guarded('DE', 'direct', {
+      guardrails: { maxChangeFromCurrent: 0.25 },
+      currentPrices: { DE: { currencyCode: 'EUR', units: '4' } },
+    });
+    expect(result.rawPrice).toBe(5);
+    expect(result.guardrail).toMatchObject({ rule: 'max-increase', limit: 5 });
+  });
+
+  it('maxChangeFromCurrent limits decreases relative to the live price', () => {
+    const result = guarded('DE', 'direct', {
+      guardrails: { maxChangeFromCurrent: 0.25 },
+      currentPrices: { DE: { currencyCode: 'EUR', units: '20' } },
+    });
+    expect(result.rawPrice).toBe(15);
+    expect(result.guardrail?.rule).toBe('max-decrease');
+  });
+
+  it('ignores the live price when it is in a different currency', () => {
+    const result = guarded('DE', 'direct', {
+      guardrails: { maxChangeFromCurrent: 0.25 },
+      currentPrices: { DE: { currencyCode: 'USD', units: '4' } },
+    });
+    expect(result.guardrail).toBeUndefined();
+  });
+
+  it('max-change wins over the base band when they conflict', () => {
+    // The 50% floor (4.255 EUR) would be a +113% move from the live 2 EUR;
+    // the ±25% limit caps it at 2.50 EUR.
+    const result = guarded('DE', 'custom', {
+      guardrails: { minOfBase: 0.5, maxChangeFromCurrent: 0.25 },
+      currentPrices: { DE: { currencyCode: 'EUR', units: '2' } },
+    }, 0.1);
+    expect(result.rawPrice).toBe(2.5);
+    expect(result.guardrail?.rule).toBe('max-increase');
+  });
+
+  it('calculateBulkPrices passes guardrails to every region', () => {
+    const result = calculateBulkPrices(['DE', 'TR'], {
+      basePrice: 10,
+      strategy: 'custom',
+      rounding: 'none',
+      customMultipliers: { DE: 0.1, TR: 0.1 },
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      guardrails: { minOfBase: 0.2 },
+    });
+    expect(result.every((r) => r.guardrail?.rule === 'min-of-base')).toBe(true);
+  });
+});
+
+describe('calculateRegionalPrice — derivation trace', () => {
+  const steps = (result: { trace: { step: string }[] }) => result.trace.map((t) => t.step);
+
+  it('records each step of a PPP calculation in order', () => {
+    const result = calculateRegionalPrice('DE', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'nearest-99',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
+    expect(steps(result)).toEqual([
+      'base-currency',
+      'multiplier',
+      'base-normalisation',
+      'fx',
+      'rounding',
+      'min-price',
+    ]);
+    const last = result.trace[result.trace.length - 1];
+    expect(last.value).toBe(result.rawPrice);
+    expect(last.currency).toBe('EUR');
+    expect(result.trace.find((t) => t.step === 'fx')!.detail).toContain('live rates');
+  });
+
+  it('flags the hyperinflation affordability fallback', () => {
+    const result = calculateRegionalPrice('AR', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      actualCurrencies: APPLE_BILLED_IN_USD,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
+    const override = result.trace.find((t) => t.step === 'hyperinflation-override');
+    expect(override?.value).toBe(0.25);
+    expect(override?.detail).toContain('affordability fallback');
+  });
+
+  it('converts a non-USD base and reports clamps and the minimum price', () => {
+    const result = calculateRegionalPrice('JP', {
+      basePrice: 0.5,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'EUR',
+      baseRegion: 'DE',
+      guardrails: { maxOfBase: 0.5 },
+    });
+    expect(steps(result)).toContain('guardrail');
+    expect(result.trace[0].detail).toContain('EUR/USD');
+    expect(result.trace.find((t) => t.step === 'min-price')!.detail).toContain('Raised to the regional minimum');
+  });
+
+  it('anchor and band steps lead the trace', () => {
+    const [anchored] = calculateBulkPrices(['FR'], {
+      basePrice: 0,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      anchors: [{ region: 'US', price: 9.99 }, { region: 'DE', price: 9.99 }],
+    });
+    expect(anchored.trace[0].step).toBe('anchor');
+    expect(anchored.trace[0].detail).toContain('DE anchor');
+
+    const [banded] = calculateBulkPrices(['US', 'IN'], {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      bands: { count: 2 },
+    });
+    expect(banded.trace[0].step).toBe('band');
+  });
+});
+
 describe('calculateRegionalPrice — unknown / fallback regions', () => {
   it('unknown region uses default static entry, returns USD billing fallback', () => {
-    const result = calculateRegionalPrice(
-      49.99,
-      'XX',
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateRegionalPrice('XX', {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     // Unknown → no dynamic entry → static fallback: pppMultiplier 0.5 / basePppMultiplier 1.0 → 0.5
     expect(result.multiplier).toBeCloseTo(0.5, 6);
     expect(result.multiplierSource).toBe('static');
@@ -408,50 +980,276 @@ describe('calculateRegionalPrice — unknown / fallback regions', () => {
 describe('calculateBulkPrices', () => {
   it('returns one entry per region in order', () => {
     const regions = ['US', 'DE', 'TR', 'IN'];
-    const result = calculateBulkPrices(
-      49.99,
-      regions,
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateBulkPrices(regions, {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result).toHaveLength(4);
     expect(result.map((r) => r.regionCode)).toEqual(regions);
   });
 
   it('empty regionCodes returns empty array', () => {
-    const result = calculateBulkPrices(
-      49.99,
-      [],
-      'ppp',
-      'none',
-      undefined,
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateBulkPrices([], {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result).toEqual([]);
   });
 
   it('customMultipliers map applied per-region (custom strategy)', () => {
-    const result = calculateBulkPrices(
-      100,
-      ['DE', 'TR'],
-      'custom',
-      'none',
-      { DE: 0.5, TR: 0.25 },
-      TEST_PPP_DATA,
-      undefined,
-      TEST_EXCHANGE_RATES
-    );
+    const result = calculateBulkPrices(['DE', 'TR'], {
+      basePrice: 100,
+      strategy: 'custom',
+      rounding: 'none',
+      customMultipliers: { DE: 0.5, TR: 0.25 },
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+    });
     expect(result[0].multiplier).toBe(0.5);
     expect(result[1].multiplier).toBe(0.25);
   });
 });
 
+describe('calculateBulkPrices — anchors', () => {
+  const anchors: PriceAnchor[] = [
+    { region: 'US', price: 9.99, currency: 'USD' },
+    { region: 'DE', price: 9.99, currency: 'EUR' },
+    { region: 'GB', price: 8.99, currency: 'GBP' },
+  ];
+  const run = (regions: string[], options: RegionalPricingOptions) =>
+    calculateBulkPrices(regions, {
+      basePrice: 0,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      ...options,
+    });
+
+  it('anchor regions keep their own price', () => {
+    const [us, de, gb] = run(['US', 'DE', 'GB'], { anchors });
+    expect(us.rawPrice).toBeCloseTo(9.99, 6);
+    expect(de.rawPrice).toBeCloseTo(9.99, 6);
+    expect(gb.rawPrice).toBeCloseTo(8.99, 6);
+    expect([us.anchor, de.anchor, gb.anchor]).toEqual(['US', 'DE', 'GB']);
+  });
+
+  it('prices other regions from the nearest anchor, sharing currency where possible', () => {
+    const [fr, ar] = run(['FR', 'AR'], { anchors });
+    expect(fr.anchor).toBe('DE');
+    expect(fr.rawPrice).toBeCloseTo(9.99, 6);
+    expect(ar.anchor).toBe('US');
+    expect(ar.rawPrice).toBeCloseTo(9.99, 6); // billed in USD
+  });
+
+  it('uses the anchor base for relative strategies', () => {
+    const [tr] = calculateBulkPrices(['TR'], {
+      basePrice: 0,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      anchors,
+    });
+    const fromDe = calculateRegionalPrice('TR', {
+      basePrice: 9.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'EUR',
+      baseRegion: 'DE',
+    });
+    expect(tr.anchor).toBe('DE');
+    expect(tr.rawPrice).toBeCloseTo(fromDe.rawPrice, 6);
+  });
+
+  it('explicit assignment wins over proximity', () => {
+    const assigned = anchors.map((a) => (a.region === 'GB' ? { ...a, regions: ['DE', 'IN'] } : a));
+    const [de, inr] = run(['DE', 'IN'], { anchors: assigned });
+    expect(de.anchor).toBe('GB');
+    expect(inr.anchor).toBe('GB');
+  });
+
+  it('no anchors: single-base behaviour, no anchor recorded', () => {
+    const [de] = calculateBulkPrices(['DE'], {
+      basePrice: 9.99,
+      strategy: 'direct',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      anchors: [],
+    });
+    expect(de.anchor).toBeUndefined();
+    expect(de.rawPrice).toBeCloseTo(9.99 * 0.851, 2);
+  });
+});
+
+describe('calculateBulkPrices — price bands', () => {
+  const regions = ['US', 'DE', 'GB', 'TR', 'IN', 'AR', 'JP'];
+  const run = (options: Partial<PricingRequest>) =>
+    calculateBulkPrices(regions, {
+      basePrice: 49.99,
+      strategy: 'ppp',
+      rounding: 'none',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      ...options,
+    });
+
+  it('regions in a band share one USD-equivalent price', () => {
+    const banded = run({ bands: { count: 2 } });
+    const byBand = new Map<number, number[]>();
+    for (const price of banded) {
+      expect(price.band).toBeDefined();
+      // The base region keeps its entered price
+      if (price.regionCode === 'US') continue;
+      const usd = price.rawPrice / price.exchangeRate;
+      byBand.set(price.band!.index, [...(byBand.get(price.band!.index) ?? []), usd]);
+    }
+    expect(byBand.size).toBe(2);
+    for (const usdPrices of byBand.values()) {
+      for (const usd of usdPrices) expect(usd).toBeCloseTo(usdPrices[0], 1);
+    }
+  });
+
+  it('keeps the strategy multiplier and source for the preview', () => {
+    const plain = run({});
+    const banded = run({ bands: { count: 3 } });
+    banded.forEach((price, i) => {
+      expect(price.band!.strategyMultiplier).toBeCloseTo(plain[i].multiplier, 10);
+      expect(price.multiplierSource).toBe(plain[i].multiplierSource);
+    });
+    const us = banded.find((p) => p.regionCode === 'US')!;
+    const ind = banded.find((p) => p.regionCode === 'IN')!;
+    expect(us.band!.index).toBeLessThan(ind.band!.index);
+  });
+
+  it('one band per region reproduces the unbanded prices', () => {
+    const plain = run({});
+    const banded = run({ bands: { count: regions.length } });
+    banded.forEach((price, i) => expect(price.rawPrice).toBeCloseTo(plain[i].rawPrice, 2));
+  });
+
+  it('keeps the base region at the entered price', () => {
+    const us = run({ bands: { count: 2 } }).find((p) => p.regionCode === 'US')!;
+    expect(us.band).toBeDefined();
+    expect(us.rawPrice).toBe(49.99);
+
+    const de = run({ basePrice: 9.99, baseCurrency: 'EUR', baseRegion: 'DE', bands: { count: 2 } })
+      .find((p) => p.regionCode === 'DE')!;
+    expect(de.rawPrice).toBe(9.99);
+  });
+
+  it('leaves proceeds runs unbanded', () => {
+    const tiers = [{ price: 9.99 }, { price: 10.49 }, { price: 10.99 }];
+    const options: Partial<PricingRequest> = {
+      basePrice: 7,
+      strategy: 'proceeds',
+      rounding: 'nearest-tier',
+      getTiersForCurrency: (currency) => (currency === 'USD' ? tiers : []),
+    };
+    expect(priceBandsUnavailableReason({ strategy: 'proceeds' })).toMatch(/proceeds/);
+    const plain = run(options);
+    const banded = run({ ...options, bands: { count: 2 } });
+    expect(banded).toEqual(plain);
+    expect(banded.find((p) => p.regionCode === 'US')!.rawPrice).toBe(9.99);
+  });
+
+  it('leaves multi-anchor runs unbanded', () => {
+    const anchors: PriceAnchor[] = [
+      { region: 'US', price: 49.99, currency: 'USD' },
+      { region: 'IN', price: 1999, currency: 'INR' },
+    ];
+    expect(run({ anchors, bands: { count: 2 } })).toEqual(run({ anchors }));
+  });
+});
+
+describe('calculateBulkPrices — currency union', () => {
+  const regions = ['US', 'DE', 'FR', 'IT', 'ES', 'PT'];
+  const run = (options: Partial<PricingRequest>) =>
+    calculateBulkPrices(regions, {
+      basePrice: 9.99,
+      strategy: 'ppp',
+      rounding: 'nearest-99',
+      dynamicPPPData: TEST_PPP_DATA,
+      dynamicExchangeRates: TEST_EXCHANGE_RATES,
+      baseCurrency: 'USD',
+      baseRegion: 'US',
+      ...options,
+    });
+
+  it('gives every Eurozone region one EUR price from a member', () => {
+    const plain = run({});
+    const unified = run({ currencyUnion: { resolution: 'lowest' } });
+    const euro = unified.filter((p) => p.currencyCode === 'EUR');
+    expect(euro).toHaveLength(5);
+    const lowest = Math.min(...plain.filter((p) => p.currencyCode === 'EUR').map((p) => moneyToNumber(p.price)));
+    for (const price of euro) {
+      expect(moneyToNumber(price.price)).toBe(lowest);
+      expect(price.currencyUnion?.regionCount).toBe(5);
+      expect(price.trace.at(-1)?.step).toBe('currency-union');
+    }
+    const us = unified.find((p) => p.regionCode === 'US')!;
+    expect(us.currencyUnion).toBeUndefined();
+    expect(us.price).toEqual(plain.find((p) => p.regionCode === 'US')!.price);
+  });
+
+  it('keeps the tax split in step with the shared price', () => {
+    const unified = run({ taxMode: 'customer', currencyUnion: { resolution: 'anchor' } });
+    const pt = unified.find((p) => p.regionCode === 'PT')!;
+    expect(pt.currencyUnion?.sourceRegion).toBe('DE');
+    expect(pt.tax?.grossPrice).toBeCloseTo(moneyToNumber(pt.price), 6);
+  });
+
+  it('puts every member on the same Apple tier', () => {
+    const unified = run({
+      rounding: 'nearest-tier',
+      getTiersForCurrency: getPriceTiersForCurrency,
+      currencyUnion: { resolution: 'median' },
+    });
+    // The Apple modals match tiers from rawPrice
+    const tiers = unified
+      .filter((p) => p.currencyCode === 'EUR')
+      .map((p) => findClosestTierForCurrency(p.rawPrice, p.currencyCode)?.price);
+    expect(tiers).toHaveLength(5);
+    expect(tiers[0]).toBeDefined();
+    expect(new Set(tiers).size).toBe(1);
+  });
+});
+
+describe('resolveAnchor', () => {
+  const anchors: PriceAnchor[] = [
+    { region: 'USA', price: 9.99 },
+    { region: 'DEU', price: 9.99 },
+    { region: 'GBR', price: 8.99 },
+  ];
+
+  it('accepts alpha-3 codes and falls back to the first anchor', () => {
+    expect(resolveAnchor('FRA', anchors)?.region).toBe('DEU');
+    expect(resolveAnchor('GBR', anchors)?.region).toBe('GBR');
+    expect(resolveAnchor('JPN', anchors)?.region).toBe('USA');
+  });
+
+  it('returns undefined without anchors', () => {
+    expect(resolveAnchor('US', [])).toBeUndefined();
+  });
+});
+
 describe('calculateNewPrice', () => {
   const baseMoney = (value: number, currency = 'USD'): Money => {
     const units = Math.floor(value);
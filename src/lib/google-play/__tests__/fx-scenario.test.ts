@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { applyFxShocks, parseFxShock, resolveFxShocks, simulateFxScenario } from '../fx-scenario';
+import type { BulkPricingRequest } from '../currency';
+import { TEST_PPP_DATA, TEST_EXCHANGE_RATES } from './fixtures/ppp-snapshot';
+import { moneyToNumber } from '../types';
+
+describe('parseFxShock', () => {
+  it('reads a currency or group with a signed percentage', () => {
+    expect(parseFxShock('TRY -30%')).toEqual({ target: 'TRY', change: -0.3 });
+    expect(parseFxShock('eur +10')).toEqual({ target: 'EUR', change: 0.1 });
+    expect(parseFxShock('EM −15%')).toEqual({ target: 'EM', change: -0.15 });
+  });
+
+  it('rejects unknown groups and impossible moves', () => {
+    expect(parseFxShock('XY -10%')).toBeNull();
+    expect(parseFxShock('TRY -100%')).toBeNull();
+    expect(parseFxShock('weaker lira')).toBeNull();
+  });
+});
+
+describe('applyFxShocks', () => {
+  it('divides the rate by the value change', () => {
+    const shocked = applyFxShocks(TEST_EXCHANGE_RATES, [{ target: 'TRY', change: -0.3 }]);
+    expect(shocked.rates.TRY).toBeCloseTo(TEST_EXCHANGE_RATES.rates.TRY / 0.7, 6);
+    expect(shocked.rates.EUR).toBe(TEST_EXCHANGE_RATES.rates.EUR);
+  });
+
+  it('lets later shocks override a group shock', () => {
+    const changes = resolveFxShocks(['TRY', 'INR', 'EUR'], [
+      { target: 'EM', change: -0.15 },
+      { target: 'TRY', change: -0.3 },
+    ]);
+    expect(changes).toEqual({ TRY: -0.3, INR: -0.15 });
+  });
+
+  it('moves every other currency when the base currency is shocked', () => {
+    const shocked = applyFxShocks(TEST_EXCHANGE_RATES, [{ target: 'USD', change: 0.1 }]);
+    expect(shocked.rates.EUR).toBeCloseTo(TEST_EXCHANGE_RATES.rates.EUR * 1.1, 6);
+  });
+
+  it('moves every currency but the base with the ALL group', () => {
+    const shocked = applyFxShocks(TEST_EXCHANGE_RATES, [{ target: 'ALL', change: -0.15 }]);
+    expect(shocked.rates.EUR).toBeCloseTo(TEST_EXCHANGE_RATES.rates.EUR / 0.85, 6);
+    expect(shocked.rates.TRY).toBeCloseTo(TEST_EXCHANGE_RATES.rates.TRY / 0.85, 6);
+    expect(shocked.rates.USD).toBe(TEST_EXCHANGE_RATES.rates.USD);
+  });
+});
+
+describe('simulateFxScenario', () => {
+  const request: BulkPricingRequest = {
+    basePrice: 9.99,
+    strategy: 'direct',
+    rounding: 'none',
+    dynamicPPPData: TEST_PPP_DATA,
+    dynamicExchangeRates: TEST_EXCHANGE_RATES,
+  };
+
+  it('shows the USD value of held prices and the recalculated local price', () => {
+    const rows = simulateFxScenario(['US', 'TR'], request, [{ target: 'TRY', change: -0.3 }]);
+    const tr = rows.find((row) => row.regionCode === 'TR')!;
+    expect(tr.fxChange).toBe(-0.3);
+    expect(tr.usdAfter / tr.usdBefore).toBeCloseTo(0.7, 6);
+    expect(tr.proceedsUsdAfter / tr.proceedsUsdBefore).toBeCloseTo(0.7, 6);
+    expect(moneyToNumber(tr.repriced.price)).toBeGreaterThan(moneyToNumber(tr.baseline.price));
+
+    const us = rows.find((row) => row.regionCode === 'US')!;
+    expect(us.fxChange).toBe(0);
+    expect(us.usdAfter).toBeCloseTo(us.usdBefore, 6);
+    expect(us.repriceChange).toBeCloseTo(0, 6);
+  });
+
+  it('reports guardrails the repricing runs into against the plan prices', () => {
+    const rows = simulateFxScenario(
+      ['US', 'TR'],
+      { ...request, guardrails: { maxChangeFromCurrent: 0.2 } },
+      [{ target: 'TRY', change: -0.3 }]
+    );
+    const tr = rows.find((row) => row.regionCode === 'TR')!;
+    expect(tr.guardrail?.rule).toBe('max-increase');
+    expect(tr.guardrailAtBaseline).toBe(false);
+    expect(tr.repriceChange).toBeCloseTo(0.2, 2);
+    expect(rows.find((row) => row.regionCode === 'US')!.guardrail).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeLivePrices, parseLivePriceList } from '../inverse-pricing';
+import { calculateRegionalPrice } from '../currency';
+import { TEST_PPP_DATA, TEST_EXCHANGE_RATES } from './fixtures/ppp-snapshot';
+import { parseMoney } from '../types';
+
+const data = { dynamicPPPData: TEST_PPP_DATA, dynamicExchangeRates: TEST_EXCHANGE_RATES };
+
+describe('analyzeLivePrices', () => {
+  it('converts live prices to USD and a multiplier relative to the base region', () => {
+    const rows = analyzeLivePrices(
+      {
+        US: parseMoney(9.99, 'USD'),
+        DE: parseMoney(9.99 * TEST_EXCHANGE_RATES.rates.EUR * 0.5, 'EUR'),
+      },
+      data
+    );
+    const de = rows.find((row) => row.regionCode === 'DE')!;
+    expect(de.usdPrice).toBeCloseTo(4.995, 2);
+    expect(de.impliedMultiplier).toBeCloseTo(0.5, 3);
+    expect(rows.find((row) => row.regionCode === 'US')!.impliedMultiplier).toBe(1);
+  });
+
+  it('finds the index a price was set from', () => {
+    const ppp = calculateRegionalPrice('TR', { basePrice: 9.99, strategy: 'ppp', rounding: 'none', ...data });
+    const rows = analyzeLivePrices({ US: parseMoney(9.99, 'USD'), TR: ppp.price }, {
+      ...data,
+      strategies: ['ppp', 'direct'],
+    });
+    const tr = rows.find((row) => row.regionCode === 'TR')!;
+    expect(tr.closest?.strategy).toBe('ppp');
+    expect(Math.abs(tr.closest!.gap)).toBeLessThan(0.01);
+    expect(tr.indexes.find((c) => c.strategy === 'direct')!.gap).toBeLessThan(-0.5);
+  });
+
+  it('skips indexes without data for the region when picking the closest', () => {
+    const rows = analyzeLivePrices(
+      { US: parseMoney(9.99, 'USD'), AQ: parseMoney(9.99, 'USD') },
+      { ...data, strategies: ['bigmac', 'direct'] }
+    );
+    const aq = rows.find((row) => row.regionCode === 'AQ')!;
+    expect(aq.indexes.find((c) => c.strategy === 'bigmac')?.isDefault).toBe(true);
+    expect(aq.closest?.strategy).toBe('direct');
+  });
+
+  it('leaves multipliers empty without a base-region price', () => {
+    const rows = analyzeLivePrices({ DE: parseMoney(9.99, 'EUR') }, data);
+    expect(rows[0].impliedMultiplier).toBeUndefined();
+    expect(rows[0].closest).toBeUndefined();
+    expect(rows[0].usdPrice).toBeGreaterThan(0);
+  });
+});
+
+describe('parseLivePriceList', () => {
+  it('reads one region per line with an optional currency', () => {
+    const { prices, errors } = parseLivePriceList('DE 9.99\nTR,149.99\nAR 4.99 USD\nZZ 1\nFR');
+    expect(prices.DE).toEqual(parseMoney(9.99, 'EUR'));
+    expect(prices.TR).toEqual(parseMoney(149.99, 'TRY'));
+    expect(prices.AR.currencyCode).toBe('USD');
+    expect(errors).toHaveLength(2);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPriceOperation,
+  decimalToNanos,
+  formatMoneyAmount,
+  formatNanos,
+  moneyToNanos,
+  multiplyNanos,
+  nanosToMoney,
+  numberToNanos,
+  roundAmount,
+  roundNanos,
+} from '../money';
+import { moneyToNumber, parseMoney } from '../types';
+import { findClosestPricePoint } from '../../apple-connect/products';
+
+const nanos = (value: string) => decimalToNanos(value);
+
+describe('decimalToNanos / formatNanos', () => {
+  it('parses decimal strings exactly', () => {
+    expect(formatNanos(nanos('4.99'))).toBe('4.99');
+    expect(formatNanos(nanos('-0.5'))).toBe('-0.5');
+    expect(formatNanos(nanos('15000'))).toBe('15000');
+    expect(formatNanos(nanos('.25'))).toBe('0.25');
+  });
+
+  it('rounds digits past the ninth decimal', () => {
+    expect(formatNanos(nanos('0.0000000015'))).toBe('0.000000002');
+  });
+
+  it('rejects non-numeric input', () => {
+    expect(() => decimalToNanos('abc')).toThrow();
+    expect(() => decimalToNanos('')).toThrow();
+    expect(() => decimalToNanos('1e5')).toThrow();
+  });
+
+  it('pads to a fixed number of decimals', () => {
+    expect(formatNanos(nanos('150000'), 2)).toBe('150000.00');
+    expect(formatNanos(nanos('1.005'), 2)).toBe('1.01');
+  });
+});
+
+describe('numberToNanos', () => {
+  it('absorbs float noise at the ninth decimal', () => {
+    expect(formatNanos(numberToNanos(4.989999999999))).toBe('4.99');
+    expect(formatNanos(numberToNanos(0.1 + 0.2))).toBe('0.3');
+  });
+
+  it('throws on non-finite input', () => {
+    expect(() => numberToNanos(NaN)).toThrow('Invalid price amount');
+  });
+});
+
+describe('roundNanos', () => {
+  it('rounds half away from zero', () => {
+    expect(formatNanos(roundNanos(nanos('2.345'), 2))).toBe('2.35');
+    expect(formatNanos(roundNanos(nanos('-2.345'), 2))).toBe('-2.35');
+    expect(formatNanos(roundNanos(nanos('2.344'), 2))).toBe('2.34');
+  });
+
+  it('rounds up and down towards infinity', () => {
+    expect(formatNanos(roundNanos(nanos('2.341'), 2, 'up'))).toBe('2.35');
+    expect(formatNanos(roundNanos(nanos('-2.341'), 2, 'down'))).toBe('-2.35');
+    expect(formatNanos(roundNanos(nanos('12.34'), 0, 'down'))).toBe('12');
+  });
+});
+
+describe('roundAmount', () => {
+  it('rounds where Math.round(x * 100) / 100 does not', () => {
+    // 1.005 is 1.00499999999999989... in binary
+    expect(Math.round(1.005 * 100) / 100).toBe(1);
+    expect(roundAmount(1.005)).toBe(1.01);
+  });
+
+  it('keeps large IDR and VND amounts exact', () => {
+    expect(roundAmount(149999.995)).toBe(150000);
+    expect(roundAmount(2_499_000.004999)).toBe(2_499_000);
+  });
+});
+
+describe('multiplyNanos', () => {
+  it('applies a factor without drift', () => {
+    expect(formatNanos(multiplyNanos(nanos('4.99'), 1.1))).toBe('5.489');
+    expect(formatNanos(multiplyNanos(nanos('129000'), 1.15))).toBe('148350');
+  });
+});
+
+describe('Money conversion', () => {
+  it('round-trips units and nanos', () => {
+    const money = { currencyCode: 'USD', units: '12', nanos: 340_000_000 };
+    expect(nanosToMoney(moneyToNanos(money), 'USD')).toEqual(money);
+  });
+
+  it('keeps the sign on both units and nanos', () => {
+    expect(nanosToMoney(nanos('-1.5'), 'USD')).toEqual({ currencyCode: 'USD', units: '-1', nanos: -500_000_000 });
+  });
+
+  it('leaves nanos out when zero', () => {
+    expect(nanosToMoney(nanos('25'), 'EUR')).toEqual({ currencyCode: 'EUR', units: '25', nanos: undefined });
+  });
+
+  it('reports invalid units', () => {
+    expect(() => moneyToNanos({ currencyCode: 'USD', units: 'not-a-number' })).toThrow('Invalid price units value');
+  });
+
+  it('formats change-summary amounts', () => {
+    expect(formatMoneyAmount({ currencyCode: 'IDR', units: '149999', nanos: 990_000_000 })).toBe('149999.99');
+  });
+});
+
+describe('parseMoney / moneyToNumber', () => {
+  it('stores cents without float drift', () => {
+    expect(parseMoney(4.989999999999, 'USD')).toEqual({ currencyCode: 'USD', units: '4', nanos: 990_000_000 });
+    expect(parseMoney(1.005, 'USD')).toEqual({ currencyCode: 'USD', units: '1', nanos: 10_000_000 });
+    expect(parseMoney(2_499_000.4999999, 'EUR')).toEqual({ currencyCode: 'EUR', units: '2499000', nanos: 500_000_000 });
+  });
+
+  it('stores whole units for currencies Google Play bills without decimals', () => {
+    expect(parseMoney(2_499_000.4999999, 'VND')).toEqual({ currencyCode: 'VND', units: '2499000', nanos: undefined });
+    expect(parseMoney(1234.56, 'HUF')).toEqual({ currencyCode: 'HUF', units: '1235', nanos: undefined });
+  });
+
+  it('reads Money back as the exact decimal', () => {
+    expect(moneyToNumber({ currencyCode: 'USD', units: '4', nanos: 990_000_000 })).toBe(4.99);
+  });
+});
+
+describe('applyPriceOperation', () => {
+  const idr = { currencyCode: 'IDR', units: '149000' };
+
+  it('percentage on a high-denomination price has no sub-cent residue', () => {
+    const result = applyPriceOperation({ currencyCode: 'USD', units: '4', nanos: 990_000_000 }, { type: 'percentage', value: 10 });
+    expect(result).toEqual({ currencyCode: 'USD', units: '5', nanos: 489_000_000 });
+    expect(applyPriceOperation(idr, { type: 'percentage', value: 7 })).toEqual({
+      currencyCode: 'IDR',
+      units: '159430',
+      nanos: undefined,
+    });
+  });
+
+  it('round keeps whole units and sets the ending', () => {
+    expect(applyPriceOperation({ currencyCode: 'USD', units: '12', nanos: 340_000_000 }, { type: 'round', roundTo: 0.99 }))
+      .toEqual({ currencyCode: 'USD', units: '12', nanos: 990_000_000 });
+  });
+});
+
+describe('findClosestPricePoint', () => {
+  const points = [
+    { id: 'a', customerPrice: '149000.0' },
+    { id: 'b', customerPrice: '159000.0' },
+  ];
+
+  it('compares exact decimals', () => {
+    expect(findClosestPricePoint(nanos('153999.99'), points)?.id).toBe('a');
+    expect(findClosestPricePoint(nanos('154000.01'), points)?.id).toBe('b');
+  });
+
+  it('keeps the cheaper point on an exact tie', () => {
+    expect(findClosestPricePoint(nanos('154000'), points)?.id).toBe('a');
+  });
+});
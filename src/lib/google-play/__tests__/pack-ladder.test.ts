@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePackPrices,
+  computePackBasePrices,
+  DEFAULT_VOLUME_DISCOUNTS,
+  parsePackUnits,
+  volumeDiscount,
+  type PackItem,
+} from '../pack-ladder';
+import { moneyToNumber } from '../types';
+
+const packs: PackItem[] = [
+  { key: 'coins_100', label: '100 coins', units: 100 },
+  { key: 'coins_550', label: '550 coins', units: 550 },
+  { key: 'coins_1200', label: '1200 coins', units: 1200 },
+  { key: 'coins_2500', label: '2500 coins', units: 2500 },
+];
+
+describe('volumeDiscount', () => {
+  it('reads the curve at its points and holds flat beyond the ends', () => {
+    expect(volumeDiscount(DEFAULT_VOLUME_DISCOUNTS, 100)).toBe(0);
+    expect(volumeDiscount(DEFAULT_VOLUME_DISCOUNTS, 1000)).toBe(0.15);
+    expect(volumeDiscount(DEFAULT_VOLUME_DISCOUNTS, 10)).toBe(0);
+    expect(volumeDiscount(DEFAULT_VOLUME_DISCOUNTS, 50_000)).toBe(0.3);
+  });
+
+  it('interpolates on a log scale of units', () => {
+    // halfway between 100 and 10000 on a log scale is 1000
+    const curve = [{ units: 10000, discount: 0.4 }, { units: 100, discount: 0 }];
+    expect(volumeDiscount(curve, 1000)).toBeCloseTo(0.2, 10);
+  });
+
+  it('is zero without a curve', () => {
+    expect(volumeDiscount([], 500)).toBe(0);
+  });
+});
+
+describe('parsePackUnits', () => {
+  it('takes the last number in a SKU or title', () => {
+    expect(parsePackUnits('coins_1200')).toBe(1200);
+    expect(parsePackUnits('com.game2.gems.550')).toBe(550);
+    expect(parsePackUnits('Pile of 2,500 Coins')).toBe(2500);
+    expect(parsePackUnits('remove_ads')).toBeNull();
+  });
+});
+
+describe('computePackBasePrices', () => {
+  it('discounts larger packs along the curve', () => {
+    const prices = computePackBasePrices(packs, 0.01, DEFAULT_VOLUME_DISCOUNTS);
+    expect(prices.coins_100).toBe(1);
+    expect(prices.coins_2500).toBe(20); // 2500 × 0.01 × 0.8
+    // per-unit price falls as packs grow
+    const perUnit = packs.map((p) => prices[p.key] / p.units);
+    expect([...perUnit].sort((a, b) => b - a)).toEqual(perUnit);
+  });
+
+  it('rounds to the given decimals', () => {
+    expect(computePackBasePrices([packs[1]], 3, [], 0)).toEqual({ coins_550: 1650 });
+  });
+});
+
+describe('calculatePackPrices', () => {
+  it('prices each pack regionally with the run rounding', () => {
+    const result = calculatePackPrices(['US'], packs, DEFAULT_VOLUME_DISCOUNTS, {
+      basePrice: 0.01,
+      strategy: 'direct',
+      rounding: 'nearest-99',
+    });
+    expect(result.map((r) => moneyToNumber(r.prices[0].price))).toEqual([0.99, 4.99, 9.99, 19.99]);
+  });
+});
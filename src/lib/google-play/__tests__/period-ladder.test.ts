@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateLadderPrices,
+  computeLadderBasePrices,
+  DEFAULT_LADDER_POLICY,
+  describeLadderStep,
+  periodInMonths,
+  type LadderPlan,
+} from '../period-ladder';
+import { moneyToNumber } from '../types';
+
+const plans: LadderPlan[] = [
+  { key: 'weekly', label: 'Weekly', months: 0.25 },
+  { key: 'monthly', label: 'Monthly', months: 1 },
+  { key: 'annual', label: 'Annual', months: 12 },
+];
+
+describe('periodInMonths', () => {
+  it('reads Google durations and Apple period names', () => {
+    expect(periodInMonths('P1W')).toBe(0.25);
+    expect(periodInMonths('P3M')).toBe(3);
+    expect(periodInMonths('P1Y')).toBe(12);
+    expect(periodInMonths('SIX_MONTHS')).toBe(6);
+    expect(periodInMonths('ONE_WEEK')).toBe(0.25);
+    expect(periodInMonths('P1D')).toBeNull();
+    expect(periodInMonths(undefined)).toBeNull();
+  });
+});
+
+describe('computeLadderBasePrices', () => {
+  it('derives every plan from a monthly anchor', () => {
+    expect(computeLadderBasePrices(plans, 'monthly', 10, DEFAULT_LADDER_POLICY)).toEqual({
+      weekly: 3.75, // 10 / 4 × 1.5
+      monthly: 10,
+      annual: 72, // 12 × 10 × 0.6
+    });
+  });
+
+  it('works back to the per-month price from any anchor', () => {
+    const prices = computeLadderBasePrices(plans, 'annual', 72, DEFAULT_LADDER_POLICY);
+    expect(prices).toEqual({ weekly: 3.75, monthly: 10, annual: 72 });
+  });
+
+  it('uses factor 1 for periods the policy does not list and rounds to the given decimals', () => {
+    const twoMonths = { key: 'bimonthly', label: '2 months', months: 2 };
+    const prices = computeLadderBasePrices([...plans, twoMonths], 'monthly', 4.99, { '12': 0.5 }, 0);
+    expect(prices).toEqual({ weekly: 1, monthly: 4.99, annual: 30, bimonthly: 10 });
+  });
+
+  it('returns nothing when the anchor is not one of the plans', () => {
+    expect(computeLadderBasePrices(plans, 'lifetime', 10, DEFAULT_LADDER_POLICY)).toEqual({});
+  });
+});
+
+describe('calculateLadderPrices', () => {
+  it('prices each plan regionally from its derived base price', () => {
+    const ladder = calculateLadderPrices(['US'], plans, 'monthly', DEFAULT_LADDER_POLICY, {
+      basePrice: 9.99,
+      strategy: 'direct',
+      rounding: 'nearest-99',
+    });
+    expect(ladder.map((p) => p.basePrice)).toEqual([3.75, 9.99, 71.93]);
+    expect(ladder.map((p) => moneyToNumber(p.prices[0].price))).toEqual([3.99, 9.99, 71.99]);
+  });
+
+  it('snaps each plan to the tier ladder', () => {
+    const tiers = [{ price: 2.99 }, { price: 3.99 }, { price: 9.99 }, { price: 69.99 }, { price: 74.99 }];
+    const ladder = calculateLadderPrices(['US'], plans, 'monthly', DEFAULT_LADDER_POLICY, {
+      basePrice: 9.99,
+      strategy: 'direct',
+      rounding: 'nearest-tier',
+      getTiersForCurrency: () => tiers,
+    });
+    expect(ladder.map((p) => moneyToNumber(p.prices[0].price))).toEqual([3.99, 9.99, 69.99]);
+  });
+});
+
+describe('describeLadderStep', () => {
+  it('reads like the policy', () => {
+    expect(describeLadderStep(12, 0.6)).toBe('12 × monthly × 0.6');
+    expect(describeLadderStep(0.25, 1.5)).toBe('monthly / 4 × 1.5');
+    expect(describeLadderStep(1, 1)).toBe('monthly');
+  });
+});
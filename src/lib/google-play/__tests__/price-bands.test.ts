@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { clusterPriceBands, getBandLabel } from '../price-bands';
+
+describe('clusterPriceBands', () => {
+  const multipliers = {
+    CH: 1.3,
+    US: 1.0,
+    GB: 0.95,
+    DE: 0.9,
+    BR: 0.45,
+    MX: 0.5,
+    IN: 0.2,
+    EG: 0.18,
+  };
+
+  it('splits at the natural gaps, highest band first', () => {
+    const bands = clusterPriceBands(multipliers, { count: 3 });
+    expect(bands.map((b) => b.regionCodes.sort())).toEqual([
+      ['CH', 'DE', 'GB', 'US'],
+      ['BR', 'MX'],
+      ['EG', 'IN'],
+    ]);
+    expect(bands.map((b) => b.label)).toEqual(['Premium', 'Standard', 'Emerging']);
+  });
+
+  it('band multiplier is the geometric mean of its members', () => {
+    const [, middle] = clusterPriceBands(multipliers, { count: 3 });
+    expect(middle.multiplier).toBeCloseTo(Math.sqrt(0.45 * 0.5), 10);
+    expect(middle.minMultiplier).toBe(0.45);
+    expect(middle.maxMultiplier).toBe(0.5);
+  });
+
+  it('never creates more bands than distinct multipliers', () => {
+    const bands = clusterPriceBands({ US: 1, CA: 1, IN: 0.3 }, { count: 5 });
+    expect(bands).toHaveLength(2);
+    expect(bands[0].regionCodes.sort()).toEqual(['CA', 'US']);
+  });
+
+  it('ignores non-positive multipliers and handles empty input', () => {
+    expect(clusterPriceBands({}, { count: 3 })).toEqual([]);
+    const bands = clusterPriceBands({ US: 1, XX: 0 }, { count: 2 });
+    expect(bands.flatMap((b) => b.regionCodes)).toEqual(['US']);
+  });
+});
+
+describe('getBandLabel', () => {
+  it('prefers custom labels, then presets, then numbering', () => {
+    expect(getBandLabel(0, { count: 5, labels: ['Tier A'] })).toBe('Tier A');
+    expect(getBandLabel(4, { count: 5 })).toBe('Emerging');
+    expect(getBandLabel(6, { count: 7 })).toBe('Band 7');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  basePlanItemKey,
+  describeRelationship,
+  describeViolation,
+  evaluateRelationships,
+  productItemKey,
+  relationshipsForItem,
+  toRegionalPriceMap,
+  type PriceRelationship,
+  type RegionalPriceMap,
+} from '../price-relationships';
+import { parseMoney } from '../types';
+
+const MONTHLY = basePlanItemKey('premium', 'monthly');
+const ANNUAL = basePlanItemKey('premium', 'annual');
+const LIFETIME = productItemKey('lifetime');
+const COINS_100 = productItemKey('coins_100');
+const COINS_500 = productItemKey('coins_500');
+
+const prices = (entries: Record<string, [number, string]>): RegionalPriceMap =>
+  Object.fromEntries(Object.entries(entries).map(([region, [amount, currency]]) => [region, parseMoney(amount, currency)]));
+
+const annualCap: PriceRelationship = {
+  id: 'annual-cap',
+  platform: 'google',
+  left: { key: ANNUAL, label: 'Annual' },
+  operator: '<=',
+  factor: 10,
+  right: { key: MONTHLY, label: 'Monthly' },
+};
+
+describe('evaluateRelationships', () => {
+  it('flags regions where the relationship does not hold', () => {
+    const violations = evaluateRelationships([annualCap], {
+      [MONTHLY]: prices({ US: [9.99, 'USD'], DE: [8.99, 'EUR'] }),
+      [ANNUAL]: prices({ US: [79.99, 'USD'], DE: [99.99, 'EUR'] }),
+    });
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ regionCode: 'DE', currencyCode: 'EUR', leftPrice: 99.99, rightPrice: 8.99 });
+    expect(violations[0].limit).toBeCloseTo(89.9, 9);
+  });
+
+  it('accepts an exact tie for ≤ and ≥ but not for < and >', () => {
+    const pricesByItem = {
+      [MONTHLY]: prices({ US: [0.1, 'USD'] }),
+      [ANNUAL]: prices({ US: [1, 'USD'] }),
+    };
+    expect(evaluateRelationships([annualCap], pricesByItem)).toEqual([]);
+    expect(evaluateRelationships([{ ...annualCap, operator: '<' }], pricesByItem)).toHaveLength(1);
+  });
+
+  it('compares per-unit prices', () => {
+    // 100 coins must cost more per coin than 500 coins
+    const perCoin: PriceRelationship = {
+      id: 'coins',
+      platform: 'google',
+      left: { key: COINS_100, label: '100 coins', units: 100 },
+      operator: '>',
+      factor: 1,
+      right: { key: COINS_500, label: '500 coins', units: 500 },
+    };
+    const violations = evaluateRelationships([perCoin], {
+      [COINS_100]: prices({ US: [0.99, 'USD'], BR: [4.9, 'BRL'] }),
+      [COINS_500]: prices({ US: [4.99, 'USD'], BR: [19.9, 'BRL'] }),
+    });
+    // US: 0.0099 vs 0.00998 per coin breaks it; BR: 0.049 vs 0.0398 holds
+    expect(violations.map((v) => v.regionCode)).toEqual(['US']);
+    expect(violations[0].limit).toBeCloseTo(0.998, 9);
+  });
+
+  it('skips regions missing on either side or billed in different currencies', () => {
+    const lifetimeFloor: PriceRelationship = {
+      ...annualCap,
+      id: 'lifetime-floor',
+      left: { key: LIFETIME, label: 'Lifetime' },
+      operator: '>=',
+      factor: 2.5,
+      right: { key: ANNUAL, label: 'Annual' },
+    };
+    expect(
+      evaluateRelationships([lifetimeFloor], {
+        [LIFETIME]: prices({ US: [50, 'USD'], AR: [50, 'USD'] }),
+        [ANNUAL]: prices({ AR: [40_000, 'ARS'], FR: [50, 'EUR'] }),
+      })
+    ).toEqual([]);
+  });
+
+  it('ignores relationships whose items have no prices loaded', () => {
+    expect(evaluateRelationships([annualCap], { [ANNUAL]: prices({ US: [500, 'USD'] }) })).toEqual([]);
+  });
+});
+
+describe('relationshipsForItem', () => {
+  it('matches either side on the same platform', () => {
+    const apple = { ...annualCap, id: 'apple', platform: 'apple' as const };
+    expect(relationshipsForItem([annualCap, apple], 'google', MONTHLY)).toEqual([annualCap]);
+    expect(relationshipsForItem([annualCap, apple], 'google', LIFETIME)).toEqual([]);
+  });
+});
+
+describe('toRegionalPriceMap', () => {
+  it('re-keys Apple alpha-3 territories to alpha-2', () => {
+    const usd = parseMoney(1.99, 'USD');
+    expect(toRegionalPriceMap({ USA: usd, DE: usd })).toEqual({ US: usd, DE: usd });
+  });
+});
+
+describe('describeRelationship / describeViolation', () => {
+  it('reads like the rule a user would write', () => {
+    expect(describeRelationship(annualCap)).toBe('Annual ≤ 10× Monthly');
+    expect(
+      describeRelationship({
+        ...annualCap,
+        left: { key: COINS_100, label: '100 coins', units: 100 },
+        operator: '>',
+        factor: 1,
+        right: { key: COINS_500, label: '500 coins', units: 500 },
+      })
+    ).toBe('100 coins / 100 > 500 coins / 500');
+  });
+
+  it('explains the bound that was missed', () => {
+    const [violation] = evaluateRelationships([annualCap], {
+      [MONTHLY]: prices({ DE: [8.99, 'EUR'] }),
+      [ANNUAL]: prices({ DE: [99.99, 'EUR'] }),
+    });
+    expect(describeViolation(violation)).toBe('DE: Annual 99.99 EUR, must be ≤ 89.90 (Monthly 8.99)');
+  });
+
+  it('prints whole-unit currencies without decimals', () => {
+    const [violation] = evaluateRelationships([annualCap], {
+      [MONTHLY]: prices({ JP: [120, 'JPY'] }),
+      [ANNUAL]: prices({ JP: [1500, 'JPY'] }),
+    });
+    expect(describeViolation(violation)).toBe('JP: Annual 1500 JPY, must be ≤ 1200 (Monthly 120)');
+  });
+});
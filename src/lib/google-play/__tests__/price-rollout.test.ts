@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasDueRolloutStep,
+  isRolloutStepDue,
+  planPriceRollout,
+  rolloutStepDates,
+  splitPriceIncrease,
+  type PriceRollout,
+} from '../price-rollout';
+import { isBelowChangeThreshold } from '../change-threshold';
+import { formatMoneyAmount } from '../money';
+import type { Money } from '../types';
+
+const brl = (units: string, nanos = 0): Money => ({ currencyCode: 'BRL', units, nanos });
+const amounts = (prices: Money[]) => prices.map((p) => formatMoneyAmount(p));
+
+describe('rolloutStepDates', () => {
+  it('spaces steps by the interval across month ends', () => {
+    expect(rolloutStepDates('2026-01-31', { steps: 3, intervalDays: 30 })).toEqual([
+      '2026-01-31',
+      '2026-03-02',
+      '2026-04-01',
+    ]);
+  });
+});
+
+describe('splitPriceIncrease', () => {
+  it('splits an increase into equal steps ending on the target', () => {
+    // +60%: 10.00 → 16.00 in three steps
+    expect(amounts(splitPriceIncrease(brl('10'), brl('16'), 3))).toEqual(['12.00', '14.00', '16.00']);
+  });
+
+  it('rounds intermediate steps to the currency minor unit', () => {
+    expect(amounts(splitPriceIncrease(brl('10'), brl('11'), 3))).toEqual(['10.33', '10.67', '11.00']);
+  });
+
+  it('does not step decreases, new regions or currency changes', () => {
+    expect(splitPriceIncrease(brl('16'), brl('10'), 3)).toEqual([brl('10')]);
+    expect(splitPriceIncrease(undefined, brl('10'), 3)).toEqual([brl('10')]);
+    expect(splitPriceIncrease({ currencyCode: 'USD', units: '2' }, brl('10'), 3)).toEqual([brl('10')]);
+  });
+});
+
+describe('planPriceRollout', () => {
+  it('puts unstepped regions in the first step only', () => {
+    const steps = planPriceRollout(
+      { BR: brl('16'), AR: brl('5') },
+      { BR: brl('10'), AR: brl('6') },
+      { steps: 2, intervalDays: 14 },
+      '2026-05-01'
+    );
+    expect(steps.map((s) => s.date)).toEqual(['2026-05-01', '2026-05-15']);
+    expect(Object.keys(steps[0].prices).sort()).toEqual(['AR', 'BR']);
+    expect(Object.keys(steps[1].prices)).toEqual(['BR']);
+    expect(formatMoneyAmount(steps[0].prices.BR)).toBe('13.00');
+  });
+
+  it('drops empty steps when nothing is stepped', () => {
+    const steps = planPriceRollout({ AR: brl('5') }, { AR: brl('6') }, { steps: 3, intervalDays: 30 }, '2026-05-01');
+    expect(steps).toHaveLength(1);
+  });
+
+  it('uses fewer steps when the first would fall under the change threshold', () => {
+    // 10.00 → 13.00: three steps start at +10%, under a 15% threshold; two start at +15%
+    const schedule = { steps: 3, intervalDays: 30 };
+    const threshold = { relative: 0.15 };
+    const steps = planPriceRollout({ BR: brl('13'), DE: brl('20') }, { BR: brl('10'), DE: brl('10') }, schedule, '2026-05-01', 'google', threshold);
+    expect(steps.map((step) => step.prices.BR && formatMoneyAmount(step.prices.BR))).toEqual(['11.50', '13.00', undefined]);
+    expect(amounts(steps.map((step) => step.prices.DE))).toEqual(['13.33', '16.67', '20.00']);
+    expect(isBelowChangeThreshold(brl('10'), steps[0].prices.BR, threshold)).toBe(false);
+
+    // Too small to step at all: one step with the target, left to the threshold
+    const single = planPriceRollout({ BR: brl('10', 500_000_000) }, { BR: brl('10') }, schedule, '2026-05-01', 'google', threshold);
+    expect(single).toHaveLength(1);
+    expect(formatMoneyAmount(single[0].prices.BR)).toBe('10.50');
+  });
+});
+
+describe('isRolloutStepDue', () => {
+  const rollout = (platform: 'google' | 'apple'): PriceRollout => ({
+    id: 'r1',
+    platform,
+    kind: 'subscription',
+    productId: 'premium',
+    label: 'Premium',
+    createdAt: '2026-05-01T00:00:00.000Z',
+    steps: [
+      { date: '2026-05-01', prices: { BR: brl('13') }, submittedAt: '2026-05-01T00:00:00.000Z' },
+      { date: '2026-05-31', prices: { BR: brl('16') } },
+    ],
+  });
+
+  it('sends Google steps on their date', () => {
+    expect(isRolloutStepDue(rollout('google'), 1, '2026-05-30')).toBe(false);
+    expect(isRolloutStepDue(rollout('google'), 1, '2026-05-31')).toBe(true);
+    expect(isRolloutStepDue(rollout('google'), 0, '2026-06-01')).toBe(false);
+  });
+
+  it('schedules Apple steps once the previous step is live', () => {
+    const apple = rollout('apple');
+    apple.steps[0].date = '2026-05-10';
+    expect(isRolloutStepDue(apple, 1, '2026-05-09')).toBe(false);
+    expect(isRolloutStepDue(apple, 1, '2026-05-10')).toBe(true);
+  });
+
+  it('flags a rollout while any step is due', () => {
+    const google = rollout('google');
+    expect(hasDueRolloutStep(google, '2026-05-30')).toBe(false);
+    expect(hasDueRolloutStep(google, '2026-06-15')).toBe(true);
+    google.steps[1].submittedAt = '2026-06-15T00:00:00.000Z';
+    expect(hasDueRolloutStep(google, '2026-06-15')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  calculateBulkPrices,
+  calculateRegionalPrice,
+  getMultiplierSourceLabel,
+  getPricingStrategy,
+  listPricingStrategies,
+  registerPricingStrategy,
+  unregisterPricingStrategy,
+  type PricingStrategyModule,
+} from '../currency';
+import { syncCustomIndexStrategies } from '../strategies/custom-index';
+import type { CustomIndex } from '../../conversion-indexes/custom-index';
+import { TEST_PPP_DATA, TEST_EXCHANGE_RATES } from './fixtures/ppp-snapshot';
+
+// A private strategy: half the PPP multiplier, floored at 0.2
+const halfPpp: PricingStrategyModule = {
+  id: 'half-ppp',
+  label: 'Half PPP',
+  title: 'Half PPP',
+  description: 'Half the PPP multiplier, never below 0.2',
+  requires: ['ppp-data', 'exchange-rates'],
+  sourceLabels: { 'half-ppp': 'Half PPP' },
+  computeMultiplier: (_region, context) => {
+    const multiplier = Math.max(0.2, context.multiplierFor('ppp') / 2);
+    context.trace({ step: 'multiplier', detail: `Half PPP ${multiplier}`, value: multiplier });
+    return { multiplier, source: 'half-ppp' };
+  },
+};
+
+const request = {
+  basePrice: 49.99,
+  rounding: 'none' as const,
+  dynamicPPPData: TEST_PPP_DATA,
+  dynamicExchangeRates: TEST_EXCHANGE_RATES,
+};
+
+afterEach(() => {
+  unregisterPricingStrategy('half-ppp');
+});
+
+describe('pricing strategy registry', () => {
+  it('lists the built-in strategies in display order', () => {
+    expect(listPricingStrategies().map((s) => s.id)).toEqual([
+      'direct',
+      'netflix',
+      'ppp',
+      'ppp-consumption',
+      'bigmac',
+      'spotify',
+      'gni',
+      'blend',
+      'proceeds',
+      'custom',
+    ]);
+    expect(getPricingStrategy('proceeds')?.targetsProceeds).toBe(true);
+  });
+
+  it('prices with a registered strategy like a built-in one', () => {
+    registerPricingStrategy(halfPpp);
+    expect(listPricingStrategies().at(-1)?.id).toBe('half-ppp');
+
+    const ppp = calculateRegionalPrice('DE', { ...request, strategy: 'ppp' });
+    const half = calculateRegionalPrice('DE', { ...request, strategy: 'half-ppp' });
+    expect(half.multiplier).toBeCloseTo(Math.max(0.2, ppp.multiplier / 2), 10);
+    expect(half.multiplierSource).toBe('half-ppp');
+    expect(half.rawPrice).toBeCloseTo(49.99 * half.multiplier * 0.851, 2);
+    expect(half.trace.map((step) => step.step)).toEqual([
+      'base-currency',
+      'multiplier',
+      'fx',
+      'rounding',
+      'min-price',
+    ]);
+  });
+
+  it('applies guardrails to the output of a registered strategy', () => {
+    registerPricingStrategy(halfPpp);
+    const prices = calculateBulkPrices(['US', 'DE', 'IN'], {
+      ...request,
+      strategy: 'half-ppp',
+      guardrails: { minOfBase: 0.3 },
+    });
+    const india = prices.find((p) => p.regionCode === 'IN');
+    expect(india?.guardrail?.rule).toBe('min-of-base');
+  });
+
+  it('labels multiplier sources from the strategy that reports them', () => {
+    expect(getMultiplierSourceLabel('world-bank')).toBe('World Bank PPP data');
+    expect(getMultiplierSourceLabel('half-ppp')).toBe('half-ppp');
+    registerPricingStrategy(halfPpp);
+    expect(getMultiplierSourceLabel('half-ppp')).toBe('Half PPP');
+  });
+
+  it('falls back to direct conversion for unknown ids', () => {
+    const result = calculateRegionalPrice('DE', { ...request, strategy: 'not-registered' });
+    expect(result.multiplier).toBe(1);
+    expect(result.multiplierSource).toBe('direct');
+  });
+});
+
+describe('uploaded index strategies', () => {
+  const index: CustomIndex = {
+    id: 'arpu',
+    name: 'ARPU',
+    multipliers: { US: 1.2, DE: 0.9 },
+    importedAt: '2026-10-01T00:00:00.000Z',
+  };
+
+  afterEach(() => {
+    syncCustomIndexStrategies([]);
+  });
+
+  it('registers one strategy per index and removes stale ones', () => {
+    syncCustomIndexStrategies([index]);
+    expect(getPricingStrategy('custom-index:arpu')?.label).toBe('ARPU');
+    syncCustomIndexStrategies([]);
+    expect(getPricingStrategy('custom-index:arpu')).toBeUndefined();
+  });
+
+  it('normalises to the base region and prices missing regions at parity', () => {
+    syncCustomIndexStrategies([index]);
+    const [de, tr] = calculateBulkPrices(['DE', 'TR'], { ...request, strategy: 'custom-index:arpu' });
+    expect(de.multiplier).toBeCloseTo(0.9 / 1.2, 10);
+    expect(de.multiplierSource).toBe('custom-index');
+    expect(tr.multiplier).toBe(1);
+  });
+});
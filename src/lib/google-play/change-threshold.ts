@@ -0,0 +1,76 @@
+// Price-change hysteresis: regions whose new price is within a small distance
+// of the live price are left alone, so a routine refresh doesn't rewrite every
+// region for FX noise (each write is a PATCH on Google and a scheduled price
+// change on Apple).
+import { moneyToNanos, numberToNanos, type Nanos } from './money';
+import type { Money } from './types';
+
+const NANOS_PER_UNIT = BigInt(1_000_000_000);
+
+export interface ChangeThreshold {
+  /** Minimum change as a fraction of the live price (0.02 = 2%) */
+  relative?: number;
+  /** Minimum change in the region's own currency */
+  absolute?: number;
+}
+
+export function hasChangeThreshold(threshold: ChangeThreshold | undefined): threshold is ChangeThreshold {
+  return !!threshold && ((threshold.relative ?? 0) > 0 || (threshold.absolute ?? 0) > 0);
+}
+
+// Whether moving from `current` to `next` is too small to write. A change must
+// clear every bound that is set. Prices in different currencies always count
+// as a change.
+export function isBelowChangeThreshold(
+  current: Money | undefined,
+  next: Money,
+  threshold: ChangeThreshold | undefined
+): boolean {
+  if (!hasChangeThreshold(threshold) || !current || current.currencyCode !== next.currencyCode) {
+    return false;
+  }
+  const currentNanos = moneyToNanos(current);
+  let diff: Nanos = moneyToNanos(next) - currentNanos;
+  if (diff < BigInt(0)) diff = -diff;
+
+  if ((threshold.absolute ?? 0) > 0 && diff < numberToNanos(threshold.absolute!)) return true;
+  if ((threshold.relative ?? 0) > 0) {
+    // diff / current < relative, kept in integers: diff × 10^9 < current × relative × 10^9
+    const base = currentNanos < BigInt(0) ? -currentNanos : currentNanos;
+    if (diff * NANOS_PER_UNIT < base * numberToNanos(threshold.relative!)) return true;
+  }
+  return false;
+}
+
+export interface ChangeThresholdSplit<T> {
+  /** Entries whose change clears the threshold */
+  changed: Record<string, T>;
+  /** Region codes left at their live price */
+  unchanged: string[];
+}
+
+// Split new prices by region into those worth writing and those below the threshold
+export function splitByChangeThreshold<T>(
+  prices: Record<string, T>,
+  currentPrices: Record<string, Money | undefined>,
+  threshold: ChangeThreshold | undefined,
+  toMoney: (value: T) => Money
+): ChangeThresholdSplit<T> {
+  const changed: Record<string, T> = {};
+  const unchanged: string[] = [];
+  for (const [regionCode, value] of Object.entries(prices)) {
+    if (isBelowChangeThreshold(currentPrices[regionCode], toMoney(value), threshold)) {
+      unchanged.push(regionCode);
+    } else {
+      changed[regionCode] = value;
+    }
+  }
+  return { changed, unchanged };
+}
+
+export function describeChangeThreshold(threshold: ChangeThreshold): string {
+  const parts: string[] = [];
+  if ((threshold.relative ?? 0) > 0) parts.push(`${Number((threshold.relative! * 100).toFixed(2))}%`);
+  if ((threshold.absolute ?? 0) > 0) parts.push(`${threshold.absolute} in local currency`);
+  return parts.join(' and ');
+}
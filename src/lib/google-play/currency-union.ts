@@ -0,0 +1,121 @@
+// Currency unions: give every region that bills in the same currency one
+// shared price, so Portugal and Luxembourg don't list different EUR prices.
+//
+// The shared price is always one of the members' own prices (the closest to
+// the average, the median, the anchor's or the lowest), so it keeps a valid
+// ending or store tier without rounding again.
+
+export type CurrencyUnionResolution = 'average' | 'median' | 'anchor' | 'lowest';
+
+export interface CurrencyUnionConfig {
+  resolution: CurrencyUnionResolution;
+  /** Currencies to unify; every currency shared by two or more regions when omitted */
+  currencies?: string[];
+  /** Anchor region (alpha-2) per currency for 'anchor', over DEFAULT_CURRENCY_UNION_ANCHORS */
+  anchors?: Record<string, string>;
+}
+
+// Monetary unions, anchored on the country hosting the central bank
+export const DEFAULT_CURRENCY_UNION_ANCHORS: Record<string, string> = {
+  EUR: 'DE',
+  XOF: 'SN',
+  XAF: 'CM',
+  XCD: 'KN',
+};
+
+export const MONETARY_UNION_CURRENCIES = Object.keys(DEFAULT_CURRENCY_UNION_ANCHORS);
+
+export const CURRENCY_UNION_RESOLUTION_LABELS: Record<CurrencyUnionResolution, string> = {
+  average: 'Average',
+  median: 'Median',
+  anchor: 'Anchor country',
+  lowest: 'Lowest',
+};
+
+export interface CurrencyUnionMember {
+  regionCode: string;
+  /** Alpha-2 code, for matching anchors */
+  alpha2: string;
+  currencyCode: string;
+  amount: number;
+}
+
+export interface CurrencyUnionPrice {
+  currencyCode: string;
+  amount: number;
+  /** Region whose price was chosen */
+  sourceRegion: string;
+  regionCount: number;
+  resolution: CurrencyUnionResolution;
+  /** Set when 'anchor' found no anchor among the members and used the median */
+  anchorMissing?: boolean;
+}
+
+function pickMedian(members: CurrencyUnionMember[]): CurrencyUnionMember {
+  const sorted = [...members].sort((a, b) => a.amount - b.amount);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+function pickClosest(members: CurrencyUnionMember[], target: number): CurrencyUnionMember {
+  return members.reduce((best, m) => {
+    const diff = Math.abs(m.amount - target) - Math.abs(best.amount - target);
+    return diff < 0 || (diff === 0 && m.amount < best.amount) ? m : best;
+  });
+}
+
+// Shared price per region code for every union with two or more members.
+// `baseRegion` (alpha-2) is the preferred anchor for its own currency.
+export function resolveCurrencyUnions(
+  members: CurrencyUnionMember[],
+  config: CurrencyUnionConfig,
+  baseRegion?: string
+): Map<string, CurrencyUnionPrice> {
+  const groups = new Map<string, CurrencyUnionMember[]>();
+  for (const member of members) {
+    if (config.currencies && !config.currencies.includes(member.currencyCode)) continue;
+    groups.set(member.currencyCode, [...(groups.get(member.currencyCode) ?? []), member]);
+  }
+
+  const result = new Map<string, CurrencyUnionPrice>();
+  for (const [currencyCode, group] of groups) {
+    if (group.length < 2) continue;
+
+    let chosen: CurrencyUnionMember;
+    let anchorMissing = false;
+    switch (config.resolution) {
+      case 'average':
+        chosen = pickClosest(group, group.reduce((sum, m) => sum + m.amount, 0) / group.length);
+        break;
+      case 'lowest':
+        chosen = group.reduce((low, m) => (m.amount < low.amount ? m : low));
+        break;
+      case 'anchor': {
+        const anchorCodes = [
+          config.anchors?.[currencyCode],
+          baseRegion,
+          DEFAULT_CURRENCY_UNION_ANCHORS[currencyCode],
+        ];
+        const anchor = anchorCodes
+          .map((code) => group.find((m) => m.alpha2 === code))
+          .find((m) => m !== undefined);
+        anchorMissing = !anchor;
+        chosen = anchor ?? pickMedian(group);
+        break;
+      }
+      case 'median':
+      default:
+        chosen = pickMedian(group);
+    }
+
+    const shared: CurrencyUnionPrice = {
+      currencyCode,
+      amount: chosen.amount,
+      sourceRegion: chosen.regionCode,
+      regionCount: group.length,
+      resolution: config.resolution,
+      ...(anchorMissing ? { anchorMissing } : {}),
+    };
+    for (const member of group) result.set(member.regionCode, shared);
+  }
+  return result;
+}
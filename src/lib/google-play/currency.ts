@@ -1,14 +1,213 @@
 // Currency conversion utilities for bulk pricing
 import type { Money } from './types';
-import { GOOGLE_PLAY_REGIONS, parseMoney } from './types';
-import { getPricingIndexEntry, LOCAL_CURRENCIES } from '../conversion-indexes/ppp';
-import { getBigMacMultiplier } from '../conversion-indexes/big-mac';
-import { getNetflixMultiplier } from '../conversion-indexes/netflix';
+import { GOOGLE_PLAY_REGIONS, moneyToNumber, parseMoney } from './types';
+import { roundAmount } from './money';
+import { getPriceDecimals } from '../currencies/registry';
+import { getPricingIndexEntry } from '../conversion-indexes/ppp';
 import { FALLBACK_EXCHANGE_RATES } from '../conversion-indexes/exchange-rates';
+import { getTaxRateEntry } from '../conversion-indexes/tax-rates';
+import { getWorldRegion } from '../conversion-indexes/world-regions';
+import { clusterPriceBands, type PriceBandConfig } from './price-bands';
+import {
+  CURRENCY_UNION_RESOLUTION_LABELS,
+  resolveCurrencyUnions,
+  type CurrencyUnionConfig,
+  type CurrencyUnionResolution,
+} from './currency-union';
 import { alpha3ToAlpha2 } from '../apple-connect/territories';
+import type { PPPYearRange } from '../world-bank/ppp-years';
+import {
+  DEFAULT_LOCALE_CHARM_ENDINGS,
+  NINETY_NINE_ENDINGS,
+  getPriceEndingRules,
+  snapToPriceEnding,
+  type PriceEndingTable,
+} from './price-endings';
+import {
+  DEFAULT_PROCEEDS_CONFIG,
+  directStrategy,
+  getLocalCurrencyForRegion,
+  type BlendConfig,
+  type BlendContribution,
+  type ProceedsConfig,
+  type UnstableCurrencyHit,
+  type UnstableCurrencyPolicy,
+} from './strategies/builtin';
+import { getPricingStrategy, traceNumber, type StrategyContext } from './strategies/registry';
+
+export {
+  BLEND_INDEXES,
+  DEFAULT_BLEND_CONFIG,
+  DEFAULT_PROCEEDS_CONFIG,
+  DEFAULT_UNSTABLE_CURRENCY_POLICY,
+  RECOMMENDED_UNSTABLE_CURRENCY_RULES,
+  STORE_COMMISSION_RATES,
+  findUnstableCurrencyRule,
+  type BlendConfig,
+  type BlendContribution,
+  type BlendIndex,
+  type BlendMissingPolicy,
+  type ProceedsConfig,
+  type UnstableCurrencyAction,
+  type UnstableCurrencyHit,
+  type UnstableCurrencyPolicy,
+  type UnstableCurrencyRule,
+} from './strategies/builtin';
+// Re-exported from here so that importing the registry API always loads the
+// built-in strategies first.
+export {
+  getMultiplierSourceLabel,
+  getPricingStrategy,
+  listPricingStrategies,
+  registerPricingStrategy,
+  unregisterPricingStrategy,
+  type PricingStrategyModule,
+  type StrategyContext,
+  type StrategyDataRequirement,
+  type StrategyResult,
+} from './strategies/registry';
+
+export type BuiltInPricingStrategy =
+  | 'direct'
+  | 'ppp'
+  | 'ppp-consumption'
+  | 'bigmac'
+  | 'netflix'
+  | 'spotify'
+  | 'gni'
+  | 'blend'
+  | 'proceeds'
+  | 'custom';
+// Any registered strategy id (see ./strategies/registry)
+export type PricingStrategy = BuiltInPricingStrategy | (string & {});
+export type RoundingMode = 'nearest-tier' | 'nearest-99' | 'round-up' | 'locale-charm' | 'none';
+
+// Bounds applied to the strategy output, before rounding. All values are
+// fractions: minOfBase 0.2 = "never below 20% of the USD-equivalent base".
+export interface PriceGuardrails {
+  /** Floor on the USD-equivalent price, as a fraction of the base price */
+  minOfBase?: number;
+  /** Ceiling on the USD-equivalent price, as a fraction of the base price */
+  maxOfBase?: number;
+  /** Largest move allowed from the price currently live in the region (0.25 = ±25%) */
+  maxChangeFromCurrent?: number;
+}
+
+export type GuardrailRule = 'min-of-base' | 'max-of-base' | 'max-increase' | 'max-decrease';
+
+export interface GuardrailHit {
+  rule: GuardrailRule;
+  /** The strategy price before the clamp (billing currency, unrounded) */
+  unclampedPrice: number;
+  /** The bound the price was clamped to (billing currency, unrounded) */
+  limit: number;
+}
+
+// Which price the rounding step targets:
+//   'listed'   - the price entered in the store (default)
+//   'customer' - the price the customer pays, including tax. Only differs
+//                where tax is added at checkout (e.g. US, Canada).
+export type TaxMode = 'listed' | 'customer';
+
+export interface TaxBreakdown {
+  /** Standard rate as a fraction */
+  rate: number;
+  /** Local name of the tax (VAT, GST, ...) */
+  name: string;
+  /** Whether the listed store price already includes the tax */
+  inclusive: boolean;
+  /** Price excluding tax */
+  netPrice: number;
+  /** Price the customer pays, including tax */
+  grossPrice: number;
+}
+
+// A base price set directly for one region. With several anchors each region
+// is priced from the anchor picked by resolveAnchor instead of a single base.
+export interface PriceAnchor {
+  /** Region the price is set for (alpha-2 or alpha-3) */
+  region: string;
+  /** Price in the anchor currency */
+  price: number;
+  /** Currency of `price`; defaults to the region's billing currency */
+  currency?: string;
+  /** Regions always priced from this anchor, whatever their location */
+  regions?: string[];
+}
+
+export interface PriceBandAssignment {
+  /** 0 = highest band */
+  index: number;
+  label: string;
+  /** The multiplier the strategy produced for the region before banding */
+  strategyMultiplier: number;
+}
+
+export interface CurrencyUnionAssignment {
+  resolution: CurrencyUnionResolution;
+  /** Region whose price every region in the currency shares */
+  sourceRegion: string;
+  regionCount: number;
+  /** The region's own price before the union */
+  ownPrice: number;
+  /** 'anchor' found no anchor region in the currency and used the median */
+  anchorMissing?: boolean;
+}
+
+// Adjustments applied around the strategy multiplier
+export interface RegionalPricingOptions {
+  /** Weights and missing-entry rule for the 'blend' strategy */
+  blend?: BlendConfig;
+  /** Floor/ceiling relative to the base price and to the live price */
+  guardrails?: PriceGuardrails;
+  /** Prices currently live per region, used by guardrails.maxChangeFromCurrent */
+  currentPrices?: Record<string, Money>;
+  /** Per-currency endings for 'locale-charm' rounding (defaults to DEFAULT_LOCALE_CHARM_ENDINGS) */
+  priceEndings?: PriceEndingTable;
+  /** Round the listed price (default) or the tax-inclusive customer price */
+  taxMode?: TaxMode;
+  /** Store commission for the 'proceeds' strategy and the estimatedProceeds field */
+  proceeds?: ProceedsConfig;
+  /** Several base prices; when non-empty they replace basePrice/baseCurrency/baseRegion */
+  anchors?: PriceAnchor[];
+  /** Collapse regions into a few shared price levels (calculateBulkPrices only) */
+  bands?: PriceBandConfig;
+  /** One price per shared billing currency, applied last (calculateBulkPrices only) */
+  currencyUnion?: CurrencyUnionConfig;
+  /** What the PPP strategies do for unstable currencies (defaults to DEFAULT_UNSTABLE_CURRENCY_POLICY) */
+  unstableCurrency?: UnstableCurrencyPolicy;
+}
+
+// Everything a pricing run needs besides the regions
+export interface PricingRequest extends RegionalPricingOptions {
+  /** Price in baseCurrency (for 'proceeds', the target net per sale) */
+  basePrice: number;
+  /** Id of a registered strategy; unknown ids fall back to 'direct' */
+  strategy: PricingStrategy;
+  /** Defaults to 'nearest-tier' */
+  rounding?: RoundingMode;
+  dynamicPPPData?: DynamicPPPData;
+  /** Billing currency per region from the store API, over the static mapping */
+  actualCurrencies?: Record<string, string>;
+  /** Exchange rates from API, over the bundled fallback table */
+  dynamicExchangeRates?: DynamicExchangeRates;
+  /** Currency of basePrice (default 'USD') */
+  baseCurrency?: string;
+  /** Region basePrice is defined for, alpha-2 or alpha-3 (default 'US') */
+  baseRegion?: string;
+  /** Tier ladder per currency (Apple) */
+  getTiersForCurrency?: GetTiersForCurrency;
+}
 
-export type PricingStrategy = 'direct' | 'ppp' | 'bigmac' | 'netflix' | 'custom';
-export type RoundingMode = 'nearest-tier' | 'nearest-99' | 'round-up' | 'none';
+export interface RegionalPricingRequest extends PricingRequest {
+  /** Multiplier for the 'custom' strategy */
+  customMultiplier?: number;
+}
+
+export interface BulkPricingRequest extends PricingRequest {
+  /** Per-region multipliers for the 'custom' strategy */
+  customMultipliers?: Record<string, number>;
+}
 
 export interface RoundingTier {
   price: number;
@@ -69,22 +268,35 @@ function getExchangeRate(
 }
 
 
-// Get the actual local currency for a region (what World Bank PPP is based on)
-function getLocalCurrencyForRegion(regionCode: string): string {
-  return LOCAL_CURRENCIES[regionCode] || 'USD';
+// Where getExchangeRate found its rate, for the derivation trace
+function describeExchangeRateSource(currencyCode: string, dynamicRates?: DynamicExchangeRates): string {
+  if (currencyCode === 'USD') return 'USD';
+  if (dynamicRates?.rates[currencyCode] !== undefined) return `live rates, ${dynamicRates.fetchedAt}`;
+  if (FALLBACK_EXCHANGE_RATES[currencyCode] !== undefined) return 'fallback rate table';
+  return 'no rate found, USD parity assumed';
 }
 
+const ROUNDING_TRACE_LABELS: Record<RoundingMode, string> = {
+  'nearest-tier': 'Nearest price tier',
+  'nearest-99': 'Nearest .99 ending',
+  'round-up': 'Next .99 ending up',
+  'locale-charm': 'Local price ending',
+  none: 'No rounding (cents)',
+};
+
 // Apply rounding based on mode. `tiers` (optional) is the list of allowed
 // price points for the target currency (used by 'nearest-tier' mode when
 // the platform exposes a tier ladder, e.g. Apple App Store Connect).
+// `endingTable` (optional) overrides the default 'locale-charm' endings.
 function applyRounding(
   price: number,
   mode: RoundingMode,
   currencyCode: string,
-  tiers?: readonly RoundingTier[]
+  tiers?: readonly RoundingTier[],
+  endingTable?: PriceEndingTable
 ): number {
   if (mode === 'none') {
-    return Math.round(price * 100) / 100;
+    return roundAmount(price, getPriceDecimals(currencyCode, 'google'));
   }
 
   // Snap to closest provided tier (e.g. Apple). Falls through to nearest-99
@@ -105,61 +317,64 @@ function applyRounding(
     // Fall through: behave as nearest-99 when no tier list available.
   }
 
-  // For currencies with no decimal places (JPY, KRW, etc.)
-  const noDecimalCurrencies = [
-    'JPY', 'KRW', 'VND', 'IDR', 'CLP', 'PYG', 'HUF', 'COP',
-    'UGX', 'TZS', 'KZT', 'MNT', 'IQD',
-    'XOF', 'XAF', // CFA Francs (West/Central African)
-  ];
-  const isNoDecimal = noDecimalCurrencies.includes(currencyCode);
-
-  // CFA Francs require rounding to multiples of 100 (Google Play requirement)
-  const cfaFrancs = ['XOF', 'XAF'];
-  const isCfaFranc = cfaFrancs.includes(currencyCode);
-
-  // Round up to next .99 ending (or platform-equivalent for no-decimal currencies).
-  if (mode === 'round-up') {
-    if (isCfaFranc) {
-      return Math.ceil(price / 100) * 100;
-    }
-    if (isNoDecimal) {
-      if (price >= 1000) {
-        const next90 = Math.ceil((price + 10) / 100) * 100 - 10;
-        return next90 < 90 ? 90 : next90;
-      } else if (price >= 100) {
-        const next9 = Math.ceil((price + 1) / 10) * 10 - 1;
-        return next9 < 9 ? 9 : next9;
-      }
-      return Math.ceil(price);
-    }
-    const cents = Math.round(price * 100);
-    if (cents % 100 === 99) return cents / 100; // already .99
-    const nextWhole = Math.ceil(price);
-    const result = nextWhole - 0.01;
-    return result < 0.99 ? 0.99 : result;
+  // Locale-aware endings from the (user-editable) table
+  if (mode === 'locale-charm') {
+    return snapToPriceEnding(
+      price,
+      getPriceEndingRules(endingTable ?? DEFAULT_LOCALE_CHARM_ENDINGS, currencyCode),
+      'nearest'
+    );
   }
 
-  // 'nearest-99' (and the fallthrough from 'nearest-tier' with no tiers).
-  if (isCfaFranc) {
-    // CFA Francs: round to nearest 100 (.99 not applicable)
-    return Math.round(price / 100) * 100;
-  }
-  if (isNoDecimal) {
-    if (price >= 1000) {
-      const closest90 = Math.round((price + 10) / 100) * 100 - 10;
-      return closest90 < 90 ? 90 : closest90;
-    } else if (price >= 100) {
-      const closest9 = Math.round((price + 1) / 10) * 10 - 1;
-      return closest9 < 9 ? 9 : closest9;
-    }
-    return Math.round(price);
-  }
+  // .99 endings, or the platform equivalent for no-decimal currencies.
+  // 'round-up' takes the next one; 'nearest-99' (and the fallthrough from
+  // 'nearest-tier' with no tiers) the closest by absolute distance.
+  return snapToPriceEnding(
+    price,
+    getPriceEndingRules(NINETY_NINE_ENDINGS, currencyCode),
+    mode === 'round-up' ? 'up' : 'nearest'
+  );
+}
 
-  const nearestWhole = Math.round(price + 0.01);
-  const closest99 = nearestWhole - 0.01;
-  return closest99 < 0.99 ? 0.99 : closest99;
+// One step of a price derivation, in the order calculateRegionalPrice applied it
+export type PriceTraceStepKind =
+  | 'anchor'
+  | 'band'
+  | 'currency-union'
+  | 'base-currency'
+  | 'multiplier'
+  | 'base-normalisation'
+  | 'hyperinflation-override'
+  | 'fx'
+  | 'guardrail'
+  | 'rounding'
+  | 'min-price'
+  | 'store-rule';
+
+export interface PriceTraceStep {
+  step: PriceTraceStepKind;
+  /** Human-readable description of what happened and why */
+  detail: string;
+  /** Running value after the step: a price in `currency`, or a multiplier when `currency` is unset */
+  value?: number;
+  currency?: string;
 }
 
+// Built-in sources, or whatever a registered strategy reports
+export type MultiplierSource =
+  | 'world-bank'
+  | 'big-mac'
+  | 'netflix'
+  | 'spotify'
+  | 'gni'
+  | 'blend'
+  | 'proceeds'
+  | 'static'
+  | 'custom'
+  | 'direct'
+  | 'custom-index'
+  | (string & {});
+
 export interface CalculatedPrice {
   regionCode: string;
   currencyCode: string;
@@ -168,11 +383,31 @@ export interface CalculatedPrice {
   /** The multiplier applied to the base price (before exchange rate) */
   multiplier: number;
   /** Source of the multiplier data */
-  multiplierSource?: 'world-bank' | 'big-mac' | 'netflix' | 'static' | 'custom' | 'direct';
+  multiplierSource?: MultiplierSource;
   /** The exchange rate from USD to local currency */
   exchangeRate: number;
   /** The PPP-adjusted price in USD (before currency conversion) */
   adjustedUsdPrice: number;
+  /** Per-index breakdown of the multiplier (only for the 'blend' strategy) */
+  blendContributions?: BlendContribution[];
+  /** Set when a guardrail clamped the strategy price */
+  guardrail?: GuardrailHit;
+  /** Net / tax-inclusive split of the final price (only with taxMode 'customer') */
+  tax?: TaxBreakdown;
+  /** Developer net per sale at the final price, billing currency (with options.proceeds or the 'proceeds' strategy) */
+  estimatedProceeds?: number;
+  /** Region of the anchor the price was derived from (only with options.anchors) */
+  anchor?: string;
+  /** Price band the region was placed in (only with options.bands) */
+  band?: PriceBandAssignment;
+  /** Shared price for the region's billing currency (only with options.currencyUnion) */
+  currencyUnion?: CurrencyUnionAssignment;
+  /** Set when the unstable-currency policy replaced the PPP multiplier */
+  unstableCurrency?: UnstableCurrencyHit;
+  /** The index strategy has no entry for the region and used its default multiplier */
+  indexDefault?: boolean;
+  /** Every step taken to reach the price, for debugging unexpected results */
+  trace: PriceTraceStep[];
 }
 
 // Dynamic PPP data from World Bank API
@@ -187,6 +422,12 @@ export interface DynamicPPPData {
      * denominator come from a single API snapshot. Falls back to live OER rates.
      */
     marketExchangeRate?: number;
+    /** World Bank year(s) behind `pppConversionFactor` */
+    pppYears?: PPPYearRange;
+    /** Private-consumption PPP (PA.NUS.PRVT.PP), computed like the GDP pair above */
+    consumptionPppMultiplier?: number;
+    consumptionPppConversionFactor?: number;
+    consumptionPppYears?: PPPYearRange;
     bigMacMultiplier?: number;
     netflixMultiplier?: number;
     minPrice: number;
@@ -195,20 +436,84 @@ export interface DynamicPPPData {
   };
 }
 
+// Clamp a strategy price to the configured guardrails. Base-relative bounds
+// are applied first; the max-change bound is applied last and wins when the
+// two conflict, so a region already far outside the band moves towards it in
+// steps instead of jumping.
+function applyGuardrails(
+  price: number,
+  guardrails: PriceGuardrails,
+  baseUsdPrice: number,
+  exchangeRate: number,
+  currentPrice?: number
+): { price: number; hit?: GuardrailHit } {
+  let clamped = price;
+  let hit: GuardrailHit | undefined;
+  const clampTo = (rule: GuardrailRule, limit: number) => {
+    hit = { rule, unclampedPrice: price, limit };
+    clamped = limit;
+  };
+
+  if (guardrails.minOfBase !== undefined) {
+    const floor = baseUsdPrice * guardrails.minOfBase * exchangeRate;
+    if (clamped < floor) clampTo('min-of-base', floor);
+  }
+  if (guardrails.maxOfBase !== undefined) {
+    const ceiling = baseUsdPrice * guardrails.maxOfBase * exchangeRate;
+    if (clamped > ceiling) clampTo('max-of-base', ceiling);
+  }
+  if (guardrails.maxChangeFromCurrent !== undefined && currentPrice && currentPrice > 0) {
+    const upper = currentPrice * (1 + guardrails.maxChangeFromCurrent);
+    const lower = currentPrice * Math.max(0, 1 - guardrails.maxChangeFromCurrent);
+    if (clamped > upper) clampTo('max-increase', upper);
+    else if (clamped < lower) clampTo('max-decrease', lower);
+  }
+
+  return { price: clamped, hit };
+}
+
 // Calculate regional price based on strategy
 export function calculateRegionalPrice(
-  basePrice: number,
   regionCode: string,
-  strategy: PricingStrategy,
-  rounding: RoundingMode = 'nearest-tier',
-  customMultiplier?: number,
-  dynamicPPPData?: DynamicPPPData,
-  actualCurrencies?: Record<string, string>, // Currencies from API
-  dynamicExchangeRates?: DynamicExchangeRates, // Exchange rates from API
-  baseCurrency: string = 'USD', // The currency of the basePrice
-  baseRegion: string = 'US', // The region the basePrice is defined for
-  getTiersForCurrency?: GetTiersForCurrency // Optional tier ladder per currency (Apple)
+  request: RegionalPricingRequest
 ): CalculatedPrice {
+  const {
+    basePrice,
+    strategy,
+    rounding = 'nearest-tier',
+    customMultiplier,
+    dynamicPPPData,
+    actualCurrencies,
+    dynamicExchangeRates,
+    baseCurrency = 'USD',
+    baseRegion = 'US',
+    getTiersForCurrency,
+  } = request;
+  const options: RegionalPricingOptions = request;
+
+  // Multi-anchor run: price the region from its anchor as if it were the only base
+  const anchor = options.anchors && resolveAnchor(regionCode, options.anchors, actualCurrencies);
+  if (anchor) {
+    const anchorCurrency = anchor.currency ?? getCurrencyForRegion(anchor.region, actualCurrencies);
+    const result: CalculatedPrice = {
+      ...calculateRegionalPrice(regionCode, {
+        ...request,
+        basePrice: anchor.price,
+        baseCurrency: anchorCurrency,
+        baseRegion: anchor.region,
+        anchors: undefined,
+      }),
+      anchor: anchor.region,
+    };
+    result.trace.unshift({
+      step: 'anchor',
+      detail: `Priced from the ${anchor.region} anchor (${traceNumber(anchor.price)} ${anchorCurrency})`,
+      value: anchor.price,
+      currency: anchorCurrency,
+    });
+    return result;
+  }
+
   // Convert to alpha-2 for lookups (handles both alpha-2 and alpha-3 inputs)
   const alpha2Code = toAlpha2(regionCode);
   const alpha2BaseRegion = toAlpha2(baseRegion);
@@ -217,6 +522,8 @@ export function calculateRegionalPrice(
   const currencyCode = getCurrencyForRegion(regionCode, actualCurrencies);
   const exchangeRate = getExchangeRate(currencyCode, dynamicExchangeRates);
 
+  const trace: PriceTraceStep[] = [];
+
   // Normalize basePrice to USD if it's in a different currency
   let baseUsdPrice = basePrice;
   if (baseCurrency !== 'USD') {
@@ -224,10 +531,24 @@ export function calculateRegionalPrice(
     if (baseExchangeRate && baseExchangeRate !== 0) {
       baseUsdPrice = basePrice / baseExchangeRate;
     }
+    trace.push({
+      step: 'base-currency',
+      detail: `${traceNumber(basePrice)} ${baseCurrency} ÷ ${traceNumber(baseExchangeRate)} ${baseCurrency}/USD (${describeExchangeRateSource(baseCurrency, dynamicExchangeRates)}) = ${traceNumber(baseUsdPrice)} USD`,
+      value: baseUsdPrice,
+      currency: 'USD',
+    });
+  } else {
+    trace.push({
+      step: 'base-currency',
+      detail: `Base price ${traceNumber(basePrice)} USD, no conversion needed`,
+      value: basePrice,
+      currency: 'USD',
+    });
   }
 
   // Free (0) base price: skip all calculations and return 0 for every region
   if (basePrice === 0) {
+    trace.push({ step: 'multiplier', detail: 'Free (0) base price: every region is 0', value: 0, currency: currencyCode });
     return {
       regionCode,
       currencyCode,
@@ -237,148 +558,164 @@ export function calculateRegionalPrice(
       multiplierSource: 'direct',
       exchangeRate,
       adjustedUsdPrice: 0,
+      trace,
     };
   }
 
   // Use dynamic PPP data if available (try both original and alpha-2 codes), otherwise fall back to static
   const dynamicEntry = dynamicPPPData?.[regionCode] ?? dynamicPPPData?.[alpha2Code];
-  const staticEntry = getPricingIndexEntry(alpha2Code);
-  const pppConversionFactor = dynamicEntry?.pppConversionFactor;
-  const pppMultiplier = dynamicEntry?.pppMultiplier ?? staticEntry.pppMultiplier;
-  const minPrice = dynamicEntry?.minPrice ?? staticEntry.minPrice;
+  const minPrice = dynamicEntry?.minPrice ?? getPricingIndexEntry(alpha2Code).minPrice;
 
   // Get base region PPP data for relative normalization
   const baseDynamicEntry = dynamicPPPData?.[baseRegion] ?? dynamicPPPData?.[alpha2BaseRegion];
-  const baseStaticEntry = getPricingIndexEntry(alpha2BaseRegion);
-  const basePppMultiplier = baseDynamicEntry?.pppMultiplier ?? baseStaticEntry.pppMultiplier;
-
-  let calculatedPrice: number;
-  let effectiveMultiplier: number = 1.0;
-  let multiplierSource: CalculatedPrice['multiplierSource'] = 'direct';
-
-  // Get Big Mac multiplier (from dynamic data or static, using alpha-2 for lookup)
-  const bigMacMultiplier = dynamicEntry?.bigMacMultiplier ?? getBigMacMultiplier(alpha2Code);
-  const baseBigMacMultiplier = baseDynamicEntry?.bigMacMultiplier ?? getBigMacMultiplier(alpha2BaseRegion);
-  const netflixMultiplier = dynamicEntry?.netflixMultiplier ?? getNetflixMultiplier(alpha2Code);
-  const baseNetflixMultiplier = baseDynamicEntry?.netflixMultiplier ?? getNetflixMultiplier(alpha2BaseRegion);
-
-  switch (strategy) {
-    case 'direct':
-      // Same USD value everywhere - just convert currency using market exchange rate
-      calculatedPrice = baseUsdPrice * exchangeRate;
-      effectiveMultiplier = 1.0;
-      multiplierSource = 'direct';
-      break;
-    case 'ppp':
-      // PPP strategy: adjust prices based on purchasing power parity
-      //
-      // The World Bank PPP conversion factor is in LOCAL CURRENCY units per international $.
-      // For example, Ukraine PPP factor ~9.34 means 9.34 UAH = 1 international $.
-      //
-      // If billing currency matches local currency:
-      //   price = baseUsdPrice × pppFactor
-      //
-      // If billing currency differs (e.g., Apple bills Ukraine in USD, not UAH):
-      //   1. Calculate PPP price in local currency: baseUsdPrice × pppFactor = price in UAH
-      //   2. Convert to billing currency: price in UAH / localExchangeRate = price in USD
-      //   Formula: price = baseUsdPrice × pppFactor / localExchangeRate × billingExchangeRate
-      
-      // Get the World Bank's expected local currency for this region. Prefer the
-      // snapshot rate from /api/ppp (paired with the PPP factor) so the multiplier's
-      // numerator and denominator come from one API call; fall back to live OER.
-      const localCurrency = getLocalCurrencyForRegion(alpha2Code);
-      const localExchangeRate = dynamicEntry?.marketExchangeRate
-        ?? getExchangeRate(localCurrency, dynamicExchangeRates);
-
-      if (pppConversionFactor !== undefined) {
-        // If we have dynamic PPP data, we use the real multiplier (PPP_Factor / Market_Rate)
-        // BUT we must normalize it relative to the base region's multiplier
-        const baseLocalCurrency = getLocalCurrencyForRegion(alpha2BaseRegion);
-        const baseLocalExchangeRate = baseDynamicEntry?.marketExchangeRate
-          ?? getExchangeRate(baseLocalCurrency, dynamicExchangeRates);
-        const basePppConversionFactor = baseDynamicEntry?.pppConversionFactor;
-
-        let baseRealMultiplier = basePppMultiplier;
-        if (baseLocalExchangeRate && basePppConversionFactor) {
-          baseRealMultiplier = basePppConversionFactor / baseLocalExchangeRate;
-        }
 
-        if (currencyCode === localCurrency) {
-          // Billing currency matches local currency. Use the snapshot rate for the
-          // multiplier denominator; keep the live OER rate for the final output
-          // conversion so the displayed price tracks today's market.
-          const rawRealMultiplier = pppConversionFactor / localExchangeRate;
-          effectiveMultiplier = rawRealMultiplier / baseRealMultiplier;
-          calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
-          multiplierSource = dynamicEntry?.source ?? 'world-bank';
-        } else {
-          // Billing currency differs from local currency
-          const hasExchangeRate = (dynamicExchangeRates?.rates[localCurrency] !== undefined) ||
-            (FALLBACK_EXCHANGE_RATES[localCurrency] !== undefined);
-          
-          if (localCurrency !== 'USD' && !hasExchangeRate) {
-            effectiveMultiplier = pppMultiplier / basePppMultiplier;
-            calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
-            multiplierSource = 'static';
-          } else {
-            const pppPriceInLocal = baseUsdPrice * pppConversionFactor;
-            const pppPriceInUsd = pppPriceInLocal / localExchangeRate;
-            const rawRealMultiplier = pppPriceInUsd / baseUsdPrice;
-            
-            effectiveMultiplier = rawRealMultiplier / baseRealMultiplier;
-
-            // For hyperinflation countries where PPP produces HIGHER prices than base,
-            // use a low default multiplier to make apps affordable.
-            if (effectiveMultiplier > 1.0 && rawRealMultiplier > 1.0) {
-              const affordabilityMultiplier = 0.25;
-              effectiveMultiplier = affordabilityMultiplier;
-              calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
-              multiplierSource = 'static';
-            } else {
-              calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
-              multiplierSource = dynamicEntry?.source ?? 'world-bank';
-            }
+  // The strategy only produces the multiplier; conversion, guardrails,
+  // rounding and minimum prices are applied the same way for every strategy.
+  const strategyModule = getPricingStrategy(strategy) ?? directStrategy;
+  const context: StrategyContext = {
+    regionCode,
+    alpha2Code,
+    baseRegion,
+    alpha2BaseRegion,
+    currencyCode,
+    baseUsdPrice,
+    customMultiplier,
+    dynamicEntry,
+    baseDynamicEntry,
+    dynamicExchangeRates,
+    options,
+    getExchangeRate: (currency) => getExchangeRate(currency, dynamicExchangeRates),
+    hasExchangeRate: (currency) =>
+      dynamicExchangeRates?.rates[currency] !== undefined ||
+      FALLBACK_EXCHANGE_RATES[currency] !== undefined,
+    describeExchangeRate: (currency) => describeExchangeRateSource(currency, dynamicExchangeRates),
+    // Another strategy's plain multiplier: no options but the unstable-currency
+    // policy, nothing traced
+    multiplierFor: (id) =>
+      (getPricingStrategy(id) ?? directStrategy).computeMultiplier(regionCode, {
+        ...context,
+        options: { unstableCurrency: options.unstableCurrency },
+        trace: () => {},
+      }).multiplier,
+    trace: (step) => {
+      trace.push(step);
+    },
+  };
+  const {
+    multiplier: effectiveMultiplier,
+    source: multiplierSource,
+    blendContributions,
+    unstableCurrency,
+  } = strategyModule.computeMultiplier(regionCode, context);
+  let calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
+
+  trace.push({
+    step: 'fx',
+    detail: `${traceNumber(baseUsdPrice)} USD × ${traceNumber(effectiveMultiplier)} × ${traceNumber(exchangeRate)} ${currencyCode}/USD (${describeExchangeRateSource(currencyCode, dynamicExchangeRates)}) = ${traceNumber(calculatedPrice)} ${currencyCode}`,
+    value: calculatedPrice,
+    currency: currencyCode,
+  });
+
+  // A frozen region keeps its live price as is: no guardrails, rounding or minimum
+  const livePrice = options.currentPrices?.[regionCode];
+  if (unstableCurrency?.action.kind === 'freeze' && livePrice && livePrice.currencyCode === currencyCode) {
+    const frozenPrice = moneyToNumber(livePrice);
+    trace.push({
+      step: 'hyperinflation-override',
+      detail: `Frozen at the live price ${traceNumber(frozenPrice)} ${currencyCode}`,
+      value: frozenPrice,
+      currency: currencyCode,
+    });
+    return {
+      regionCode,
+      currencyCode,
+      price: livePrice,
+      rawPrice: frozenPrice,
+      multiplier: effectiveMultiplier,
+      multiplierSource,
+      exchangeRate,
+      adjustedUsdPrice: baseUsdPrice * effectiveMultiplier,
+      trace,
+      unstableCurrency: { ...unstableCurrency, frozen: true },
+      ...(options.taxMode === 'customer' ? { tax: getTaxBreakdown(frozenPrice, alpha2Code) } : {}),
+      ...(strategyModule.targetsProceeds || options.proceeds
+        ? {
+            estimatedProceeds: estimateProceeds(
+              frozenPrice,
+              alpha2Code,
+              (options.proceeds ?? DEFAULT_PROCEEDS_CONFIG).commission
+            ),
           }
-        }
-      } else {
-        // No PPP conversion factor available - use static multiplier normalized to base region
-        effectiveMultiplier = pppMultiplier / basePppMultiplier;
-        calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
-        multiplierSource = 'static';
-      }
-      break;
-    case 'bigmac':
-      // Big Mac Index strategy: use multiplier normalized to base region
-      effectiveMultiplier = bigMacMultiplier / baseBigMacMultiplier;
-      calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
-      multiplierSource = 'big-mac';
-      break;
-    case 'netflix':
-      // Netflix Price Index strategy: use multiplier normalized to base region
-      effectiveMultiplier = netflixMultiplier / baseNetflixMultiplier;
-      calculatedPrice = baseUsdPrice * effectiveMultiplier * exchangeRate;
-      multiplierSource = 'netflix';
-      break;
-    case 'custom':
-      // Use provided custom multiplier with exchange rate
-      calculatedPrice = baseUsdPrice * (customMultiplier ?? 1.0) * exchangeRate;
-      effectiveMultiplier = customMultiplier ?? 1.0;
-      multiplierSource = 'custom';
-      break;
-    default:
-      calculatedPrice = baseUsdPrice * exchangeRate;
-      effectiveMultiplier = 1.0;
-      multiplierSource = 'direct';
+        : {}),
+    };
+  }
+
+  // Apply guardrails to the strategy output. This runs before rounding so the
+  // result still lands on a valid price ending / tier; the rounded price can
+  // therefore sit marginally outside the bound.
+  let guardrail: GuardrailHit | undefined;
+  if (options.guardrails) {
+    const current = options.currentPrices?.[regionCode];
+    const guarded = applyGuardrails(
+      calculatedPrice,
+      options.guardrails,
+      baseUsdPrice,
+      exchangeRate,
+      current && current.currencyCode === currencyCode ? moneyToNumber(current) : undefined
+    );
+    calculatedPrice = guarded.price;
+    guardrail = guarded.hit;
+    if (guardrail) {
+      trace.push({
+        step: 'guardrail',
+        detail: `Guardrail '${guardrail.rule}': ${traceNumber(guardrail.unclampedPrice)} → ${traceNumber(guardrail.limit)} ${currencyCode}`,
+        value: calculatedPrice,
+        currency: currencyCode,
+      });
+    }
   }
 
-  // Apply rounding (with optional tier ladder for nearest-tier mode)
+  // Apply rounding (with optional tier ladder for nearest-tier mode). In
+  // 'customer' tax mode the price is rounded as the customer sees it: where tax
+  // is added at checkout we round the gross and back out the listed price.
   const tiersForCurrency = getTiersForCurrency?.(currencyCode);
-  calculatedPrice = applyRounding(
-    calculatedPrice,
-    rounding,
-    currencyCode,
-    tiersForCurrency
-  );
+  const taxEntry = getTaxRateEntry(alpha2Code);
+  const taxFactor = options.taxMode === 'customer' && !taxEntry.inclusive ? 1 + taxEntry.rate : 1;
+  const unroundedPrice = calculatedPrice;
+  const roundingLabel =
+    rounding === 'nearest-tier' && !tiersForCurrency?.length
+      ? `${ROUNDING_TRACE_LABELS[rounding]} (no tier ladder for ${currencyCode}, .99 endings used)`
+      : ROUNDING_TRACE_LABELS[rounding];
+  if (taxFactor === 1) {
+    calculatedPrice = applyRounding(
+      calculatedPrice,
+      rounding,
+      currencyCode,
+      tiersForCurrency,
+      options.priceEndings
+    );
+    trace.push({
+      step: 'rounding',
+      detail: `${roundingLabel}: ${traceNumber(unroundedPrice)} → ${traceNumber(calculatedPrice)} ${currencyCode}`,
+      value: calculatedPrice,
+      currency: currencyCode,
+    });
+  } else {
+    const grossPrice = applyRounding(
+      calculatedPrice * taxFactor,
+      rounding,
+      currencyCode,
+      tiersForCurrency?.map((tier) => ({ price: tier.price * taxFactor })),
+      options.priceEndings
+    );
+    calculatedPrice = roundAmount(grossPrice / taxFactor, getPriceDecimals(currencyCode, 'google'));
+    trace.push({
+      step: 'rounding',
+      detail: `${roundingLabel} on the price incl. ${taxEntry.name} (${traceNumber(unroundedPrice * taxFactor)} → ${traceNumber(grossPrice)}); listed price ${traceNumber(calculatedPrice)} ${currencyCode}`,
+      value: calculatedPrice,
+      currency: currencyCode,
+    });
+  }
 
   // Enforce minimum price (minPrice is in local currency, convert if billing currency differs)
   // Get the local currency to check if minPrice needs conversion
@@ -392,7 +729,16 @@ export function calculateRegionalPrice(
     adjustedMinPrice = (minPrice / minPriceLocalRate) * exchangeRate;
   }
 
-  calculatedPrice = Math.max(calculatedPrice, adjustedMinPrice);
+  trace.push({
+    step: 'min-price',
+    detail: adjustedMinPrice > calculatedPrice
+      ? `Raised to the regional minimum ${traceNumber(minPrice)} ${minPriceLocalCurrency}${currencyCode !== minPriceLocalCurrency ? ` (${traceNumber(adjustedMinPrice)} ${currencyCode})` : ''}`
+      : `Above the regional minimum (${traceNumber(adjustedMinPrice)} ${currencyCode})`,
+    value: Math.max(calculatedPrice, adjustedMinPrice),
+    currency: currencyCode,
+  });
+  // Converted minimums are not on a cent boundary; keep rawPrice equal to the stored price
+  calculatedPrice = roundAmount(Math.max(calculatedPrice, adjustedMinPrice), getPriceDecimals(currencyCode, 'google'));
 
   // The PPP-adjusted USD price before currency conversion
   const adjustedUsdPrice = baseUsdPrice * effectiveMultiplier;
@@ -406,38 +752,241 @@ export function calculateRegionalPrice(
     multiplierSource,
     exchangeRate,
     adjustedUsdPrice,
+    trace,
+    ...(blendContributions ? { blendContributions } : {}),
+    ...(guardrail ? { guardrail } : {}),
+    ...(unstableCurrency ? { unstableCurrency } : {}),
+    ...(strategyModule.hasEntry?.(context) === false ? { indexDefault: true } : {}),
+    ...(options.taxMode === 'customer' ? { tax: getTaxBreakdown(calculatedPrice, alpha2Code) } : {}),
+    ...(strategyModule.targetsProceeds || options.proceeds
+      ? {
+          estimatedProceeds: estimateProceeds(
+            calculatedPrice,
+            alpha2Code,
+            (options.proceeds ?? DEFAULT_PROCEEDS_CONFIG).commission
+          ),
+        }
+      : {}),
+  };
+}
+
+// Developer net per sale for a listed price: strip VAT/GST where it is
+// included in the listed price, then the store commission.
+export function estimateProceeds(listedPrice: number, regionCode: string, commission: number): number {
+  const tax = getTaxRateEntry(toAlpha2(regionCode));
+  const netOfTax = tax.inclusive ? listedPrice / (1 + tax.rate) : listedPrice;
+  return netOfTax * (1 - commission);
+}
+
+// The price point whose reported proceeds are closest to the target. Bulk
+// runs only have Apple's price ladder, without proceeds, so this is used
+// where the store's own price points are loaded (the single-territory
+// editor). Price points without a proceeds value are skipped.
+export function findTierByProceeds<T extends { price: number; proceeds?: number }>(
+  tiers: readonly T[],
+  targetProceeds: number
+): T | undefined {
+  let closest: T | undefined;
+  let minDiff = Infinity;
+  for (const tier of tiers) {
+    if (tier.proceeds === undefined) continue;
+    const diff = Math.abs(tier.proceeds - targetProceeds);
+    if (diff < minDiff) {
+      minDiff = diff;
+      closest = tier;
+    }
+  }
+  return closest;
+}
+
+// Split a listed store price into net and tax-inclusive amounts for a region
+// (alpha-2 or alpha-3)
+export function getTaxBreakdown(listedPrice: number, regionCode: string): TaxBreakdown {
+  const entry = getTaxRateEntry(toAlpha2(regionCode));
+  return {
+    rate: entry.rate,
+    name: entry.name,
+    inclusive: entry.inclusive,
+    netPrice: entry.inclusive ? listedPrice / (1 + entry.rate) : listedPrice,
+    grossPrice: entry.inclusive ? listedPrice : listedPrice * (1 + entry.rate),
   };
 }
 
+// Pick the anchor a region is priced from, in order of preference:
+//   1. an anchor that lists the region in `regions`, or is set for the region itself
+//   2. an anchor in the same world region, preferring one that bills in the
+//      region's currency (so France follows a EUR anchor over a GBP one)
+//   3. an anchor billing in the region's currency
+//   4. the first anchor
+export function resolveAnchor(
+  regionCode: string,
+  anchors: PriceAnchor[],
+  actualCurrencies?: Record<string, string>
+): PriceAnchor | undefined {
+  const alpha2Code = toAlpha2(regionCode);
+  const currency = getCurrencyForRegion(regionCode, actualCurrencies);
+  const anchorCurrency = (anchor: PriceAnchor) =>
+    anchor.currency ?? getCurrencyForRegion(anchor.region, actualCurrencies);
+
+  const assigned =
+    anchors.find((anchor) => anchor.regions?.some((code) => toAlpha2(code) === alpha2Code)) ??
+    anchors.find((anchor) => toAlpha2(anchor.region) === alpha2Code);
+  if (assigned) return assigned;
+
+  const worldRegion = getWorldRegion(alpha2Code);
+  const nearby = worldRegion
+    ? anchors.filter((anchor) => getWorldRegion(toAlpha2(anchor.region)) === worldRegion)
+    : [];
+  return (
+    nearby.find((anchor) => anchorCurrency(anchor) === currency) ??
+    nearby[0] ??
+    anchors.find((anchor) => anchorCurrency(anchor) === currency) ??
+    anchors[0]
+  );
+}
+
 // Calculate prices for multiple regions
 export function calculateBulkPrices(
-  basePrice: number,
   regionCodes: string[],
-  strategy: PricingStrategy,
-  rounding: RoundingMode = 'nearest-tier',
-  customMultipliers?: Record<string, number>,
-  dynamicPPPData?: DynamicPPPData,
-  actualCurrencies?: Record<string, string>, // Currencies from Google Play API
-  dynamicExchangeRates?: DynamicExchangeRates, // Exchange rates from API
-  baseCurrency: string = 'USD', // The currency of the basePrice
-  baseRegion: string = 'US', // The region the basePrice is defined for
-  getTiersForCurrency?: GetTiersForCurrency // Optional tier ladder per currency (Apple)
+  request: BulkPricingRequest
 ): CalculatedPrice[] {
-  return regionCodes.map((regionCode) => {
-    const customMultiplier = customMultipliers?.[regionCode];
-    return calculateRegionalPrice(
-      basePrice,
-      regionCode,
-      strategy,
-      rounding,
-      customMultiplier,
-      dynamicPPPData,
-      actualCurrencies,
-      dynamicExchangeRates,
-      baseCurrency,
-      baseRegion,
-      getTiersForCurrency
-    );
+  const { customMultipliers, ...shared } = request;
+  const options: RegionalPricingOptions = request;
+  const prices = regionCodes.map((regionCode) =>
+    calculateRegionalPrice(regionCode, {
+      ...shared,
+      customMultiplier: customMultipliers?.[regionCode],
+    })
+  );
+  const banded =
+    options.bands && prices.length > 0 && !priceBandsUnavailableReason(request)
+      ? applyPriceBands(prices, options.bands, shared)
+      : prices;
+  return options.currencyUnion
+    ? applyCurrencyUnion(banded, options.currencyUnion, request.baseRegion ?? 'US')
+    : banded;
+}
+
+// Why bands can't be used for a run, or null when they can. Anchored
+// multipliers are relative to different base regions, and the 'proceeds'
+// multiplier is a commission and tax gross-up rather than a price level.
+export function priceBandsUnavailableReason(
+  request: Pick<PricingRequest, 'strategy' | 'anchors'>
+): string | null {
+  if (request.anchors?.length) return 'Price bands are not available with several anchor prices.';
+  if (getPricingStrategy(request.strategy)?.targetsProceeds) {
+    return 'Price bands are not available with the proceeds strategy.';
+  }
+  return null;
+}
+
+// Banded run: re-price each region with its band's shared multiplier. The
+// strategy's source and breakdown are kept so the preview still explains
+// where the region's position came from. Frozen regions stay out of the bands,
+// and the base region keeps the price it was given.
+function applyPriceBands(
+  prices: CalculatedPrice[],
+  config: PriceBandConfig,
+  shared: PricingRequest
+): CalculatedPrice[] {
+  const bands = clusterPriceBands(
+    Object.fromEntries(
+      prices
+        .filter((price) => !price.unstableCurrency?.frozen)
+        .map((price) => [price.regionCode, price.multiplier])
+    ),
+    config
+  );
+  return prices.map((price) => {
+    const band = bands.find((b) => b.regionCodes.includes(price.regionCode));
+    if (!band) return price;
+    const bandInfo = { index: band.index, label: band.label, strategyMultiplier: price.multiplier };
+    if (toAlpha2(price.regionCode) === toAlpha2(shared.baseRegion ?? 'US')) {
+      return {
+        ...price,
+        band: bandInfo,
+        trace: [
+          { step: 'band', detail: `${band.label} band: the base region keeps its own price`, value: price.multiplier },
+          ...price.trace,
+        ],
+      };
+    }
+    const banded: CalculatedPrice = {
+      ...calculateRegionalPrice(price.regionCode, {
+        ...shared,
+        strategy: 'custom',
+        customMultiplier: band.multiplier,
+      }),
+      multiplierSource: price.multiplierSource,
+      blendContributions: price.blendContributions,
+      unstableCurrency: price.unstableCurrency,
+      band: bandInfo,
+    };
+    banded.trace.unshift({
+      step: 'band',
+      detail: `${band.label} band: shared multiplier ${traceNumber(band.multiplier)} replaces the strategy's ${traceNumber(price.multiplier)}`,
+      value: band.multiplier,
+    });
+    return banded;
+  });
+}
+
+// Give every region sharing a billing currency one member's price. Tax and
+// proceeds follow the new price; frozen regions keep their live price.
+function applyCurrencyUnion(
+  prices: CalculatedPrice[],
+  config: CurrencyUnionConfig,
+  baseRegion: string
+): CalculatedPrice[] {
+  const unions = resolveCurrencyUnions(
+    prices
+      .filter((price) => !price.unstableCurrency?.frozen)
+      .map((price) => ({
+        regionCode: price.regionCode,
+        alpha2: toAlpha2(price.regionCode),
+        currencyCode: price.currencyCode,
+        amount: moneyToNumber(price.price),
+      })),
+    config,
+    toAlpha2(baseRegion)
+  );
+  return prices.map((price) => {
+    const union = unions.get(price.regionCode);
+    const source = union && prices.find((p) => p.regionCode === union.sourceRegion);
+    if (!union || !source) return price;
+
+    const ownPrice = moneyToNumber(price.price);
+    const how = union.anchorMissing
+      ? 'median, no anchor region in the currency'
+      : CURRENCY_UNION_RESOLUTION_LABELS[union.resolution].toLowerCase();
+    const trace: PriceTraceStep[] = [
+      ...price.trace,
+      {
+        step: 'currency-union',
+        detail: union.amount === ownPrice
+          ? `One ${union.currencyCode} price for ${union.regionCount} regions (${how}): this region's price is shared`
+          : `One ${union.currencyCode} price for ${union.regionCount} regions (${how}, from ${union.sourceRegion}): ${traceNumber(union.amount)} replaces ${traceNumber(ownPrice)}`,
+        value: union.amount,
+        currency: union.currencyCode,
+      },
+    ];
+    return {
+      ...price,
+      price: source.price,
+      rawPrice: union.amount,
+      ...(price.tax ? { tax: getTaxBreakdown(union.amount, price.regionCode) } : {}),
+      ...(price.estimatedProceeds !== undefined && ownPrice > 0
+        ? { estimatedProceeds: (price.estimatedProceeds * union.amount) / ownPrice }
+        : {}),
+      currencyUnion: {
+        resolution: union.resolution,
+        sourceRegion: union.sourceRegion,
+        regionCount: union.regionCount,
+        ownPrice,
+        ...(union.anchorMissing ? { anchorMissing: true } : {}),
+      },
+      trace,
+    };
   });
 }
 
@@ -0,0 +1,184 @@
+// FX stress tests: apply hypothetical currency moves ("TRY -30%", "EUR +10%",
+// "EM -15%") to the exchange rates and see what they do to a pricing plan.
+//
+// A shock is a change in the currency's value against the rate table's base
+// (USD): TRY -30% means one lira buys 30% fewer dollars, so the USD→TRY rate
+// becomes rate / 0.7. Each region is compared two ways:
+//   held     - the local price stays as it is; its USD value and proceeds move
+//   repriced - the plan is recalculated at the shocked rates, with the
+//              plan's own prices as the live prices for the guardrails
+// PPP strategies divide by the rate snapshot that came with the PPP data,
+// which a shock leaves alone, so their repriced local price follows the
+// shocked rate like any other strategy.
+import { FALLBACK_EXCHANGE_RATES } from '../conversion-indexes/exchange-rates';
+import {
+  DEFAULT_PROCEEDS_CONFIG,
+  calculateBulkPrices,
+  estimateProceeds,
+  type BulkPricingRequest,
+  type CalculatedPrice,
+  type DynamicExchangeRates,
+  type GuardrailHit,
+} from './currency';
+import { moneyToNumber, type Money } from './types';
+
+export interface FxShock {
+  /** Currency code, or a key of FX_SHOCK_GROUPS */
+  target: string;
+  /** Change in value against USD as a fraction (-0.3 = 30% weaker) */
+  change: number;
+}
+
+export interface FxShockGroup {
+  label: string;
+  /** Member currencies; every currency in the rate table when omitted */
+  currencies?: string[];
+}
+
+// Currencies usually classed as emerging-market (MSCI EM and frontier
+// markets the stores bill in). A starting point for "all EM" shocks.
+const EMERGING_MARKET_CURRENCIES = [
+  'ARS', 'BDT', 'BRL', 'CLP', 'CNY', 'COP', 'CZK', 'EGP', 'GHS', 'HUF', 'IDR', 'INR', 'KES',
+  'KZT', 'LKR', 'MXN', 'MYR', 'NGN', 'PEN', 'PHP', 'PKR', 'PLN', 'THB', 'TRY', 'UAH', 'VND',
+  'ZAR',
+];
+
+export const FX_SHOCK_GROUPS: Record<string, FxShockGroup> = {
+  EM: { label: 'Emerging-market currencies', currencies: EMERGING_MARKET_CURRENCIES },
+  ALL: { label: 'Every currency' },
+};
+
+// Parse one shock such as "TRY -30%", "EUR +10", "em −15%". Returns null for
+// anything else.
+export function parseFxShock(text: string): FxShock | null {
+  const match = text
+    .trim()
+    .replace(/[−–]/g, '-')
+    .match(/^([A-Za-z]{2,3})\s*([+-]?\d+(?:\.\d+)?)\s*%?$/);
+  if (!match) return null;
+  const target = match[1].toUpperCase();
+  const change = parseFloat(match[2]) / 100;
+  if (!FX_SHOCK_GROUPS[target] && target.length !== 3) return null;
+  if (change <= -1) return null;
+  return { target, change };
+}
+
+// Groups never include the rate table's base currency: "ALL -15%" moving USD
+// too would cancel out. Only an explicit "USD ±x%" shock moves the base.
+function shockMatches(shock: FxShock, currencyCode: string, base: string): boolean {
+  const group = FX_SHOCK_GROUPS[shock.target];
+  if (!group) return shock.target === currencyCode;
+  if (currencyCode === base) return false;
+  return !group.currencies || group.currencies.includes(currencyCode);
+}
+
+// Value change per currency after all shocks; later shocks override earlier
+// ones, so "EM -15%" followed by "TRY -30%" leaves TRY at -30%.
+export function resolveFxShocks(
+  currencies: string[],
+  shocks: FxShock[],
+  base = 'USD'
+): Record<string, number> {
+  const changes: Record<string, number> = {};
+  for (const shock of shocks) {
+    for (const currency of currencies) {
+      if (shockMatches(shock, currency, base)) changes[currency] = shock.change;
+    }
+  }
+  return changes;
+}
+
+// The rate table with the shocks applied. Currencies missing from `rates` are
+// taken from the bundled fallback table so every billing currency can move.
+// A shock on the base currency itself moves it against every other currency.
+export function applyFxShocks(
+  rates: DynamicExchangeRates | undefined,
+  shocks: FxShock[]
+): DynamicExchangeRates {
+  const base = rates?.base ?? 'USD';
+  const table = { ...FALLBACK_EXCHANGE_RATES, ...rates?.rates };
+  const changes = resolveFxShocks([base, ...Object.keys(table)], shocks, base);
+  const baseFactor = 1 + (changes[base] ?? 0);
+
+  const shocked: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(table)) {
+    shocked[currency] = currency === base ? rate : (rate * baseFactor) / (1 + (changes[currency] ?? 0));
+  }
+  return {
+    base,
+    rates: shocked,
+    fetchedAt: rates?.fetchedAt ?? new Date(0).toISOString(),
+  };
+}
+
+export interface FxScenarioRow {
+  regionCode: string;
+  currencyCode: string;
+  /** Value change of the billing currency against USD (0 when not shocked) */
+  fxChange: number;
+  /** The plan at today's rates */
+  baseline: CalculatedPrice;
+  /** The plan recalculated at the shocked rates */
+  repriced: CalculatedPrice;
+  /** USD value of the baseline price at today's and at the shocked rates */
+  usdBefore: number;
+  usdAfter: number;
+  /** Developer net per sale in USD, before and after, with the price held */
+  proceedsUsdBefore: number;
+  proceedsUsdAfter: number;
+  /** Change of the recalculated local price against the baseline price */
+  repriceChange: number;
+  /** Guardrail the recalculated price ran into, if any */
+  guardrail?: GuardrailHit;
+  /** The guardrail also held the baseline price (so the shock did not trip it) */
+  guardrailAtBaseline: boolean;
+}
+
+// Run a plan at today's rates and at the shocked rates and compare region by
+// region. `request.dynamicExchangeRates` are today's rates.
+export function simulateFxScenario(
+  regions: string[],
+  request: BulkPricingRequest,
+  shocks: FxShock[]
+): FxScenarioRow[] {
+  const baseline = calculateBulkPrices(regions, request);
+  const baselinePrices: Record<string, Money> = Object.fromEntries(
+    baseline.map((price) => [price.regionCode, price.price])
+  );
+  const shockedRates = applyFxShocks(request.dynamicExchangeRates, shocks);
+  const repriced = new Map(
+    calculateBulkPrices(regions, {
+      ...request,
+      dynamicExchangeRates: shockedRates,
+      currentPrices: baselinePrices,
+    }).map((price) => [price.regionCode, price])
+  );
+  const changes = resolveFxShocks(
+    baseline.map((price) => price.currencyCode),
+    shocks,
+    shockedRates.base
+  );
+  const commission = (request.proceeds ?? DEFAULT_PROCEEDS_CONFIG).commission;
+
+  return baseline.flatMap((before) => {
+    const after = repriced.get(before.regionCode);
+    if (!after) return [];
+    const local = moneyToNumber(before.price);
+    const proceeds = before.estimatedProceeds ?? estimateProceeds(local, before.regionCode, commission);
+    const newLocal = moneyToNumber(after.price);
+    return [{
+      regionCode: before.regionCode,
+      currencyCode: before.currencyCode,
+      fxChange: changes[before.currencyCode] ?? 0,
+      baseline: before,
+      repriced: after,
+      usdBefore: local / before.exchangeRate,
+      usdAfter: local / after.exchangeRate,
+      proceedsUsdBefore: proceeds / before.exchangeRate,
+      proceedsUsdAfter: proceeds / after.exchangeRate,
+      repriceChange: local > 0 ? newLocal / local - 1 : 0,
+      ...(after.guardrail ? { guardrail: after.guardrail } : {}),
+      guardrailAtBaseline: !!after.guardrail && before.guardrail?.rule === after.guardrail.rule,
+    }];
+  });
+}
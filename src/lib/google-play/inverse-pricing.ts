@@ -0,0 +1,145 @@
+// Inverse pricing: start from prices already live in each region (set by hand
+// or by store auto-equalization) and work back to the multiplier they imply,
+// then find the index each one is closest to. Run before overwriting old
+// prices with a strategy to see how far they are from it.
+import { alpha3ToAlpha2 } from '../apple-connect/territories';
+import {
+  calculateRegionalPrice,
+  listPricingStrategies,
+  type DynamicExchangeRates,
+  type DynamicPPPData,
+  type RegionalPricingOptions,
+} from './currency';
+import { GOOGLE_PLAY_REGIONS, moneyToNumber, parseMoney, type Money } from './types';
+
+export interface IndexComparison {
+  strategy: string;
+  label: string;
+  /** The index multiplier for the region, relative to the base region */
+  multiplier: number;
+  /** Implied multiplier ÷ index multiplier − 1 (0.1 = live price 10% above the index) */
+  gap: number;
+  /** The index has no data for the region; `multiplier` is its default */
+  isDefault?: boolean;
+}
+
+export interface LivePriceAnalysis {
+  regionCode: string;
+  currencyCode: string;
+  price: Money;
+  usdPrice: number;
+  /** USD value relative to the base region's (undefined without a base price) */
+  impliedMultiplier?: number;
+  indexes: IndexComparison[];
+  /** Index with the smallest gap, among those with data for the region */
+  closest?: IndexComparison;
+}
+
+export interface LivePriceAnalysisOptions extends Pick<RegionalPricingOptions, 'unstableCurrency'> {
+  /** Region the multipliers are relative to, alpha-2 or alpha-3 (default 'US') */
+  baseRegion?: string;
+  /** Strategies to compare with; every index strategy but 'blend' by default */
+  strategies?: string[];
+  dynamicPPPData?: DynamicPPPData;
+  dynamicExchangeRates?: DynamicExchangeRates;
+}
+
+function toAlpha2(regionCode: string): string {
+  return regionCode.length === 3 ? alpha3ToAlpha2(regionCode) || regionCode : regionCode;
+}
+
+export function defaultComparisonStrategies(): string[] {
+  return listPricingStrategies()
+    .filter((strategy) => strategy.index && strategy.id !== 'blend')
+    .map((strategy) => strategy.id);
+}
+
+export function analyzeLivePrices(
+  prices: Record<string, Money>,
+  options: LivePriceAnalysisOptions = {}
+): LivePriceAnalysis[] {
+  const baseAlpha2 = toAlpha2(options.baseRegion ?? 'US');
+  const strategyIds = options.strategies ?? defaultComparisonStrategies();
+  const labels = new Map(listPricingStrategies().map((s) => [s.id, s.label]));
+  const actualCurrencies = Object.fromEntries(
+    Object.entries(prices).map(([code, price]) => [code, price.currencyCode])
+  );
+  const baseRegion = Object.keys(prices).find((code) => toAlpha2(code) === baseAlpha2) ?? baseAlpha2;
+
+  // Multiplier and exchange rate for one region under one strategy
+  const evaluate = (regionCode: string, strategy: string) =>
+    calculateRegionalPrice(regionCode, {
+      basePrice: 1,
+      strategy,
+      rounding: 'none',
+      baseRegion,
+      actualCurrencies,
+      dynamicPPPData: options.dynamicPPPData,
+      dynamicExchangeRates: options.dynamicExchangeRates,
+      unstableCurrency: options.unstableCurrency,
+    });
+
+  const toUsd = (regionCode: string, price: Money) =>
+    moneyToNumber(price) / evaluate(regionCode, 'direct').exchangeRate;
+
+  const basePrice = prices[baseRegion];
+  const baseUsd = basePrice ? toUsd(baseRegion, basePrice) : undefined;
+
+  return Object.entries(prices).map(([regionCode, price]) => {
+    const usdPrice = toUsd(regionCode, price);
+    const impliedMultiplier = baseUsd ? usdPrice / baseUsd : undefined;
+
+    const indexes: IndexComparison[] = impliedMultiplier === undefined
+      ? []
+      : strategyIds.map((strategy) => {
+          const result = evaluate(regionCode, strategy);
+          return {
+            strategy,
+            label: labels.get(strategy) ?? strategy,
+            multiplier: result.multiplier,
+            gap: impliedMultiplier / result.multiplier - 1,
+            ...(result.indexDefault ? { isDefault: true } : {}),
+          };
+        });
+
+    // Closeness on a log scale, so 2× above and 2× below count the same
+    const distance = (c: IndexComparison) => Math.abs(Math.log(1 + c.gap));
+    const closest = indexes
+      .filter((c) => !c.isDefault && c.multiplier > 0)
+      .reduce<IndexComparison | undefined>(
+        (best, c) => (!best || distance(c) < distance(best) ? c : best),
+        undefined
+      );
+
+    return {
+      regionCode,
+      currencyCode: price.currencyCode,
+      price,
+      usdPrice,
+      ...(impliedMultiplier !== undefined ? { impliedMultiplier } : {}),
+      indexes,
+      ...(closest ? { closest } : {}),
+    };
+  });
+}
+
+// Read pasted live prices, one region per line: "DE 9.99", "TR,149.99" or
+// "AR 4.99 USD". Without a currency the region's usual billing currency is used.
+export function parseLivePriceList(text: string): { prices: Record<string, Money>; errors: string[] } {
+  const prices: Record<string, Money> = {};
+  const errors: string[] = [];
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const [rawRegion, rawAmount, rawCurrency] = line.split(/[\s,;]+/);
+    const regionCode = rawRegion.toUpperCase();
+    const region = GOOGLE_PLAY_REGIONS.find((r) => r.code === regionCode);
+    const amount = parseFloat(rawAmount);
+    if (!region) {
+      errors.push(`${line}: unknown region ${rawRegion}`);
+    } else if (isNaN(amount) || amount <= 0) {
+      errors.push(`${line}: no price`);
+    } else {
+      prices[regionCode] = parseMoney(amount, rawCurrency?.toUpperCase() || region.currency);
+    }
+  }
+  return { prices, errors };
+}
@@ -0,0 +1,139 @@
+// Exact decimal arithmetic for prices. Amounts are held as bigint nanos
+// (10^-9 of a currency unit, the resolution of the Play `Money` type), so
+// high-denomination currencies such as IDR and VND never pick up binary
+// floating-point drift like 4.989999999. Floats remain fine for ratios
+// (multipliers, exchange rates); convert through here whenever a value
+// becomes a price that is stored, compared or shown.
+import type { Money } from './types';
+
+export type Nanos = bigint;
+
+const ZERO = BigInt(0);
+const NANO_DIGITS = 9;
+const NANOS_PER_UNIT = BigInt(10) ** BigInt(NANO_DIGITS);
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+// Parse a decimal string ("4.99", "-0.5", "15000") exactly. Digits past the
+// ninth decimal are rounded half away from zero.
+export function decimalToNanos(value: string): Nanos {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+    throw new Error(`Invalid decimal amount: "${value}"`);
+  }
+  const [, sign, whole, fraction = ''] = match;
+  let nanos =
+    BigInt(whole || '0') * NANOS_PER_UNIT + BigInt(fraction.slice(0, NANO_DIGITS).padEnd(NANO_DIGITS, '0'));
+  if (fraction.length > NANO_DIGITS && fraction[NANO_DIGITS] >= '5') {
+    nanos += BigInt(1);
+  }
+  return sign === '-' ? -nanos : nanos;
+}
+
+// Nearest nanos to a float. toFixed rounds the binary value at the ninth
+// decimal, so 4.989999999999 becomes exactly 4.99.
+export function numberToNanos(amount: number): Nanos {
+  if (!Number.isFinite(amount)) {
+    throw new Error(`Invalid price amount: ${amount}`);
+  }
+  return decimalToNanos(amount.toFixed(NANO_DIGITS));
+}
+
+// Exact decimal string with `fractionDigits` decimals (default: as few as needed)
+export function formatNanos(nanos: Nanos, fractionDigits?: number): string {
+  const rounded = fractionDigits === undefined ? nanos : roundNanos(nanos, fractionDigits);
+  const negative = rounded < ZERO;
+  const abs = negative ? -rounded : rounded;
+  const whole = (abs / NANOS_PER_UNIT).toString();
+  let fraction = (abs % NANOS_PER_UNIT).toString().padStart(NANO_DIGITS, '0');
+  fraction = fractionDigits === undefined ? fraction.replace(/0+$/, '') : fraction.slice(0, fractionDigits);
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+export function nanosToNumber(nanos: Nanos): number {
+  return Number(formatNanos(nanos));
+}
+
+// Round to `fractionDigits` decimals: 'nearest' is half away from zero,
+// 'up' and 'down' are towards +/- infinity.
+export function roundNanos(
+  nanos: Nanos,
+  fractionDigits: number,
+  mode: 'nearest' | 'up' | 'down' = 'nearest'
+): Nanos {
+  if (fractionDigits >= NANO_DIGITS) return nanos;
+  const step = BigInt(10) ** BigInt(NANO_DIGITS - Math.max(0, fractionDigits));
+  const remainder = ((nanos % step) + step) % step; // always >= 0
+  if (remainder === ZERO) return nanos;
+  const floor = nanos - remainder;
+  if (mode === 'down') return floor;
+  if (mode === 'up') return floor + step;
+  const twice = remainder * BigInt(2);
+  if (twice > step || (twice === step && nanos > ZERO)) return floor + step;
+  return floor;
+}
+
+// nanos × a float factor (e.g. 1.1 for +10%), rounded to the nearest nano
+export function multiplyNanos(nanos: Nanos, factor: number): Nanos {
+  const product = nanos * numberToNanos(factor);
+  return roundNanos(product, 0) / NANOS_PER_UNIT;
+}
+
+// Float → float through decimal rounding; the drop-in for Math.round(x * 100) / 100
+export function roundAmount(amount: number, fractionDigits = 2): number {
+  return nanosToNumber(roundNanos(numberToNanos(amount), fractionDigits));
+}
+
+export function moneyToNanos(money: Money): Nanos {
+  let units: Nanos;
+  try {
+    units = money.units == null || money.units === '' ? ZERO : decimalToNanos(money.units);
+  } catch {
+    throw new Error(`Invalid price units value: "${money.units}"`);
+  }
+  return units + BigInt(money.nanos ?? 0);
+}
+
+// Play Money: units and nanos share the sign; nanos is left out when zero
+export function nanosToMoney(nanos: Nanos, currencyCode: string): Money {
+  const units = nanos / NANOS_PER_UNIT;
+  const fraction = Number(nanos % NANOS_PER_UNIT);
+  return {
+    currencyCode,
+    units: units.toString(),
+    nanos: fraction !== 0 ? fraction : undefined,
+  };
+}
+
+// "12.50" for change summaries and logs
+export function formatMoneyAmount(money: Money, fractionDigits = 2): string {
+  return formatNanos(moneyToNanos(money), fractionDigits);
+}
+
+export interface PriceOperation {
+  type: 'fixed' | 'percentage' | 'round';
+  value?: number;
+  roundTo?: number;
+}
+
+// Apply a bulk price operation exactly. Negative results clamp to zero.
+export function applyPriceOperation(current: Money, operation: PriceOperation): Money {
+  const currentNanos = moneyToNanos(current);
+  let next: Nanos;
+
+  switch (operation.type) {
+    case 'fixed':
+      next = operation.value !== undefined ? numberToNanos(operation.value) : currentNanos;
+      break;
+    case 'percentage':
+      next = multiplyNanos(currentNanos, 1 + (operation.value ?? 0) / 100);
+      break;
+    case 'round':
+      next = roundNanos(currentNanos, 0, 'down') + numberToNanos(operation.roundTo ?? 0.99);
+      break;
+    default:
+      next = currentNanos;
+  }
+
+  return nanosToMoney(next > ZERO ? next : ZERO, current.currencyCode);
+}
@@ -0,0 +1,113 @@
+// Pack ladder: price a family of consumable packs (100 / 550 / 1200 / 2500
+// coins) from a per-unit price and a volume discount curve, so bigger packs
+// stay better value by the same margins in every region.
+//
+// A pack's base price is units × unit price × (1 − discount), where the
+// discount is read off the curve. Each pack is then priced regionally with
+// calculateBulkPrices like any single product.
+import type { StorePlatform } from '../currencies/registry';
+import { calculateBulkPrices, type BulkPricingRequest, type CalculatedPrice } from './currency';
+import { roundAmount } from './money';
+import type { Money } from './types';
+
+export interface PackItem {
+  /** Product SKU (Google) or product id (Apple) */
+  key: string;
+  label: string;
+  /** Units of the consumable in the pack (coins, gems) */
+  units: number;
+  /** Live prices per region, for guardrails and the change column */
+  currentPrices?: Record<string, Money>;
+}
+
+export interface VolumeDiscountPoint {
+  units: number;
+  /** Fraction off the per-unit price, 0–1 */
+  discount: number;
+}
+
+// A saved set of packs priced together, with the last unit price and curve used
+export interface ProductFamily {
+  id: string;
+  platform: StorePlatform;
+  name: string;
+  members: Array<{ productId: string; units: number }>;
+  unitPrice?: number;
+  curve?: VolumeDiscountPoint[];
+}
+
+export const DEFAULT_VOLUME_DISCOUNTS: VolumeDiscountPoint[] = [
+  { units: 100, discount: 0 },
+  { units: 500, discount: 0.1 },
+  { units: 1000, discount: 0.15 },
+  { units: 2500, discount: 0.2 },
+  { units: 10000, discount: 0.3 },
+];
+
+// Discount for a pack size: linear between curve points on a log scale of
+// units, flat beyond the first and last point.
+export function volumeDiscount(curve: VolumeDiscountPoint[], units: number): number {
+  const points = curve.filter((p) => p.units > 0).sort((a, b) => a.units - b.units);
+  if (points.length === 0 || units <= 0) return 0;
+  if (units <= points[0].units) return points[0].discount;
+  const last = points[points.length - 1];
+  if (units >= last.units) return last.discount;
+
+  const upper = points.findIndex((p) => p.units >= units);
+  const lo = points[upper - 1];
+  const hi = points[upper];
+  const t = (Math.log(units) - Math.log(lo.units)) / (Math.log(hi.units) - Math.log(lo.units));
+  return lo.discount + t * (hi.discount - lo.discount);
+}
+
+// Pack size from a SKU or title: the last number in it ("coins_1200",
+// "com.game.gems.550", "Pile of 2,500 Coins"). Null when there is none.
+export function parsePackUnits(text: string): number | null {
+  const matches = text.replace(/(\d),(\d{3})/g, '$1$2').match(/\d+/g);
+  if (!matches) return null;
+  const units = parseInt(matches[matches.length - 1], 10);
+  return units > 0 ? units : null;
+}
+
+// Base price of every pack in the unit price's currency, rounded to `decimals`
+export function computePackBasePrices(
+  packs: PackItem[],
+  unitPrice: number,
+  curve: VolumeDiscountPoint[],
+  decimals = 2
+): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const pack of packs) {
+    prices[pack.key] = roundAmount(pack.units * unitPrice * (1 - volumeDiscount(curve, pack.units)), decimals);
+  }
+  return prices;
+}
+
+export interface PackPrices {
+  pack: PackItem;
+  basePrice: number;
+  prices: CalculatedPrice[];
+}
+
+// Regional prices for every pack: one calculateBulkPrices run per pack with
+// the pack's base price and live prices. `request.basePrice` is the unit price.
+export function calculatePackPrices(
+  regionCodes: string[],
+  packs: PackItem[],
+  curve: VolumeDiscountPoint[],
+  request: Omit<BulkPricingRequest, 'currentPrices' | 'anchors'>,
+  decimals = 2
+): PackPrices[] {
+  const basePrices = computePackBasePrices(packs, request.basePrice, curve, decimals);
+  return packs.map((pack) => ({
+    pack,
+    basePrice: basePrices[pack.key],
+    prices: basePrices[pack.key] > 0
+      ? calculateBulkPrices(regionCodes, {
+          ...request,
+          basePrice: basePrices[pack.key],
+          currentPrices: pack.currentPrices,
+        })
+      : [],
+  }));
+}
@@ -0,0 +1,123 @@
+// Period ladder: price every billing period of a subscription (Google base
+// plans, or the subscriptions of an Apple group) from one anchor plan.
+//
+// A discount policy gives each plan a factor on the per-month price, e.g.
+// annual = 12 × monthly × 0.6 and weekly = monthly / 4 × 1.5. The anchor's
+// price fixes the per-month price, every other plan's base price follows from
+// it, and each plan is then priced regionally with calculateBulkPrices so
+// rounding and tier snapping apply per plan.
+import { calculateBulkPrices, type BulkPricingRequest, type CalculatedPrice } from './currency';
+import { roundAmount } from './money';
+import type { Money } from './types';
+
+export interface LadderPlan {
+  /** Base plan id (Google) or subscription id (Apple) */
+  key: string;
+  label: string;
+  /** Billing period length in months; a week counts as a quarter month */
+  months: number;
+  /** Live prices per region, for guardrails and the change column */
+  currentPrices?: Record<string, Money>;
+}
+
+// Factor on the per-month price, keyed by period length in months
+export type LadderPolicy = Record<string, number>;
+
+export const DEFAULT_LADDER_POLICY: LadderPolicy = {
+  '0.25': 1.5,
+  '1': 1,
+  '3': 0.9,
+  '6': 0.8,
+  '12': 0.6,
+};
+
+// Google ISO 8601 durations (P1W, P3M, P1Y) and Apple period names
+const APPLE_PERIOD_MONTHS: Record<string, number> = {
+  ONE_WEEK: 0.25,
+  ONE_MONTH: 1,
+  TWO_MONTHS: 2,
+  THREE_MONTHS: 3,
+  SIX_MONTHS: 6,
+  ONE_YEAR: 12,
+};
+
+// Length of a billing period in months, or null when it can't be read
+export function periodInMonths(period: string | undefined): number | null {
+  if (!period) return null;
+  if (period in APPLE_PERIOD_MONTHS) return APPLE_PERIOD_MONTHS[period];
+  const match = /^P(\d+)([WMY])$/.exec(period);
+  if (!match) return null;
+  const count = parseInt(match[1], 10);
+  switch (match[2]) {
+    case 'W':
+      return count / 4;
+    case 'M':
+      return count;
+    case 'Y':
+      return count * 12;
+  }
+  return null;
+}
+
+export function ladderFactor(policy: LadderPolicy, months: number): number {
+  return policy[String(months)] ?? 1;
+}
+
+// "12 × monthly × 0.6", "monthly / 4 × 1.5"
+export function describeLadderStep(months: number, factor: number): string {
+  const length = months === 1 ? 'monthly' : months > 1 ? `${months} × monthly` : `monthly / ${1 / months}`;
+  return factor === 1 ? length : `${length} × ${factor}`;
+}
+
+// Base price of every plan, in the anchor's currency. The anchor keeps its
+// price; the others are rounded to `decimals` before regional pricing.
+export function computeLadderBasePrices(
+  plans: LadderPlan[],
+  anchorKey: string,
+  anchorPrice: number,
+  policy: LadderPolicy,
+  decimals = 2
+): Record<string, number> {
+  const anchor = plans.find((plan) => plan.key === anchorKey);
+  if (!anchor) return {};
+  const perMonth = anchorPrice / (anchor.months * ladderFactor(policy, anchor.months));
+
+  const prices: Record<string, number> = {};
+  for (const plan of plans) {
+    prices[plan.key] = plan.key === anchorKey
+      ? anchorPrice
+      : roundAmount(perMonth * plan.months * ladderFactor(policy, plan.months), decimals);
+  }
+  return prices;
+}
+
+export interface LadderPlanPrices {
+  plan: LadderPlan;
+  basePrice: number;
+  prices: CalculatedPrice[];
+}
+
+// Regional prices for every plan: one calculateBulkPrices run per plan with
+// the plan's derived base price and live prices. Anchors are not supported in
+// a ladder run; the anchor plan's base region is the only anchor.
+export function calculateLadderPrices(
+  regionCodes: string[],
+  plans: LadderPlan[],
+  anchorKey: string,
+  policy: LadderPolicy,
+  request: Omit<BulkPricingRequest, 'currentPrices' | 'anchors'>,
+  decimals = 2
+): LadderPlanPrices[] {
+  const basePrices = computeLadderBasePrices(plans, anchorKey, request.basePrice, policy, decimals);
+  return plans.map((plan) => ({
+    plan,
+    basePrice: basePrices[plan.key],
+    prices: basePrices[plan.key] > 0
+      ? calculateBulkPrices(regionCodes, {
+          ...request,
+          basePrice: basePrices[plan.key],
+          currentPrices: plan.currentPrices,
+        })
+      : [],
+  }));
+}
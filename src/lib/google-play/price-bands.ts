@@ -0,0 +1,123 @@
+// Price bands: collapse per-region multipliers into a few shared price levels.
+//
+// Regions are clustered on the log of their strategy multiplier (optimal 1-D
+// k-means), so a band covers a similar *ratio* of prices at the low and high
+// end. Every region in a band then uses the band multiplier, the geometric
+// mean of its members, before currency conversion and rounding.
+
+export interface PriceBandConfig {
+  /** Number of bands (clamped to the number of distinct multipliers) */
+  count: number;
+  /** Display names, highest band first; defaults to DEFAULT_BAND_LABELS */
+  labels?: string[];
+}
+
+export interface PriceBand {
+  /** 0 = highest multipliers */
+  index: number;
+  label: string;
+  /** Shared multiplier applied to every region in the band */
+  multiplier: number;
+  /** Smallest and largest strategy multiplier in the band */
+  minMultiplier: number;
+  maxMultiplier: number;
+  regionCodes: string[];
+}
+
+export const MAX_PRICE_BANDS = 10;
+
+// Preset names by band count, highest band first
+const DEFAULT_BAND_LABELS: Record<number, string[]> = {
+  2: ['Premium', 'Emerging'],
+  3: ['Premium', 'Standard', 'Emerging'],
+  4: ['Premium', 'High', 'Value', 'Emerging'],
+  5: ['Premium', 'High', 'Standard', 'Value', 'Emerging'],
+};
+
+export function getBandLabel(index: number, config: PriceBandConfig): string {
+  return (
+    config.labels?.[index] ??
+    DEFAULT_BAND_LABELS[config.count]?.[index] ??
+    `Band ${index + 1}`
+  );
+}
+
+// Optimal partition of sorted values into k contiguous groups minimising the
+// within-group sum of squares. Returns the start index of each group.
+function optimalBreaks(sorted: number[], k: number): number[] {
+  const n = sorted.length;
+  const prefix = [0];
+  const prefixSq = [0];
+  for (const v of sorted) {
+    prefix.push(prefix[prefix.length - 1] + v);
+    prefixSq.push(prefixSq[prefixSq.length - 1] + v * v);
+  }
+  // Sum of squared deviations of sorted[i..j] (inclusive)
+  const cost = (i: number, j: number) => {
+    const count = j - i + 1;
+    const sum = prefix[j + 1] - prefix[i];
+    return prefixSq[j + 1] - prefixSq[i] - (sum * sum) / count;
+  };
+
+  // best[g][j]: minimal cost of splitting sorted[0..j] into g+1 groups
+  const best: number[][] = [];
+  const start: number[][] = [];
+  for (let g = 0; g < k; g++) {
+    best.push(new Array(n).fill(Infinity));
+    start.push(new Array(n).fill(0));
+    for (let j = g; j < n; j++) {
+      if (g === 0) {
+        best[g][j] = cost(0, j);
+        continue;
+      }
+      for (let i = g; i <= j; i++) {
+        const candidate = best[g - 1][i - 1] + cost(i, j);
+        if (candidate < best[g][j]) {
+          best[g][j] = candidate;
+          start[g][j] = i;
+        }
+      }
+    }
+  }
+
+  const breaks: number[] = [];
+  let end = n - 1;
+  for (let g = k - 1; g >= 0; g--) {
+    const s = g === 0 ? 0 : start[g][end];
+    breaks.unshift(s);
+    end = s - 1;
+  }
+  return breaks;
+}
+
+// Cluster region multipliers into bands. Non-positive multipliers are left out.
+export function clusterPriceBands(
+  multipliers: Record<string, number>,
+  config: PriceBandConfig
+): PriceBand[] {
+  const entries = Object.entries(multipliers)
+    .filter(([, multiplier]) => multiplier > 0 && Number.isFinite(multiplier))
+    .sort((a, b) => a[1] - b[1]);
+  if (entries.length === 0) return [];
+
+  const distinct = new Set(entries.map(([, multiplier]) => multiplier)).size;
+  const k = Math.max(1, Math.min(Math.floor(config.count), MAX_PRICE_BANDS, distinct));
+  const logs = entries.map(([, multiplier]) => Math.log(multiplier));
+  const breaks = optimalBreaks(logs, k);
+
+  // Groups come out lowest first; bands are numbered highest first
+  return breaks
+    .map((from, g) => {
+      const to = g + 1 < breaks.length ? breaks[g + 1] : entries.length;
+      const members = entries.slice(from, to);
+      const meanLog = logs.slice(from, to).reduce((sum, v) => sum + v, 0) / members.length;
+      return {
+        multiplier: Math.exp(meanLog),
+        minMultiplier: members[0][1],
+        maxMultiplier: members[members.length - 1][1],
+        regionCodes: members.map(([code]) => code),
+      };
+    })
+    .reverse()
+    .map((band, index) => ({ index, label: getBandLabel(index, config), ...band }));
+}
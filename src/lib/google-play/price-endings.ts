@@ -0,0 +1,106 @@
+// Price-ending ("charm pricing") rules per currency.
+//
+// Each currency maps to a list of rules. The first rule whose minPrice the
+// price reaches is used, so list the higher price bands first.
+
+import { listWholeUnitCurrencies } from '../currencies/registry';
+import { roundAmount } from './money';
+
+export interface PriceEndingRule {
+  /** The rule applies to prices at or above this amount (billing currency). Defaults to 0. */
+  minPrice?: number;
+  /** Size of the repeating band in major units: 1 = every whole unit, 100 = every hundred */
+  step: number;
+  /** Allowed amounts within a band, e.g. step 100 with endings [80, 0] gives …80 or …00 */
+  endings: number[];
+}
+
+export type PriceEndingTable = Record<string, PriceEndingRule[]>;
+
+// Key for the rules used when a currency has no entry of its own
+export const DEFAULT_ENDING_KEY = '*';
+
+// Currencies Google Play prices in whole units: snap to …90 / …9 instead of .99
+const NO_DECIMAL_RULES: PriceEndingRule[] = [
+  { minPrice: 1000, step: 100, endings: [90] },
+  { minPrice: 100, step: 10, endings: [9] },
+  { step: 1, endings: [0] },
+];
+
+// CFA Francs require multiples of 100 (Google Play requirement)
+const CFA_FRANC_RULES: PriceEndingRule[] = [{ step: 100, endings: [0] }];
+
+// The endings behind 'nearest-99' and 'round-up'
+export const NINETY_NINE_ENDINGS: PriceEndingTable = {
+  [DEFAULT_ENDING_KEY]: [{ step: 1, endings: [0.99] }],
+  ...Object.fromEntries(listWholeUnitCurrencies().map((code) => [code, NO_DECIMAL_RULES])),
+  XOF: CFA_FRANC_RULES,
+  XAF: CFA_FRANC_RULES,
+};
+
+// Starting point for the 'locale-charm' rounding mode. Users edit a copy of
+// this table; currencies not listed here fall back to the '*' rules.
+export const DEFAULT_LOCALE_CHARM_ENDINGS: PriceEndingTable = {
+  ...NINETY_NINE_ENDINGS,
+  EUR: [{ step: 1, endings: [0.49, 0.99] }],
+  CHF: [{ step: 1, endings: [0.9] }],
+  JPY: [
+    { minPrice: 100, step: 100, endings: [0, 80] },
+    { step: 10, endings: [0] },
+  ],
+  INR: [{ step: 10, endings: [9] }],
+};
+
+// Rules for a currency, falling back to the table's '*' entry and then to .99
+export function getPriceEndingRules(
+  table: PriceEndingTable,
+  currencyCode: string
+): PriceEndingRule[] {
+  return (
+    table[currencyCode] ??
+    table[DEFAULT_ENDING_KEY] ??
+    NINETY_NINE_ENDINGS[DEFAULT_ENDING_KEY]
+  );
+}
+
+// Snap a price onto the closest allowed ending ('nearest'), or the next one
+// at or above it ('up'). Ties go to the higher price.
+export function snapToPriceEnding(
+  price: number,
+  rules: PriceEndingRule[],
+  direction: 'nearest' | 'up'
+): number {
+  const rule = rules.find((r) => price >= (r.minPrice ?? 0)) ?? rules[rules.length - 1];
+  if (!rule || rule.step <= 0 || rule.endings.length === 0) {
+    return roundAmount(price, 2);
+  }
+
+  // Compare at cent precision so a price already on an ending stays put
+  const target = roundAmount(price, 2);
+  let best: number | null = null;
+
+  for (const ending of rule.endings) {
+    const below = Math.floor((target - ending) / rule.step) * rule.step + ending;
+    for (const raw of [below, below + rule.step]) {
+      const candidate = roundAmount(raw, 2);
+      if (candidate < 0) continue;
+
+      if (direction === 'up') {
+        if (candidate >= target && (best === null || candidate < best)) {
+          best = candidate;
+        }
+      } else if (best === null) {
+        best = candidate;
+      } else {
+        const diff = Math.abs(candidate - target);
+        const bestDiff = Math.abs(best - target);
+        const tie = Math.abs(diff - bestDiff) < 1e-9;
+        if ((!tie && diff < bestDiff) || (tie && candidate > best)) {
+          best = candidate;
+        }
+      }
+    }
+  }
+
+  return best ?? target;
+}
@@ -0,0 +1,159 @@
+// Declared relationships between the prices of different products and plans,
+// e.g. "annual ≤ 10× monthly", "lifetime ≥ 2.5× annual" or "a coin costs more
+// in the 100-coin pack than in the 500-coin pack". Each editor prices one item
+// at a time, so these are checked region by region against every other item's
+// live prices whenever an item's prices change.
+//
+// A relationship reads: left / left.units  <op>  factor × right / right.units
+// Units default to 1; set them to compare per-unit prices (coins, months).
+import { alpha3ToAlpha2 } from '../apple-connect/territories';
+import { getPriceDecimals, type StorePlatform } from '../currencies/registry';
+import { formatNanos, moneyToNanos, nanosToNumber, numberToNanos } from './money';
+import type { Money } from './types';
+
+export type RelationshipOperator = '<=' | '<' | '>=' | '>';
+
+export const RELATIONSHIP_OPERATORS: RelationshipOperator[] = ['<=', '<', '>=', '>'];
+
+export const RELATIONSHIP_OPERATOR_SYMBOLS: Record<RelationshipOperator, string> = {
+  '<=': '≤',
+  '<': '<',
+  '>=': '≥',
+  '>': '>',
+};
+
+export interface PriceItemRef {
+  /** See productItemKey / basePlanItemKey / appleSubscriptionItemKey */
+  key: string;
+  label: string;
+  /** Divide the price by this before comparing (e.g. coins in the pack) */
+  units?: number;
+}
+
+export interface PriceRelationship {
+  id: string;
+  platform: StorePlatform;
+  left: PriceItemRef;
+  operator: RelationshipOperator;
+  factor: number;
+  right: PriceItemRef;
+}
+
+// Regional prices of one item, keyed by alpha-2 region code
+export type RegionalPriceMap = Record<string, Money>;
+
+export interface RelationshipViolation {
+  relationship: PriceRelationship;
+  regionCode: string;
+  currencyCode: string;
+  leftPrice: number;
+  rightPrice: number;
+  /** The left price the relationship allows at most (≤, <) or at least (≥, >) */
+  limit: number;
+}
+
+export function productItemKey(productId: string): string {
+  return `product:${productId}`;
+}
+
+export function basePlanItemKey(subscriptionId: string, basePlanId: string): string {
+  return `plan:${subscriptionId}/${basePlanId}`;
+}
+
+export function appleSubscriptionItemKey(productId: string): string {
+  return `subscription:${productId}`;
+}
+
+// Apple product prices are keyed by alpha-3 territory; everything else by alpha-2
+export function toRegionalPriceMap(prices: Record<string, Money>): RegionalPriceMap {
+  const map: RegionalPriceMap = {};
+  for (const [code, money] of Object.entries(prices)) {
+    map[code.length === 3 ? (alpha3ToAlpha2(code) ?? code) : code] = money;
+  }
+  return map;
+}
+
+function compare(left: number, operator: RelationshipOperator, limit: number): boolean {
+  switch (operator) {
+    case '<=':
+      return left <= limit;
+    case '<':
+      return left < limit;
+    case '>=':
+      return left >= limit;
+    case '>':
+      return left > limit;
+  }
+}
+
+// Every region where both sides have a price in the same currency and the
+// relationship does not hold. Items without prices are skipped.
+export function evaluateRelationships(
+  relationships: PriceRelationship[],
+  pricesByItem: Record<string, RegionalPriceMap>
+): RelationshipViolation[] {
+  const violations: RelationshipViolation[] = [];
+  for (const relationship of relationships) {
+    const leftPrices = pricesByItem[relationship.left.key];
+    const rightPrices = pricesByItem[relationship.right.key];
+    if (!leftPrices || !rightPrices) continue;
+
+    const leftUnits = relationship.left.units ?? 1;
+    const rightUnits = relationship.right.units ?? 1;
+    for (const [regionCode, leftMoney] of Object.entries(leftPrices)) {
+      const rightMoney = rightPrices[regionCode];
+      if (!rightMoney || rightMoney.currencyCode !== leftMoney.currencyCode) continue;
+
+      const leftPrice = nanosToNumber(moneyToNanos(leftMoney));
+      const rightPrice = nanosToNumber(moneyToNanos(rightMoney));
+      // Compare whole prices: scale the right side to the left item's units
+      const limit = (relationship.factor * rightPrice * leftUnits) / rightUnits;
+      // Tolerate float noise on an exact tie
+      const tie = Math.abs(leftPrice - limit) < 1e-9;
+      const holds = tie
+        ? relationship.operator === '<=' || relationship.operator === '>='
+        : compare(leftPrice, relationship.operator, limit);
+      if (!holds) {
+        violations.push({
+          relationship,
+          regionCode,
+          currencyCode: leftMoney.currencyCode,
+          leftPrice,
+          rightPrice,
+          limit,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+// Relationships that mention an item, for a given store
+export function relationshipsForItem(
+  relationships: PriceRelationship[],
+  platform: StorePlatform,
+  itemKey: string
+): PriceRelationship[] {
+  return relationships.filter(
+    (r) => r.platform === platform && (r.left.key === itemKey || r.right.key === itemKey)
+  );
+}
+
+function describeSide(ref: PriceItemRef): string {
+  return ref.units && ref.units !== 1 ? `${ref.label} / ${ref.units}` : ref.label;
+}
+
+// "Annual ≤ 10× Monthly"
+export function describeRelationship(relationship: PriceRelationship): string {
+  const factor = relationship.factor === 1 ? '' : `${relationship.factor}× `;
+  return `${describeSide(relationship.left)} ${RELATIONSHIP_OPERATOR_SYMBOLS[relationship.operator]} ${factor}${describeSide(relationship.right)}`;
+}
+
+// "DE: Annual 99.99 EUR, must be ≤ 89.90 (Monthly 8.99)"
+export function describeViolation(violation: RelationshipViolation): string {
+  const { relationship, regionCode, currencyCode } = violation;
+  const amount = (value: number) => formatNanos(numberToNanos(value), getPriceDecimals(currencyCode));
+  return `${regionCode}: ${relationship.left.label} ${amount(violation.leftPrice)} ${currencyCode}, must be ${
+    RELATIONSHIP_OPERATOR_SYMBOLS[relationship.operator]
+  } ${amount(violation.limit)} (${relationship.right.label} ${amount(violation.rightPrice)})`;
+}
@@ -0,0 +1,133 @@
+// Stepped rollouts: split a large regional increase (e.g. +60% in Brazil) into
+// N equal steps on a schedule, so subscribers see several small changes
+// instead of one jump.
+//
+// Only increases are stepped. Decreases and regions without a live price in
+// the same currency take their target in the first step. Intermediate steps
+// are rounded to the currency's minor unit; Apple snaps them to the closest
+// price point when they are submitted. With a change threshold, a region
+// whose first step would be skipped as unchanged gets fewer, larger steps.
+import { getPriceDecimals, type StorePlatform } from '../currencies/registry';
+import { isBelowChangeThreshold, type ChangeThreshold } from './change-threshold';
+import { moneyToNanos, nanosToMoney, roundNanos } from './money';
+import type { Money } from './types';
+
+export interface RolloutSchedule {
+  /** Number of steps, 2 or more */
+  steps: number;
+  /** Days between consecutive steps */
+  intervalDays: number;
+}
+
+export const DEFAULT_ROLLOUT_SCHEDULE: RolloutSchedule = { steps: 3, intervalDays: 30 };
+
+export interface RolloutStep {
+  /** Effective date, YYYY-MM-DD */
+  date: string;
+  /** Target price per region for this step */
+  prices: Record<string, Money>;
+  /** When the step was sent to the store */
+  submittedAt?: string;
+}
+
+// A rollout recorded for later steps that could not be sent up front
+export interface PriceRollout {
+  id: string;
+  platform: StorePlatform;
+  kind: 'product' | 'subscription';
+  /** SKU / product id; for Apple subscriptions the numeric subscription id */
+  productId: string;
+  basePlanId?: string;
+  label: string;
+  createdAt: string;
+  steps: RolloutStep[];
+  /** Apple subscriptions: keep existing subscribers on their current price */
+  preserveCurrentPrice?: boolean;
+}
+
+export function toDateString(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function rolloutStepDates(firstDate: string, schedule: RolloutSchedule): string[] {
+  const [y, m, d] = firstDate.split('-').map(Number);
+  return Array.from({ length: schedule.steps }, (_, i) =>
+    toDateString(new Date(y, m - 1, d + i * schedule.intervalDays))
+  );
+}
+
+// Prices for each step from `current` to `target`, the last step being `target`
+// exactly. Returns a single entry when the change is not stepped.
+export function splitPriceIncrease(
+  current: Money | undefined,
+  target: Money,
+  steps: number,
+  platform: StorePlatform = 'google'
+): Money[] {
+  if (steps < 2 || !current || current.currencyCode !== target.currencyCode) return [target];
+  const from = moneyToNanos(current);
+  const to = moneyToNanos(target);
+  if (to <= from || from <= BigInt(0)) return [target];
+
+  const decimals = getPriceDecimals(target.currencyCode, platform);
+  const stepCount = BigInt(steps);
+  const prices: Money[] = [];
+  for (let i = 1; i < steps; i++) {
+    const nanos = from + ((to - from) * BigInt(i)) / stepCount;
+    prices.push(nanosToMoney(roundNanos(nanos, decimals), target.currencyCode));
+  }
+  prices.push(target);
+  return prices;
+}
+
+// Split new prices by region into dated steps. Regions that are not stepped
+// appear in the first step only. The first step is written with the change
+// threshold, so a region whose first step falls under it is re-split into
+// fewer steps (down to one) rather than losing step 1 and keeping the rest.
+export function planPriceRollout(
+  targets: Record<string, Money>,
+  currentPrices: Record<string, Money | undefined>,
+  schedule: RolloutSchedule,
+  firstDate: string,
+  platform: StorePlatform = 'google',
+  threshold?: ChangeThreshold
+): RolloutStep[] {
+  const steps: RolloutStep[] = rolloutStepDates(firstDate, schedule).map((date) => ({ date, prices: {} }));
+  for (const [regionCode, target] of Object.entries(targets)) {
+    const current = currentPrices[regionCode];
+    let stepCount = schedule.steps;
+    let prices = splitPriceIncrease(current, target, stepCount, platform);
+    while (prices.length > 1 && isBelowChangeThreshold(current, prices[0], threshold)) {
+      prices = splitPriceIncrease(current, target, --stepCount, platform);
+    }
+    prices.forEach((price, i) => {
+      steps[i].prices[regionCode] = price;
+    });
+  }
+  return steps.filter((step) => Object.keys(step.prices).length > 0);
+}
+
+// Whether a step can be sent now. Google has no scheduled prices, so a step
+// goes out on its date. Apple subscriptions take one future price per
+// territory, so a step is scheduled once the previous one has taken effect.
+export function isRolloutStepDue(rollout: PriceRollout, index: number, today: string): boolean {
+  const step = rollout.steps[index];
+  if (!step || step.submittedAt) return false;
+  if (rollout.platform === 'apple') {
+    const previous = rollout.steps[index - 1];
+    return !previous || (!!previous.submittedAt && previous.date <= today);
+  }
+  return step.date <= today;
+}
+
+// Whether any step of the rollout can be sent now
+export function hasDueRolloutStep(rollout: PriceRollout, today: string): boolean {
+  return rollout.steps.some((_, index) => isRolloutStepDue(rollout, index, today));
+}
+
+export function isRolloutComplete(rollout: PriceRollout): boolean {
+  return rollout.steps.every((step) => step.submittedAt);
+}
@@ -0,0 +1,34 @@
+// Saved pricing plans: the settings of a bulk pricing run, kept so the same
+// run can be replayed later (e.g. by the FX scenario simulator) without the
+// live PPP data and exchange rates it was made with.
+import type { StorePlatform } from '../currencies/registry';
+import { getPriceTiersForCurrency } from '../apple-connect/price-tier-data';
+import type { BulkPricingRequest, DynamicExchangeRates, DynamicPPPData } from './currency';
+
+// Everything in a bulk request that is a plain setting rather than live data
+export type PricingPlanSettings = Omit<
+  BulkPricingRequest,
+  'dynamicPPPData' | 'dynamicExchangeRates' | 'getTiersForCurrency' | 'currentPrices'
+>;
+
+export interface PricingPlan {
+  id: string;
+  name: string;
+  platform: StorePlatform;
+  savedAt: string;
+  regions: string[];
+  settings: PricingPlanSettings;
+}
+
+// Rebuild the bulk request for a plan with today's (or hypothetical) data
+export function pricingPlanRequest(
+  plan: PricingPlan,
+  data: { pppData?: DynamicPPPData; exchangeRates?: DynamicExchangeRates }
+): BulkPricingRequest {
+  return {
+    ...plan.settings,
+    dynamicPPPData: data.pppData,
+    dynamicExchangeRates: data.exchangeRates,
+    getTiersForCurrency: plan.platform === 'apple' ? getPriceTiersForCurrency : undefined,
+  };
+}
@@ -1,5 +1,6 @@
 import { googlePlayFetch } from './client';
 import type { ServiceAccountCredentials, InAppProduct, Money } from './types';
+import { applyPriceOperation, type PriceOperation } from './money';
 
 // Type for regional pricing config
 interface RegionalPricingConfig {
@@ -275,46 +276,6 @@ export async function deleteRegionPrice(
   return product;
 }
 
-export function calculateNewPrice(
-  currentPrice: Money,
-  operation: { type: 'fixed' | 'percentage' | 'round'; value?: number; roundTo?: number }
-): Money {
-  const parsedUnits = parseFloat(currentPrice.units);
-  if (isNaN(parsedUnits) || !Number.isFinite(parsedUnits)) {
-    throw new Error(`Invalid price units value: "${currentPrice.units}"`);
-  }
-  const currentAmount = parsedUnits + (currentPrice.nanos ? currentPrice.nanos / 1_000_000_000 : 0);
-
-  let newAmount: number;
-
-  switch (operation.type) {
-    case 'fixed':
-      newAmount = operation.value ?? currentAmount;
-      break;
-    case 'percentage':
-      newAmount = currentAmount * (1 + (operation.value ?? 0) / 100);
-      break;
-    case 'round':
-      const roundTo = operation.roundTo ?? 0.99;
-      newAmount = Math.floor(currentAmount) + roundTo;
-      break;
-    default:
-      newAmount = currentAmount;
-  }
-
-  newAmount = Math.max(0, newAmount);
-
-  let units = Math.floor(newAmount);
-  let nanos = Math.round((newAmount - units) * 1_000_000_000);
-
-  if (nanos > 999_999_999) {
-    units += Math.floor(nanos / 1_000_000_000);
-    nanos = nanos % 1_000_000_000;
-  }
-
-  return {
-    currencyCode: currentPrice.currencyCode,
-    units: units.toString(),
-    nanos: nanos > 0 ? nanos : undefined,
-  };
+export function calculateNewPrice(currentPrice: Money, operation: PriceOperation): Money {
+  return applyPriceOperation(currentPrice, operation);
 }
@@ -0,0 +1,596 @@
+// Built-in pricing strategies. Importing this module registers them, in the
+// order the UI lists them.
+import { getPricingIndexEntry, LOCAL_CURRENCIES, PRICING_INDEX } from '../../conversion-indexes/ppp';
+import { getBigMacMultiplier, BIG_MAC_INDEX } from '../../conversion-indexes/big-mac';
+import { getNetflixMultiplier, NETFLIX_PRICE_INDEX } from '../../conversion-indexes/netflix';
+import { getSpotifyMultiplier, SPOTIFY_PRICE_INDEX } from '../../conversion-indexes/spotify';
+import { getGniMultiplier, GNI_INDEX } from '../../conversion-indexes/gni';
+import { getTaxRateEntry } from '../../conversion-indexes/tax-rates';
+import {
+  getPricingStrategy,
+  registerPricingStrategy,
+  traceNumber,
+  type PricingStrategyModule,
+  type StrategyContext,
+  type StrategyResult,
+} from './registry';
+
+// Indexes the 'blend' strategy can combine
+export type BlendIndex = 'ppp' | 'bigmac' | 'netflix';
+
+// How the 'blend' strategy fills in when an index has no entry for a region:
+//   'renormalize'   - drop that index and spread its weight over the others
+//   'index-default' - use the index's default multiplier (single-index behaviour)
+//   'neutral'       - treat the missing index as 1.0 (same as the base region)
+export type BlendMissingPolicy = 'renormalize' | 'index-default' | 'neutral';
+
+export interface BlendConfig {
+  /** Relative weight per index. Normalised at calculation time, so 50/30/20 and 5/3/2 are equivalent. */
+  weights: Record<BlendIndex, number>;
+  missing: BlendMissingPolicy;
+}
+
+export const BLEND_INDEXES: readonly BlendIndex[] = ['ppp', 'netflix', 'bigmac'];
+
+export const DEFAULT_BLEND_CONFIG: BlendConfig = {
+  weights: { ppp: 50, netflix: 30, bigmac: 20 },
+  missing: 'renormalize',
+};
+
+export interface BlendContribution {
+  index: BlendIndex;
+  /** Normalised weight actually applied (0 when the index was dropped) */
+  weight: number;
+  /** The index's multiplier relative to the base region */
+  multiplier: number;
+  /** weight × multiplier — this index's share of the blended multiplier */
+  contribution: number;
+  /** True when the region had no entry and the missing-entry rule supplied the value */
+  filled: boolean;
+}
+
+// Store commission as a fraction of the tax-exclusive price
+export const STORE_COMMISSION_RATES = {
+  /** Standard rate */
+  standard: 0.30,
+  /** Small Business Program / Google's first $1M, and subscriptions after year one */
+  reduced: 0.15,
+} as const;
+
+export interface ProceedsConfig {
+  /** Commission the store keeps, as a fraction (see STORE_COMMISSION_RATES) */
+  commission: number;
+}
+
+export const DEFAULT_PROCEEDS_CONFIG: ProceedsConfig = {
+  commission: STORE_COMMISSION_RATES.standard,
+};
+
+// What the PPP strategies do in a region whose currency they can't be trusted with:
+//   'multiplier' - a fixed multiplier relative to the base region
+//   'index'      - the multiplier of another registered strategy (e.g. 'gni')
+//   'freeze'     - keep the live price; regions without one get `multiplier`
+export type UnstableCurrencyAction =
+  | { kind: 'multiplier'; multiplier: number }
+  | { kind: 'index'; strategy: string }
+  | { kind: 'freeze'; multiplier: number };
+
+export interface UnstableCurrencyRule {
+  /** Alpha-2 region code, or the ISO 4217 code of the region's local currency */
+  match: string;
+  action: UnstableCurrencyAction;
+  /** Why the region needs special handling; shown next to its price */
+  reason: string;
+}
+
+export interface UnstableCurrencyPolicy {
+  /** Regions always handled by their rule under the PPP strategies */
+  rules: UnstableCurrencyRule[];
+  /**
+   * For any other region where PPP lands above the base region while the store
+   * bills in a currency other than the local one (a sign the local currency
+   * has collapsed since the PPP year)
+   */
+  fallback: UnstableCurrencyAction;
+}
+
+// Set on a price when the policy replaced the PPP multiplier
+export interface UnstableCurrencyHit {
+  /** The rule's match code; unset when the fallback applied */
+  match?: string;
+  action: UnstableCurrencyAction;
+  reason: string;
+  /** The live price was kept ('freeze' with a live price in the billing currency) */
+  frozen?: boolean;
+}
+
+export const DEFAULT_UNSTABLE_CURRENCY_POLICY: UnstableCurrencyPolicy = {
+  rules: [],
+  fallback: { kind: 'multiplier', multiplier: 0.25 },
+};
+
+// Starting points for the regions whose PPP data is least reliable, offered in Settings
+export const RECOMMENDED_UNSTABLE_CURRENCY_RULES: readonly UnstableCurrencyRule[] = [
+  {
+    match: 'AR',
+    action: { kind: 'multiplier', multiplier: 0.3 },
+    reason: 'Argentine peso: high inflation and parallel exchange rates; stores bill in USD',
+  },
+  {
+    match: 'VE',
+    action: { kind: 'multiplier', multiplier: 0.2 },
+    reason: 'Venezuelan bolívar: hyperinflation; stores bill in USD',
+  },
+  {
+    match: 'LB',
+    action: { kind: 'multiplier', multiplier: 0.3 },
+    reason: 'Lebanese pound: collapse and multiple official rates; stores bill in USD',
+  },
+  {
+    match: 'TR',
+    action: { kind: 'index', strategy: 'gni' },
+    reason: 'Turkish lira: PPP factors lag inflation of 40%+ a year',
+  },
+  {
+    match: 'NG',
+    action: { kind: 'index', strategy: 'gni' },
+    reason: 'Nigerian naira: devalued by more than half since 2023',
+  },
+  {
+    match: 'EG',
+    action: { kind: 'index', strategy: 'gni' },
+    reason: 'Egyptian pound: floated in 2024, PPP factors predate it',
+  },
+];
+
+// The rule covering a region, by region code first, then by local currency
+export function findUnstableCurrencyRule(
+  policy: UnstableCurrencyPolicy,
+  alpha2Code: string
+): UnstableCurrencyRule | undefined {
+  const localCurrency = getLocalCurrencyForRegion(alpha2Code);
+  return policy.rules.find((rule) => rule.match === alpha2Code)
+    ?? policy.rules.find((rule) => rule.match === localCurrency);
+}
+
+// Get the actual local currency for a region (what World Bank PPP is based on)
+export function getLocalCurrencyForRegion(regionCode: string): string {
+  return LOCAL_CURRENCIES[regionCode] || 'USD';
+}
+
+// Also the fallback for unregistered strategy ids
+export const directStrategy: PricingStrategyModule = {
+  id: 'direct',
+  label: 'Direct',
+  title: 'Direct Conversion',
+  description: 'Same USD value in all regions (converted to local currency)',
+  requires: ['exchange-rates'],
+  sourceLabels: { direct: 'Direct conversion (1:1)' },
+  computeMultiplier: (_region, context) => {
+    // Same USD value everywhere - just convert currency using market exchange rate
+    context.trace({ step: 'multiplier', detail: 'Direct conversion: multiplier 1', value: 1 });
+    return { multiplier: 1.0, source: 'direct' };
+  },
+};
+
+// Index strategies (Netflix, Big Mac) use the index multiplier normalised to
+// the base region.
+function indexRatio(
+  context: StrategyContext,
+  name: string,
+  multiplier: number,
+  baseMultiplier: number
+): number {
+  const effective = multiplier / baseMultiplier;
+  context.trace({ step: 'multiplier', detail: `${name} ${traceNumber(multiplier)}`, value: multiplier });
+  context.trace({
+    step: 'base-normalisation',
+    detail: `÷ ${context.alpha2BaseRegion} ${name} ${traceNumber(baseMultiplier)} = ${traceNumber(effective)}`,
+    value: effective,
+  });
+  return effective;
+}
+
+const netflixStrategy: PricingStrategyModule = {
+  id: 'netflix',
+  label: 'Netflix',
+  title: 'Netflix Index',
+  description: 'Prices based on Netflix Standard ad-free subscription prices by country.',
+  attribution: 'Data: tompec/netflix-prices (CC-BY-4.0)',
+  requires: ['ppp-data', 'exchange-rates'],
+  sourceLabels: { netflix: 'Netflix Price Index' },
+  index: true,
+  hasEntry: (context) => context.alpha2Code in NETFLIX_PRICE_INDEX,
+  computeMultiplier: (_region, context) => ({
+    multiplier: indexRatio(
+      context,
+      'Netflix index',
+      context.dynamicEntry?.netflixMultiplier ?? getNetflixMultiplier(context.alpha2Code),
+      context.baseDynamicEntry?.netflixMultiplier ?? getNetflixMultiplier(context.alpha2BaseRegion)
+    ),
+    source: 'netflix',
+  }),
+};
+
+type DynamicEntry = StrategyContext['dynamicEntry'];
+
+// The two World Bank PPP conversion factors share one calculation and differ
+// only in which fields of the /api/ppp entry they read.
+interface PppVariant {
+  id: string;
+  label: string;
+  title: string;
+  description: string;
+  // Name used in trace steps
+  name: string;
+  conversionFactor: (entry: DynamicEntry) => number | undefined;
+  multiplier: (entry: DynamicEntry) => number | undefined;
+}
+
+function createPppStrategy(variant: PppVariant): PricingStrategyModule {
+  return {
+    id: variant.id,
+    label: variant.label,
+    title: variant.title,
+    description: variant.description,
+    requires: ['ppp-data', 'exchange-rates'],
+    sourceLabels: { 'world-bank': 'World Bank PPP data', static: 'Static fallback data' },
+    index: true,
+    hasEntry: (context) =>
+      variant.conversionFactor(context.dynamicEntry) !== undefined || context.alpha2Code in PRICING_INDEX,
+    computeMultiplier: (_region, context) => computePppMultiplier(variant, context),
+  };
+}
+
+// The PPP multiplier, unless the unstable-currency policy covers the region
+function computePppMultiplier(variant: PppVariant, context: StrategyContext): StrategyResult {
+  const policy = context.options.unstableCurrency ?? DEFAULT_UNSTABLE_CURRENCY_POLICY;
+  const { aboveBase, ...result } = computePppFactorMultiplier(variant, context);
+  const rule = findUnstableCurrencyRule(policy, context.alpha2Code);
+  if (rule) {
+    return applyUnstableCurrencyAction(context, rule.action, { match: rule.match, reason: rule.reason });
+  }
+  if (aboveBase) {
+    return applyUnstableCurrencyAction(context, policy.fallback, {
+      reason: `${variant.name} puts ${context.alpha2Code} above the base region while billing in ${context.currencyCode}`,
+    });
+  }
+  return result;
+}
+
+function applyUnstableCurrencyAction(
+  context: StrategyContext,
+  action: UnstableCurrencyAction,
+  hit: { match?: string; reason: string }
+): StrategyResult {
+  const unstableCurrency: UnstableCurrencyHit = { ...hit, action };
+  if (action.kind === 'index') {
+    // Evaluated without options, so an index that itself reads PPP can't loop back here
+    const fallbackStrategy = getPricingStrategy(action.strategy) ?? directStrategy;
+    const { multiplier, source } = fallbackStrategy.computeMultiplier(context.regionCode, {
+      ...context,
+      options: {},
+      trace: () => {},
+    });
+    context.trace({
+      step: 'hyperinflation-override',
+      detail: `${hit.reason}: ${fallbackStrategy.label} multiplier ${traceNumber(multiplier)} used instead`,
+      value: multiplier,
+    });
+    return { multiplier, source, unstableCurrency };
+  }
+  const applied = action.kind === 'freeze'
+    ? `live price kept, multiplier ${traceNumber(action.multiplier)} where there is none`
+    : hit.match
+      ? `fixed multiplier ${traceNumber(action.multiplier)} applied`
+      : `affordability fallback ${traceNumber(action.multiplier)} applied`;
+  context.trace({
+    step: 'hyperinflation-override',
+    detail: `${hit.reason}: ${applied}`,
+    value: action.multiplier,
+  });
+  return { multiplier: action.multiplier, source: 'static', unstableCurrency };
+}
+
+// The multiplier from the World Bank conversion factor. `aboveBase` flags a
+// region billed in a non-local currency that PPP puts above the base region.
+function computePppFactorMultiplier(
+  variant: PppVariant,
+  context: StrategyContext
+): StrategyResult & { aboveBase?: boolean } {
+  // PPP strategy: adjust prices based on purchasing power parity
+  //
+  // The World Bank PPP conversion factor is in LOCAL CURRENCY units per international $.
+  // For example, Ukraine PPP factor ~9.34 means 9.34 UAH = 1 international $.
+  //
+  // If billing currency matches local currency:
+  //   price = baseUsdPrice × pppFactor
+  //
+  // If billing currency differs (e.g., Apple bills Ukraine in USD, not UAH):
+  //   1. Calculate PPP price in local currency: baseUsdPrice × pppFactor = price in UAH
+  //   2. Convert to billing currency: price in UAH / localExchangeRate = price in USD
+  //   Formula: price = baseUsdPrice × pppFactor / localExchangeRate × billingExchangeRate
+  const { alpha2Code, alpha2BaseRegion, currencyCode, dynamicEntry, baseDynamicEntry } = context;
+  const pppConversionFactor = variant.conversionFactor(dynamicEntry);
+  const pppMultiplier = variant.multiplier(dynamicEntry) ?? getPricingIndexEntry(alpha2Code).pppMultiplier;
+  const basePppMultiplier =
+    variant.multiplier(baseDynamicEntry) ?? getPricingIndexEntry(alpha2BaseRegion).pppMultiplier;
+
+  const staticRatio = (reason: string) => {
+    const effective = pppMultiplier / basePppMultiplier;
+    context.trace({ step: 'multiplier', detail: `${reason}: static PPP multiplier ${traceNumber(pppMultiplier)}`, value: pppMultiplier });
+    context.trace({
+      step: 'base-normalisation',
+      detail: `÷ ${alpha2BaseRegion} static PPP multiplier ${traceNumber(basePppMultiplier)} = ${traceNumber(effective)}`,
+      value: effective,
+    });
+    return { multiplier: effective, source: 'static' as const };
+  };
+
+  if (pppConversionFactor === undefined) {
+    // No PPP conversion factor available - use static multiplier normalized to base region
+    return staticRatio(`No World Bank ${variant.name} conversion factor for ${alpha2Code}`);
+  }
+
+  // Get the World Bank's expected local currency for this region. Prefer the
+  // snapshot rate from /api/ppp (paired with the PPP factor) so the multiplier's
+  // numerator and denominator come from one API call; fall back to live OER.
+  const localCurrency = getLocalCurrencyForRegion(alpha2Code);
+  const localExchangeRate = dynamicEntry?.marketExchangeRate ?? context.getExchangeRate(localCurrency);
+  const localRateSource = dynamicEntry?.marketExchangeRate !== undefined
+    ? 'PPP API snapshot'
+    : context.describeExchangeRate(localCurrency);
+
+  // If we have dynamic PPP data, we use the real multiplier (PPP_Factor / Market_Rate)
+  // BUT we must normalize it relative to the base region's multiplier
+  const baseLocalCurrency = getLocalCurrencyForRegion(alpha2BaseRegion);
+  const baseLocalExchangeRate = baseDynamicEntry?.marketExchangeRate
+    ?? context.getExchangeRate(baseLocalCurrency);
+  const basePppConversionFactor = variant.conversionFactor(baseDynamicEntry);
+
+  let baseRealMultiplier = basePppMultiplier;
+  if (baseLocalExchangeRate && basePppConversionFactor) {
+    baseRealMultiplier = basePppConversionFactor / baseLocalExchangeRate;
+  }
+  const normalise = (rawRealMultiplier: number, note = '') => {
+    const effective = rawRealMultiplier / baseRealMultiplier;
+    context.trace({
+      step: 'multiplier',
+      detail: `${variant.name} factor ${traceNumber(pppConversionFactor)} ${localCurrency}/intl$ ÷ market rate ${traceNumber(localExchangeRate)} (${localRateSource}) = ${traceNumber(rawRealMultiplier)}${note}`,
+      value: rawRealMultiplier,
+    });
+    context.trace({
+      step: 'base-normalisation',
+      detail: `÷ ${alpha2BaseRegion} ${variant.name} multiplier ${traceNumber(baseRealMultiplier)}${basePppConversionFactor ? '' : ' (static)'} = ${traceNumber(effective)}`,
+      value: effective,
+    });
+    return effective;
+  };
+  const source = dynamicEntry?.source ?? 'world-bank';
+
+  if (currencyCode === localCurrency) {
+    // Billing currency matches local currency. Use the snapshot rate for the
+    // multiplier denominator; the engine keeps the live OER rate for the final
+    // output conversion so the displayed price tracks today's market.
+    return { multiplier: normalise(pppConversionFactor / localExchangeRate), source };
+  }
+
+  // Billing currency differs from local currency
+  if (localCurrency !== 'USD' && !context.hasExchangeRate(localCurrency)) {
+    return staticRatio(`No exchange rate for ${localCurrency}`);
+  }
+
+  const pppPriceInLocal = context.baseUsdPrice * pppConversionFactor;
+  const pppPriceInUsd = pppPriceInLocal / localExchangeRate;
+  const rawRealMultiplier = pppPriceInUsd / context.baseUsdPrice;
+  const effective = normalise(rawRealMultiplier, `; billed in ${currencyCode}, not ${localCurrency}`);
+
+  // PPP producing HIGHER prices than base usually means the local currency
+  // has collapsed since the PPP year; the policy fallback takes over.
+  return { multiplier: effective, source, aboveBase: effective > 1.0 && rawRealMultiplier > 1.0 };
+}
+
+const pppStrategy = createPppStrategy({
+  id: 'ppp',
+  label: 'PPP (GDP)',
+  title: 'PPP-Adjusted (Recommended)',
+  description:
+    'Lower prices for lower-income regions based on World Bank purchasing power parity data (GDP). ' +
+    'Hyperinflation regions follow the unstable-currency policy in Settings.',
+  name: 'PPP',
+  conversionFactor: (entry) => entry?.pppConversionFactor,
+  multiplier: (entry) => entry?.pppMultiplier,
+});
+
+const consumptionPppStrategy = createPppStrategy({
+  id: 'ppp-consumption',
+  label: 'PPP (consumption)',
+  title: 'PPP-Adjusted (Consumption)',
+  description:
+    'Like PPP, but using the World Bank private-consumption conversion factor, which tracks ' +
+    'household prices rather than the whole economy. Differs most in oil and tourism economies.',
+  name: 'Consumption PPP',
+  conversionFactor: (entry) => entry?.consumptionPppConversionFactor,
+  multiplier: (entry) => entry?.consumptionPppMultiplier,
+});
+
+const bigMacStrategy: PricingStrategyModule = {
+  id: 'bigmac',
+  label: 'Big Mac',
+  title: 'Big Mac Index',
+  description: "Prices based on The Economist's Big Mac Index - a real-world measure of purchasing power.",
+  attribution: 'Data: The Economist (2025) • 53 countries',
+  requires: ['ppp-data', 'exchange-rates'],
+  sourceLabels: { 'big-mac': 'Big Mac Index' },
+  index: true,
+  hasEntry: (context) => context.alpha2Code in BIG_MAC_INDEX,
+  computeMultiplier: (_region, context) => ({
+    multiplier: indexRatio(
+      context,
+      'Big Mac index',
+      context.dynamicEntry?.bigMacMultiplier ?? getBigMacMultiplier(context.alpha2Code),
+      context.baseDynamicEntry?.bigMacMultiplier ?? getBigMacMultiplier(context.alpha2BaseRegion)
+    ),
+    source: 'big-mac',
+  }),
+};
+
+const spotifyStrategy: PricingStrategyModule = {
+  id: 'spotify',
+  label: 'Spotify',
+  title: 'Spotify Index',
+  description: 'Prices based on Spotify Premium Individual list prices by country.',
+  attribution: `Data: Spotify list prices • ${Object.keys(SPOTIFY_PRICE_INDEX).length} countries`,
+  requires: ['exchange-rates'],
+  sourceLabels: { spotify: 'Spotify Premium prices' },
+  index: true,
+  hasEntry: (context) => context.alpha2Code in SPOTIFY_PRICE_INDEX,
+  computeMultiplier: (_region, context) => ({
+    multiplier: indexRatio(
+      context,
+      'Spotify index',
+      getSpotifyMultiplier(context.alpha2Code),
+      getSpotifyMultiplier(context.alpha2BaseRegion)
+    ),
+    source: 'spotify',
+  }),
+};
+
+const gniStrategy: PricingStrategyModule = {
+  id: 'gni',
+  label: 'GNI per capita',
+  title: 'GNI per Capita',
+  description:
+    'Affordability from World Bank GNI per capita (Atlas method): the square root of income relative to the base region.',
+  attribution: `Data: World Bank NY.GNP.PCAP.CD (CC-BY-4.0) • ${Object.keys(GNI_INDEX).length} countries`,
+  requires: ['exchange-rates'],
+  sourceLabels: { gni: 'World Bank GNI per capita' },
+  index: true,
+  hasEntry: (context) => context.alpha2Code in GNI_INDEX,
+  computeMultiplier: (_region, context) => ({
+    multiplier: indexRatio(
+      context,
+      'GNI index',
+      getGniMultiplier(context.alpha2Code),
+      getGniMultiplier(context.alpha2BaseRegion)
+    ),
+    source: 'gni',
+  }),
+};
+
+const blendStrategy: PricingStrategyModule = {
+  id: 'blend',
+  label: 'Blend',
+  title: 'Blended Index',
+  description: 'Weighted mix of the PPP, Netflix and Big Mac multipliers, using the weights you set below.',
+  requires: ['ppp-data', 'exchange-rates'],
+  sourceLabels: { blend: 'Blended index' },
+  index: true,
+  computeMultiplier: (_region, context) => {
+    // Weighted mean of the PPP, Netflix and Big Mac multipliers. Each index is
+    // evaluated exactly as its single-index strategy would (base-region
+    // normalisation, PPP hyperinflation override, ...), so a 100% weight on
+    // one index reproduces that strategy.
+    const blend = context.options.blend ?? DEFAULT_BLEND_CONFIG;
+    const parts = BLEND_INDEXES
+      .filter((index) => (blend.weights[index] ?? 0) > 0)
+      .map((index) => {
+        const hasEntry = getPricingStrategy(index)?.hasEntry?.(context) ?? true;
+        return {
+          index,
+          rawWeight: blend.weights[index],
+          hasEntry,
+          multiplier: !hasEntry && blend.missing === 'neutral' ? 1.0 : context.multiplierFor(index),
+        };
+      });
+
+    // Under 'renormalize', a region missing from every weighted index keeps the
+    // index defaults rather than collapsing to a zero-weight blend.
+    const dropMissing =
+      blend.missing === 'renormalize' && parts.some((part) => part.hasEntry);
+    const included = parts.filter((part) => part.hasEntry || !dropMissing);
+    const totalWeight = included.reduce((sum, part) => sum + part.rawWeight, 0);
+
+    const blendContributions: BlendContribution[] = parts.map((part) => {
+      const weight =
+        totalWeight > 0 && included.includes(part) ? part.rawWeight / totalWeight : 0;
+      return {
+        index: part.index,
+        weight,
+        multiplier: part.multiplier,
+        contribution: weight * part.multiplier,
+        filled: !part.hasEntry && weight > 0,
+      };
+    });
+
+    const multiplier = totalWeight > 0
+      ? blendContributions.reduce((sum, part) => sum + part.contribution, 0)
+      : 1.0;
+    context.trace({
+      step: 'multiplier',
+      detail: `Blend: ${blendContributions
+        .filter((part) => part.weight > 0)
+        .map((part) => `${Math.round(part.weight * 100)}% ${part.index} ${traceNumber(part.multiplier)}${part.filled ? ' (filled)' : ''}`)
+        .join(' + ') || 'no weighted index'} = ${traceNumber(multiplier)}`,
+      value: multiplier,
+    });
+    return { multiplier, source: 'blend', blendContributions };
+  },
+};
+
+const proceedsStrategy: PricingStrategyModule = {
+  id: 'proceeds',
+  label: 'Proceeds',
+  title: 'Proceeds Target',
+  description:
+    'Works backwards from the net you want per sale: adds back store commission and VAT/GST, then converts currency. An estimate: the price is rounded like any other, not matched on the store\'s reported proceeds.',
+  requires: ['exchange-rates'],
+  sourceLabels: { proceeds: 'Proceeds target (commission + tax)' },
+  targetsProceeds: true,
+  computeMultiplier: (_region, context) => {
+    // Work backwards from a target developer net per sale (basePrice, in the
+    // base currency): add back the store commission, then VAT/GST where it
+    // is included in the listed price. FX is applied as for 'direct'.
+    const commission = (context.options.proceeds ?? DEFAULT_PROCEEDS_CONFIG).commission;
+    const tax = getTaxRateEntry(context.alpha2Code);
+    const multiplier = (tax.inclusive ? 1 + tax.rate : 1) / (1 - commission);
+    context.trace({
+      step: 'multiplier',
+      detail: `Proceeds target: ${tax.inclusive ? `× (1 + ${traceNumber(tax.rate)} ${tax.name})` : 'tax added at checkout'} ÷ (1 − ${traceNumber(commission)} commission) = ${traceNumber(multiplier)}`,
+      value: multiplier,
+    });
+    return { multiplier, source: 'proceeds' };
+  },
+};
+
+const customStrategy: PricingStrategyModule = {
+  id: 'custom',
+  label: 'Custom',
+  title: 'Custom Multipliers',
+  description: 'Define your own regional price multipliers (coming soon).',
+  requires: ['custom-multipliers', 'exchange-rates'],
+  sourceLabels: { custom: 'Custom multiplier' },
+  computeMultiplier: (_region, context) => {
+    // Use provided custom multiplier with exchange rate
+    const multiplier = context.customMultiplier ?? 1.0;
+    context.trace({ step: 'multiplier', detail: `Custom multiplier ${traceNumber(multiplier)}`, value: multiplier });
+    return { multiplier, source: 'custom' };
+  },
+};
+
+export const BUILT_IN_STRATEGIES: readonly PricingStrategyModule[] = [
+  directStrategy,
+  netflixStrategy,
+  pppStrategy,
+  consumptionPppStrategy,
+  bigMacStrategy,
+  spotifyStrategy,
+  gniStrategy,
+  blendStrategy,
+  proceedsStrategy,
+  customStrategy,
+];
+
+for (const strategy of BUILT_IN_STRATEGIES) {
+  registerPricingStrategy(strategy);
+}
@@ -0,0 +1,67 @@
+// Strategies backed by user-uploaded multiplier indexes (see
+// conversion-indexes/custom-index). Each stored index is registered as its
+// own strategy so it can be picked like PPP or Big Mac.
+import type { CustomIndex } from '../../conversion-indexes/custom-index';
+// Registry functions via ../currency so the built-in strategies are
+// registered (and listed) first
+import {
+  listPricingStrategies,
+  registerPricingStrategy,
+  unregisterPricingStrategy,
+  type PricingStrategyModule,
+} from '../currency';
+import { traceNumber } from './registry';
+
+const ID_PREFIX = 'custom-index:';
+
+export function customIndexStrategyId(index: Pick<CustomIndex, 'id'>): string {
+  return `${ID_PREFIX}${index.id}`;
+}
+
+export function isCustomIndexStrategy(strategyId: string): boolean {
+  return strategyId.startsWith(ID_PREFIX);
+}
+
+export function createCustomIndexStrategy(index: CustomIndex): PricingStrategyModule {
+  const regionCount = Object.keys(index.multipliers).length;
+  return {
+    id: customIndexStrategyId(index),
+    label: index.name,
+    title: index.name,
+    description: 'Uploaded multiplier index, normalised to the base region.',
+    attribution: `Imported ${index.importedAt.slice(0, 10)}${index.fileName ? ` from ${index.fileName}` : ''} • ${regionCount} regions`,
+    requires: ['uploaded-index', 'exchange-rates'],
+    sourceLabels: { 'custom-index': 'Uploaded index' },
+    index: true,
+    hasEntry: (context) => context.alpha2Code in index.multipliers,
+    computeMultiplier: (_region, context) => {
+      // Regions missing from the file sit at the base region's level
+      const baseMultiplier = index.multipliers[context.alpha2BaseRegion] ?? 1.0;
+      const multiplier = index.multipliers[context.alpha2Code] ?? baseMultiplier;
+      const effective = multiplier / baseMultiplier;
+      context.trace({
+        step: 'multiplier',
+        detail: context.alpha2Code in index.multipliers
+          ? `${index.name} ${traceNumber(multiplier)}`
+          : `${context.alpha2Code} is not in ${index.name}: base-region parity`,
+        value: multiplier,
+      });
+      context.trace({
+        step: 'base-normalisation',
+        detail: `÷ ${context.alpha2BaseRegion} ${index.name} ${traceNumber(baseMultiplier)}${context.alpha2BaseRegion in index.multipliers ? '' : ' (not in the index)'} = ${traceNumber(effective)}`,
+        value: effective,
+      });
+      return { multiplier: effective, source: 'custom-index' };
+    },
+  };
+}
+
+// Make the registered uploaded-index strategies match `indexes`
+export function syncCustomIndexStrategies(indexes: CustomIndex[]): void {
+  for (const strategy of listPricingStrategies()) {
+    if (isCustomIndexStrategy(strategy.id)) unregisterPricingStrategy(strategy.id);
+  }
+  for (const index of indexes) {
+    registerPricingStrategy(createCustomIndexStrategy(index));
+  }
+}
@@ -0,0 +1,123 @@
+// Registry of pricing strategies.
+//
+// A strategy turns a region into a multiplier on the (USD-normalised) base
+// price. Everything around it (currency conversion, guardrails, rounding,
+// minimum prices, anchors, bands) is handled by calculateRegionalPrice, so a
+// strategy module only has to answer "how much cheaper or dearer is this
+// region than the base region?".
+//
+// Built-in strategies register themselves in ./builtin. Additional strategies
+// can be registered at start-up with registerPricingStrategy and then appear
+// in the bulk modals and the index checker like the built-in ones.
+import type {
+  DynamicExchangeRates,
+  DynamicPPPData,
+  MultiplierSource,
+  PriceTraceStep,
+  RegionalPricingOptions,
+} from '../currency';
+import type { BlendContribution, UnstableCurrencyHit } from './builtin';
+
+// Data a strategy reads. The UI uses this to show which feeds a strategy
+// depends on and to leave out strategies it cannot drive.
+export type StrategyDataRequirement =
+  | 'ppp-data' // /api/ppp (World Bank factors, back-filled index multipliers)
+  | 'exchange-rates' // live FX beyond the bundled fallback table
+  | 'custom-multipliers' // a per-region multiplier supplied by the caller
+  | 'uploaded-index'; // a multiplier table imported in Settings
+
+export interface StrategyContext {
+  /** Region as passed by the caller (alpha-2 or alpha-3) */
+  regionCode: string;
+  alpha2Code: string;
+  baseRegion: string;
+  alpha2BaseRegion: string;
+  /** Billing currency of the region */
+  currencyCode: string;
+  /** The base price converted to USD */
+  baseUsdPrice: number;
+  /** Per-region multiplier supplied by the caller (the 'custom' strategy) */
+  customMultiplier?: number;
+  dynamicEntry?: DynamicPPPData[string];
+  baseDynamicEntry?: DynamicPPPData[string];
+  dynamicExchangeRates?: DynamicExchangeRates;
+  options: RegionalPricingOptions;
+  /** USD → currency rate: live rates first, then the bundled fallback table */
+  getExchangeRate: (currency: string) => number;
+  /** Whether a real rate exists for the currency (live or fallback) */
+  hasExchangeRate: (currency: string) => boolean;
+  /** Where the rate for a currency comes from, for trace messages */
+  describeExchangeRate: (currency: string) => string;
+  /** The multiplier another registered strategy gives this region */
+  multiplierFor: (strategyId: string) => number;
+  /** Record a step in the price's derivation trace */
+  trace: (step: PriceTraceStep) => void;
+}
+
+export interface StrategyResult {
+  /** Multiplier relative to the base region, applied before currency conversion */
+  multiplier: number;
+  source: MultiplierSource;
+  blendContributions?: BlendContribution[];
+  /** Set when the unstable-currency policy replaced the multiplier */
+  unstableCurrency?: UnstableCurrencyHit;
+}
+
+export interface PricingStrategyModule {
+  /** Stable id, stored in UI state and passed as `strategy` */
+  id: string;
+  /** Short name for radio buttons and selects */
+  label: string;
+  /** Heading for the strategy's tooltip */
+  title: string;
+  description: string;
+  /** Data source credit, if any */
+  attribution?: string;
+  requires: readonly StrategyDataRequirement[];
+  /** Tooltip labels for the `source` values computeMultiplier reports */
+  sourceLabels?: Readonly<Record<string, string>>;
+  /** Multiplier comes from a price or income index (listed in the index checker) */
+  index?: boolean;
+  /** The base price is a proceeds target, grossed up by commission and VAT (an estimate) */
+  targetsProceeds?: boolean;
+  /**
+   * Whether the strategy has real data for the region rather than a default.
+   * Used by the 'blend' missing-entry rule; strategies without it always count.
+   */
+  hasEntry?: (context: StrategyContext) => boolean;
+  computeMultiplier: (region: string, context: StrategyContext) => StrategyResult;
+}
+
+// Compact number formatting for trace messages
+export function traceNumber(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+const strategies = new Map<string, PricingStrategyModule>();
+
+// Register (or replace) a strategy. Registration order is display order.
+export function registerPricingStrategy(module: PricingStrategyModule): void {
+  strategies.set(module.id, module);
+}
+
+export function unregisterPricingStrategy(id: string): void {
+  strategies.delete(id);
+}
+
+export function getPricingStrategy(id: string): PricingStrategyModule | undefined {
+  return strategies.get(id);
+}
+
+export function listPricingStrategies(): PricingStrategyModule[] {
+  return [...strategies.values()];
+}
+
+// Label for a price's multiplierSource, from the first registered strategy
+// that reports it. Unknown sources are shown as-is.
+export function getMultiplierSourceLabel(source: MultiplierSource): string {
+  for (const strategy of strategies.values()) {
+    const label = strategy.sourceLabels?.[source];
+    if (label) return label;
+  }
+  return source;
+}
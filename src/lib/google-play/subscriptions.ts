@@ -4,11 +4,11 @@ import type {
   Subscription,
   BasePlan,
   RegionalBasePlanConfig,
-  Money,
   RegionsVersion,
 } from './types';
 import { GOOGLE_PLAY_REGIONS, moneyToNumber } from './types';
 import { calculateBulkPrices } from './currency';
+import { applyPriceOperation, type PriceOperation } from './money';
 
 interface GoogleApiSubscription extends Subscription {
   regionsVersion?: RegionsVersion;
@@ -146,18 +146,11 @@ export async function updateBasePlanPrices(
   const missingRegions = allRegionCodes.filter(code => !configMap.has(code));
 
   if (missingRegions.length > 0) {
-    const calculatedPrices = calculateBulkPrices(
-      baseUsdPrice,
-      missingRegions,
-      'direct', // Use simple exchange rate for fill-in regions
-      'nearest-99',
-      undefined,
-      undefined,
-      undefined,
-      undefined,
-      'USD',
-      'US'
-    );
+    const calculatedPrices = calculateBulkPrices(missingRegions, {
+      basePrice: baseUsdPrice,
+      strategy: 'direct', // Use simple exchange rate for fill-in regions
+      rounding: 'nearest-99',
+    });
     for (const calculated of calculatedPrices) {
       configMap.set(calculated.regionCode, {
         regionCode: calculated.regionCode,
@@ -239,18 +232,11 @@ export async function deleteBasePlanRegionPrice(
   const missingRegions = allRegionCodes.filter(code => !configMap.has(code));
 
   if (missingRegions.length > 0) {
-    const calculatedPrices = calculateBulkPrices(
-      baseUsdPrice,
-      missingRegions,
-      'direct',
-      'nearest-99',
-      undefined,
-      undefined,
-      undefined,
-      undefined,
-      'USD',
-      'US'
-    );
+    const calculatedPrices = calculateBulkPrices(missingRegions, {
+      basePrice: baseUsdPrice,
+      strategy: 'direct',
+      rounding: 'nearest-99',
+    });
     for (const calculated of calculatedPrices) {
       configMap.set(calculated.regionCode, {
         regionCode: calculated.regionCode,
@@ -298,50 +284,10 @@ export async function deleteBasePlanRegionPrice(
 
 export function calculateNewBasePlanPrice(
   currentConfig: RegionalBasePlanConfig,
-  operation: { type: 'fixed' | 'percentage' | 'round'; value?: number; roundTo?: number }
+  operation: PriceOperation
 ): RegionalBasePlanConfig {
-  const parsedUnits = parseFloat(currentConfig.price.units);
-  if (isNaN(parsedUnits) || !Number.isFinite(parsedUnits)) {
-    throw new Error(`Invalid price units value: "${currentConfig.price.units}"`);
-  }
-  const currentAmount = parsedUnits +
-    (currentConfig.price.nanos ? currentConfig.price.nanos / 1_000_000_000 : 0);
-
-  let newAmount: number;
-
-  switch (operation.type) {
-    case 'fixed':
-      newAmount = operation.value ?? currentAmount;
-      break;
-    case 'percentage':
-      newAmount = currentAmount * (1 + (operation.value ?? 0) / 100);
-      break;
-    case 'round':
-      const roundTo = operation.roundTo ?? 0.99;
-      newAmount = Math.floor(currentAmount) + roundTo;
-      break;
-    default:
-      newAmount = currentAmount;
-  }
-
-  newAmount = Math.max(0, newAmount);
-
-  let units = Math.floor(newAmount);
-  let nanos = Math.round((newAmount - units) * 1_000_000_000);
-
-  if (nanos > 999_999_999) {
-    units += Math.floor(nanos / 1_000_000_000);
-    nanos = nanos % 1_000_000_000;
-  }
-
-  const newPrice: Money = {
-    currencyCode: currentConfig.price.currencyCode,
-    units: units.toString(),
-    nanos: nanos > 0 ? nanos : undefined,
-  };
-
   return {
     ...currentConfig,
-    price: newPrice,
+    price: applyPriceOperation(currentConfig.price, operation),
   };
 }
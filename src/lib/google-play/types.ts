@@ -1,5 +1,8 @@
 // Google Play Developer API Type Definitions
 
+import { formatCurrency, getPriceDecimals } from '../currencies/registry';
+import { moneyToNanos, nanosToMoney, nanosToNumber, numberToNanos, roundNanos } from './money';
+
 export interface ServiceAccountCredentials {
   type: string;
   project_id: string;
@@ -378,60 +381,21 @@ export type RegionCode = typeof GOOGLE_PLAY_REGIONS[number]['code'];
 
 // Helper function to format Money to display string
 export function formatMoney(money: Money): string {
-  const amount = safeParseUnits(money.units) + (money.nanos ? money.nanos / 1_000_000_000 : 0);
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: money.currencyCode,
-  }).format(amount);
-}
-
-// Safely parse money units string to number, throwing on invalid values
-function safeParseUnits(units: string): number {
-  if (units == null || units === '') return 0;
-  const value = parseFloat(units);
-  if (isNaN(value) || !Number.isFinite(value)) {
-    throw new Error(`Invalid price units value: "${units}"`);
-  }
-  return value;
-}
-
-// Clamp nanos to valid range [0, 999_999_999], carrying overflow into units
-function clampNanos(units: number, nanos: number): { units: number; nanos: number } {
-  if (nanos > 999_999_999) {
-    units += Math.floor(nanos / 1_000_000_000);
-    nanos = nanos % 1_000_000_000;
-  }
-  return { units, nanos };
+  return formatCurrency(moneyToNumber(money), money.currencyCode, { platform: 'google' });
 }
 
 // Helper function to parse string to Money
 export function parseMoney(amount: number, currencyCode: string): Money {
-  if (isNaN(amount) || !Number.isFinite(amount)) {
-    throw new Error(`Invalid price amount: ${amount}`);
-  }
-  // Round to 2 decimal places first to avoid floating point precision issues
-  // Google Play requires prices to be in valid currency increments
-  const roundedAmount = Math.round(amount * 100) / 100;
-  let units = Math.floor(roundedAmount);
-  // nanos must be multiples of 10,000,000 (representing cents for 2-decimal currencies)
-  const cents = Math.round((roundedAmount - units) * 100);
-  let nanos = cents * 10_000_000;
-
-  // Clamp nanos to valid range, carrying overflow into units
-  if (nanos > 999_999_999) {
-    const { units: u, nanos: n } = clampNanos(units, nanos);
-    units = u;
-    nanos = n;
-  }
-
-  return {
-    currencyCode,
-    units: units.toString(),
-    nanos: nanos > 0 ? nanos : undefined,
-  };
+  // Round in decimal arithmetic so float noise never reaches the API. Google
+  // Play requires prices to be in valid currency increments: cents (nanos in
+  // multiples of 10,000,000), or whole units for currencies such as JPY and HUF.
+  return nanosToMoney(
+    roundNanos(numberToNanos(amount), getPriceDecimals(currencyCode, 'google')),
+    currencyCode
+  );
 }
 
 // Helper function to get Money as number
 export function moneyToNumber(money: Money): number {
-  return safeParseUnits(money.units) + (money.nanos ? money.nanos / 1_000_000_000 : 0);
+  return nanosToNumber(moneyToNanos(money));
 }
@@ -82,6 +82,16 @@ export const moneySchema = z.object({
   nanos: z.number().int().min(-999999999).max(999999999).optional(),
 });
 
+/**
+ * Minimum meaningful price change (see lib/google-play/change-threshold)
+ * - relative: fraction of the live price, 0–1
+ * - absolute: amount in the region's own currency
+ */
+export const changeThresholdSchema = z.object({
+  relative: z.number().min(0).max(1).optional(),
+  absolute: z.number().min(0).optional(),
+});
+
 /**
  * Package name validation for Google Play
  * - Must follow Java package naming (reverse domain notation)
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregatePPPObservations,
+  formatPPPYearRange,
+  parsePPPYearSelection,
+  pppApiUrl,
+  worldBankDateQuery,
+} from '../ppp-years';
+
+describe('parsePPPYearSelection', () => {
+  it('defaults to the latest year', () => {
+    expect(parsePPPYearSelection(new URLSearchParams())).toEqual({ mode: 'latest' });
+  });
+
+  it('reads a fixed year or a rolling average', () => {
+    expect(parsePPPYearSelection(new URLSearchParams('pppYear=2021'))).toEqual({ mode: 'year', year: 2021 });
+    expect(parsePPPYearSelection(new URLSearchParams('pppAverage=3'))).toEqual({ mode: 'average', years: 3 });
+  });
+
+  it('ignores out-of-range values', () => {
+    expect(parsePPPYearSelection(new URLSearchParams('pppYear=1990'))).toEqual({ mode: 'latest' });
+    expect(parsePPPYearSelection(new URLSearchParams('pppAverage=1'))).toEqual({ mode: 'latest' });
+    expect(parsePPPYearSelection(new URLSearchParams('pppAverage=abc'))).toEqual({ mode: 'latest' });
+  });
+});
+
+describe('pppApiUrl', () => {
+  it('round-trips through parsePPPYearSelection', () => {
+    for (const selection of [
+      { mode: 'latest' as const },
+      { mode: 'year' as const, year: 2020 },
+      { mode: 'average' as const, years: 5 },
+    ]) {
+      const url = new URL(pppApiUrl(selection, true), 'http://localhost');
+      expect(url.pathname).toBe('/api/ppp');
+      expect(url.searchParams.get('refresh')).toBe('true');
+      expect(parsePPPYearSelection(url.searchParams)).toEqual(selection);
+    }
+    expect(pppApiUrl({ mode: 'latest' })).toBe('/api/ppp');
+  });
+});
+
+describe('worldBankDateQuery', () => {
+  it('maps each mode to World Bank parameters', () => {
+    expect(worldBankDateQuery({ mode: 'latest' })).toBe('mrnev=1');
+    expect(worldBankDateQuery({ mode: 'year', year: 2021 })).toBe('date=2021');
+    expect(worldBankDateQuery({ mode: 'average', years: 3 })).toBe('mrnev=3');
+  });
+});
+
+describe('aggregatePPPObservations', () => {
+  it('averages each region over the years it has and records the range', () => {
+    const result = aggregatePPPObservations([
+      { regionCode: 'TR', pppConversionFactor: 9, year: 2021 },
+      { regionCode: 'TR', pppConversionFactor: 12, year: 2022 },
+      { regionCode: 'TR', pppConversionFactor: 15, year: 2023 },
+      { regionCode: 'DE', pppConversionFactor: 0.7, year: 2022 },
+    ]);
+    expect(result.TR.pppConversionFactor).toBeCloseTo(12, 10);
+    expect(result.TR.years).toEqual({ from: 2021, to: 2023 });
+    expect(result.DE).toEqual({ pppConversionFactor: 0.7, years: { from: 2022, to: 2022 } });
+  });
+});
+
+describe('formatPPPYearRange', () => {
+  it('shows a single year or a range', () => {
+    expect(formatPPPYearRange({ from: 2022, to: 2022 })).toBe('2022');
+    expect(formatPPPYearRange({ from: 2020, to: 2022 })).toBe('2020–2022');
+  });
+});
@@ -0,0 +1,115 @@
+// Which World Bank observation(s) PPP pricing uses for each region. The API's
+// default (most recent non-empty value) lets regions drift to a newer year
+// whenever the World Bank fills one in; a fixed year or a rolling average keeps
+// prices stable between runs.
+
+export type PPPYearSelection =
+  | { mode: 'latest' }
+  | { mode: 'year'; year: number }
+  | { mode: 'average'; years: number };
+
+export const DEFAULT_PPP_YEAR_SELECTION: PPPYearSelection = { mode: 'latest' };
+
+// Oldest reference year offered; ICP benchmark coverage is thin before this
+export const MIN_PPP_YEAR = 2011;
+export const MAX_PPP_AVERAGE_YEARS = 10;
+
+// Years an observation covers: from === to unless it is an average
+export interface PPPYearRange {
+  from: number;
+  to: number;
+}
+
+export interface PPPObservation {
+  regionCode: string;
+  pppConversionFactor: number;
+  year: number;
+}
+
+// Stable key for caching and request parameters
+export function pppYearSelectionKey(selection: PPPYearSelection): string {
+  switch (selection.mode) {
+    case 'year':
+      return `year-${selection.year}`;
+    case 'average':
+      return `avg-${selection.years}`;
+    default:
+      return 'latest';
+  }
+}
+
+// World Bank v2 query parameters for the selection
+export function worldBankDateQuery(selection: PPPYearSelection): string {
+  switch (selection.mode) {
+    case 'year':
+      return `date=${selection.year}`;
+    case 'average':
+      // most recent N non-empty values per country
+      return `mrnev=${selection.years}`;
+    default:
+      return 'mrnev=1';
+  }
+}
+
+// Read the selection from /api/ppp query parameters (?pppYear=2021 or
+// ?pppAverage=3). Invalid values fall back to the latest year.
+export function parsePPPYearSelection(params: URLSearchParams): PPPYearSelection {
+  const year = Number(params.get('pppYear'));
+  if (Number.isInteger(year) && year >= MIN_PPP_YEAR && year <= new Date().getFullYear()) {
+    return { mode: 'year', year };
+  }
+  const years = Number(params.get('pppAverage'));
+  if (Number.isInteger(years) && years >= 2 && years <= MAX_PPP_AVERAGE_YEARS) {
+    return { mode: 'average', years };
+  }
+  return DEFAULT_PPP_YEAR_SELECTION;
+}
+
+// Client-side URL for /api/ppp with the selection applied
+export function pppApiUrl(selection: PPPYearSelection, forceRefresh = false): string {
+  const params = new URLSearchParams();
+  if (forceRefresh) params.set('refresh', 'true');
+  if (selection.mode === 'year') params.set('pppYear', String(selection.year));
+  if (selection.mode === 'average') params.set('pppAverage', String(selection.years));
+  const query = params.toString();
+  return query ? `/api/ppp?${query}` : '/api/ppp';
+}
+
+// Collapse the observations returned for a selection to one per region. With
+// 'average' each region averages whatever years it has within its most recent N.
+export function aggregatePPPObservations(
+  observations: PPPObservation[]
+): Record<string, { pppConversionFactor: number; years: PPPYearRange }> {
+  const byRegion = new Map<string, PPPObservation[]>();
+  for (const observation of observations) {
+    const list = byRegion.get(observation.regionCode) ?? [];
+    list.push(observation);
+    byRegion.set(observation.regionCode, list);
+  }
+
+  const result: Record<string, { pppConversionFactor: number; years: PPPYearRange }> = {};
+  for (const [regionCode, list] of byRegion) {
+    const total = list.reduce((sum, o) => sum + o.pppConversionFactor, 0);
+    const years = list.map((o) => o.year);
+    result[regionCode] = {
+      pppConversionFactor: total / list.length,
+      years: { from: Math.min(...years), to: Math.max(...years) },
+    };
+  }
+  return result;
+}
+
+export function formatPPPYearRange(range: PPPYearRange): string {
+  return range.from === range.to ? String(range.to) : `${range.from}–${range.to}`;
+}
+
+export function describePPPYearSelection(selection: PPPYearSelection): string {
+  switch (selection.mode) {
+    case 'year':
+      return `${selection.year} only`;
+    case 'average':
+      return `${selection.years}-year average`;
+    default:
+      return 'Latest available';
+  }
+}
@@ -2,6 +2,14 @@
 // API Documentation: https://datahelpdesk.worldbank.org/knowledgebase/articles/889392
 
 import { GOOGLE_PLAY_REGIONS } from '@/lib/google-play/types';
+import {
+  aggregatePPPObservations,
+  DEFAULT_PPP_YEAR_SELECTION,
+  pppYearSelectionKey,
+  worldBankDateQuery,
+  type PPPYearRange,
+  type PPPYearSelection,
+} from './ppp-years';
 
 // Map World Bank 3-letter codes back to 2-letter region codes
 const WORLD_BANK_TO_REGION: Record<string, string> = {
@@ -177,9 +185,19 @@ export interface PPPData {
   year: number;
 }
 
+// World Bank indicators for the two PPP conversion factors (LCU per international $)
+export const PPP_GDP_INDICATOR = 'PA.NUS.PPP';
+export const PPP_CONSUMPTION_INDICATOR = 'PA.NUS.PRVT.PP';
+
 export interface PPPMultipliers {
   multipliers: Record<string, number>;
   pppConversionFactors: Record<string, number>;
+  // Private-consumption PPP factors; empty when the indicator could not be fetched
+  consumptionPppConversionFactors: Record<string, number>;
+  // Year(s) behind each region's factor, per indicator
+  pppYears: Record<string, PPPYearRange>;
+  consumptionPppYears: Record<string, PPPYearRange>;
+  yearSelection: PPPYearSelection;
   baseYear: number;
   fetchedAt: Date;
 }
@@ -204,21 +222,28 @@ interface WorldBankDataPoint {
   decimal: number;
 }
 
-// Cache for PPP data (in-memory, will reset on server restart)
-let cachedPPPData: PPPMultipliers | null = null;
+// Cache for PPP data per year selection (in-memory, will reset on server restart)
+const cachedPPPData = new Map<string, PPPMultipliers>();
 const CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
 
-// Fetch PPP conversion factors from World Bank API
-export async function fetchPPPData(): Promise<PPPData[]> {
+// Fetch PPP conversion factors from World Bank API. With an 'average'
+// selection each region can return several observations.
+export async function fetchPPPData(
+  indicator: string = PPP_GDP_INDICATOR,
+  selection: PPPYearSelection = DEFAULT_PPP_YEAR_SELECTION
+): Promise<PPPData[]> {
   // PA.NUS.PPP = PPP conversion factor, GDP (LCU per international $)
-  // mrnev=1 = most recent non-empty value
+  // PA.NUS.PRVT.PP = PPP conversion factor, private consumption (LCU per international $)
+  // mrnev=1 = most recent non-empty value, mrnev=N = the last N, date=YYYY = one year
   // Using a more robust URL format for World Bank API v2
   // We'll try multiple URL variations to handle API changes or regional restrictions
+  const perPage = 300 * (selection.mode === 'average' ? selection.years : 1);
+  const query = `format=json&per_page=${perPage}&${worldBankDateQuery(selection)}`;
   const urls = [
-    'https://api.worldbank.org/v2/country/all/indicator/PA.NUS.PPP?format=json&per_page=300&mrnev=1',
-    'https://api.worldbank.org/v2/en/country/all/indicator/PA.NUS.PPP?format=json&per_page=300&mrnev=1',
-    'http://api.worldbank.org/v2/country/all/indicator/PA.NUS.PPP?format=json&per_page=300&mrnev=1',
-    'https://api.worldbank.org/v2/country/WLD;USA;DEU;FRA;GBR;JPN;CHN;IND;BRA;RUS;TUR;ARG;TUR;MEX/indicator/PA.NUS.PPP?format=json&per_page=300&mrnev=1'
+    `https://api.worldbank.org/v2/country/all/indicator/${indicator}?${query}`,
+    `https://api.worldbank.org/v2/en/country/all/indicator/${indicator}?${query}`,
+    `http://api.worldbank.org/v2/country/all/indicator/${indicator}?${query}`,
+    `https://api.worldbank.org/v2/country/WLD;USA;DEU;FRA;GBR;JPN;CHN;IND;BRA;RUS;TUR;ARG;TUR;MEX/indicator/${indicator}?${query}`
   ];
 
   let lastError: Error | null = null;
@@ -285,34 +310,51 @@ function processWorldBankResponse(data: unknown): PPPData[] {
 }
 
 // Calculate PPP multipliers relative to US
-export async function getPPPMultipliers(forceRefresh = false): Promise<PPPMultipliers> {
+export async function getPPPMultipliers(
+  forceRefresh = false,
+  selection: PPPYearSelection = DEFAULT_PPP_YEAR_SELECTION
+): Promise<PPPMultipliers> {
+  const cacheKey = pppYearSelectionKey(selection);
+  const cached = cachedPPPData.get(cacheKey);
+
   // Check cache
-  if (!forceRefresh && cachedPPPData) {
-    const age = Date.now() - cachedPPPData.fetchedAt.getTime();
+  if (!forceRefresh && cached) {
+    const age = Date.now() - cached.fetchedAt.getTime();
     if (age < CACHE_DURATION_MS) {
-      return cachedPPPData;
+      return cached;
     }
   }
 
   try {
-    const pppData = await fetchPPPData();
+    // The consumption factor is optional: a failure there keeps the GDP data usable
+    const [gdpObservations, consumptionObservations] = await Promise.all([
+      fetchPPPData(PPP_GDP_INDICATOR, selection),
+      fetchPPPData(PPP_CONSUMPTION_INDICATOR, selection).catch((error) => {
+        console.warn('Failed to fetch consumption PPP data from World Bank:', error);
+        return [] as PPPData[];
+      }),
+    ]);
+    const pppData = aggregatePPPObservations(gdpObservations);
+    const consumptionData = aggregatePPPObservations(consumptionObservations);
 
     // Find US PPP factor (should be close to 1, but let's normalize)
-    const usPPP = pppData.find(d => d.regionCode === 'US');
+    const usPPP = pppData['US'];
     if (!usPPP) {
       throw new Error('US PPP data not found');
     }
 
     const multipliers: Record<string, number> = {};
     const pppConversionFactors: Record<string, number> = {};
-    const baseYear = usPPP.year;
+    const pppYears: Record<string, PPPYearRange> = {};
+    const baseYear = usPPP.years.to;
 
-    for (const data of pppData) {
+    for (const [regionCode, data] of Object.entries(pppData)) {
       // Store the raw PPP conversion factor
       // PPP conversion factor = local currency units per international dollar
       // This IS the "fair" exchange rate based on purchasing power
       // For PPP pricing: price_local = price_USD * pppConversionFactor
-      pppConversionFactors[data.regionCode] = data.pppConversionFactor;
+      pppConversionFactors[regionCode] = data.pppConversionFactor;
+      pppYears[regionCode] = data.years;
 
       // Calculate the multiplier relative to the MARKET exchange rate
       // multiplier = PPP_Factor / Market_Exchange_Rate
@@ -321,27 +363,42 @@ export async function getPPPMultipliers(forceRefresh = false): Promise<PPPMultip
       
       // For backward compatibility in this object, we still provide a US-relative multiplier
       const multiplier = usPPP.pppConversionFactor / data.pppConversionFactor;
-      multipliers[data.regionCode] = Math.max(0.1, Math.min(2.0, multiplier));
+      multipliers[regionCode] = Math.max(0.1, Math.min(2.0, multiplier));
     }
 
     // Ensure US is exactly 1.0
     multipliers['US'] = 1.0;
     pppConversionFactors['US'] = 1.0;
 
-    cachedPPPData = {
+    const consumptionPppConversionFactors: Record<string, number> = {};
+    const consumptionPppYears: Record<string, PPPYearRange> = {};
+    for (const [regionCode, data] of Object.entries(consumptionData)) {
+      consumptionPppConversionFactors[regionCode] = data.pppConversionFactor;
+      consumptionPppYears[regionCode] = data.years;
+    }
+    if (consumptionData['US']) {
+      consumptionPppConversionFactors['US'] = 1.0;
+    }
+
+    const result: PPPMultipliers = {
       multipliers,
       pppConversionFactors,
+      consumptionPppConversionFactors,
+      pppYears,
+      consumptionPppYears,
+      yearSelection: selection,
       baseYear,
       fetchedAt: new Date(),
     };
+    cachedPPPData.set(cacheKey, result);
 
-    return cachedPPPData;
+    return result;
   } catch (error) {
     console.error('Failed to fetch PPP data from World Bank:', error);
 
     // Return cached data if available, even if stale
-    if (cachedPPPData) {
-      return cachedPPPData;
+    if (cached) {
+      return cached;
     }
 
     throw error;
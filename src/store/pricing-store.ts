@@ -0,0 +1,146 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  DEFAULT_LOCALE_CHARM_ENDINGS,
+  type PriceEndingTable,
+} from '@/lib/google-play/price-endings';
+import type { CustomIndex } from '@/lib/conversion-indexes/custom-index';
+import {
+  DEFAULT_PPP_YEAR_SELECTION,
+  type PPPYearSelection,
+} from '@/lib/world-bank/ppp-years';
+import { syncCustomIndexStrategies } from '@/lib/google-play/strategies/custom-index';
+import type { PriceRelationship } from '@/lib/google-play/price-relationships';
+import type { ProductFamily } from '@/lib/google-play/pack-ladder';
+import {
+  DEFAULT_UNSTABLE_CURRENCY_POLICY,
+  type UnstableCurrencyPolicy,
+} from '@/lib/google-play/currency';
+import type { ChangeThreshold } from '@/lib/google-play/change-threshold';
+import type { PriceRollout } from '@/lib/google-play/price-rollout';
+import type { PricingPlan } from '@/lib/google-play/pricing-plan';
+
+// User pricing preferences shared by the bulk modals and the index checker.
+interface PricingState {
+  // Per-currency endings for 'locale-charm' rounding
+  priceEndings: PriceEndingTable;
+  // Multiplier indexes uploaded in Settings, each offered as a strategy
+  customIndexes: CustomIndex[];
+  // World Bank year(s) used for PPP data
+  pppYearSelection: PPPYearSelection;
+  // Cross-product rules checked by the editors, e.g. annual ≤ 10× monthly
+  priceRelationships: PriceRelationship[];
+  // Consumable packs priced together by the pack ladder (e.g. coin packs)
+  productFamilies: ProductFamily[];
+  // What the PPP strategies do for hyperinflation / unstable currencies
+  unstableCurrencyPolicy: UnstableCurrencyPolicy;
+  // Minimum meaningful change; smaller moves keep the live price
+  changeThreshold: ChangeThreshold;
+  // Stepped rollouts with steps still to send to the store
+  priceRollouts: PriceRollout[];
+  // Bulk pricing settings saved for the FX scenario simulator
+  pricingPlans: PricingPlan[];
+
+  setPriceEndings: (table: PriceEndingTable) => void;
+  setPppYearSelection: (selection: PPPYearSelection) => void;
+  saveCustomIndex: (index: CustomIndex) => void;
+  removeCustomIndex: (id: string) => void;
+  addPriceRelationship: (relationship: PriceRelationship) => void;
+  removePriceRelationship: (id: string) => void;
+  saveProductFamily: (family: ProductFamily) => void;
+  removeProductFamily: (id: string) => void;
+  setUnstableCurrencyPolicy: (policy: UnstableCurrencyPolicy) => void;
+  setChangeThreshold: (threshold: ChangeThreshold) => void;
+  savePriceRollout: (rollout: PriceRollout) => void;
+  removePriceRollout: (id: string) => void;
+  markRolloutStepSubmitted: (id: string, index: number) => void;
+  savePricingPlan: (plan: PricingPlan) => void;
+  removePricingPlan: (id: string) => void;
+}
+
+export const usePricingStore = create<PricingState>()(
+  persist(
+    (set) => ({
+      priceEndings: DEFAULT_LOCALE_CHARM_ENDINGS,
+      customIndexes: [],
+      pppYearSelection: DEFAULT_PPP_YEAR_SELECTION,
+      priceRelationships: [],
+      productFamilies: [],
+      unstableCurrencyPolicy: DEFAULT_UNSTABLE_CURRENCY_POLICY,
+      changeThreshold: {},
+      priceRollouts: [],
+      pricingPlans: [],
+
+      setPriceEndings: (table) => set({ priceEndings: table }),
+      setPppYearSelection: (selection) => set({ pppYearSelection: selection }),
+      // Re-importing an index with the same name replaces it
+      saveCustomIndex: (index) =>
+        set((state) => ({
+          customIndexes: [...state.customIndexes.filter((i) => i.id !== index.id), index],
+        })),
+      removeCustomIndex: (id) =>
+        set((state) => ({
+          customIndexes: state.customIndexes.filter((i) => i.id !== id),
+        })),
+      addPriceRelationship: (relationship) =>
+        set((state) => ({ priceRelationships: [...state.priceRelationships, relationship] })),
+      removePriceRelationship: (id) =>
+        set((state) => ({
+          priceRelationships: state.priceRelationships.filter((r) => r.id !== id),
+        })),
+      // Saving a family with an existing id replaces it
+      saveProductFamily: (family) =>
+        set((state) => ({
+          productFamilies: [...state.productFamilies.filter((f) => f.id !== family.id), family],
+        })),
+      removeProductFamily: (id) =>
+        set((state) => ({
+          productFamilies: state.productFamilies.filter((f) => f.id !== id),
+        })),
+      setUnstableCurrencyPolicy: (policy) => set({ unstableCurrencyPolicy: policy }),
+      setChangeThreshold: (threshold) => set({ changeThreshold: threshold }),
+      // A new rollout for the same item replaces the old one
+      savePriceRollout: (rollout) =>
+        set((state) => ({
+          priceRollouts: [
+            ...state.priceRollouts.filter(
+              (r) => r.id !== rollout.id &&
+                !(r.platform === rollout.platform && r.productId === rollout.productId && r.basePlanId === rollout.basePlanId)
+            ),
+            rollout,
+          ],
+        })),
+      removePriceRollout: (id) =>
+        set((state) => ({
+          priceRollouts: state.priceRollouts.filter((r) => r.id !== id),
+        })),
+      markRolloutStepSubmitted: (id, index) =>
+        set((state) => ({
+          priceRollouts: state.priceRollouts.map((r) =>
+            r.id === id
+              ? { ...r, steps: r.steps.map((step, i) => (i === index ? { ...step, submittedAt: new Date().toISOString() } : step)) }
+              : r
+          ),
+        })),
+      savePricingPlan: (plan) =>
+        set((state) => ({
+          pricingPlans: [...state.pricingPlans.filter((p) => p.id !== plan.id), plan],
+        })),
+      removePricingPlan: (id) =>
+        set((state) => ({
+          pricingPlans: state.pricingPlans.filter((p) => p.id !== id),
+        })),
+    }),
+    {
+      name: 'pricing-preferences',
+    }
+  )
+);
+
+// Keep the strategy registry in step with the stored indexes
+syncCustomIndexStrategies(usePricingStore.getState().customIndexes);
+usePricingStore.subscribe((state, prev) => {
+  if (state.customIndexes !== prev.customIndexes) {
+    syncCustomIndexStrategies(state.customIndexes);
+  }
+});